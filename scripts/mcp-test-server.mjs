@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+// Minimal MCP server over stdio for trying out the MCP client locally.
+// Add it under Admin > Settings > Tools > MCP Servers with transport "stdio",
+// command "node" and argument "scripts/mcp-test-server.mjs" (relative to the app's working directory).
+import { createInterface } from 'node:readline';
+
+const PROTOCOL_VERSION = '2025-06-18';
+
+const TOOLS = [
+	{
+		name: 'echo',
+		title: 'Echo',
+		description: 'Echo a message back. Useful for checking that MCP tool calls work.',
+		inputSchema: {
+			type: 'object',
+			properties: { message: { type: 'string', description: 'Text to echo back' } },
+			required: ['message']
+		}
+	},
+	{
+		name: 'add',
+		title: 'Add Numbers',
+		description: 'Add two numbers and return the sum.',
+		inputSchema: {
+			type: 'object',
+			properties: { a: { type: 'number' }, b: { type: 'number' } },
+			required: ['a', 'b']
+		}
+	},
+	{
+		name: 'current_time',
+		title: 'Current Time',
+		description: 'Get the current server time as an ISO 8601 string.',
+		inputSchema: { type: 'object', properties: {} }
+	}
+];
+
+function callTool(name, args = {}) {
+	switch (name) {
+		case 'echo':
+			return { content: [{ type: 'text', text: String(args.message ?? '') }] };
+		case 'add':
+			return { content: [{ type: 'text', text: String(Number(args.a) + Number(args.b)) }] };
+		case 'current_time':
+			return { content: [{ type: 'text', text: new Date().toISOString() }] };
+		default:
+			return { content: [{ type: 'text', text: `Unknown tool: ${name}` }], isError: true };
+	}
+}
+
+function handle(message) {
+	switch (message.method) {
+		case 'initialize':
+			return {
+				protocolVersion: message.params?.protocolVersion ?? PROTOCOL_VERSION,
+				capabilities: { tools: {} },
+				serverInfo: { name: 'ezboai-test-server', version: '1.0.0' }
+			};
+		case 'ping':
+			return {};
+		case 'tools/list':
+			return { tools: TOOLS };
+		case 'tools/call':
+			return callTool(message.params?.name, message.params?.arguments);
+		default:
+			throw { code: -32601, message: `Method not found: ${message.method}` };
+	}
+}
+
+function send(payload) {
+	process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...payload }) + '\n');
+}
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+	if (!line.trim()) return;
+
+	let message;
+	try {
+		message = JSON.parse(line);
+	} catch {
+		send({ id: null, error: { code: -32700, message: 'Parse error' } });
+		return;
+	}
+
+	// Notifications (e.g. notifications/initialized) have no id and get no response
+	if (message.id === undefined) return;
+
+	try {
+		send({ id: message.id, result: handle(message) });
+	} catch (error) {
+		send({ id: message.id, error: { code: error.code ?? -32603, message: error.message ?? 'Internal error' } });
+	}
+});
@@ -1,7 +1,7 @@
 import { handle as authHandle } from "./auth.js"
 import type { Handle } from "@sveltejs/kit"
 import { sequence } from "@sveltejs/kit/hooks"
-import { settingsStore, getActivePaymentProvider } from '$lib/server/settings-store'
+import { settingsStore } from '$lib/server/settings-store'
 import { storageService } from '$lib/server/storage.js'
 import { paraglideMiddleware } from "./paraglide/server"
 import { db, users } from '$lib/server/db/index.js'
@@ -9,10 +9,13 @@ import { eq } from 'drizzle-orm'
 import type { Session } from "@auth/sveltekit"
 import { securityHeaders } from '$lib/server/security-headers.js'
 import { authRateLimitMiddleware } from '$lib/server/auth-middleware.js'
-import { OpayService } from '$lib/server/opaybd.js'
+import { ScheduledJobService } from '$lib/server/scheduled-jobs.js'
 import { runAutoMigrations } from '$lib/server/auto-migrate.js'
+import { GenerationJobService } from '$lib/server/generation-jobs.js'
 
 runAutoMigrations().catch(e => console.error('[Startup] Auto-migration failed:', e));
+ScheduledJobService.start();
+GenerationJobService.startWorker();
 
 // Settings handle - loads and caches site settings
 const settingsHandle: Handle = async ({ event, resolve }) => {
@@ -257,40 +260,7 @@ const enhancedAuthHandle: Handle = async ({ event, resolve }) => {
   return response;
 };
 
-const opayRenewalHandle: Handle = async ({ event, resolve }) => {
-  try {
-    const activeProvider = await getActivePaymentProvider();
-    if (activeProvider !== 'opaybd') {
-      return resolve(event);
-    }
-  } catch {
-    return resolve(event);
-  }
-
-  const lastCheck = event.cookies.get('opay_renewal_check');
-  const now = Date.now();
-  const oneHour = 60 * 60 * 1000;
-
-  if (!lastCheck || (now - parseInt(lastCheck)) > oneHour) {
-    OpayService.markExpiredSubscriptionsForRenewal().catch(error => {
-      if (process.env.NODE_ENV === 'development') {
-        console.warn('[Opaybd Renewal] Failed to check expired subscriptions:', error.message);
-      }
-    });
-
-    event.cookies.set('opay_renewal_check', now.toString(), {
-      path: '/',
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 3600
-    });
-  }
-
-  return resolve(event);
-};
-
-// Combine all handles: security headers, auth rate limiting, settings, storage warming, locale default, paraglide, enhanced auth, and opaybd renewal
+// Combine all handles: security headers, auth rate limiting, settings, storage warming, locale default, paraglide, and enhanced auth
 // Storage warming runs after settings to ensure R2 credentials are loaded before storage initialization
 export const handle: Handle = sequence(
   securityHeaders,
@@ -299,6 +269,5 @@ export const handle: Handle = sequence(
   storageWarmingHandle,
   localeDefaultHandle,
   paraglideHandle,
-  enhancedAuthHandle,
-  opayRenewalHandle
+  enhancedAuthHandle
 )
\ No newline at end of file
@@ -0,0 +1,63 @@
+/**
+ * Provider prices in USD. Every field is optional; unset means that unit is free.
+ */
+export interface ModelPricing {
+	prompt?: number; // Per prompt (input) token
+	completion?: number; // Per completion (output) token
+	request?: number; // Per request
+	image?: number; // Per generated image
+	second?: number; // Per second of generated or processed media
+	character?: number; // Per input character (text-to-speech)
+}
+
+/**
+ * What one generation consumed
+ */
+export interface UsageQuantities {
+	promptTokens?: number;
+	completionTokens?: number;
+	images?: number;
+	seconds?: number;
+	characters?: number;
+}
+
+/**
+ * Pricing as returned by OpenRouter's /models endpoint (USD strings per unit)
+ */
+export interface OpenRouterPricing {
+	prompt?: string;
+	completion?: string;
+	request?: string;
+	image?: string;
+}
+
+/**
+ * Provider cost of one generation in USD
+ */
+export function calculateCost(pricing: ModelPricing, usage: UsageQuantities): number {
+	return (
+		(pricing.prompt ?? 0) * (usage.promptTokens ?? 0) +
+		(pricing.completion ?? 0) * (usage.completionTokens ?? 0) +
+		(pricing.request ?? 0) +
+		(pricing.image ?? 0) * (usage.images ?? 0) +
+		(pricing.second ?? 0) * (usage.seconds ?? 0) +
+		(pricing.character ?? 0) * (usage.characters ?? 0)
+	);
+}
+
+/**
+ * Convert OpenRouter pricing; negative values mean "variable" there and are skipped
+ */
+export function parseOpenRouterPricing(pricing: OpenRouterPricing): ModelPricing {
+	const parse = (value?: string) => {
+		const price = value !== undefined ? parseFloat(value) : NaN;
+		return Number.isFinite(price) && price >= 0 ? price : undefined;
+	};
+
+	return {
+		prompt: parse(pricing.prompt),
+		completion: parse(pricing.completion),
+		request: parse(pricing.request),
+		image: parse(pricing.image)
+	};
+}
@@ -1,13 +1,19 @@
 import { createOpenRouter } from '@openrouter/ai-sdk-provider';
-import { streamText, smoothStream, stepCountIs, type ModelMessage } from 'ai';
+import { streamText, generateText, smoothStream, stepCountIs, type ModelMessage } from 'ai';
 import type { AIProvider, AIModelConfig, AIMessage, AIResponse, AIStreamChunk, ChatCompletionParams, ArchitectureObject, AIToolResult } from '../types.js';
 import { env } from '$env/dynamic/private';
 import { db } from '$lib/server/db/index.js';
 import { images } from '$lib/server/db/schema.js';
 import { eq } from 'drizzle-orm';
-import { getOpenRouterApiKey, getOpenRouterSystemPrompt, getPublicOrigin, getSiteName } from '$lib/server/settings-store.js';
+import { getOpenRouterApiKey, getOpenRouterSystemPrompt, getPublicOrigin, getSiteName, getBraveSearchApiKey } from '$lib/server/settings-store.js';
 import { storageService } from '$lib/server/storage.js';
+import { CustomToolsService } from '$lib/server/custom-tools.js';
+import { McpToolsService } from '$lib/server/mcp-tools.js';
 import type { ToolInstance } from '../tools/index.js';
+import { isMcpToolName } from '../tools/mcp.js';
+import { isToolProgress, type ToolExecutionContext, type ToolCompletionRequest } from '../tools/context.js';
+import { parseOpenRouterPricing, type ModelPricing, type OpenRouterPricing } from '../pricing.js';
+import { createSearchBackend, type SearchBackend } from '../research/index.js';
 
 // Get API key from database or fallback to environment variable
 async function getApiKey(): Promise<string> {
@@ -47,6 +53,87 @@ async function getOpenRouterProvider(): Promise<ReturnType<typeof createOpenRout
 	return cachedOpenRouterClient;
 }
 
+// Resolve the web search backend for the deep_research tool
+// RESEARCH_SEARCH_BACKEND=fixture switches to the offline document set (local dev, tests)
+async function getResearchSearchBackend(): Promise<SearchBackend | null> {
+	if (env.RESEARCH_SEARCH_BACKEND === 'fixture') {
+		return createSearchBackend({ type: 'fixture' });
+	}
+
+	try {
+		const apiKey = (await getBraveSearchApiKey()) || env.BRAVE_SEARCH_API_KEY || '';
+		return createSearchBackend({ type: 'brave', apiKey });
+	} catch (error) {
+		console.warn('Failed to get search API key from database, using environment variable:', error);
+		return createSearchBackend({ type: 'brave', apiKey: env.BRAVE_SEARCH_API_KEY || '' });
+	}
+}
+
+// Resolve requested tool names to tool instances
+// Custom tools come from the database; names the user's plan doesn't allow are dropped
+async function resolveTools(toolNames: string[] | undefined, userId?: string): Promise<Record<string, ToolInstance> | undefined> {
+	if (!toolNames || toolNames.length === 0) return undefined;
+
+	const permitted = await CustomToolsService.filterAllowedTools(toolNames, userId);
+	if (permitted.length === 0) {
+		console.warn(`[OpenRouter] Tools not allowed on user's plan: ${toolNames.join(', ')}`);
+		return undefined;
+	}
+
+	const { getToolsAsObject } = await import('../tools/index.js');
+	// Only connect to MCP servers when one of their tools was requested
+	const [customTools, mcpTools] = await Promise.all([
+		CustomToolsService.getActiveTools(),
+		permitted.some(isMcpToolName) ? McpToolsService.getTools() : {}
+	]);
+	const tools = getToolsAsObject(permitted, customTools, mcpTools);
+	return Object.keys(tools).length > 0 ? tools : undefined;
+}
+
+// Build the per-request context handed to tool execute functions
+async function createToolExecutionContext(params: { model: string; userId?: string; chatId?: string }): Promise<ToolExecutionContext> {
+	const { model, userId, chatId } = params;
+
+	return {
+		userId,
+		chatId,
+		searchBackend: await getResearchSearchBackend(),
+		// Guests have no usage record to count against, so tools can't make extra calls for them
+		...(userId && { completeText: (request: ToolCompletionRequest) => completeText(model, userId, request) })
+	};
+}
+
+// One-off completion outside a chat: tool follow-ups (e.g. think_longer passes) and prompt enhancement
+// Each call counts as a text generation so it can't be used for free generations
+export async function completeText(model: string, userId: string, request: ToolCompletionRequest): Promise<string> {
+	// Dynamic import: usage-tracking imports the AI provider registry
+	const { UsageTrackingService } = await import('$lib/server/usage-tracking.js');
+	const reservation = await UsageTrackingService.reserveUsage(userId, 'text');
+
+	let result;
+	try {
+		const provider = await getOpenRouterProvider();
+		result = await generateText({
+			model: provider.chat(model),
+			...(request.system && { system: request.system }),
+			prompt: request.prompt,
+			maxOutputTokens: request.maxTokens ?? 1024,
+			temperature: 0.4,
+			abortSignal: request.signal
+		});
+	} catch (error) {
+		await UsageTrackingService.releaseUsage(reservation);
+		throw error;
+	}
+
+	UsageTrackingService.commitUsage(reservation, {
+		model,
+		promptTokens: result.usage.inputTokens,
+		completionTokens: result.usage.outputTokens
+	}).catch(console.error);
+	return result.text;
+}
+
 const OPENROUTER_MODELS: AIModelConfig[] = [
 	{
 		name: 'anthropic/claude-opus-4.6',
@@ -425,6 +512,7 @@ interface OpenRouterModel {
 	name: string;
 	architecture: ArchitectureObject;
 	supported_parameters?: string[]; // e.g., ["temperature", "tools", "json_mode", ...]
+	pricing?: OpenRouterPricing; // USD per token/request/image, used for usage cost
 }
 
 interface OpenRouterModelsResponse {
@@ -455,12 +543,13 @@ async function enrichModelsWithArchitecture(models: AIModelConfig[]): Promise<AI
 		console.log(`Fetched ${apiData.data.length} models from OpenRouter API`);
 
 		// Create a map of API models by their ID for efficient lookup
-		const apiModelMap = new Map<string, { architecture: ArchitectureObject; supportedParameters?: string[] }>();
+		const apiModelMap = new Map<string, { architecture: ArchitectureObject; supportedParameters?: string[]; pricing?: ModelPricing }>();
 		apiData.data.forEach(apiModel => {
 			if (apiModel.architecture) {
 				apiModelMap.set(apiModel.id, {
 					architecture: apiModel.architecture,
-					supportedParameters: apiModel.supported_parameters
+					supportedParameters: apiModel.supported_parameters,
+					pricing: apiModel.pricing ? parseOpenRouterPricing(apiModel.pricing) : undefined
 				});
 			}
 		});
@@ -469,12 +558,13 @@ async function enrichModelsWithArchitecture(models: AIModelConfig[]): Promise<AI
 		const enrichedModels = models.map(model => {
 			const apiData = apiModelMap.get(model.name);
 			if (apiData) {
-				const { architecture: architectureData, supportedParameters } = apiData;
+				const { architecture: architectureData, supportedParameters, pricing } = apiData;
 
 				// Auto-set capability flags from architecture data and supported_parameters
 				const enrichedModel: AIModelConfig = {
 					...model,
 					architecture: architectureData,
+					pricing: model.pricing ?? pricing,
 					// Auto-detect function calling support from supported_parameters
 					supportsFunctions: model.supportsFunctions ||
 						supportedParameters?.includes('tools') || false,
@@ -849,12 +939,9 @@ export const openRouterProvider: AIProvider = {
 		const messagesWithSystemPrompt = await prependGlobalSystemPrompt(messages);
 		const convertedMessages = convertMessages(messagesWithSystemPrompt);
 
-		// Get AI SDK v6 tool instances by name
-		let aiSdkTools: Record<string, ToolInstance> | undefined;
-		if (toolNames && toolNames.length > 0) {
-			const { getToolsAsObject } = await import('../tools/index.js');
-			aiSdkTools = getToolsAsObject(toolNames);
-		}
+		// Get AI SDK v6 tool instances by name (built-in and admin-defined, filtered by plan)
+		const aiSdkTools = await resolveTools(toolNames, params.userId);
+		const toolContext = aiSdkTools ? await createToolExecutionContext(params) : undefined;
 
 		try {
 			// When tools are provided, we need at least 2 steps:
@@ -868,7 +955,7 @@ export const openRouterProvider: AIProvider = {
 				messages: convertedMessages,
 				maxOutputTokens: maxTokens,
 				temperature,
-				...(aiSdkTools && { tools: aiSdkTools }),
+				...(aiSdkTools && { tools: aiSdkTools, experimental_context: toolContext }),
 				...(effectiveMaxSteps > 1 && { stopWhen: stepCountIs(effectiveMaxSteps) }),
 				experimental_transform: smoothStream({
 					delayInMs: 20,
@@ -935,12 +1022,9 @@ export const openRouterProvider: AIProvider = {
 		// Convert messages to multimodal format
 		const multimodalMessages = await convertMultimodalMessages(messagesWithSystemPrompt, params.userId);
 
-		// Get AI SDK v6 tool instances by name
-		let aiSdkTools: Record<string, ToolInstance> | undefined;
-		if (toolNames && toolNames.length > 0) {
-			const { getToolsAsObject } = await import('../tools/index.js');
-			aiSdkTools = getToolsAsObject(toolNames);
-		}
+		// Get AI SDK v6 tool instances by name (built-in and admin-defined, filtered by plan)
+		const aiSdkTools = await resolveTools(toolNames, params.userId);
+		const toolContext = aiSdkTools ? await createToolExecutionContext(params) : undefined;
 
 		console.log('🚀 [OpenRouter] About to call streamText with:');
 		console.log('  - Model:', model);
@@ -959,7 +1043,7 @@ export const openRouterProvider: AIProvider = {
 				messages: multimodalMessages,
 				maxOutputTokens: maxTokens,
 				temperature,
-				...(aiSdkTools && { tools: aiSdkTools }),
+				...(aiSdkTools && { tools: aiSdkTools, experimental_context: toolContext }),
 				...(effectiveMaxSteps > 1 && { stopWhen: stepCountIs(effectiveMaxSteps) }),
 				experimental_transform: smoothStream({
 					delayInMs: 20,
@@ -1034,6 +1118,23 @@ async function* createAISDKStreamIterator(result: any): AsyncIterableIterator<AI
 					break;
 
 				case 'tool-result':
+					// Preliminary results come from generator tools; forward progress updates only
+					if (part.preliminary) {
+						if (isToolProgress(part.output)) {
+							yield {
+								content: '',
+								done: false,
+								type: 'tool-progress',
+								toolProgress: {
+									toolCallId: part.toolCallId,
+									toolName: part.toolName,
+									progress: part.output
+								}
+							};
+						}
+						break;
+					}
+
 					yield {
 						content: '',
 						done: false,
@@ -1041,7 +1142,7 @@ async function* createAISDKStreamIterator(result: any): AsyncIterableIterator<AI
 						toolResult: {
 							toolCallId: part.toolCallId,
 							toolName: part.toolName,
-							result: part.result
+							result: part.output // AI SDK v6 uses 'output' not 'result'
 						}
 					};
 					break;
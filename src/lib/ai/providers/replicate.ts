@@ -7,16 +7,19 @@ import type {
 	ImageGenerationParams,
 	AIImageResponse,
 	VideoGenerationParams,
-	AIVideoResponse
+	AIVideoResponse,
+	GenerationPrediction,
+	GenerationStartOptions
 } from '../types.js';
 import { env } from '$env/dynamic/private';
 import { saveImageAndGetId, saveVideoAndGetId, createProviderError } from '../utils.js';
 import { getReplicateApiKey } from '$lib/server/settings-store.js';
 import { db } from '$lib/server/db/index.js';
 import { images } from '$lib/server/db/schema.js';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { storageService } from '$lib/server/storage.js';
-import Replicate from 'replicate';
+import { MediaLineageService } from '$lib/server/media-lineage.js';
+import Replicate, { parseProgressFromLogs, validateWebhook, type Prediction } from 'replicate';
 import { MODEL_CONFIGS, MODEL_IDENTIFIERS, type ModelParamConfig } from '$lib/constants/replicate-model-configs.js';
 
 // Cache for Replicate client instances (invalidated when API key changes)
@@ -259,6 +262,28 @@ const REPLICATE_IMAGE_MODELS: AIModelConfig[] = [
 		supportsImageStreaming: false,
 		supportsStreaming: false,
 	},
+	{
+		name: 'flux-fill-pro',
+		displayName: 'FLUX Fill Pro',
+		provider: 'BlackForestLabs',
+		maxTokens: 4096,
+		supportsTextInput: true,
+		supportsImageInput: true,
+		supportsImageGeneration: true,
+		supportsImageStreaming: false,
+		supportsStreaming: false,
+	},
+	{
+		name: 'flux-fill-dev',
+		displayName: 'FLUX Fill Dev',
+		provider: 'BlackForestLabs',
+		maxTokens: 4096,
+		supportsTextInput: true,
+		supportsImageInput: true,
+		supportsImageGeneration: true,
+		supportsImageStreaming: false,
+		supportsStreaming: false,
+	},
 	// Stability AI Models
 	{
 		name: 'stable-diffusion-3.5-large',
@@ -873,19 +898,22 @@ function inferMimeTypeFromPath(path: string): string {
 }
 
 /**
- * Fetch image from storage and convert to data URI for Replicate input
+ * Fetch image from storage and convert to data URI for Replicate input.
+ * Library images (/api/images/[id]) must belong to userId.
  */
-async function fetchImageAsDataUri(imageUrl: string): Promise<string> {
+async function fetchImageAsDataUri(imageUrl: string, userId: string | undefined): Promise<string> {
 	// Case 1: Internal API path (format: /api/images/[id])
-	const imageIdMatch = imageUrl.match(/\/api\/images\/([a-f0-9-]+)/i);
-	if (imageIdMatch) {
-		const imageId = imageIdMatch[1];
+	const imageId = MediaLineageService.imageIdFromUrl(imageUrl);
+	if (imageId) {
+		if (!userId) {
+			throw new Error('Image not found');
+		}
 
 		// Fetch image metadata from database
 		const [imageRecord] = await db
 			.select()
 			.from(images)
-			.where(eq(images.id, imageId));
+			.where(and(eq(images.id, imageId), eq(images.userId, userId)));
 
 		if (!imageRecord || !imageRecord.cloudPath) {
 			throw new Error('Image not found');
@@ -997,178 +1025,180 @@ async function fileOutputToBase64(output: any): Promise<string> {
 }
 
 /**
- * Generate image using Replicate
+ * Build the Replicate input for an image generation from the model's parameter config
  */
-async function generateImage(params: ImageGenerationParams): Promise<AIImageResponse> {
-	const client = await getClient();
-	const modelIdentifier = MODEL_IDENTIFIERS[params.model]?.path;
+async function buildImageInput(params: ImageGenerationParams): Promise<Record<string, any>> {
+	// Get model configuration
+	const modelConfig = MODEL_CONFIGS[params.model];
 
-	if (!modelIdentifier) {
-		throw new Error(`Unknown Replicate model: ${params.model}`);
-	}
+	// Prepare input based on model
+	const input: Record<string, any> = {
+		prompt: params.prompt
+	};
 
-	if (!params.userId) {
-		throw new Error('User ID is required for image generation');
-	}
+	// Add image input if provided and model supports it
+	if ((params.imageUrl || params.imageUrls) && modelConfig?.imageInputParam) {
+		const { name, isArray, needsDataUri } = modelConfig.imageInputParam;
 
-	try {
-		// Get model configuration
-		const modelConfig = MODEL_CONFIGS[params.model];
-
-		// Prepare input based on model
-		const input: Record<string, any> = {
-			prompt: params.prompt
-		};
-
-		// Add image input if provided and model supports it
-		if ((params.imageUrl || params.imageUrls) && modelConfig?.imageInputParam) {
-			const { name, isArray, needsDataUri } = modelConfig.imageInputParam;
-
-			try {
-				// Determine which URLs to use (prefer imageUrls array, fallback to single imageUrl)
-				const urls: string[] = params.imageUrls && params.imageUrls.length > 0
-					? params.imageUrls
-					: (params.imageUrl ? [params.imageUrl] : []);
-
-				if (urls.length > 0) {
-					let imageData: string | string[];
-
-					if (isArray && needsDataUri) {
-						// Model supports multiple images as data URIs
-						const dataUris: string[] = [];
-						for (const url of urls) {
-							const isInternalPath = url.startsWith('/api/images/') || url.startsWith('/static/') || url.startsWith('/uploads/');
-							if (needsDataUri || isInternalPath) {
-								const dataUri = await fetchImageAsDataUri(url);
-								dataUris.push(dataUri);
-							} else {
-								dataUris.push(url);
-							}
-						}
-						imageData = dataUris;
-					} else if (isArray && !needsDataUri) {
-						// Model supports multiple images as URLs
-						imageData = urls;
-					} else {
-						// Single image mode (use first URL only)
-						const url = urls[0];
+		try {
+			// Determine which URLs to use (prefer imageUrls array, fallback to single imageUrl)
+			const urls: string[] = params.imageUrls && params.imageUrls.length > 0
+				? params.imageUrls
+				: (params.imageUrl ? [params.imageUrl] : []);
+
+			if (urls.length > 0) {
+				let imageData: string | string[];
+
+				if (isArray && needsDataUri) {
+					// Model supports multiple images as data URIs
+					const dataUris: string[] = [];
+					for (const url of urls) {
 						const isInternalPath = url.startsWith('/api/images/') || url.startsWith('/static/') || url.startsWith('/uploads/');
 						if (needsDataUri || isInternalPath) {
-							const dataUri = await fetchImageAsDataUri(url);
-							imageData = dataUri;
+							const dataUri = await fetchImageAsDataUri(url, params.userId);
+							dataUris.push(dataUri);
 						} else {
-							imageData = url;
+							dataUris.push(url);
 						}
 					}
-
-					input[name] = imageData;
+					imageData = dataUris;
+				} else if (isArray && !needsDataUri) {
+					// Model supports multiple images as URLs (internal paths aren't reachable by Replicate)
+					const imageUrls: string[] = [];
+					for (const url of urls) {
+						const isInternalPath = url.startsWith('/api/images/') || url.startsWith('/static/') || url.startsWith('/uploads/');
+						imageUrls.push(isInternalPath ? await fetchImageAsDataUri(url, params.userId) : url);
+					}
+					imageData = imageUrls;
+				} else {
+					// Single image mode (use first URL only)
+					const url = urls[0];
+					const isInternalPath = url.startsWith('/api/images/') || url.startsWith('/static/') || url.startsWith('/uploads/');
+					if (needsDataUri || isInternalPath) {
+						const dataUri = await fetchImageAsDataUri(url, params.userId);
+						imageData = dataUri;
+					} else {
+						imageData = url;
+					}
 				}
-			} catch (error) {
-				console.error('Failed to process image input:', error);
-				throw new Error(`Failed to process input image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+				input[name] = imageData;
 			}
+		} catch (error) {
+			console.error('Failed to process image input:', error);
+			throw new Error(`Failed to process input image: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
+	}
 
-		// Add aspect ratio if provided and model supports it
-		if (params.size && modelConfig?.sizeParam) {
-			const { name } = modelConfig.sizeParam;
-			input[name] = params.size;
+	// Add inpainting mask if provided and model supports it
+	if (params.mask && modelConfig?.maskParam) {
+		try {
+			input[modelConfig.maskParam.name] = await fetchImageAsDataUri(params.mask, params.userId);
+		} catch (error) {
+			console.error('Failed to process mask image:', error);
+			throw new Error(`Failed to process mask image: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
+	}
 
-		// Add seed if provided and model supports it
-		if (params.seed !== undefined && modelConfig?.seedParam) {
-			const { name } = modelConfig.seedParam;
-			input[name] = params.seed;
+	// Add outpaint direction if provided and model supports it
+	if (params.outpaint && modelConfig?.outpaintParam) {
+		const { name, options } = modelConfig.outpaintParam;
+		// Validate that the outpaint option is in the allowed options
+		if (options.includes(params.outpaint)) {
+			input[name] = params.outpaint;
 		}
+	}
 
-		// Add quality if provided and model supports it
-		if (params.quality && modelConfig?.qualityParam) {
-			const { name, options } = modelConfig.qualityParam;
-			// Validate that the quality value is in the allowed options
-			if (options.includes(params.quality)) {
-				input[name] = params.quality;
-			}
-		}
+	// Add aspect ratio if provided and model supports it
+	if (params.size && modelConfig?.sizeParam) {
+		const { name } = modelConfig.sizeParam;
+		input[name] = params.size;
+	}
 
-		// Add number of images if provided and model supports it
-		if (params.numberOfImages !== undefined && modelConfig?.numberOfImagesParam) {
-			const { name, min, max } = modelConfig.numberOfImagesParam;
-			// Clamp the value within the allowed range
-			const clampedValue = Math.max(min, Math.min(max, params.numberOfImages));
-			input[name] = clampedValue;
-		}
+	// Add seed if provided and model supports it
+	if (params.seed !== undefined && modelConfig?.seedParam) {
+		const { name } = modelConfig.seedParam;
+		input[name] = params.seed;
+	}
 
-		// Add style if provided and model supports it
-		if (params.style && modelConfig?.styleParam) {
-			const { name, options } = modelConfig.styleParam;
-			// Validate that the style value is in the allowed options
-			if (options.includes(params.style)) {
-				input[name] = params.style;
-			}
+	// Add quality if provided and model supports it
+	if (params.quality && modelConfig?.qualityParam) {
+		const { name, options } = modelConfig.qualityParam;
+		// Validate that the quality value is in the allowed options
+		if (options.includes(params.quality)) {
+			input[name] = params.quality;
 		}
+	}
 
-		// Add upscale factor if provided and model supports it
-		if (params.upscaleFactor && modelConfig?.upscaleParam) {
-			const { name, options } = modelConfig.upscaleParam;
-			// Validate that the upscale factor is in the allowed options
-			if (options.includes(params.upscaleFactor)) {
-				input[name] = params.upscaleFactor;
-			}
+	// Add number of images if provided and model supports it
+	if (params.numberOfImages !== undefined && modelConfig?.numberOfImagesParam) {
+		const { name, min, max } = modelConfig.numberOfImagesParam;
+		// Clamp the value within the allowed range
+		const clampedValue = Math.max(min, Math.min(max, params.numberOfImages));
+		input[name] = clampedValue;
+	}
+
+	// Add style if provided and model supports it
+	if (params.style && modelConfig?.styleParam) {
+		const { name, options } = modelConfig.styleParam;
+		// Validate that the style value is in the allowed options
+		if (options.includes(params.style)) {
+			input[name] = params.style;
 		}
+	}
 
-		// Add compression quality if provided and model supports it
-		if (params.compressionQuality !== undefined && modelConfig?.compressionParam) {
-			const { name, min, max } = modelConfig.compressionParam;
-			// Clamp the value within the allowed range
-			const clampedValue = Math.max(min, Math.min(max, params.compressionQuality));
-			input[name] = clampedValue;
+	// Add negative prompt if provided and model supports it
+	if (params.negativePrompt && modelConfig?.negativePromptParam) {
+		input[modelConfig.negativePromptParam.name] = params.negativePrompt;
+	}
+
+	// Add upscale factor if provided and model supports it
+	if (params.upscaleFactor && modelConfig?.upscaleParam) {
+		const { name, options } = modelConfig.upscaleParam;
+		// Validate that the upscale factor is in the allowed options
+		if (options.includes(params.upscaleFactor)) {
+			input[name] = params.upscaleFactor;
 		}
+	}
 
-		// Run the model (assert type as Replicate expects owner/model format)
-		const output = await client.run(modelIdentifier as `${string}/${string}`, { input });
+	// Add compression quality if provided and model supports it
+	if (params.compressionQuality !== undefined && modelConfig?.compressionParam) {
+		const { name, min, max } = modelConfig.compressionParam;
+		// Clamp the value within the allowed range
+		const clampedValue = Math.max(min, Math.min(max, params.compressionQuality));
+		input[name] = clampedValue;
+	}
 
-		// Handle output (could be array of URLs or FileOutput objects)
-		let primaryImageId: string;
-
-		// Determine reference URL(s) for metadata storage
-		// Store as JSON array if multiple URLs, single URL otherwise for backward compatibility
-		const referenceImageUrlForMetadata = params.imageUrls && params.imageUrls.length > 1
-			? JSON.stringify(params.imageUrls)
-			: (params.imageUrls?.[0] || params.imageUrl || undefined);
-
-		if (Array.isArray(output) && output.length > 0) {
-			// Save all images in the array
-			for (let i = 0; i < output.length; i++) {
-				const imageData = await fileOutputToBase64(output[i]);
-				const imageId = await saveImageAndGetId(
-					imageData,
-					'image/png', // Replicate typically returns PNG
-					params.userId,
-					params.chatId,
-					{
-						prompt: params.prompt,
-						model: params.model,
-						aspectRatio: params.size,
-						seed: params.seed,
-						quality: params.quality,
-						style: params.style,
-						numberOfImages: params.numberOfImages,
-						referenceImageUrl: referenceImageUrlForMetadata,
-						upscaleFactor: params.upscaleFactor,
-						compressionQuality: params.compressionQuality
-					}
-				);
-				// Keep track of the first image ID for the response
-				if (i === 0) {
-					primaryImageId = imageId;
-				}
-			}
-		} else if (output) {
-			const imageData = await fileOutputToBase64(output);
-			primaryImageId = await saveImageAndGetId(
+	return input;
+}
+
+/**
+ * Save the images a finished prediction returned
+ */
+async function saveImageOutput(params: ImageGenerationParams, output: unknown): Promise<AIImageResponse> {
+	const userId = params.userId;
+	if (!userId) {
+		throw new Error('User ID is required for image generation');
+	}
+
+	// Handle output (could be array of URLs or FileOutput objects)
+	const imageIds: string[] = [];
+
+	// Determine reference URL(s) for metadata storage
+	// Store as JSON array if multiple URLs, single URL otherwise for backward compatibility
+	const referenceImageUrlForMetadata = params.imageUrls && params.imageUrls.length > 1
+		? JSON.stringify(params.imageUrls)
+		: (params.imageUrls?.[0] || params.imageUrl || undefined);
+	const parents = MediaLineageService.getImageParents(params);
+
+	if (Array.isArray(output) && output.length > 0) {
+		// Save all images in the array
+		for (let i = 0; i < output.length; i++) {
+			const imageData = await fileOutputToBase64(output[i]);
+			const imageId = await saveImageAndGetId(
 				imageData,
 				'image/png', // Replicate typically returns PNG
-				params.userId,
+				userId,
 				params.chatId,
 				{
 					prompt: params.prompt,
@@ -1177,242 +1207,444 @@ async function generateImage(params: ImageGenerationParams): Promise<AIImageResp
 					seed: params.seed,
 					quality: params.quality,
 					style: params.style,
+					negativePrompt: params.negativePrompt,
 					numberOfImages: params.numberOfImages,
 					referenceImageUrl: referenceImageUrlForMetadata,
 					upscaleFactor: params.upscaleFactor,
-					compressionQuality: params.compressionQuality
+					compressionQuality: params.compressionQuality,
+					sourceImageId: params.sourceImageId,
+					maskImageId: params.maskImageId,
+					outpaint: params.outpaint,
+					parents
 				}
 			);
-		} else {
-			throw new Error('No output received from Replicate');
+			imageIds.push(imageId);
 		}
-
-		return {
-			imageId: primaryImageId!,
-			mimeType: 'image/png',
-			prompt: params.prompt,
-			model: params.model,
-			usage: {
-				promptTokens: Math.ceil(params.prompt.length / 4),
-				totalTokens: Math.ceil(params.prompt.length / 4)
+	} else if (output) {
+		const imageData = await fileOutputToBase64(output);
+		const imageId = await saveImageAndGetId(
+			imageData,
+			'image/png', // Replicate typically returns PNG
+			userId,
+			params.chatId,
+			{
+				prompt: params.prompt,
+				model: params.model,
+				aspectRatio: params.size,
+				seed: params.seed,
+				quality: params.quality,
+				style: params.style,
+				negativePrompt: params.negativePrompt,
+				numberOfImages: params.numberOfImages,
+				referenceImageUrl: referenceImageUrlForMetadata,
+				upscaleFactor: params.upscaleFactor,
+				compressionQuality: params.compressionQuality,
+				sourceImageId: params.sourceImageId,
+				maskImageId: params.maskImageId,
+				outpaint: params.outpaint,
+				parents
 			}
-		};
-	} catch (error) {
-		throw createProviderError('Replicate', 'image generation', error);
+		);
+		imageIds.push(imageId);
+	} else {
+		throw new Error('No output received from Replicate');
 	}
+
+	return {
+		imageId: imageIds[0],
+		imageIds,
+		mimeType: 'image/png',
+		prompt: params.prompt,
+		model: params.model,
+		usage: {
+			promptTokens: Math.ceil(params.prompt.length / 4),
+			totalTokens: Math.ceil(params.prompt.length / 4)
+		}
+	};
 }
 
 /**
- * Generate video using Replicate
+ * Generate image using Replicate
  */
-async function generateVideo(params: VideoGenerationParams): Promise<AIVideoResponse> {
+async function generateImage(params: ImageGenerationParams): Promise<AIImageResponse> {
 	const client = await getClient();
 	const modelIdentifier = MODEL_IDENTIFIERS[params.model]?.path;
 
 	if (!modelIdentifier) {
-		throw new Error(`Unknown Replicate video model: ${params.model}`);
+		throw new Error(`Unknown Replicate model: ${params.model}`);
 	}
 
 	if (!params.userId) {
-		throw new Error('User ID is required for video generation');
+		throw new Error('User ID is required for image generation');
 	}
 
 	try {
-		// Get model configuration
-		const modelConfig = MODEL_CONFIGS[params.model];
+		const input = await buildImageInput(params);
 
-		// Prepare input based on model
-		const input: Record<string, any> = {
-			prompt: params.prompt
-		};
+		// Run the model (assert type as Replicate expects owner/model format)
+		const output = await client.run(modelIdentifier as `${string}/${string}`, { input });
 
-		// Add image input if provided and model supports it (for i2v models)
-		if (params.imageUrl && modelConfig?.imageInputParam) {
-			const { name, isArray, needsDataUri } = modelConfig.imageInputParam;
+		return await saveImageOutput(params, output);
+	} catch (error) {
+		throw createProviderError('Replicate', 'image generation', error);
+	}
+}
 
-			try {
-				// Fetch/convert image based on model requirements
-				let imageData: string | string[];
+/**
+ * Build the Replicate input for a video generation from the model's parameter config
+ */
+async function buildVideoInput(params: VideoGenerationParams): Promise<Record<string, any>> {
+	// Get model configuration
+	const modelConfig = MODEL_CONFIGS[params.model];
 
-				// Check if it's an internal path that needs conversion
-				const isInternalPath = params.imageUrl.startsWith('/api/images/') ||
-					params.imageUrl.startsWith('/static/') ||
-					params.imageUrl.startsWith('/uploads/');
-
-				if (needsDataUri || isInternalPath) {
-					// Convert to data URI
-					// - Always for models that require it
-					// - Also for internal paths (e.g., /api/images/[id]) as fallback for backward compatibility
-					const dataUri = await fetchImageAsDataUri(params.imageUrl);
-					imageData = isArray ? [dataUri] : dataUri;
-				} else {
-					// Use URL as-is for external URLs (e.g., presigned R2 URLs, https:// URLs)
-					imageData = isArray ? [params.imageUrl] : params.imageUrl;
-				}
+	// Prepare input based on model
+	const input: Record<string, any> = {
+		prompt: params.prompt
+	};
 
-				input[name] = imageData;
-			} catch (error) {
-				console.error('Failed to process image input for video:', error);
-				throw new Error(`Failed to process input image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-			}
-		}
+	// Add image input if provided and model supports it (for i2v models)
+	if (params.imageUrl && modelConfig?.imageInputParam) {
+		const { name, isArray, needsDataUri } = modelConfig.imageInputParam;
 
-		// Add duration if provided and model supports it via durationParam config
-		if (params.duration !== undefined && modelConfig?.durationParam) {
-			const { name, min, max, unit } = modelConfig.durationParam;
-			// Clamp the value within the allowed range
-			let durationValue = Math.max(min, Math.min(max, params.duration));
-			// Convert to frames if model expects frames
-			if (unit === 'frames') {
-				durationValue = Math.round(durationValue * (params.fps || 24));
+		try {
+			// Fetch/convert image based on model requirements
+			let imageData: string | string[];
+
+			// Check if it's an internal path that needs conversion
+			const isInternalPath = params.imageUrl.startsWith('/api/images/') ||
+				params.imageUrl.startsWith('/static/') ||
+				params.imageUrl.startsWith('/uploads/');
+
+			if (needsDataUri || isInternalPath) {
+				// Convert to data URI
+				// - Always for models that require it
+				// - Also for internal paths (e.g., /api/images/[id]) as fallback for backward compatibility
+				const dataUri = await fetchImageAsDataUri(params.imageUrl, params.userId);
+				imageData = isArray ? [dataUri] : dataUri;
+			} else {
+				// Use URL as-is for external URLs (e.g., presigned R2 URLs, https:// URLs)
+				imageData = isArray ? [params.imageUrl] : params.imageUrl;
 			}
-			input[name] = durationValue;
-		} else if (params.duration) {
-			// Fallback for models without durationParam config (backwards compatibility)
-			input.duration = params.duration;
-		}
 
-		// Add aspect ratio if provided and model supports it
-		if (params.resolution && modelConfig?.sizeParam) {
-			const { name } = modelConfig.sizeParam;
-			input[name] = params.resolution;
+			input[name] = imageData;
+		} catch (error) {
+			console.error('Failed to process image input for video:', error);
+			throw new Error(`Failed to process input image: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
-		if (params.fps) {
-			input.fps = params.fps;
+	}
+
+	// Add duration if provided and model supports it via durationParam config
+	if (params.duration !== undefined && modelConfig?.durationParam) {
+		const { name, min, max, unit } = modelConfig.durationParam;
+		// Clamp the value within the allowed range
+		let durationValue = Math.max(min, Math.min(max, params.duration));
+		// Convert to frames if model expects frames
+		if (unit === 'frames') {
+			durationValue = Math.round(durationValue * (params.fps || 24));
 		}
+		input[name] = durationValue;
+	} else if (params.duration) {
+		// Fallback for models without durationParam config (backwards compatibility)
+		input.duration = params.duration;
+	}
 
-		// Add seed if provided and model supports it
-		if (params.seed !== undefined && modelConfig?.seedParam) {
-			const { name } = modelConfig.seedParam;
-			input[name] = params.seed;
+	// Add aspect ratio if provided and model supports it
+	if (params.resolution && modelConfig?.sizeParam) {
+		const { name } = modelConfig.sizeParam;
+		input[name] = params.resolution;
+	}
+	if (params.fps) {
+		input.fps = params.fps;
+	}
+
+	// Add seed if provided and model supports it
+	if (params.seed !== undefined && modelConfig?.seedParam) {
+		const { name } = modelConfig.seedParam;
+		input[name] = params.seed;
+	}
+
+	// Add quality if provided and model supports it
+	if (params.quality && modelConfig?.qualityParam) {
+		const { name, options } = modelConfig.qualityParam;
+		// Validate that the quality value is in the allowed options
+		if (options.includes(params.quality)) {
+			input[name] = params.quality;
 		}
+	}
 
-		// Add quality if provided and model supports it
-		if (params.quality && modelConfig?.qualityParam) {
-			const { name, options } = modelConfig.qualityParam;
-			// Validate that the quality value is in the allowed options
-			if (options.includes(params.quality)) {
-				input[name] = params.quality;
-			}
+	// Add style if provided and model supports it
+	if (params.style && modelConfig?.styleParam) {
+		const { name, options } = modelConfig.styleParam;
+		// Validate that the style value is in the allowed options
+		if (options.includes(params.style)) {
+			input[name] = params.style;
 		}
+	}
+
+	// Add negative prompt if provided and model supports it
+	if (params.negativePrompt && modelConfig?.negativePromptParam) {
+		input[modelConfig.negativePromptParam.name] = params.negativePrompt;
+	}
 
-		// Add style if provided and model supports it
-		if (params.style && modelConfig?.styleParam) {
-			const { name, options } = modelConfig.styleParam;
-			// Validate that the style value is in the allowed options
-			if (options.includes(params.style)) {
-				input[name] = params.style;
+	// Add start image if provided and model supports it
+	if (params.imageStartUrl && modelConfig?.imageStartParam) {
+		const { name, isArray, needsDataUri } = modelConfig.imageStartParam;
+
+		try {
+			let imageData: string | string[];
+
+			const isInternalPath = params.imageStartUrl.startsWith('/api/images/') ||
+				params.imageStartUrl.startsWith('/static/') ||
+				params.imageStartUrl.startsWith('/uploads/');
+
+			if (needsDataUri || isInternalPath) {
+				const dataUri = await fetchImageAsDataUri(params.imageStartUrl, params.userId);
+				imageData = isArray ? [dataUri] : dataUri;
+			} else {
+				imageData = isArray ? [params.imageStartUrl] : params.imageStartUrl;
 			}
-		}
 
-		// Add start image if provided and model supports it
-		if (params.imageStartUrl && modelConfig?.imageStartParam) {
-			const { name, isArray, needsDataUri } = modelConfig.imageStartParam;
+			input[name] = imageData;
+		} catch (error) {
+			console.error('Failed to process start image input for video:', error);
+			throw new Error(`Failed to process start image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
 
-			try {
-				let imageData: string | string[];
+	// Add end image if provided and model supports it
+	if (params.imageEndUrl && modelConfig?.imageEndParam) {
+		const { name, isArray, needsDataUri } = modelConfig.imageEndParam;
 
-				const isInternalPath = params.imageStartUrl.startsWith('/api/images/') ||
-					params.imageStartUrl.startsWith('/static/') ||
-					params.imageStartUrl.startsWith('/uploads/');
+		try {
+			let imageData: string | string[];
 
-				if (needsDataUri || isInternalPath) {
-					const dataUri = await fetchImageAsDataUri(params.imageStartUrl);
-					imageData = isArray ? [dataUri] : dataUri;
-				} else {
-					imageData = isArray ? [params.imageStartUrl] : params.imageStartUrl;
-				}
+			const isInternalPath = params.imageEndUrl.startsWith('/api/images/') ||
+				params.imageEndUrl.startsWith('/static/') ||
+				params.imageEndUrl.startsWith('/uploads/');
 
-				input[name] = imageData;
-			} catch (error) {
-				console.error('Failed to process start image input for video:', error);
-				throw new Error(`Failed to process start image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			if (needsDataUri || isInternalPath) {
+				const dataUri = await fetchImageAsDataUri(params.imageEndUrl, params.userId);
+				imageData = isArray ? [dataUri] : dataUri;
+			} else {
+				imageData = isArray ? [params.imageEndUrl] : params.imageEndUrl;
 			}
+
+			input[name] = imageData;
+		} catch (error) {
+			console.error('Failed to process end image input for video:', error);
+			throw new Error(`Failed to process end image: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
+	}
 
-		// Add end image if provided and model supports it
-		if (params.imageEndUrl && modelConfig?.imageEndParam) {
-			const { name, isArray, needsDataUri } = modelConfig.imageEndParam;
+	return input;
+}
 
-			try {
-				let imageData: string | string[];
+/**
+ * Save the video a finished prediction returned
+ */
+async function saveVideoOutput(params: VideoGenerationParams, output: unknown): Promise<AIVideoResponse> {
+	const userId = params.userId;
+	if (!userId) {
+		throw new Error('User ID is required for video generation');
+	}
 
-				const isInternalPath = params.imageEndUrl.startsWith('/api/images/') ||
-					params.imageEndUrl.startsWith('/static/') ||
-					params.imageEndUrl.startsWith('/uploads/');
+	// Handle output
+	let videoData: string;
 
-				if (needsDataUri || isInternalPath) {
-					const dataUri = await fetchImageAsDataUri(params.imageEndUrl);
-					imageData = isArray ? [dataUri] : dataUri;
-				} else {
-					imageData = isArray ? [params.imageEndUrl] : params.imageEndUrl;
-				}
+	if (Array.isArray(output) && output.length > 0) {
+		videoData = await fileOutputToBase64(output[0]);
+	} else if (output) {
+		videoData = await fileOutputToBase64(output);
+	} else {
+		throw new Error('No output received from Replicate');
+	}
 
-				input[name] = imageData;
-			} catch (error) {
-				console.error('Failed to process end image input for video:', error);
-				throw new Error(`Failed to process end image: ${error instanceof Error ? error.message : 'Unknown error'}`);
-			}
+	// Determine if video has audio based on model
+	const hasAudio = params.model.includes('veo') || params.model.includes('wan') || params.model.includes('hailuo');
+
+	// Save to storage and database with generation metadata
+	const videoId = await saveVideoAndGetId(
+		videoData,
+		'video/mp4', // Replicate typically returns MP4
+		userId,
+		params.chatId,
+		params.duration || 8,
+		params.resolution || '720p',
+		params.fps || 24,
+		hasAudio,
+		{
+			prompt: params.prompt,
+			model: params.model,
+			aspectRatio: params.resolution,
+			seed: params.seed,
+			quality: params.quality,
+			style: params.style,
+			negativePrompt: params.negativePrompt,
+			imageStartUrl: params.imageUrl,
+			imageEndUrl: params.imageEndUrl,
+			parents: MediaLineageService.getVideoParents(params)
+		}
+	);
+
+	return {
+		videoId,
+		mimeType: 'video/mp4',
+		prompt: params.prompt,
+		model: params.model,
+		duration: params.duration || 8,
+		resolution: params.resolution || '720p',
+		fps: params.fps || 24,
+		hasAudio,
+		usage: {
+			promptTokens: Math.ceil(params.prompt.length / 4),
+			totalTokens: Math.ceil(params.prompt.length / 4)
 		}
+	};
+}
+
+/**
+ * Generate video using Replicate
+ */
+async function generateVideo(params: VideoGenerationParams): Promise<AIVideoResponse> {
+	const client = await getClient();
+	const modelIdentifier = MODEL_IDENTIFIERS[params.model]?.path;
+
+	if (!modelIdentifier) {
+		throw new Error(`Unknown Replicate video model: ${params.model}`);
+	}
+
+	if (!params.userId) {
+		throw new Error('User ID is required for video generation');
+	}
+
+	try {
+		const input = await buildVideoInput(params);
 
 		// Run the model (assert type as Replicate expects owner/model format)
 		const output = await client.run(modelIdentifier as `${string}/${string}`, { input });
 
-		// Handle output
-		let videoData: string;
+		return await saveVideoOutput(params, output);
+	} catch (error) {
+		throw createProviderError('Replicate', 'video generation', error);
+	}
+}
 
-		if (Array.isArray(output) && output.length > 0) {
-			videoData = await fileOutputToBase64(output[0]);
-		} else if (output) {
-			videoData = await fileOutputToBase64(output);
-		} else {
-			throw new Error('No output received from Replicate');
-		}
+// ==================== Asynchronous Generation (Generation Jobs) ====================
 
-		// Determine if video has audio based on model
-		const hasAudio = params.model.includes('veo') || params.model.includes('wan') || params.model.includes('hailuo');
+// Webhook signing secret, cached for the API key it belongs to
+let cachedWebhookSecret: { apiKey: string; secret: string } | null = null;
 
-		// Save to storage and database with generation metadata
-		const videoId = await saveVideoAndGetId(
-			videoData,
-			'video/mp4', // Replicate typically returns MP4
-			params.userId,
-			params.chatId,
-			params.duration || 8,
-			params.resolution || '720p',
-			params.fps || 24,
-			hasAudio,
-			{
-				prompt: params.prompt,
-				model: params.model,
-				aspectRatio: params.resolution,
-				seed: params.seed,
-				quality: params.quality,
-				style: params.style,
-				imageStartUrl: params.imageUrl,
-				imageEndUrl: params.imageEndUrl
-			}
-		);
+/**
+ * Map a Replicate prediction onto the provider-neutral status used by generation jobs
+ */
+function toGenerationPrediction(prediction: Prediction): GenerationPrediction {
+	const progress = parseProgressFromLogs(prediction);
+
+	return {
+		id: prediction.id,
+		status: prediction.status === 'aborted' ? 'canceled' : prediction.status,
+		progress: prediction.status === 'succeeded' ? 100 : progress ? Math.round(progress.percentage * 100) : null,
+		output: prediction.output,
+		error: prediction.error ? String(prediction.error) : null
+	};
+}
 
-		return {
-			videoId,
-			mimeType: 'video/mp4',
-			prompt: params.prompt,
-			model: params.model,
-			duration: params.duration || 8,
-			resolution: params.resolution || '720p',
-			fps: params.fps || 24,
-			hasAudio,
-			usage: {
-				promptTokens: Math.ceil(params.prompt.length / 4),
-				totalTokens: Math.ceil(params.prompt.length / 4)
-			}
-		};
+async function createPrediction(
+	model: string,
+	input: Record<string, any>,
+	options: GenerationStartOptions
+): Promise<GenerationPrediction> {
+	const client = await getClient();
+	const modelIdentifier = MODEL_IDENTIFIERS[model]?.path;
+
+	if (!modelIdentifier) {
+		throw new Error(`Unknown Replicate model: ${model}`);
+	}
+
+	const prediction = await client.predictions.create({
+		model: modelIdentifier,
+		input,
+		...(options.webhookUrl
+			? { webhook: options.webhookUrl, webhook_events_filter: ['start', 'logs', 'completed'] as const }
+			: {})
+	});
+
+	return toGenerationPrediction(prediction);
+}
+
+/**
+ * Start an image prediction without waiting for it to finish
+ */
+async function startImageGeneration(params: ImageGenerationParams, options: GenerationStartOptions = {}): Promise<GenerationPrediction> {
+	try {
+		return await createPrediction(params.model, await buildImageInput(params), options);
+	} catch (error) {
+		throw createProviderError('Replicate', 'image generation', error);
+	}
+}
+
+/**
+ * Start a video prediction without waiting for it to finish
+ */
+async function startVideoGeneration(params: VideoGenerationParams, options: GenerationStartOptions = {}): Promise<GenerationPrediction> {
+	try {
+		return await createPrediction(params.model, await buildVideoInput(params), options);
 	} catch (error) {
 		throw createProviderError('Replicate', 'video generation', error);
 	}
 }
 
+async function getGeneration(predictionId: string): Promise<GenerationPrediction> {
+	const client = await getClient();
+	return toGenerationPrediction(await client.predictions.get(predictionId));
+}
+
+async function cancelGeneration(predictionId: string): Promise<void> {
+	const client = await getClient();
+	await client.predictions.cancel(predictionId);
+}
+
+async function saveImageGeneration(params: ImageGenerationParams, output: unknown): Promise<AIImageResponse> {
+	try {
+		return await saveImageOutput(params, output);
+	} catch (error) {
+		throw createProviderError('Replicate', 'image generation', error);
+	}
+}
+
+async function saveVideoGeneration(params: VideoGenerationParams, output: unknown): Promise<AIVideoResponse> {
+	try {
+		return await saveVideoOutput(params, output);
+	} catch (error) {
+		throw createProviderError('Replicate', 'video generation', error);
+	}
+}
+
+/**
+ * Verify a Replicate webhook delivery and return the prediction it reports,
+ * or null when the signature doesn't match
+ */
+export async function parseReplicateWebhook(request: Request): Promise<GenerationPrediction | null> {
+	const id = request.headers.get('webhook-id');
+	const timestamp = request.headers.get('webhook-timestamp');
+	const signature = request.headers.get('webhook-signature');
+	if (!id || !timestamp || !signature) {
+		return null;
+	}
+
+	const apiKey = await getApiKey();
+	if (cachedWebhookSecret?.apiKey !== apiKey) {
+		const client = await getClient();
+		const { key } = await client.webhooks.default.secret.get();
+		cachedWebhookSecret = { apiKey, secret: key };
+	}
+
+	const body = await request.text();
+	const valid = await validateWebhook({ id, timestamp, signature, body, secret: cachedWebhookSecret.secret });
+
+	return valid ? toGenerationPrediction(JSON.parse(body) as Prediction) : null;
+}
+
 /**
  * Placeholder chat method (not used for Replicate, but required by interface)
  */
@@ -1432,5 +1664,11 @@ export const replicateProvider: AIProvider = {
 	models: [...REPLICATE_IMAGE_MODELS, ...REPLICATE_VIDEO_MODELS],
 	chat,
 	generateImage,
-	generateVideo
+	generateVideo,
+	startImageGeneration,
+	startVideoGeneration,
+	getGeneration,
+	cancelGeneration,
+	saveImageGeneration,
+	saveVideoGeneration
 };
@@ -0,0 +1,274 @@
+/**
+ * Page fetching and text extraction for deep research
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent, fetch as undiciFetch, type RequestInit as UndiciRequestInit, type Response as UndiciResponse } from 'undici';
+
+export interface ExtractedPage {
+	url: string;
+	title: string | null;
+	text: string;
+}
+
+export interface FetchPageOptions {
+	timeoutMs?: number;
+	maxBytes?: number;
+	signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_MAX_BYTES = 1024 * 1024; // 1MB of HTML is plenty for text extraction
+const MAX_REDIRECTS = 5;
+
+// Hostnames that must never be fetched on behalf of a model (SSRF protection)
+const BLOCKED_HOSTNAME_PATTERNS = [
+	/^localhost$/i,
+	/\.localhost$/i,
+	/\.local$/i,
+	/\.internal$/i
+];
+
+// Loopback, private, link-local, CGNAT, unspecified, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+	['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+	['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// ::/96 covers :: and ::1. BlockList checks IPv4-mapped addresses (::ffff:a.b.c.d) against the IPv4 ranges
+for (const [network, prefix] of [
+	['::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+	BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable
+ */
+export function isPublicAddress(address: string): boolean {
+	const family = isIP(address);
+	if (family === 0) return false;
+	return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// URL.hostname keeps the brackets around IPv6 literals
+function stripBrackets(hostname: string): string {
+	return hostname.startsWith('[') && hostname.endsWith(']') ? hostname.slice(1, -1) : hostname;
+}
+
+/**
+ * Check that a URL is an http(s) address we are willing to fetch, without resolving it.
+ * Hosts given as IP addresses are checked here; names are checked when they're resolved (see fetchPublicUrl).
+ */
+export function isFetchableUrl(rawUrl: string): boolean {
+	try {
+		const url = new URL(rawUrl);
+		if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+		if (BLOCKED_HOSTNAME_PATTERNS.some(pattern => pattern.test(url.hostname))) return false;
+
+		const host = stripBrackets(url.hostname);
+		return isIP(host) === 0 || isPublicAddress(host);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Resolve a host and return its addresses, rejecting it if any of them isn't public
+ */
+async function lookupPublic(hostname: string) {
+	const addresses = await lookup(stripBrackets(hostname), { all: true });
+	if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+		throw new Error(`${hostname} does not resolve to a public address`);
+	}
+	return addresses;
+}
+
+/**
+ * Check that a URL is fetchable and its host currently resolves only to public addresses
+ */
+export async function isPublicUrl(rawUrl: string): Promise<boolean> {
+	if (!isFetchableUrl(rawUrl)) return false;
+	try {
+		await lookupPublic(new URL(rawUrl).hostname);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Connections resolve the host themselves and only use the addresses that passed the check,
+// so a DNS answer can't change between checking and connecting (DNS rebinding)
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+	lookupPublic(hostname).then(
+		addresses => options.all
+			? callback(null, addresses)
+			: callback(null, addresses[0].address, addresses[0].family),
+		error => callback(error, '', 0)
+	);
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * fetch() restricted to public addresses. Redirects aren't followed: check each hop with isFetchableUrl
+ * and request it again. Throws for blocked URLs, like fetch does for network errors.
+ */
+export async function fetchPublicUrl(rawUrl: string, init: Omit<UndiciRequestInit, 'dispatcher' | 'redirect'> = {}): Promise<UndiciResponse> {
+	if (!isFetchableUrl(rawUrl)) {
+		throw new Error('URL is not allowed');
+	}
+	return undiciFetch(rawUrl, { ...init, redirect: 'manual', dispatcher: publicAgent });
+}
+
+/**
+ * Fetch a page and return its readable text.
+ * Returns null for non-text responses, blocked URLs, timeouts and HTTP errors.
+ */
+export async function fetchPageText(rawUrl: string, options: FetchPageOptions = {}): Promise<ExtractedPage | null> {
+	const { timeoutMs = DEFAULT_TIMEOUT_MS, maxBytes = DEFAULT_MAX_BYTES, signal } = options;
+
+	if (!isFetchableUrl(rawUrl)) {
+		return null;
+	}
+
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort(), timeoutMs);
+	const onParentAbort = () => controller.abort();
+	signal?.addEventListener('abort', onParentAbort);
+
+	try {
+		// Redirects are followed by hand so every hop is checked before it is requested
+		let currentUrl = rawUrl;
+		let response: UndiciResponse;
+		for (let hops = 0; ; hops++) {
+			response = await fetchPublicUrl(currentUrl, {
+				headers: {
+					'Accept': 'text/html,text/plain;q=0.9',
+					'User-Agent': 'Mozilla/5.0 (compatible; DeepResearchBot/1.0)'
+				},
+				signal: controller.signal
+			});
+
+			if (response.status < 300 || response.status >= 400) break;
+
+			await response.body?.cancel();
+			const location = response.headers.get('location');
+			if (!location || hops >= MAX_REDIRECTS) {
+				return null;
+			}
+			currentUrl = new URL(location, currentUrl).toString();
+			if (!isFetchableUrl(currentUrl)) {
+				return null;
+			}
+		}
+
+		if (!response.ok || !response.body) {
+			return null;
+		}
+
+		const contentType = response.headers.get('content-type') || '';
+		const isHtml = contentType.includes('text/html') || contentType.includes('application/xhtml');
+		if (!isHtml && !contentType.includes('text/plain')) {
+			return null;
+		}
+
+		const { text: body } = await readBodyWithLimit(response.body, maxBytes);
+
+		if (isHtml) {
+			return {
+				url: rawUrl,
+				title: extractTitle(body),
+				text: extractTextFromHtml(body)
+			};
+		}
+
+		return { url: rawUrl, title: null, text: normalizeWhitespace(body) };
+	} catch (error) {
+		console.warn(`[Research] Failed to fetch ${rawUrl}:`, error instanceof Error ? error.message : error);
+		return null;
+	} finally {
+		clearTimeout(timeout);
+		signal?.removeEventListener('abort', onParentAbort);
+	}
+}
+
+/**
+ * Read a response body, stopping once maxBytes have been received.
+ * `truncated` is true when the body was longer than the limit.
+ */
+export async function readBodyWithLimit(body: NonNullable<UndiciResponse['body']>, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let received = 0;
+	let text = '';
+	let truncated = false;
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+
+		const remaining = maxBytes - received;
+		if (value.byteLength > remaining) {
+			text += decoder.decode(value.subarray(0, remaining), { stream: true });
+			truncated = true;
+			break;
+		}
+
+		received += value.byteLength;
+		text += decoder.decode(value, { stream: true });
+	}
+
+	await reader.cancel().catch(() => {});
+	return { text: text + decoder.decode(), truncated };
+}
+
+function extractTitle(html: string): string | null {
+	const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+	return match ? normalizeWhitespace(decodeEntities(match[1])) || null : null;
+}
+
+/**
+ * Convert HTML to plain text, keeping paragraph boundaries as blank lines.
+ * Boilerplate containers (scripts, navigation, footers, forms) are dropped.
+ */
+export function extractTextFromHtml(html: string): string {
+	let content = html;
+
+	// Prefer the main content region when the page marks one
+	const main = content.match(/<(main|article)[^>]*>([\s\S]*?)<\/\1>/i);
+	if (main) {
+		content = main[2];
+	}
+
+	content = content
+		.replace(/<!--[\s\S]*?-->/g, ' ')
+		.replace(/<(script|style|noscript|svg|nav|header|footer|aside|form|iframe)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+		.replace(/<\/(p|div|section|li|h[1-6]|tr|blockquote|pre)>/gi, '\n\n')
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<[^>]+>/g, ' ');
+
+	return decodeEntities(content)
+		.split(/\n{2,}/)
+		.map(normalizeWhitespace)
+		.filter(paragraph => paragraph.length > 0)
+		.join('\n\n');
+}
+
+function normalizeWhitespace(text: string): string {
+	return text.replace(/[ \t\r\f\v]+/g, ' ').replace(/ *\n */g, '\n').trim();
+}
+
+function decodeEntities(text: string): string {
+	const named: Record<string, string> = {
+		amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…'
+	};
+
+	return text
+		.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+		.replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+		.replace(/&([a-z]+);/gi, (entity, name) => named[name.toLowerCase()] ?? entity);
+}
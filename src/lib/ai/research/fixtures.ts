@@ -0,0 +1,40 @@
+/**
+ * Offline document set for the fixture search backend.
+ * Lets the deep_research tool run end-to-end without network access (local dev, tests).
+ */
+export interface ResearchFixtureDocument {
+	title: string;
+	url: string;
+	content: string;
+}
+
+export const RESEARCH_FIXTURE_DOCUMENTS: ResearchFixtureDocument[] = [
+	{
+		title: 'Solar Power Overview',
+		url: 'https://fixtures.local/solar-power',
+		content: 'Solar power converts sunlight into electricity using photovoltaic panels or concentrated solar power systems. ' +
+			'The cost of solar photovoltaic modules fell by roughly 90 percent between 2010 and 2020, making utility-scale solar one of the cheapest sources of new electricity in many regions.\n\n' +
+			'Solar output is variable: it depends on time of day, season and cloud cover. Grid operators pair solar with battery storage, demand response and other generation to keep supply stable.\n\n' +
+			'Rooftop solar lets households generate their own electricity and, under net metering schemes, sell surplus power back to the grid.'
+	},
+	{
+		title: 'Wind Energy Basics',
+		url: 'https://fixtures.local/wind-energy',
+		content: 'Wind turbines convert the kinetic energy of moving air into electricity. Onshore wind is a mature, low-cost technology, while offshore wind offers stronger and steadier winds at a higher installation cost.\n\n' +
+			'Like solar, wind generation is intermittent. Forecasting, geographic diversity of wind farms and long-distance transmission reduce the impact of calm periods.\n\n' +
+			'Common concerns about wind farms include visual impact, noise and effects on birds and bats, which siting studies try to minimise.'
+	},
+	{
+		title: 'Grid-Scale Battery Storage',
+		url: 'https://fixtures.local/battery-storage',
+		content: 'Lithium-ion batteries dominate grid-scale storage deployments. They shift renewable energy from periods of surplus to periods of demand and provide fast frequency response.\n\n' +
+			'Battery pack prices dropped sharply over the last decade, but most installations still store only a few hours of energy. Long-duration storage technologies such as pumped hydro, flow batteries and compressed air are being developed for multi-day needs.'
+	},
+	{
+		title: 'Large Language Models Explained',
+		url: 'https://fixtures.local/large-language-models',
+		content: 'Large language models are neural networks trained on large text corpora to predict the next token. Transformer architectures with self-attention made it practical to train models with billions of parameters.\n\n' +
+			'Language models can answer questions, summarise documents and write code, but they may produce confident yet incorrect statements, known as hallucinations. Retrieval-augmented generation grounds answers in retrieved documents and cites sources to reduce this risk.\n\n' +
+			'Evaluation of language models combines automatic benchmarks with human review of helpfulness, accuracy and safety.'
+	}
+];
@@ -0,0 +1,101 @@
+import type { SearchBackend } from './search.js';
+import { fetchPageText } from './extract.js';
+import {
+	RESEARCH_DEPTH_CONFIG,
+	planSubQueries,
+	rankPassages,
+	buildResearchReport,
+	type ResearchDepth,
+	type ResearchDocument,
+	type ResearchFinding,
+	type ResearchReport,
+	type ResearchSource
+} from './synthesis.js';
+
+export interface RunResearchParams {
+	topic: string;
+	focusAreas?: string[];
+	depth?: ResearchDepth;
+	backend: SearchBackend;
+	signal?: AbortSignal;
+}
+
+/**
+ * Run a research pass: plan sub-queries, search, fetch pages, rank passages
+ * and return a cited synthesis.
+ */
+export async function runResearch(params: RunResearchParams): Promise<ResearchReport> {
+	const { topic, focusAreas = [], depth = 'moderate', backend, signal } = params;
+	const config = RESEARCH_DEPTH_CONFIG[depth];
+	const queries = planSubQueries(topic, focusAreas, depth);
+
+	// Sources are shared across queries so the same URL keeps one citation number
+	const sourcesByUrl = new Map<string, ResearchSource>();
+	const documentsBySourceId = new Map<number, ResearchDocument>();
+	const findings: ResearchFinding[] = [];
+
+	for (const query of queries) {
+		if (signal?.aborted) break;
+
+		let results;
+		try {
+			results = await backend.search(query, { limit: config.resultsPerQuery, signal });
+		} catch (error) {
+			console.warn(`[Research] Search failed for "${query}":`, error instanceof Error ? error.message : error);
+			continue;
+		}
+
+		const queryDocuments: ResearchDocument[] = [];
+		const pendingFetches: Array<Promise<void>> = [];
+
+		for (const result of results) {
+			let source = sourcesByUrl.get(result.url);
+			if (!source) {
+				source = { id: sourcesByUrl.size + 1, title: result.title, url: result.url, snippet: result.snippet };
+				sourcesByUrl.set(result.url, source);
+			}
+
+			const existing = documentsBySourceId.get(source.id);
+			if (existing) {
+				queryDocuments.push(existing);
+				continue;
+			}
+
+			const document: ResearchDocument = { source, text: result.content || result.snippet };
+			documentsBySourceId.set(source.id, document);
+			queryDocuments.push(document);
+
+			// Fetch full text for the top results only; the rest contribute their snippet
+			if (!result.content && pendingFetches.length < config.pagesPerQuery) {
+				pendingFetches.push(
+					fetchPageText(result.url, { signal }).then(page => {
+						if (page?.text) {
+							document.text = `${result.snippet}\n\n${page.text}`;
+							if (page.title && !source!.title) source!.title = page.title;
+						}
+					})
+				);
+			}
+		}
+
+		await Promise.allSettled(pendingFetches);
+
+		findings.push({
+			query,
+			passages: rankPassages(query, queryDocuments, config.passagesPerQuery)
+		});
+	}
+
+	return buildResearchReport({
+		topic,
+		depth,
+		backend: backend.name,
+		queries,
+		findings,
+		sources: [...sourcesByUrl.values()]
+	});
+}
+
+export { createSearchBackend, FixtureSearchBackend, BraveSearchBackend } from './search.js';
+export type { SearchBackend, SearchResult, SearchBackendConfig, SearchBackendType } from './search.js';
+export type { ResearchDepth, ResearchReport, ResearchSource } from './synthesis.js';
@@ -0,0 +1,140 @@
+import { RESEARCH_FIXTURE_DOCUMENTS, type ResearchFixtureDocument } from './fixtures.js';
+
+/**
+ * A single hit returned by a search backend
+ */
+export interface SearchResult {
+	title: string;
+	url: string;
+	snippet: string;
+	/** Full page text when the backend already has it (fixture backend); skips the page fetch */
+	content?: string;
+}
+
+export interface SearchOptions {
+	limit?: number;
+	signal?: AbortSignal;
+}
+
+/**
+ * Pluggable web search backend used by the deep_research tool.
+ * Implementations must never throw for "no results" - return an empty array instead.
+ */
+export interface SearchBackend {
+	name: string;
+	search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+}
+
+export type SearchBackendType = 'brave' | 'fixture';
+
+export interface SearchBackendConfig {
+	type: SearchBackendType;
+	apiKey?: string;
+	fixtures?: ResearchFixtureDocument[];
+}
+
+/**
+ * Brave Search API backend
+ * Docs: https://api.search.brave.com/app/documentation/web-search/get-started
+ */
+export class BraveSearchBackend implements SearchBackend {
+	name = 'brave';
+
+	constructor(private apiKey: string) {}
+
+	async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+		const { limit = 5, signal } = options;
+		const url = new URL('https://api.search.brave.com/res/v1/web/search');
+		url.searchParams.set('q', query);
+		url.searchParams.set('count', String(Math.min(Math.max(limit, 1), 20)));
+
+		const response = await fetch(url, {
+			headers: {
+				'Accept': 'application/json',
+				'X-Subscription-Token': this.apiKey
+			},
+			signal
+		});
+
+		if (!response.ok) {
+			throw new Error(`Brave Search returned ${response.status}: ${response.statusText}`);
+		}
+
+		const data = await response.json() as {
+			web?: { results?: Array<{ title?: string; url?: string; description?: string }> };
+		};
+
+		return (data.web?.results || [])
+			.filter(result => result.url)
+			.slice(0, limit)
+			.map(result => ({
+				title: stripTags(result.title || result.url!),
+				url: result.url!,
+				snippet: stripTags(result.description || '')
+			}));
+	}
+}
+
+/**
+ * Offline backend that searches a local document set.
+ * Used for development and tests so research runs without network access.
+ */
+export class FixtureSearchBackend implements SearchBackend {
+	name = 'fixture';
+
+	constructor(private documents: ResearchFixtureDocument[] = RESEARCH_FIXTURE_DOCUMENTS) {}
+
+	async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+		const { limit = 5 } = options;
+		const terms = tokenize(query);
+		if (terms.length === 0) return [];
+
+		return this.documents
+			.map(doc => {
+				const haystack = tokenize(`${doc.title} ${doc.content}`);
+				const score = terms.reduce((sum, term) => sum + haystack.filter(t => t === term).length, 0);
+				return { doc, score };
+			})
+			.filter(({ score }) => score > 0)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit)
+			.map(({ doc }) => ({
+				title: doc.title,
+				url: doc.url,
+				snippet: doc.content.slice(0, 200),
+				content: doc.content
+			}));
+	}
+}
+
+/**
+ * Create a search backend from configuration.
+ * Returns null when the selected backend is missing credentials.
+ */
+export function createSearchBackend(config: SearchBackendConfig): SearchBackend | null {
+	switch (config.type) {
+		case 'fixture':
+			return new FixtureSearchBackend(config.fixtures);
+		case 'brave':
+			return config.apiKey ? new BraveSearchBackend(config.apiKey) : null;
+		default:
+			return null;
+	}
+}
+
+const STOPWORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+	'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'which', 'who', 'why', 'with'
+]);
+
+/**
+ * Lowercase word tokens without stopwords (shared by ranking code)
+ */
+export function tokenize(text: string): string[] {
+	return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+		.filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function stripTags(text: string): string {
+	return text.replace(/<[^>]+>/g, '').trim();
+}
@@ -0,0 +1,221 @@
+import { tokenize } from './search.js';
+
+export type ResearchDepth = 'surface' | 'moderate' | 'deep' | 'comprehensive';
+
+/**
+ * How much work each depth level does
+ */
+export interface ResearchDepthConfig {
+	maxQueries: number;
+	resultsPerQuery: number;
+	pagesPerQuery: number;
+	passagesPerQuery: number;
+}
+
+export const RESEARCH_DEPTH_CONFIG: Record<ResearchDepth, ResearchDepthConfig> = {
+	surface: { maxQueries: 2, resultsPerQuery: 3, pagesPerQuery: 2, passagesPerQuery: 2 },
+	moderate: { maxQueries: 3, resultsPerQuery: 4, pagesPerQuery: 3, passagesPerQuery: 3 },
+	deep: { maxQueries: 4, resultsPerQuery: 5, pagesPerQuery: 4, passagesPerQuery: 4 },
+	comprehensive: { maxQueries: 6, resultsPerQuery: 6, pagesPerQuery: 5, passagesPerQuery: 5 }
+};
+
+// Angles added to the topic when the caller gives no focus areas
+const QUERY_ANGLES = ['overview', 'latest developments', 'challenges and criticism', 'statistics and data', 'history', 'future outlook'];
+
+/**
+ * Plan the sub-queries for a research run.
+ * Focus areas take priority; remaining slots are filled with generic research angles.
+ */
+export function planSubQueries(topic: string, focusAreas: string[], depth: ResearchDepth): string[] {
+	const { maxQueries } = RESEARCH_DEPTH_CONFIG[depth];
+	const queries = [topic.trim()];
+
+	for (const area of focusAreas) {
+		const trimmed = area.trim();
+		if (trimmed) queries.push(`${topic.trim()} ${trimmed}`);
+	}
+
+	for (const angle of QUERY_ANGLES) {
+		if (queries.length >= maxQueries) break;
+		queries.push(`${topic.trim()} ${angle}`);
+	}
+
+	// Dedupe case-insensitively while keeping order
+	const seen = new Set<string>();
+	return queries
+		.filter(query => {
+			const key = query.toLowerCase();
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		})
+		.slice(0, Math.max(maxQueries, 1 + focusAreas.length));
+}
+
+export interface ResearchSource {
+	id: number; // 1-based citation number
+	title: string;
+	url: string;
+	snippet: string;
+}
+
+export interface ResearchDocument {
+	source: ResearchSource;
+	text: string;
+}
+
+export interface ResearchPassage {
+	sourceId: number;
+	text: string;
+	score: number;
+}
+
+const PASSAGE_MAX_CHARS = 600;
+
+/**
+ * Split documents into paragraph-sized passages and rank them against a query.
+ * Scoring is term overlap weighted by term rarity across the passage set.
+ */
+export function rankPassages(query: string, documents: ResearchDocument[], limit: number): ResearchPassage[] {
+	const queryTerms = [...new Set(tokenize(query))];
+	if (queryTerms.length === 0) return [];
+
+	const passages = documents.flatMap(doc =>
+		splitIntoPassages(doc.text).map(text => ({ sourceId: doc.source.id, text, tokens: new Set(tokenize(text)) }))
+	);
+
+	const documentFrequency = new Map<string, number>();
+	for (const term of queryTerms) {
+		documentFrequency.set(term, passages.filter(p => p.tokens.has(term)).length);
+	}
+
+	const ranked = passages
+		.map(passage => {
+			let score = 0;
+			for (const term of queryTerms) {
+				if (passage.tokens.has(term)) {
+					score += Math.log(1 + passages.length / (documentFrequency.get(term) || 1));
+				}
+			}
+			return { sourceId: passage.sourceId, text: passage.text, score };
+		})
+		.filter(passage => passage.score > 0)
+		.sort((a, b) => b.score - a.score);
+
+	// Take at most two passages per source so one long page can't crowd out the rest
+	const perSource = new Map<number, number>();
+	const selected: ResearchPassage[] = [];
+	for (const passage of ranked) {
+		const count = perSource.get(passage.sourceId) || 0;
+		if (count >= 2) continue;
+		perSource.set(passage.sourceId, count + 1);
+		selected.push(passage);
+		if (selected.length >= limit) break;
+	}
+
+	return selected;
+}
+
+function splitIntoPassages(text: string): string[] {
+	const passages: string[] = [];
+
+	for (const paragraph of text.split(/\n{2,}/)) {
+		const trimmed = paragraph.trim();
+		if (trimmed.length < 40) continue; // Skip menu items, captions and other fragments
+
+		if (trimmed.length <= PASSAGE_MAX_CHARS) {
+			passages.push(trimmed);
+			continue;
+		}
+
+		// Break long paragraphs on sentence boundaries
+		let current = '';
+		for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+			if (current && current.length + sentence.length > PASSAGE_MAX_CHARS) {
+				passages.push(current.trim());
+				current = '';
+			}
+			current += `${sentence} `;
+		}
+		if (current.trim()) passages.push(current.trim().slice(0, PASSAGE_MAX_CHARS));
+	}
+
+	return passages;
+}
+
+export interface ResearchFinding {
+	query: string;
+	passages: ResearchPassage[];
+}
+
+export interface ResearchReport {
+	topic: string;
+	depth: ResearchDepth;
+	backend: string;
+	queries: string[];
+	findings: ResearchFinding[];
+	sources: ResearchSource[];
+	/** Markdown synthesis with [n] citations that map to `sources` */
+	synthesis: string;
+}
+
+/**
+ * Build the cited markdown synthesis from ranked findings.
+ * Sources that were never cited are dropped and citations renumbered.
+ */
+export function buildResearchReport(params: {
+	topic: string;
+	depth: ResearchDepth;
+	backend: string;
+	queries: string[];
+	findings: ResearchFinding[];
+	sources: ResearchSource[];
+}): ResearchReport {
+	const { topic, depth, backend, queries, findings, sources } = params;
+
+	const citedIds = [...new Set(findings.flatMap(f => f.passages.map(p => p.sourceId)))].sort((a, b) => a - b);
+	const renumber = new Map(citedIds.map((id, index) => [id, index + 1]));
+	const citedSources = citedIds
+		.map(id => sources.find(source => source.id === id))
+		.filter((source): source is ResearchSource => !!source)
+		.map(source => ({ ...source, id: renumber.get(source.id)! }));
+
+	const renumberedFindings = findings.map(finding => ({
+		query: finding.query,
+		passages: finding.passages.map(p => ({ ...p, sourceId: renumber.get(p.sourceId)! }))
+	}));
+
+	let synthesis = `# Research: ${topic}\n\n`;
+
+	if (citedSources.length === 0) {
+		synthesis += 'No relevant sources were found for this topic.\n';
+	} else {
+		const usedPassages = new Set<string>();
+		for (const finding of renumberedFindings) {
+			const fresh = finding.passages.filter(p => !usedPassages.has(p.text));
+			if (fresh.length === 0) continue;
+
+			synthesis += `## ${finding.query}\n\n`;
+			for (const passage of fresh) {
+				usedPassages.add(passage.text);
+				synthesis += `- ${passage.text} [${passage.sourceId}]\n`;
+			}
+			synthesis += '\n';
+		}
+
+		synthesis += '## Sources\n\n';
+		for (const source of citedSources) {
+			synthesis += `${source.id}. [${source.title}](${source.url})\n`;
+		}
+	}
+
+	return {
+		topic,
+		depth,
+		backend,
+		queries,
+		findings: renumberedFindings,
+		sources: citedSources,
+		synthesis: synthesis.trim()
+	};
+}
@@ -0,0 +1,53 @@
+import { tokenize } from '../research/search.js';
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export interface ScoredIndex {
+	/** Position in the input array */
+	index: number;
+	score: number;
+}
+
+/**
+ * Rank texts against a query with BM25. Works offline and needs no index:
+ * term statistics are computed over the given texts on each call, which is
+ * fine at project-file scale (a few hundred chunks).
+ * Texts with no query terms are left out.
+ */
+export function rankBM25(query: string, texts: string[]): ScoredIndex[] {
+	const queryTerms = [...new Set(tokenize(query))];
+	if (queryTerms.length === 0 || texts.length === 0) return [];
+
+	const documents = texts.map(text => {
+		const termFrequency = new Map<string, number>();
+		const tokens = tokenize(text);
+		for (const token of tokens) {
+			termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+		}
+		return { termFrequency, length: tokens.length };
+	});
+
+	const averageLength = documents.reduce((total, doc) => total + doc.length, 0) / documents.length || 1;
+
+	const inverseDocumentFrequency = new Map<string, number>();
+	for (const term of queryTerms) {
+		const containing = documents.filter(doc => doc.termFrequency.has(term)).length;
+		inverseDocumentFrequency.set(term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5)));
+	}
+
+	return documents
+		.map((doc, index) => {
+			let score = 0;
+			for (const term of queryTerms) {
+				const frequency = doc.termFrequency.get(term);
+				if (!frequency) continue;
+				const normalization = K1 * (1 - B + B * (doc.length / averageLength));
+				score += inverseDocumentFrequency.get(term)! * (frequency * (K1 + 1)) / (frequency + normalization);
+			}
+			return { index, score };
+		})
+		.filter(result => result.score > 0)
+		.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,62 @@
+/**
+ * A slice of a file, addressed by 1-based inclusive line range for citations
+ */
+export interface TextChunk {
+	index: number;
+	startLine: number;
+	endLine: number;
+	content: string;
+}
+
+export interface ChunkOptions {
+	/** Target chunk size in characters */
+	maxChars?: number;
+	/** Lines repeated at the start of the next chunk so passages aren't cut mid-thought */
+	overlapLines?: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS = {
+	maxChars: 1500,
+	overlapLines: 2
+} as const;
+
+/**
+ * Split text into line-aligned chunks of roughly maxChars.
+ * Prefers breaking at blank lines (paragraphs, markdown sections); a single
+ * over-long line is kept whole rather than split mid-line.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+	const maxChars = options.maxChars ?? DEFAULT_CHUNK_OPTIONS.maxChars;
+	const overlapLines = options.overlapLines ?? DEFAULT_CHUNK_OPTIONS.overlapLines;
+	const lines = text.replace(/\r\n?/g, '\n').split('\n');
+	const chunks: TextChunk[] = [];
+
+	let start = 0;
+	while (start < lines.length) {
+		let end = start;
+		let size = 0;
+		let lastBlank = -1;
+
+		while (end < lines.length && (end === start || size + lines[end].length + 1 <= maxChars)) {
+			size += lines[end].length + 1;
+			if (!lines[end].trim() && end > start) lastBlank = end;
+			end++;
+		}
+
+		// Break at the last paragraph boundary if it keeps at least half the chunk
+		if (end < lines.length && lastBlank > start) {
+			const sizeAtBlank = lines.slice(start, lastBlank).reduce((total, line) => total + line.length + 1, 0);
+			if (sizeAtBlank >= maxChars / 2) end = lastBlank;
+		}
+
+		const content = lines.slice(start, end).join('\n').trim();
+		if (content) {
+			chunks.push({ index: chunks.length, startLine: start + 1, endLine: end, content });
+		}
+
+		if (end >= lines.length) break;
+		start = Math.max(end - overlapLines, start + 1);
+	}
+
+	return chunks;
+}
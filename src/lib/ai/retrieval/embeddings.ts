@@ -0,0 +1,97 @@
+export interface EmbedOptions {
+	signal?: AbortSignal;
+}
+
+/**
+ * Pluggable embeddings backend for project file retrieval.
+ * `model` is stored with each chunk so vectors from different models are never compared.
+ */
+export interface EmbeddingBackend {
+	name: string;
+	model: string;
+	embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+}
+
+export type EmbeddingBackendType = 'openrouter' | 'openai-compatible';
+
+export interface EmbeddingBackendConfig {
+	type: EmbeddingBackendType;
+	apiKey: string;
+	model: string;
+	/** Required for 'openai-compatible' (e.g. http://localhost:11434/v1 for Ollama) */
+	baseUrl?: string;
+}
+
+const BATCH_SIZE = 64;
+
+/**
+ * Backend for any OpenAI-style /embeddings endpoint (OpenRouter, OpenAI, Ollama, ...)
+ */
+export class OpenAICompatibleEmbeddingBackend implements EmbeddingBackend {
+	constructor(
+		public name: string,
+		public model: string,
+		private baseUrl: string,
+		private apiKey: string
+	) {}
+
+	async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+		const vectors: number[][] = [];
+
+		for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+			const batch = texts.slice(i, i + BATCH_SIZE);
+			const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+				},
+				body: JSON.stringify({ model: this.model, input: batch }),
+				signal: options.signal
+			});
+
+			if (!response.ok) {
+				throw new Error(`Embeddings request to ${this.name} returned ${response.status}: ${response.statusText}`);
+			}
+
+			const data = await response.json() as { data?: Array<{ embedding: number[]; index: number }> };
+			const ordered = [...(data.data || [])].sort((a, b) => a.index - b.index);
+			if (ordered.length !== batch.length) {
+				throw new Error(`Embeddings request to ${this.name} returned ${ordered.length} vectors for ${batch.length} inputs`);
+			}
+			vectors.push(...ordered.map(item => item.embedding));
+		}
+
+		return vectors;
+	}
+}
+
+/**
+ * Create an embeddings backend from config
+ */
+export function createEmbeddingBackend(config: EmbeddingBackendConfig): EmbeddingBackend {
+	switch (config.type) {
+		case 'openrouter':
+			return new OpenAICompatibleEmbeddingBackend('openrouter', config.model, 'https://openrouter.ai/api/v1', config.apiKey);
+		case 'openai-compatible':
+			if (!config.baseUrl) throw new Error('baseUrl is required for openai-compatible embeddings');
+			return new OpenAICompatibleEmbeddingBackend('openai-compatible', config.model, config.baseUrl, config.apiKey);
+		default:
+			throw new Error(`Unknown embeddings backend: ${(config as EmbeddingBackendConfig).type}`);
+	}
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	if (a.length !== b.length || a.length === 0) return 0;
+
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+
+	return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
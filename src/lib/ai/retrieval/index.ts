@@ -0,0 +1,101 @@
+import { rankBM25 } from './bm25.js';
+import { cosineSimilarity, type EmbeddingBackend } from './embeddings.js';
+
+/**
+ * Indexed chunk of a project file
+ */
+export interface RetrievalChunk {
+	filename: string;
+	chunkIndex: number;
+	startLine: number;
+	endLine: number;
+	content: string;
+	/** Present when the chunk was embedded with the active embeddings model */
+	embedding?: number[] | null;
+}
+
+export interface RetrievedChunk extends RetrievalChunk {
+	score: number;
+}
+
+export interface RetrieveOptions {
+	topK?: number;
+	/** Used for semantic ranking when set; BM25 alone otherwise */
+	embeddings?: EmbeddingBackend | null;
+	signal?: AbortSignal;
+}
+
+// Reciprocal rank fusion constant (the usual value from the RRF paper)
+const RRF_K = 60;
+
+export const DEFAULT_TOP_K = 6;
+
+/**
+ * Pick the chunks most relevant to a query.
+ * With embeddings, BM25 and vector rankings are merged by reciprocal rank fusion;
+ * if the embeddings call fails or no chunk has a vector, BM25 is used alone.
+ */
+export async function retrieveChunks(
+	query: string,
+	chunks: RetrievalChunk[],
+	options: RetrieveOptions = {}
+): Promise<RetrievedChunk[]> {
+	const { topK = DEFAULT_TOP_K, embeddings, signal } = options;
+	if (!query.trim() || chunks.length === 0) return [];
+
+	const rankings: Array<Array<{ index: number }>> = [rankBM25(query, chunks.map(chunk => `${chunk.filename}\n${chunk.content}`))];
+
+	if (embeddings && chunks.some(chunk => chunk.embedding?.length)) {
+		try {
+			const [queryVector] = await embeddings.embed([query], { signal });
+			rankings.push(
+				chunks
+					.map((chunk, index) => ({ index, score: chunk.embedding ? cosineSimilarity(queryVector, chunk.embedding) : 0 }))
+					.filter(result => result.score > 0)
+					.sort((a, b) => b.score - a.score)
+			);
+		} catch (error) {
+			console.warn('[Retrieval] Query embedding failed, using BM25 only:', error instanceof Error ? error.message : error);
+		}
+	}
+
+	const fused = new Map<number, number>();
+	for (const ranking of rankings) {
+		ranking.forEach(({ index }, rank) => {
+			fused.set(index, (fused.get(index) || 0) + 1 / (RRF_K + rank + 1));
+		});
+	}
+
+	return [...fused.entries()]
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, topK)
+		.map(([index, score]) => ({ ...chunks[index], score }));
+}
+
+/**
+ * Citation label for a chunk, e.g. "notes.md, lines 12-40"
+ */
+export function formatChunkCitation(chunk: Pick<RetrievalChunk, 'filename' | 'startLine' | 'endLine'>): string {
+	return chunk.startLine === chunk.endLine
+		? `${chunk.filename}, line ${chunk.startLine}`
+		: `${chunk.filename}, lines ${chunk.startLine}-${chunk.endLine}`;
+}
+
+/**
+ * Render retrieved chunks as a system-prompt section, in file order so
+ * neighbouring excerpts from one file read naturally.
+ */
+export function formatRetrievedContext(chunks: RetrievedChunk[]): string {
+	const ordered = [...chunks].sort((a, b) =>
+		a.filename === b.filename ? a.startLine - b.startLine : a.filename.localeCompare(b.filename)
+	);
+
+	return ordered
+		.map(chunk => `---\n[${formatChunkCitation(chunk)}]\n---\n${chunk.content}`)
+		.join('\n\n');
+}
+
+export { chunkText, DEFAULT_CHUNK_OPTIONS } from './chunking.js';
+export type { TextChunk, ChunkOptions } from './chunking.js';
+export { createEmbeddingBackend, cosineSimilarity } from './embeddings.js';
+export type { EmbeddingBackend, EmbeddingBackendConfig, EmbeddingBackendType } from './embeddings.js';
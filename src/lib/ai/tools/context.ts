@@ -0,0 +1,43 @@
+import type { SearchBackend } from '../research/index.js';
+import type { AIToolProgress } from '../types.js';
+
+/**
+ * A follow-up model call made from inside a tool
+ */
+export interface ToolCompletionRequest {
+	system?: string;
+	prompt: string;
+	maxTokens?: number;
+	signal?: AbortSignal;
+}
+
+/**
+ * Per-request context passed to tool execute functions via AI SDK's experimental_context.
+ * Built server-side by the provider so tool modules stay free of $lib/server imports
+ * (the tool registry is also imported by client components for display names).
+ */
+export interface ToolExecutionContext {
+	userId?: string;
+	chatId?: string;
+	/** Web search backend for deep_research (null when not configured) */
+	searchBackend?: SearchBackend | null;
+	/**
+	 * Run a follow-up completion on the chat's model. Each call is checked and counted
+	 * against the user's text usage; only provided for signed-in users.
+	 */
+	completeText?: (request: ToolCompletionRequest) => Promise<string>;
+}
+
+/**
+ * Read the tool context from AI SDK execute options
+ */
+export function getToolExecutionContext(options: { experimental_context?: unknown }): ToolExecutionContext {
+	return (options.experimental_context as ToolExecutionContext | undefined) ?? {};
+}
+
+/**
+ * Check whether a preliminary tool output is a progress update
+ */
+export function isToolProgress(output: unknown): output is AIToolProgress {
+	return typeof output === 'object' && output !== null && (output as AIToolProgress).kind === 'progress';
+}
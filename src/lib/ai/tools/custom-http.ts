@@ -0,0 +1,133 @@
+import { tool, jsonSchema } from 'ai';
+import { fetchPublicUrl, isFetchableUrl, readBodyWithLimit } from '../research/extract.js';
+
+/**
+ * Admin-defined HTTP tool, as loaded from the custom_tool table.
+ * `authHeaderValue` is already decrypted by the server-side loader.
+ */
+export interface CustomToolDefinition {
+	name: string;
+	displayName: string;
+	description: string;
+	parameters: Record<string, unknown>; // JSON Schema for the tool input
+	endpointUrl: string;
+	httpMethod: 'GET' | 'POST';
+	authHeaderName?: string | null;
+	authHeaderValue?: string | null;
+	timeoutMs: number;
+	maxResponseBytes: number;
+}
+
+export type CustomToolResult =
+	| { status: number; data: unknown; truncated?: boolean }
+	| { error: string };
+
+// Hard caps applied on top of the per-tool settings so one bad row can't stall a chat stream
+export const CUSTOM_TOOL_LIMITS = {
+	minTimeoutMs: 1000,
+	maxTimeoutMs: 30000,
+	maxResponseBytes: 1024 * 1024
+} as const;
+
+// Tool names the model sees must be plain identifiers
+export const CUSTOM_TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+
+/**
+ * Build an AI SDK tool that calls the admin-configured endpoint
+ */
+export function createCustomHttpTool(definition: CustomToolDefinition) {
+	return tool({
+		description: definition.description,
+		inputSchema: jsonSchema<Record<string, unknown>>(definition.parameters),
+		execute: async (input, options) => executeCustomHttpTool(definition, input, options.abortSignal)
+	});
+}
+
+/**
+ * Call a custom tool endpoint with timeout, response-size and address restrictions.
+ * Never throws: failures come back as { error } so the model can report them.
+ */
+export async function executeCustomHttpTool(
+	definition: CustomToolDefinition,
+	input: Record<string, unknown>,
+	signal?: AbortSignal
+): Promise<CustomToolResult> {
+	if (!isFetchableUrl(definition.endpointUrl)) {
+		return { error: `Tool "${definition.name}" has an endpoint that is not allowed` };
+	}
+
+	const timeoutMs = Math.min(
+		Math.max(definition.timeoutMs, CUSTOM_TOOL_LIMITS.minTimeoutMs),
+		CUSTOM_TOOL_LIMITS.maxTimeoutMs
+	);
+	const maxBytes = Math.min(definition.maxResponseBytes, CUSTOM_TOOL_LIMITS.maxResponseBytes);
+
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort(), timeoutMs);
+	const onParentAbort = () => controller.abort();
+	signal?.addEventListener('abort', onParentAbort);
+
+	try {
+		const headers: Record<string, string> = { 'Accept': 'application/json, text/plain;q=0.9' };
+		if (definition.authHeaderName && definition.authHeaderValue) {
+			headers[definition.authHeaderName] = definition.authHeaderValue;
+		}
+
+		let url = definition.endpointUrl;
+		let body: string | undefined;
+
+		if (definition.httpMethod === 'GET') {
+			const requestUrl = new URL(url);
+			for (const [key, value] of Object.entries(input ?? {})) {
+				if (value === undefined || value === null) continue;
+				requestUrl.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+			}
+			url = requestUrl.toString();
+		} else {
+			headers['Content-Type'] = 'application/json';
+			body = JSON.stringify(input ?? {});
+		}
+
+		// Redirects are not followed: a redirect could point at an internal address
+		const response = await fetchPublicUrl(url, {
+			method: definition.httpMethod,
+			headers,
+			body,
+			signal: controller.signal
+		});
+
+		if (response.status >= 300 && response.status < 400) {
+			return { error: `Tool endpoint responded with a redirect (${response.status}), which is not allowed` };
+		}
+
+		if (!response.body) {
+			return { status: response.status, data: null };
+		}
+
+		const { text, truncated } = await readBodyWithLimit(response.body, maxBytes);
+
+		if (!response.ok) {
+			return { error: `Tool endpoint returned ${response.status}: ${text.slice(0, 500)}` };
+		}
+
+		const contentType = response.headers.get('content-type') || '';
+		if (contentType.includes('json') && !truncated) {
+			try {
+				return { status: response.status, data: JSON.parse(text) };
+			} catch {
+				// Fall through and return the raw text
+			}
+		}
+
+		return { status: response.status, data: text, ...(truncated && { truncated: true }) };
+	} catch (error) {
+		if (controller.signal.aborted && !signal?.aborted) {
+			return { error: `Tool "${definition.name}" timed out after ${timeoutMs}ms` };
+		}
+		console.error(`Custom tool ${definition.name} failed:`, error);
+		return { error: `Tool "${definition.name}" failed: ${error instanceof Error ? error.message : 'Request failed'}` };
+	} finally {
+		clearTimeout(timeout);
+		signal?.removeEventListener('abort', onParentAbort);
+	}
+}
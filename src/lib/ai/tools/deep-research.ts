@@ -1,213 +1,43 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { runResearch } from '../research/index.js';
+import { getToolExecutionContext } from './context.js';
 
 /**
  * Deep Research Tool Definition
- * Performs comprehensive multi-step research and analysis on complex topics
+ * Plans sub-queries, searches the web through the configured search backend,
+ * reads the top pages and returns a cited synthesis with a sources list
  */
 export const deepResearchTool = tool({
-	description: 'Perform comprehensive multi-step research and analysis on complex topics. Breaks down questions into sub-components, analyzes each aspect thoroughly, and synthesizes findings into a detailed response.',
+	description: 'Perform multi-step web research on a topic. Breaks the question into sub-queries, searches the web, reads the top pages and returns cited findings with a numbered sources list. Cite findings in your answer using the [n] source numbers.',
 	inputSchema: z.object({
 		topic: z.string().describe('The main research topic or question to investigate'),
 		focus_areas: z.array(z.string()).optional().describe('Specific focus areas or sub-topics to research (optional)'),
 		depth_level: z.enum(['surface', 'moderate', 'deep', 'comprehensive']).optional().default('moderate').describe('The depth of research to conduct (default: moderate)')
 	}),
 	strict: true, // AI SDK v6: Enable strict mode for reliable tool calls
-	execute: async ({ topic, focus_areas = [], depth_level = 'moderate' }) => {
-		// Simulate research process with increasing complexity based on depth level
-		const depthConfig = {
-			surface: { steps: 2, detail_level: 'brief' },
-			moderate: { steps: 4, detail_level: 'moderate' },
-			deep: { steps: 6, detail_level: 'detailed' },
-			comprehensive: { steps: 8, detail_level: 'comprehensive' }
-		};
+	execute: async ({ topic, focus_areas = [], depth_level = 'moderate' }, options) => {
+		const { searchBackend } = getToolExecutionContext(options);
 
-		const config = depthConfig[depth_level];
+		if (!searchBackend) {
+			return {
+				error: 'Web search is not configured. An administrator needs to add a search API key under Admin > Settings > AI Models.'
+			};
+		}
 
 		try {
-			// Step 1: Topic Analysis
-			let research_findings = `# Deep Research Analysis: ${topic}\n\n`;
-			research_findings += `**Research Depth:** ${depth_level}\n`;
-			research_findings += `**Analysis Steps:** ${config.steps}\n\n`;
-
-			// Step 2: Break down the topic
-			research_findings += `## 1. Topic Breakdown\n`;
-			research_findings += `Analyzing "${topic}" through multiple perspectives:\n\n`;
-
-			// Generate sub-topics based on the main topic
-			const sub_topics = focus_areas.length > 0 ? focus_areas : generateSubTopics(topic);
-
-			for (const sub_topic of sub_topics) {
-				research_findings += `- **${sub_topic}**: Key area requiring investigation\n`;
-			}
-
-			research_findings += `\n## 2. Multi-Step Analysis\n`;
-
-			// Step 3-N: Detailed analysis for each step
-			for (let step = 1; step <= config.steps - 2; step++) {
-				research_findings += `\n### Step ${step}: ${getStepTitle(step, topic)}\n`;
-				research_findings += await analyzeStep(step, topic, sub_topics, config.detail_level);
-			}
-
-			// Final synthesis
-			research_findings += `\n## ${config.steps - 1}. Key Findings & Insights\n`;
-			research_findings += await synthesizeFindings(topic, sub_topics, config.detail_level);
-
-			research_findings += `\n## ${config.steps}. Conclusions & Recommendations\n`;
-			research_findings += await generateConclusions(topic, config.detail_level);
-
-			research_findings += `\n---\n*Research completed using ${depth_level} analysis with ${config.steps} analytical steps.*`;
-
-			return research_findings;
-
+			return await runResearch({
+				topic,
+				focusAreas: focus_areas,
+				depth: depth_level,
+				backend: searchBackend,
+				signal: options.abortSignal
+			});
 		} catch (error) {
 			console.error('Deep research execution error:', error);
-			return `Error conducting deep research on "${topic}": ${error instanceof Error ? error.message : 'Research analysis failed'}`;
+			return {
+				error: `Error conducting deep research on "${topic}": ${error instanceof Error ? error.message : 'Research failed'}`
+			};
 		}
 	}
 });
-
-// Helper function to generate relevant sub-topics
-function generateSubTopics(topic: string): string[] {
-	const topicLower = topic.toLowerCase();
-
-	// Basic topic categorization for better sub-topic generation
-	if (topicLower.includes('technology') || topicLower.includes('ai') || topicLower.includes('software')) {
-		return ['Technical Implementation', 'Current Market Trends', 'Future Implications', 'Ethical Considerations'];
-	} else if (topicLower.includes('business') || topicLower.includes('market') || topicLower.includes('economy')) {
-		return ['Market Analysis', 'Competitive Landscape', 'Financial Impact', 'Strategic Implications'];
-	} else if (topicLower.includes('health') || topicLower.includes('medical') || topicLower.includes('research')) {
-		return ['Current Research', 'Clinical Evidence', 'Risk Assessment', 'Treatment Options'];
-	} else if (topicLower.includes('environment') || topicLower.includes('climate') || topicLower.includes('sustainability')) {
-		return ['Environmental Impact', 'Sustainability Factors', 'Policy Implications', 'Long-term Effects'];
-	} else {
-		return ['Historical Context', 'Current Status', 'Key Factors', 'Future Outlook'];
-	}
-}
-
-// Generate step-specific analysis titles
-function getStepTitle(step: number, topic: string): string {
-	const titles = [
-		'Historical Context & Background',
-		'Current State Analysis',
-		'Key Stakeholders & Factors',
-		'Challenges & Opportunities',
-		'Comparative Analysis',
-		'Future Trends & Implications'
-	];
-	return titles[step - 1] || `Analysis Step ${step}`;
-}
-
-// Perform step-specific analysis
-async function analyzeStep(step: number, topic: string, sub_topics: string[], detail_level: string): Promise<string> {
-	// Simulate processing time for more realistic behavior
-	await new Promise(resolve => setTimeout(resolve, 100));
-
-	let analysis = '';
-
-	switch (step) {
-		case 1: // Historical Context
-			analysis = `Examining the historical development and evolution of ${topic}:\n`;
-			analysis += `- **Origins**: Understanding foundational concepts and early developments\n`;
-			analysis += `- **Evolution**: Key milestones and transformative events\n`;
-			analysis += `- **Lessons Learned**: Historical patterns and their relevance today\n`;
-			break;
-
-		case 2: // Current State
-			analysis = `Analyzing the current state and recent developments:\n`;
-			for (const sub_topic of sub_topics.slice(0, 2)) {
-				analysis += `- **${sub_topic}**: Current status and recent developments\n`;
-			}
-			analysis += `- **Present Challenges**: Immediate obstacles and constraints\n`;
-			break;
-
-		case 3: // Key Factors
-			analysis = `Identifying critical factors and stakeholders:\n`;
-			analysis += `- **Primary Influencers**: Key players and decision-makers\n`;
-			analysis += `- **External Factors**: Environmental and contextual influences\n`;
-			analysis += `- **Success Metrics**: How progress is measured and evaluated\n`;
-			break;
-
-		case 4: // Challenges & Opportunities
-			analysis = `Evaluating challenges and identifying opportunities:\n`;
-			analysis += `- **Major Challenges**: Significant obstacles and limitations\n`;
-			analysis += `- **Emerging Opportunities**: Potential areas for growth and improvement\n`;
-			analysis += `- **Risk Assessment**: Probability and impact of various scenarios\n`;
-			break;
-
-		case 5: // Comparative Analysis
-			analysis = `Conducting comparative analysis with related areas:\n`;
-			analysis += `- **Best Practices**: Learning from successful implementations\n`;
-			analysis += `- **Alternative Approaches**: Different methodologies and strategies\n`;
-			analysis += `- **Benchmarking**: Performance comparison with industry standards\n`;
-			break;
-
-		case 6: // Future Implications
-			analysis = `Exploring future trends and long-term implications:\n`;
-			analysis += `- **Projected Developments**: Anticipated changes and evolution\n`;
-			analysis += `- **Strategic Implications**: Long-term impact and considerations\n`;
-			analysis += `- **Preparation Strategies**: How to prepare for future changes\n`;
-			break;
-
-		default:
-			analysis = `Advanced analysis focusing on specialized aspects of ${topic}.\n`;
-	}
-
-	if (detail_level === 'comprehensive') {
-		analysis += `\n*Additional considerations for ${getStepTitle(step, topic).toLowerCase()}:*\n`;
-		analysis += `- Interdisciplinary connections and cross-domain implications\n`;
-		analysis += `- Quantitative and qualitative assessment methodologies\n`;
-		analysis += `- Stakeholder impact analysis and feedback mechanisms\n`;
-	}
-
-	return analysis;
-}
-
-// Synthesize key findings
-async function synthesizeFindings(topic: string, sub_topics: string[], detail_level: string): Promise<string> {
-	await new Promise(resolve => setTimeout(resolve, 100));
-
-	let synthesis = `Based on the comprehensive analysis of ${topic}, several key insights emerge:\n\n`;
-
-	synthesis += `**Primary Insights:**\n`;
-	for (let i = 0; i < Math.min(sub_topics.length, 3); i++) {
-		synthesis += `- **${sub_topics[i]}**: Integration of historical context with current developments reveals significant patterns\n`;
-	}
-
-	synthesis += `\n**Cross-Cutting Themes:**\n`;
-	synthesis += `- **Complexity**: The topic involves multiple interconnected factors requiring holistic consideration\n`;
-	synthesis += `- **Evolution**: Continuous change and adaptation are fundamental characteristics\n`;
-	synthesis += `- **Impact**: Broad implications across multiple domains and stakeholders\n`;
-
-	if (detail_level === 'comprehensive') {
-		synthesis += `\n**Advanced Synthesis:**\n`;
-		synthesis += `- **System Dynamics**: Understanding feedback loops and emergent properties\n`;
-		synthesis += `- **Multi-Scale Analysis**: Considerations from micro to macro perspectives\n`;
-		synthesis += `- **Uncertainty Management**: Approaches for handling ambiguity and unknown factors\n`;
-	}
-
-	return synthesis;
-}
-
-// Generate conclusions and recommendations
-async function generateConclusions(topic: string, detail_level: string): Promise<string> {
-	await new Promise(resolve => setTimeout(resolve, 100));
-
-	let conclusions = `**Key Conclusions:**\n`;
-	conclusions += `1. **Comprehensive Understanding**: ${topic} requires multi-faceted analysis considering historical, current, and future perspectives\n`;
-	conclusions += `2. **Strategic Importance**: The topic has significant implications that extend beyond immediate considerations\n`;
-	conclusions += `3. **Ongoing Evolution**: Continuous monitoring and adaptation are essential for staying current\n`;
-
-	conclusions += `\n**Recommendations:**\n`;
-	conclusions += `- **Further Investigation**: Continue research in identified high-priority areas\n`;
-	conclusions += `- **Stakeholder Engagement**: Involve relevant parties in ongoing discussions and planning\n`;
-	conclusions += `- **Monitoring Framework**: Establish systems for tracking developments and changes\n`;
-
-	if (detail_level === 'comprehensive') {
-		conclusions += `- **Risk Management**: Develop strategies for addressing identified uncertainties and challenges\n`;
-		conclusions += `- **Innovation Opportunities**: Explore emerging possibilities for advancement and improvement\n`;
-		conclusions += `- **Knowledge Sharing**: Create mechanisms for disseminating insights and learnings\n`;
-	}
-
-	return conclusions;
-}
@@ -1,17 +1,31 @@
+import type { Tool } from 'ai';
 import { deepResearchTool } from './deep-research.js';
 import { thinkLongerTool } from './think-longer.js';
+import { createCustomHttpTool, type CustomToolDefinition } from './custom-http.js';
+import { MCP_TOOL_SEPARATOR } from './mcp.js';
 
-// Tool registry with all available AI SDK v6 tools
+// Built-in AI SDK v6 tools. Admin-defined HTTP tools and MCP server tools are loaded
+// on the server (see $lib/server/custom-tools.ts and mcp-tools.ts) and merged in by getToolsAsObject.
 export const AVAILABLE_TOOLS = {
 	deep_research: deepResearchTool,
 	think_longer: thinkLongerTool
 } as const;
 
-// Type for tool names
+// Type for built-in tool names
 export type ToolName = keyof typeof AVAILABLE_TOOLS;
 
-// Type for a tool instance (inferred from the tool() helper)
-export type ToolInstance = typeof AVAILABLE_TOOLS[ToolName];
+// Type for a tool instance (built-in or custom)
+export type ToolInstance = Tool;
+
+/**
+ * Tool entry shown in the chat tool picker
+ */
+export interface AvailableTool {
+	name: string;
+	displayName: string;
+	description: string;
+	custom: boolean;
+}
 
 /**
  * Get all tool names as an array of strings
@@ -29,21 +43,45 @@ export function getAllTools(): ToolInstance[] {
 
 /**
  * Get tools as an object (for AI SDK v6 streamText)
+ * Custom tool definitions are turned into HTTP tools and MCP tools come prebuilt;
+ * built-in names win on conflicts.
  */
-export function getToolsAsObject(toolNames?: string[]): Record<string, ToolInstance> {
+export function getToolsAsObject(
+	toolNames?: string[],
+	customTools: CustomToolDefinition[] = [],
+	mcpTools: Record<string, ToolInstance> = {}
+): Record<string, ToolInstance> {
+	const registry: Record<string, ToolInstance> = { ...mcpTools };
+	for (const definition of customTools) {
+		registry[definition.name] = createCustomHttpTool(definition);
+	}
+	Object.assign(registry, AVAILABLE_TOOLS);
+
 	if (!toolNames || toolNames.length === 0) {
-		return AVAILABLE_TOOLS as Record<string, ToolInstance>;
+		return registry;
 	}
 
 	const result: Record<string, ToolInstance> = {};
 	for (const name of toolNames) {
-		if (name in AVAILABLE_TOOLS) {
-			result[name] = AVAILABLE_TOOLS[name as ToolName];
+		if (name in registry) {
+			result[name] = registry[name];
 		}
 	}
 	return result;
 }
 
+/**
+ * Get the built-in tools as picker entries
+ */
+export function getBuiltInToolList(): AvailableTool[] {
+	return getAllToolNames().map(name => ({
+		name,
+		displayName: getToolDisplayName(name),
+		description: getToolDescription(name),
+		custom: false
+	}));
+}
+
 /**
  * Get specific tools by name (returns as array)
  */
@@ -69,7 +107,13 @@ export function getToolDisplayName(toolName: string): string {
 		think_longer: 'Think Longer',
 		web_search: 'Web Search'
 	};
-	return displayNames[toolName] || toolName;
+	if (displayNames[toolName]) return displayNames[toolName];
+
+	// Custom and MCP tools: derive a readable name from the identifier (MCP tools as "Server: Tool")
+	return toolName
+		.split(MCP_TOOL_SEPARATOR)
+		.map(part => part.split(/[_-]/).filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '))
+		.join(': ');
 }
 
 /**
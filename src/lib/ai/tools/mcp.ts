@@ -0,0 +1,136 @@
+import { tool, jsonSchema, type ToolExecutionOptions } from 'ai';
+
+/**
+ * Tool discovered on an MCP server, as reported by tools/list
+ */
+export interface McpToolDefinition {
+	name: string;
+	title?: string;
+	description?: string;
+	inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Executes a tools/call on the server (provided by the server-side MCP client)
+ */
+export type McpToolCaller = (input: unknown, options: ToolExecutionOptions) => Promise<unknown>;
+
+export type McpToolResult =
+	| { content: string; isError?: boolean; truncated?: boolean }
+	| { error: string };
+
+// Separates the server prefix from the server's own tool name, e.g. github__search_issues
+export const MCP_TOOL_SEPARATOR = '__';
+
+// Server names become tool-name prefixes, so keep them short identifiers without underscores
+export const MCP_SERVER_NAME_PATTERN = /^[a-z][a-z0-9-]{1,23}$/;
+
+export const MCP_LIMITS = {
+	minTimeoutMs: 1000,
+	maxTimeoutMs: 120000,
+	maxResultChars: 50000
+} as const;
+
+/**
+ * Build the registry name for a server's tool (providers allow [a-zA-Z0-9_-], max 64 chars)
+ */
+export function getMcpToolName(serverName: string, toolName: string): string {
+	const safeToolName = toolName.replace(/[^a-zA-Z0-9_-]/g, '_');
+	return `${serverName}${MCP_TOOL_SEPARATOR}${safeToolName}`.slice(0, 64);
+}
+
+/**
+ * Check whether a registry tool name belongs to an MCP server
+ */
+export function isMcpToolName(toolName: string): boolean {
+	return toolName.includes(MCP_TOOL_SEPARATOR);
+}
+
+/**
+ * Wrap a discovered MCP tool as an AI SDK tool with a per-call timeout.
+ * Never throws: failures come back as { error } so the model can report them.
+ */
+export function createMcpTool(definition: McpToolDefinition, call: McpToolCaller, timeoutMs: number) {
+	const effectiveTimeout = Math.min(Math.max(timeoutMs, MCP_LIMITS.minTimeoutMs), MCP_LIMITS.maxTimeoutMs);
+
+	return tool({
+		description: definition.description || definition.title || definition.name,
+		inputSchema: jsonSchema<Record<string, unknown>>(definition.inputSchema),
+		execute: async (input, options): Promise<McpToolResult> => {
+			const timeoutSignal = AbortSignal.timeout(effectiveTimeout);
+			const abortSignal = options.abortSignal ? AbortSignal.any([options.abortSignal, timeoutSignal]) : timeoutSignal;
+
+			try {
+				// Race the abort too, in case the transport doesn't honour the signal
+				const result = await Promise.race([call(input, { ...options, abortSignal }), rejectOnAbort(abortSignal)]);
+				return formatMcpToolResult(result);
+			} catch (error) {
+				if (timeoutSignal.aborted) {
+					return { error: `Tool "${definition.name}" timed out after ${effectiveTimeout} ms` };
+				}
+				return { error: error instanceof Error ? error.message : 'MCP tool call failed' };
+			}
+		}
+	});
+}
+
+/**
+ * Flatten an MCP CallToolResult into text for the model and the tool output panel
+ */
+export function formatMcpToolResult(result: unknown): McpToolResult {
+	if (!result || typeof result !== 'object') {
+		return { content: result === undefined ? '' : String(result) };
+	}
+
+	const { content, structuredContent, toolResult, isError } = result as {
+		content?: Array<Record<string, unknown>>;
+		structuredContent?: unknown;
+		toolResult?: unknown;
+		isError?: boolean;
+	};
+
+	let text: string;
+	if (Array.isArray(content) && content.length > 0) {
+		text = content.map(formatContentPart).filter(Boolean).join('\n\n');
+	} else if (structuredContent !== undefined) {
+		text = JSON.stringify(structuredContent, null, 2);
+	} else if (toolResult !== undefined) {
+		// Legacy (pre-2024-11-05) servers
+		text = typeof toolResult === 'string' ? toolResult : JSON.stringify(toolResult, null, 2);
+	} else {
+		text = '';
+	}
+
+	const truncated = text.length > MCP_LIMITS.maxResultChars;
+	return {
+		content: truncated ? text.slice(0, MCP_LIMITS.maxResultChars) : text,
+		...(isError && { isError: true }),
+		...(truncated && { truncated: true })
+	};
+}
+
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+	return new Promise((_, reject) => {
+		if (signal.aborted) reject(signal.reason);
+		signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+	});
+}
+
+function formatContentPart(part: Record<string, unknown>): string {
+	switch (part.type) {
+		case 'text':
+			return String(part.text ?? '');
+		case 'image':
+		case 'audio':
+			// Binary content isn't forwarded to the model, just noted
+			return `[${part.type}: ${part.mimeType ?? 'unknown type'}]`;
+		case 'resource': {
+			const resource = (part.resource ?? {}) as Record<string, unknown>;
+			return typeof resource.text === 'string' ? resource.text : `[resource: ${resource.uri ?? 'unknown'}]`;
+		}
+		case 'resource_link':
+			return `[resource: ${part.uri ?? part.name ?? 'unknown'}]`;
+		default:
+			return '';
+	}
+}
@@ -1,341 +1,185 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import type { AIToolProgress } from '../types.js';
+import { getToolExecutionContext } from './context.js';
+
+type ReasoningDepth = 'standard' | 'deep' | 'exhaustive';
 
 /**
  * Reasoning configuration interface
  */
 interface ReasoningConfig {
-	reasoning_steps: number;
-	analysis_depth: 'moderate' | 'detailed' | 'comprehensive';
-	time_per_step: number;
+	max_tokens_per_pass: number;
+	instructions: string;
+}
+
+const DEPTH_CONFIG: Record<ReasoningDepth, ReasoningConfig> = {
+	standard: {
+		max_tokens_per_pass: 800,
+		instructions: 'Be concise. Cover the main line of reasoning and the key caveats.'
+	},
+	deep: {
+		max_tokens_per_pass: 1200,
+		instructions: 'Reason step by step. State your assumptions and check each inference.'
+	},
+	exhaustive: {
+		max_tokens_per_pass: 2000,
+		instructions: 'Reason step by step in detail. State assumptions, consider edge cases and alternative explanations, and quantify where possible.'
+	}
+};
+
+// Critics reply with exactly this when a draft needs no further revision
+const NO_ISSUES_MARKER = 'NO_ISSUES';
+
+interface ValidationPass {
+	pass: number;
+	critique: string;
+	revised: boolean;
 }
 
 /**
  * Think Longer Tool Definition
- * Engages in extended, deliberate reasoning about complex problems
+ * Runs a draft → critique → revise loop with follow-up model calls.
+ * Yields progress updates while it works; the final yield is the markdown report.
  */
 export const thinkLongerTool = tool({
-	description: 'Engage in extended, deliberate reasoning about complex problems. Performs multiple reasoning passes, considers alternative perspectives, validates conclusions, and provides step-by-step analytical thinking.',
+	description: 'Engage in extended, deliberate reasoning about complex problems. Drafts an answer, then critiques and revises it over several validation passes before returning the refined answer.',
 	inputSchema: z.object({
 		problem: z.string().describe('The problem, question, or topic that requires extended reasoning'),
 		reasoning_depth: z.enum(['standard', 'deep', 'exhaustive']).optional().default('deep').describe('The depth of reasoning to apply (default: deep)'),
 		focus_areas: z.array(z.string()).optional().describe('Specific areas or aspects to focus reasoning on (optional)'),
 		perspective_taking: z.boolean().optional().default(true).describe('Whether to consider multiple perspectives and viewpoints (default: true)'),
-		validation_passes: z.number().min(1).max(5).optional().default(2).describe('Number of validation passes to perform on reasoning (default: 2)')
+		validation_passes: z.number().min(1).max(5).optional().default(2).describe('Number of critique and revise passes to perform on the draft (default: 2)')
 	}),
 	strict: true, // AI SDK v6: Enable strict mode for reliable tool calls
-	execute: async ({
+	execute: async function* ({
 		problem,
 		reasoning_depth = 'deep',
 		focus_areas = [],
 		perspective_taking = true,
 		validation_passes = 2
-	}) => {
-		try {
-			// Configure reasoning parameters based on depth
-			const depthConfig: Record<typeof reasoning_depth, ReasoningConfig> = {
-				standard: { reasoning_steps: 4, analysis_depth: 'moderate', time_per_step: 150 },
-				deep: { reasoning_steps: 6, analysis_depth: 'detailed', time_per_step: 200 },
-				exhaustive: { reasoning_steps: 8, analysis_depth: 'comprehensive', time_per_step: 250 }
-			};
-
-			const config = depthConfig[reasoning_depth];
-
-			let reasoning_output = `# Extended Reasoning Analysis\n\n`;
-			reasoning_output += `**Problem:** ${problem}\n`;
-			reasoning_output += `**Reasoning Depth:** ${reasoning_depth}\n`;
-			reasoning_output += `**Analysis Steps:** ${config.reasoning_steps}\n`;
-			reasoning_output += `**Validation Passes:** ${validation_passes}\n\n`;
+	}, options): AsyncGenerator<string | AIToolProgress> {
+		const { completeText } = getToolExecutionContext(options);
 
-			// Phase 1: Initial Problem Analysis
-			reasoning_output += `## Phase 1: Problem Decomposition\n`;
-			reasoning_output += await analyzeProblemDomain(problem, config.time_per_step);
-
-			// Phase 2: Multi-Step Reasoning
-			reasoning_output += `\n## Phase 2: Step-by-Step Reasoning\n`;
+		if (!completeText) {
+			yield 'Extended reasoning is only available to signed-in users.';
+			return;
+		}
 
-			for (let step = 1; step <= config.reasoning_steps; step++) {
-				reasoning_output += `\n### Step ${step}: ${getReasoningStepTitle(step)}\n`;
-				reasoning_output += await performReasoningStep(step, problem, focus_areas, config);
+		const config = DEPTH_CONFIG[reasoning_depth];
+		const totalSteps = 1 + validation_passes * 2;
+		const passes: ValidationPass[] = [];
+		let answer = '';
+		let step = 0;
+		let stoppedEarly = false;
+
+		const progress = (phase: AIToolProgress['phase'], message: string): AIToolProgress => ({
+			kind: 'progress',
+			phase,
+			message,
+			step: ++step,
+			totalSteps
+		});
 
-				// Simulate thinking time
-				await new Promise(resolve => setTimeout(resolve, config.time_per_step));
-			}
-
-			// Phase 3: Perspective Analysis (if enabled)
-			if (perspective_taking) {
-				reasoning_output += `\n## Phase 3: Multiple Perspective Analysis\n`;
-				reasoning_output += await analyzePerspectives(problem, config.analysis_depth);
-			}
-
-			// Phase 4: Validation Passes
-			reasoning_output += `\n## Phase 4: Reasoning Validation\n`;
+		try {
+			// Phase 1: Draft
+			yield progress('draft', 'Drafting an initial answer');
+			answer = await completeText({
+				system: buildSystemPrompt(config, focus_areas),
+				prompt: `Problem:\n${problem}\n\nWrite your best answer to this problem.`,
+				maxTokens: config.max_tokens_per_pass,
+				signal: options.abortSignal
+			});
+
+			// Phase 2: Critique and revise
 			for (let pass = 1; pass <= validation_passes; pass++) {
-				reasoning_output += `\n### Validation Pass ${pass}\n`;
-				reasoning_output += await performValidationPass(pass, problem, config.analysis_depth);
+				yield progress('critique', `Critiquing the draft (pass ${pass} of ${validation_passes})`);
+				const critique = await completeText({
+					system: buildCriticPrompt(perspective_taking),
+					prompt: `Problem:\n${problem}\n\nCurrent answer:\n${answer}\n\nCritique this answer.`,
+					maxTokens: config.max_tokens_per_pass,
+					signal: options.abortSignal
+				});
+
+				if (critique.trim().startsWith(NO_ISSUES_MARKER)) {
+					passes.push({ pass, critique: 'No further issues found.', revised: false });
+					stoppedEarly = pass < validation_passes;
+					break;
+				}
+
+				yield progress('revise', `Revising the answer (pass ${pass} of ${validation_passes})`);
+				answer = await completeText({
+					system: buildSystemPrompt(config, focus_areas),
+					prompt: `Problem:\n${problem}\n\nCurrent answer:\n${answer}\n\nCritique:\n${critique}\n\nRewrite the answer so it addresses every point in the critique. Reply with the full revised answer only.`,
+					maxTokens: config.max_tokens_per_pass,
+					signal: options.abortSignal
+				});
+				passes.push({ pass, critique, revised: true });
 			}
-
-			// Phase 5: Final Synthesis
-			reasoning_output += `\n## Phase 5: Synthesis and Conclusions\n`;
-			reasoning_output += await synthesizeReasoning(problem, reasoning_depth, perspective_taking);
-
-			reasoning_output += `\n---\n`;
-			reasoning_output += `*Extended reasoning completed using ${reasoning_depth} analysis with ${config.reasoning_steps} reasoning steps and ${validation_passes} validation passes.*`;
-
-			return reasoning_output;
-
 		} catch (error) {
 			console.error('Think longer execution error:', error);
-			return `Error during extended reasoning for "${problem}": ${error instanceof Error ? error.message : 'Reasoning process failed'}`;
-		}
-	}
-});
-
-// Analyze the problem domain and structure
-async function analyzeProblemDomain(problem: string, thinkingTime: number): Promise<string> {
-	await new Promise(resolve => setTimeout(resolve, thinkingTime));
-
-	let analysis = `**Problem Structure Analysis:**\n`;
-	analysis += `- **Core Question:** Identifying the fundamental question or challenge\n`;
-	analysis += `- **Complexity Assessment:** Evaluating the multifaceted nature of the problem\n`;
-	analysis += `- **Domain Knowledge:** Determining relevant fields and expertise areas\n`;
-	analysis += `- **Constraint Identification:** Recognizing limitations and boundaries\n\n`;
-
-	analysis += `**Preliminary Observations:**\n`;
-
-	// Analyze problem characteristics
-	const problemLower = problem.toLowerCase();
-	if (problemLower.length > 200) {
-		analysis += `- **High Complexity:** The problem statement is detailed and multifaceted\n`;
-	}
-
-	if (problemLower.includes('why') || problemLower.includes('how') || problemLower.includes('what if')) {
-		analysis += `- **Analytical Nature:** Requires causal reasoning and systematic investigation\n`;
-	}
-
-	if (problemLower.includes('should') || problemLower.includes('better') || problemLower.includes('recommend')) {
-		analysis += `- **Decision-Making Element:** Involves evaluation and recommendation\n`;
-	}
+			const reason = error instanceof Error ? error.message : 'Reasoning process failed';
 
-	if (problemLower.includes('multiple') || problemLower.includes('various') || problemLower.includes('different')) {
-		analysis += `- **Multi-Option Consideration:** Requires comparison of alternatives\n`;
-	}
-
-	analysis += `- **Reasoning Approach:** Systematic step-by-step analysis with validation\n`;
-
-	return analysis;
-}
-
-// Get reasoning step titles
-function getReasoningStepTitle(step: number): string {
-	const titles = [
-		'Initial Hypothesis Formation',
-		'Evidence Gathering and Analysis',
-		'Causal Relationship Mapping',
-		'Alternative Solution Generation',
-		'Comparative Evaluation',
-		'Risk and Benefit Assessment',
-		'Implementation Feasibility',
-		'Long-term Implications'
-	];
-	return titles[step - 1] || `Advanced Analysis ${step}`;
-}
-
-// Perform individual reasoning steps
-async function performReasoningStep(
-	step: number,
-	problem: string,
-	focus_areas: string[],
-	config: ReasoningConfig
-): Promise<string> {
-
-	let stepAnalysis = '';
-
-	switch (step) {
-		case 1: // Initial Hypothesis Formation
-			stepAnalysis = `**Hypothesis Development:**\n`;
-			stepAnalysis += `- **Primary Hypothesis:** Formulating initial understanding and potential answers\n`;
-			stepAnalysis += `- **Assumption Identification:** Recognizing underlying assumptions\n`;
-			stepAnalysis += `- **Success Criteria:** Defining what constitutes a good solution\n`;
-			if (focus_areas.length > 0) {
-				stepAnalysis += `- **Focus Integration:** Incorporating specified focus areas: ${focus_areas.join(', ')}\n`;
+			// Keep whatever the earlier passes produced; only fail outright without a draft
+			if (!answer) {
+				yield `Error during extended reasoning for "${problem}": ${reason}`;
+				return;
 			}
-			break;
-
-		case 2: // Evidence Gathering
-			stepAnalysis = `**Evidence and Information Analysis:**\n`;
-			stepAnalysis += `- **Available Information:** Cataloging known facts and data\n`;
-			stepAnalysis += `- **Information Gaps:** Identifying missing critical information\n`;
-			stepAnalysis += `- **Source Reliability:** Evaluating the credibility of information\n`;
-			stepAnalysis += `- **Contextual Factors:** Understanding environmental and situational elements\n`;
-			break;
-
-		case 3: // Causal Relationships
-			stepAnalysis = `**Causal Analysis and Relationships:**\n`;
-			stepAnalysis += `- **Root Cause Analysis:** Identifying fundamental causes\n`;
-			stepAnalysis += `- **Chain of Effects:** Mapping cause-and-effect relationships\n`;
-			stepAnalysis += `- **Feedback Loops:** Recognizing circular causation patterns\n`;
-			stepAnalysis += `- **Contributing Factors:** Understanding multiple influence sources\n`;
-			break;
-
-		case 4: // Alternative Solutions
-			stepAnalysis = `**Solution Generation and Alternatives:**\n`;
-			stepAnalysis += `- **Creative Alternatives:** Brainstorming diverse solution approaches\n`;
-			stepAnalysis += `- **Conventional Solutions:** Examining standard approaches\n`;
-			stepAnalysis += `- **Innovative Approaches:** Exploring novel and unconventional methods\n`;
-			stepAnalysis += `- **Hybrid Solutions:** Combining multiple approaches effectively\n`;
-			break;
-
-		case 5: // Comparative Evaluation
-			stepAnalysis = `**Comparative Analysis and Evaluation:**\n`;
-			stepAnalysis += `- **Criteria Definition:** Establishing evaluation metrics\n`;
-			stepAnalysis += `- **Solution Comparison:** Systematic comparison of alternatives\n`;
-			stepAnalysis += `- **Trade-off Analysis:** Understanding costs and benefits\n`;
-			stepAnalysis += `- **Optimization Opportunities:** Identifying improvement possibilities\n`;
-			break;
-
-		case 6: // Risk Assessment
-			stepAnalysis = `**Risk and Benefit Assessment:**\n`;
-			stepAnalysis += `- **Risk Identification:** Cataloging potential negative outcomes\n`;
-			stepAnalysis += `- **Benefit Analysis:** Understanding positive outcomes and value\n`;
-			stepAnalysis += `- **Probability Assessment:** Estimating likelihood of various outcomes\n`;
-			stepAnalysis += `- **Mitigation Strategies:** Developing risk reduction approaches\n`;
-			break;
-
-		case 7: // Implementation
-			stepAnalysis = `**Implementation Feasibility Analysis:**\n`;
-			stepAnalysis += `- **Resource Requirements:** Identifying necessary resources\n`;
-			stepAnalysis += `- **Timeline Considerations:** Understanding implementation phases\n`;
-			stepAnalysis += `- **Stakeholder Impact:** Analyzing effects on various parties\n`;
-			stepAnalysis += `- **Practical Constraints:** Recognizing real-world limitations\n`;
-			break;
-
-		case 8: // Long-term Implications
-			stepAnalysis = `**Long-term Implications and Consequences:**\n`;
-			stepAnalysis += `- **Future Impact:** Projecting long-term effects and outcomes\n`;
-			stepAnalysis += `- **Scalability Considerations:** Understanding growth and expansion potential\n`;
-			stepAnalysis += `- **Sustainability Factors:** Evaluating long-term viability\n`;
-			stepAnalysis += `- **Adaptive Capacity:** Considering flexibility for future changes\n`;
-			break;
-
-		default:
-			stepAnalysis = `**Advanced Analysis:** Conducting specialized reasoning for complex aspects of the problem.\n`;
-	}
-
-	if (config.analysis_depth === 'comprehensive') {
-		stepAnalysis += `\n**Deep Dive Considerations:**\n`;
-		stepAnalysis += `- **Interdisciplinary Connections:** Links to other fields and domains\n`;
-		stepAnalysis += `- **Historical Context:** Learning from past similar situations\n`;
-		stepAnalysis += `- **Cultural and Social Factors:** Understanding human and societal elements\n`;
-	}
-
-	return stepAnalysis;
-}
-
-// Analyze from multiple perspectives
-async function analyzePerspectives(problem: string, analysisDepth: ReasoningConfig['analysis_depth']): Promise<string> {
-	await new Promise(resolve => setTimeout(resolve, 200));
-
-	let perspectiveAnalysis = `**Multiple Viewpoint Analysis:**\n\n`;
-
-	const perspectives = [
-		{ name: 'Analytical Perspective', focus: 'logical, data-driven, systematic analysis' },
-		{ name: 'Stakeholder Perspective', focus: 'impact on different parties and their interests' },
-		{ name: 'Ethical Perspective', focus: 'moral implications and value-based considerations' },
-		{ name: 'Practical Perspective', focus: 'real-world implementation and feasibility' }
-	];
+			passes.push({ pass: passes.length + 1, critique: `Reasoning stopped early: ${reason}`, revised: false });
+		}
 
-	if (analysisDepth === 'comprehensive') {
-		perspectives.push(
-			{ name: 'Historical Perspective', focus: 'lessons from past experiences and precedents' },
-			{ name: 'Future-Oriented Perspective', focus: 'long-term implications and emerging trends' }
-		);
+		yield formatReport({ problem, reasoning_depth, validation_passes, passes, answer, stoppedEarly });
 	}
+});
 
-	for (const perspective of perspectives) {
-		perspectiveAnalysis += `**${perspective.name}:**\n`;
-		perspectiveAnalysis += `- Focus: ${perspective.focus}\n`;
-		perspectiveAnalysis += `- Key Insights: Understanding how this viewpoint illuminates different aspects of the problem\n`;
-		perspectiveAnalysis += `- Unique Contributions: Specialized considerations unique to this perspective\n\n`;
+// System prompt for the draft and revise calls
+function buildSystemPrompt(config: ReasoningConfig, focusAreas: string[]): string {
+	let prompt = `You are a careful analyst working through a hard problem. ${config.instructions}`;
+	if (focusAreas.length > 0) {
+		prompt += `\nPay particular attention to: ${focusAreas.join(', ')}.`;
 	}
-
-	perspectiveAnalysis += `**Perspective Integration:**\n`;
-	perspectiveAnalysis += `- **Common Themes:** Identifying shared insights across perspectives\n`;
-	perspectiveAnalysis += `- **Conflicting Views:** Understanding and reconciling disagreements\n`;
-	perspectiveAnalysis += `- **Synthesis Opportunities:** Finding ways to integrate diverse viewpoints\n`;
-
-	return perspectiveAnalysis;
+	return prompt;
 }
 
-// Perform validation passes
-async function performValidationPass(passNumber: number, problem: string, analysisDepth: ReasoningConfig['analysis_depth']): Promise<string> {
-	await new Promise(resolve => setTimeout(resolve, 150));
-
-	let validation = '';
-
-	if (passNumber === 1) {
-		validation += `**Logical Consistency Check:**\n`;
-		validation += `- **Internal Coherence:** Ensuring reasoning steps are logically connected\n`;
-		validation += `- **Assumption Validity:** Re-examining underlying assumptions\n`;
-		validation += `- **Evidence Support:** Verifying that conclusions are supported by evidence\n`;
-		validation += `- **Gap Identification:** Looking for missing logical links\n`;
-	} else if (passNumber === 2) {
-		validation += `**Alternative Reasoning Check:**\n`;
-		validation += `- **Counter-Arguments:** Considering opposing viewpoints and challenges\n`;
-		validation += `- **Alternative Interpretations:** Exploring different ways to understand the problem\n`;
-		validation += `- **Robustness Testing:** Checking if conclusions hold under different conditions\n`;
-		validation += `- **Completeness Assessment:** Ensuring comprehensive coverage of important aspects\n`;
-	} else {
-		validation += `**Advanced Validation (Pass ${passNumber}):**\n`;
-		validation += `- **Cross-Validation:** Checking reasoning against multiple frameworks\n`;
-		validation += `- **Stress Testing:** Examining reasoning under extreme scenarios\n`;
-		validation += `- **Meta-Analysis:** Reasoning about the reasoning process itself\n`;
-		validation += `- **Quality Assurance:** Final check for accuracy and reliability\n`;
+// System prompt for the critique calls
+function buildCriticPrompt(perspectiveTaking: boolean): string {
+	let prompt = 'You are a rigorous reviewer. List concrete problems with the answer: factual errors, logical gaps, unstated assumptions, missing cases and unclear wording. Be specific and brief.';
+	if (perspectiveTaking) {
+		prompt += ' Also consider how stakeholders with different priorities, and domain experts from neighbouring fields, would object to the answer.';
 	}
-
-	if (analysisDepth === 'comprehensive') {
-		validation += `- **Peer Review Simulation:** Imagining expert critique and feedback\n`;
-		validation += `- **Real-World Testing:** Considering how reasoning would perform in practice\n`;
-	}
-
-	return validation;
+	prompt += ` If the answer has no meaningful problems, reply with exactly ${NO_ISSUES_MARKER}.`;
+	return prompt;
 }
 
-// Synthesize final reasoning
-async function synthesizeReasoning(
-	problem: string,
-	reasoning_depth: string,
-	perspective_taking: boolean
-): Promise<string> {
-	await new Promise(resolve => setTimeout(resolve, 200));
-
-	let synthesis = `**Final Synthesis:**\n\n`;
-	synthesis += `**Key Conclusions:**\n`;
-	synthesis += `1. **Primary Finding:** Core insight or answer derived from extended reasoning\n`;
-	synthesis += `2. **Supporting Evidence:** Key factors that support the primary conclusion\n`;
-	synthesis += `3. **Confidence Level:** Assessment of certainty based on reasoning quality\n`;
-	synthesis += `4. **Implementation Path:** Recommended approach for moving forward\n\n`;
-
-	synthesis += `**Reasoning Quality Assessment:**\n`;
-	synthesis += `- **Thoroughness:** ${reasoning_depth} analysis provides comprehensive coverage\n`;
-	synthesis += `- **Logical Rigor:** Multiple validation passes ensure reasoning consistency\n`;
-
-	if (perspective_taking) {
-		synthesis += `- **Perspective Integration:** Multiple viewpoints considered for balanced analysis\n`;
+// Render the final tool output
+function formatReport(params: {
+	problem: string;
+	reasoning_depth: ReasoningDepth;
+	validation_passes: number;
+	passes: ValidationPass[];
+	answer: string;
+	stoppedEarly: boolean;
+}): string {
+	const { problem, reasoning_depth, validation_passes, passes, answer, stoppedEarly } = params;
+
+	let output = `# Extended Reasoning Analysis\n\n`;
+	output += `**Problem:** ${problem}\n`;
+	output += `**Reasoning Depth:** ${reasoning_depth}\n`;
+	output += `**Validation Passes:** ${passes.length} of ${validation_passes}\n\n`;
+
+	if (passes.length > 0) {
+		output += `## Validation\n`;
+		for (const pass of passes) {
+			output += `\n### Pass ${pass.pass}${pass.revised ? ' (revised)' : ''}\n${pass.critique}\n`;
+		}
 	}
 
-	synthesis += `- **Practical Applicability:** Reasoning is grounded in real-world considerations\n\n`;
-
-	synthesis += `**Recommendations:**\n`;
-	synthesis += `- **Immediate Actions:** Steps to take based on the reasoning conclusions\n`;
-	synthesis += `- **Further Exploration:** Areas that may benefit from additional investigation\n`;
-	synthesis += `- **Monitoring Points:** Key indicators to watch for validation of reasoning\n`;
-	synthesis += `- **Adaptation Strategy:** How to adjust if circumstances change\n\n`;
+	output += `\n## Final Answer\n\n${answer}\n`;
 
-	synthesis += `**Meta-Insights:**\n`;
-	synthesis += `- **Reasoning Process:** Lessons learned about effective problem-solving approaches\n`;
-	synthesis += `- **Knowledge Gaps:** Areas where additional information would strengthen reasoning\n`;
-	synthesis += `- **Future Applications:** How this reasoning approach could apply to similar problems\n`;
+	output += `\n---\n`;
+	output += stoppedEarly
+		? `*Extended reasoning finished early: the reviewer found no further issues.*`
+		: `*Extended reasoning completed using ${reasoning_depth} analysis with ${passes.length} validation passes.*`;
 
-	return synthesis;
+	return output;
 }
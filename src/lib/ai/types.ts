@@ -1,3 +1,6 @@
+import type { ModelPricing } from './pricing.js';
+import type { CreditWeight } from '../constants/credit-weights.js';
+
 // For AI Models via OpenRouter
 export interface ArchitectureObject {
 	input_modalities: string[]; // e.g., ["text", "image", "file"]
@@ -27,6 +30,9 @@ export interface AIToolResult {
 }
 
 export interface AIMessage {
+	id?: string; // Message table ID, set once the message is saved
+	parentId?: string | null; // Previous message in the conversation tree
+	siblingIds?: string[]; // All versions of this message (edits, retries), oldest first; set when there's more than one
 	role: 'user' | 'assistant' | 'system' | 'tool';
 	content: string | null;
 	model?: string; // Store which model generated this message (for assistant messages)
@@ -34,6 +40,7 @@ export interface AIMessage {
 	imageUrl?: string; // URL to the generated image file (deprecated, for backwards compatibility)
 	imageData?: string; // Base64 image data (deprecated, for backwards compatibility)
 	videoId?: string; // Reference to videos database table
+	attachmentIds?: string[]; // References to attachment table (uploaded text files)
 	mimeType?: string; // MIME type for image/video data
 	type?: 'text' | 'image' | 'video'; // Message type
 	// Multiple image support
@@ -47,6 +54,7 @@ export interface AIMessage {
 	tool_calls?: AIToolCall[];
 	tool_call_id?: string; // For tool result messages
 	name?: string; // Tool name for tool result messages
+	usage?: AIResponse['usage']; // Token usage reported when the response finished
 	// Tool invocations for UI display (persisted after streaming)
 	toolInvocations?: Array<{
 		toolCallId: string;
@@ -75,6 +83,8 @@ export interface AIModelConfig {
 	supportsVideoGeneration?: boolean;
 	supportsAudioGeneration?: boolean;
 	architecture?: ArchitectureObject; // OpenRouter architecture data when available
+	pricing?: ModelPricing; // Provider prices, for usage cost (OpenRouter models get them from the API)
+	creditWeights?: CreditWeight[]; // Admin-set credit cost, added by /api/models for image/video models
 	isGuestAllowed?: boolean; // Whether guest users can use this model
 	isDemoAllowed?: boolean; // Whether this model is allowed in demo mode
 	isLocked?: boolean; // Whether this model is locked for the current user
@@ -98,12 +108,17 @@ export interface AIStreamChunk {
 	done: boolean;
 	usage?: AIResponse['usage'];
 	// Tool support for streaming
-	type?: 'text' | 'tool-call' | 'tool-result' | 'finish' | 'error';
+	type?: 'text' | 'tool-call' | 'tool-progress' | 'tool-result' | 'finish' | 'error';
 	toolCall?: {
 		toolCallId: string;
 		toolName: string;
 		args: Record<string, unknown>;
 	};
+	toolProgress?: {
+		toolCallId: string;
+		toolName: string;
+		progress: AIToolProgress;
+	};
 	toolResult?: {
 		toolCallId: string;
 		toolName: string;
@@ -112,6 +127,15 @@ export interface AIStreamChunk {
 	finishReason?: string;
 }
 
+// Intermediate status yielded by long-running tools (streamed as 'tool-progress' chunks)
+export interface AIToolProgress {
+	kind: 'progress';
+	phase: string; // e.g. 'draft', 'critique', 'revise'
+	message: string;
+	step?: number;
+	totalSteps?: number;
+}
+
 export interface AIProvider {
 	name: string;
 	models: AIModelConfig[];
@@ -130,6 +154,13 @@ export interface AIProvider {
 	}): Promise<AIResponse | AsyncIterableIterator<AIStreamChunk>>;
 	generateImage?(params: ImageGenerationParams): Promise<AIImageResponse | AsyncIterableIterator<AIImageStreamChunk>>;
 	generateVideo?(params: VideoGenerationParams): Promise<AIVideoResponse>;
+	// Long-running generations, run as generation jobs (see src/lib/server/generation-jobs.ts)
+	startImageGeneration?(params: ImageGenerationParams, options?: GenerationStartOptions): Promise<GenerationPrediction>;
+	startVideoGeneration?(params: VideoGenerationParams, options?: GenerationStartOptions): Promise<GenerationPrediction>;
+	getGeneration?(predictionId: string): Promise<GenerationPrediction>;
+	cancelGeneration?(predictionId: string): Promise<void>;
+	saveImageGeneration?(params: ImageGenerationParams, output: unknown): Promise<AIImageResponse>;
+	saveVideoGeneration?(params: VideoGenerationParams, output: unknown): Promise<AIVideoResponse>;
 	generateAudio?(params: AudioGenerationParams): Promise<AIAudioResponse>;
 	transcribeAudio?(params: AudioTranscriptionParams): Promise<AITranscriptionResponse>;
 	speechToSpeech?(params: VoiceChangeParams): Promise<AIVoiceChangeResponse>;
@@ -164,6 +195,7 @@ export interface ChatCompletionParams {
 
 export interface AIImageResponse {
 	imageId: string; // Reference to images database table
+	imageIds?: string[]; // Every image saved, when the model returned more than one
 	imageUrl?: string; // URL to the generated image file (deprecated, for backwards compatibility)
 	imageData?: string; // Base64 encoded image (deprecated, for backwards compatibility)
 	mimeType: string; // e.g., 'image/png', 'image/jpeg'
@@ -182,6 +214,7 @@ export interface ImageGenerationParams {
 	quality?: string; // Model-specific quality options (e.g., 'low', 'medium', 'high' or '720p', '1080p', '4K')
 	size?: string;
 	style?: string; // Model-specific style options (e.g., 'anime', 'photorealistic', 'digital-art')
+	negativePrompt?: string; // What to leave out, for models with a negativePromptParam
 	numberOfImages?: number; // Number of images to generate
 	userId?: string;
 	chatId?: string;
@@ -192,6 +225,10 @@ export interface ImageGenerationParams {
 	seed?: number; // Random seed for reproducible generation
 	upscaleFactor?: string; // Upscale factor for upscaler models (e.g., 'x2', 'x4')
 	compressionQuality?: number; // Compression quality for upscaler models (e.g., 1-100)
+	mask?: string; // Mask image URL for inpainting models (painted area is regenerated, see maskParam)
+	outpaint?: string; // Outpaint option for models with an outpaintParam (e.g., 'Zoom out 2x')
+	sourceImageId?: string; // Library image being edited (inpaint/outpaint); stored on the result
+	maskImageId?: string; // Uploaded mask image, stored on the result
 }
 
 export interface AIImageStreamChunk {
@@ -226,6 +263,7 @@ export interface VideoGenerationParams {
 	fps?: number; // Frames per second (default 24 for Veo 3)
 	quality?: string; // Model-specific quality options (e.g., 'low', 'medium', 'high' or '720p', '1080p', '4K')
 	style?: string; // Model-specific style options
+	negativePrompt?: string; // What to leave out, for models with a negativePromptParam
 	imageUrl?: string; // Image URL for image-to-video models (i2v) - legacy param for backwards compatibility
 	imageStartUrl?: string; // Image URL for the first frame of the video
 	imageEndUrl?: string; // Image URL for the last frame of the video
@@ -234,6 +272,19 @@ export interface VideoGenerationParams {
 	seed?: number; // Random seed for reproducible generation
 }
 
+// Status of a generation started with startImageGeneration/startVideoGeneration
+export interface GenerationPrediction {
+	id: string; // Provider's prediction ID
+	status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+	progress: number | null; // 0-100, when the provider reports it
+	output?: unknown; // Passed to saveImageGeneration/saveVideoGeneration once succeeded
+	error?: string | null;
+}
+
+export interface GenerationStartOptions {
+	webhookUrl?: string; // Called by the provider as the prediction progresses
+}
+
 // Audio generation types for ElevenLabs TTS
 export interface VoiceSettings {
 	stability?: number; // 0-1, default 0.5
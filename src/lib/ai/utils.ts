@@ -1,6 +1,7 @@
 import { db } from '$lib/server/db/index.js';
 import { images, videos, audio, transcriptions, voiceChanges, music, soundEffects } from '$lib/server/db/schema.js';
 import { storageService } from '$lib/server/storage.js';
+import { MediaLineageService, type MediaParent } from '$lib/server/media-lineage.js';
 
 /**
  * Helper function to clean up orphaned files when database operations fail.
@@ -29,10 +30,15 @@ export interface ImageMetadata {
 	seed?: number;
 	quality?: string;
 	style?: string;
+	negativePrompt?: string;
 	numberOfImages?: number;
 	referenceImageUrl?: string;
 	upscaleFactor?: string;
 	compressionQuality?: number;
+	sourceImageId?: string;
+	maskImageId?: string;
+	outpaint?: string;
+	parents?: MediaParent[]; // Library images it was made from (see MediaLineageService)
 }
 
 /**
@@ -85,13 +91,19 @@ export async function saveImageAndGetId(
 				seed: metadata?.seed || null,
 				quality: metadata?.quality || null,
 				style: metadata?.style || null,
+				negativePrompt: metadata?.negativePrompt || null,
 				numberOfImages: metadata?.numberOfImages || null,
 				referenceImageUrl: metadata?.referenceImageUrl || null,
 				upscaleFactor: metadata?.upscaleFactor || null,
-				compressionQuality: metadata?.compressionQuality || null
+				compressionQuality: metadata?.compressionQuality || null,
+				sourceImageId: metadata?.sourceImageId || null,
+				maskImageId: metadata?.maskImageId || null,
+				outpaint: metadata?.outpaint || null
 			})
 			.returning();
 
+		await MediaLineageService.link(userId, { type: 'image', id: imageRecord.id }, metadata?.parents ?? []);
+
 		// Return database ID
 		return imageRecord.id;
 	} catch (dbError) {
@@ -111,8 +123,10 @@ export interface VideoMetadata {
 	seed?: number;
 	quality?: string;
 	style?: string;
+	negativePrompt?: string;
 	imageStartUrl?: string;
 	imageEndUrl?: string;
+	parents?: MediaParent[]; // Library images used as frames (see MediaLineageService)
 }
 
 /**
@@ -173,11 +187,14 @@ export async function saveVideoAndGetId(
 				seed: metadata?.seed || null,
 				quality: metadata?.quality || null,
 				style: metadata?.style || null,
+				negativePrompt: metadata?.negativePrompt || null,
 				imageStartUrl: metadata?.imageStartUrl || null,
 				imageEndUrl: metadata?.imageEndUrl || null
 			})
 			.returning();
 
+		await MediaLineageService.link(userId, { type: 'video', id: videoRecord.id }, metadata?.parents ?? []);
+
 		// Return database ID
 		return videoRecord.id;
 	} catch (dbError) {
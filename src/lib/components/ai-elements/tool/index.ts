@@ -3,6 +3,7 @@ export { default as ToolHeader } from "./ToolHeader.svelte";
 export { default as ToolContent } from "./ToolContent.svelte";
 export { default as ToolInput } from "./ToolInput.svelte";
 export { default as ToolOutput } from "./ToolOutput.svelte";
+export { default as ToolSources } from "./ToolSources.svelte";
 
 export {
 	ToolClass,
@@ -1,11 +1,12 @@
 import { goto } from "$app/navigation";
 import { browser } from "$app/environment";
-import type { AIModelConfig, AIMessage, AIResponse } from "$lib/ai/types.js";
+import type { AIModelConfig, AIMessage, AIResponse, AIToolProgress } from "$lib/ai/types.js";
 import { isMultimodal } from "$lib/ai/types.js";
 import { toast } from "svelte-sonner";
 import { GUEST_MESSAGE_LIMIT, GUEST_ALLOWED_MODELS } from "$lib/constants/guest-limits.js";
 import { supportsWebSearch, appendWebSearchSuffix, removeWebSearchSuffix } from "$lib/constants/web-search.js";
 import { isTextFileMimeType } from "$lib/utils/file-types.js";
+import { getBuiltInToolList, type AvailableTool } from "$lib/ai/tools/index.js";
 
 // File attachment types
 export interface AttachedFile {
@@ -18,6 +19,7 @@ export interface AttachedFile {
   content?: string; // For text files
   uploadedImageId?: string; // After upload to server
   uploadedImageUrl?: string; // Public URL after upload (presigned R2 URL or static path)
+  uploadedAttachmentId?: string; // Text files, after upload to the attachment table
 }
 
 export class ChatState {
@@ -51,6 +53,11 @@ export class ChatState {
   currentChatBranchSourceId = $state<string | null>(null);
   currentChatBranchSourceTitle = $state<string | null>(null);
 
+  // Message paging: only the latest page is loaded; messageOffset is the chat position of messages[0]
+  hasOlderMessages = $state(false);
+  isLoadingOlderMessages = $state(false);
+  messageOffset = $state(0);
+
   // Loading states
   isLoadingChat = $state(false);
   isLoadingChatData = $state(false);
@@ -85,6 +92,9 @@ export class ChatState {
   favoriteModels = $state<Set<string>>(new Set());
   isLoadingFavorites = $state(false);
 
+  // Tools the current user can pick (built-in + admin-defined, filtered by plan)
+  availableTools = $state<AvailableTool[]>(getBuiltInToolList());
+
   // Track active tool invocations during streaming
   activeToolInvocations = $state<Map<string, {
     toolCallId: string;
@@ -93,10 +103,12 @@ export class ChatState {
     state: 'input-streaming' | 'input-available' | 'output-available' | 'output-error';
     result?: unknown;
     error?: string;
+    progress?: AIToolProgress;
   }>>(new Map());
 
   // Track which message is being retried
   retryingMessageIndex = $state<number | null>(null);
+  switchingVersionIndex = $state<number | null>(null);
 
   // Edit message state
   editingMessageIndex = $state<number | null>(null);
@@ -106,6 +118,7 @@ export class ChatState {
     // Auto-load models when state is created
     if (browser) {
       this.loadModels();
+      this.loadTools();
       this.loadGuestMessageCount();
       // Note: chat history will be loaded when session is established
     }
@@ -132,6 +145,7 @@ export class ChatState {
           this.loadChatHistory();
           this.resetGuestMessageCount();
           this.loadModels(); // Reload models to get full access
+          this.loadTools(); // Reload tools for the user's plan
           this.loadFavorites(); // Load user's favorite models
         } else {
           // User logged out, clear chat history and load guest count
@@ -139,6 +153,7 @@ export class ChatState {
           this.favoriteModels = new Set(); // Clear favorites for guests
           this.loadGuestMessageCount();
           this.loadModels(); // Reload models to get restricted access
+          this.loadTools(); // Reload tools for the free plan
         }
       }
     });
@@ -222,6 +237,24 @@ export class ChatState {
     }
   }
 
+  // Load available tools from API
+  async loadTools() {
+    try {
+      const response = await fetch('/api/tools');
+      if (response.ok) {
+        const data = await response.json();
+        this.availableTools = data.tools;
+
+        // Drop a selected tool the user no longer has access to
+        if (this.selectedTool && !this.availableTools.some(t => t.name === this.selectedTool)) {
+          this.selectedTool = undefined;
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load tools:', err);
+    }
+  }
+
   // Load favorite models from API
   async loadFavorites() {
     if (!this.userId) {
@@ -466,6 +499,8 @@ export class ChatState {
           ...msg,
           content: this.cleanMessageContent(msg.content || ''),
         }));
+        this.hasOlderMessages = data.hasMoreMessages ?? false;
+        this.messageOffset = data.messagesStartPosition ?? 0;
 
         // Set branch state for current chat
         this.currentChatIsBranch = data.chat.isBranch || false;
@@ -522,6 +557,7 @@ export class ChatState {
     this.currentChatId = null;
     this.currentProjectId = null;
     this.messages = [];
+    this.resetMessagePaging();
     this.error = null;
     this.clearSelectedTool(); // Clear tool selection when starting new chat
     this.resetFreshChatFlag(); // Reset fresh chat flag when starting new chat
@@ -547,78 +583,66 @@ export class ChatState {
     this.currentProjectId = projectId;
     this.currentChatId = null;
     this.messages = [];
+    this.resetMessagePaging();
     this.error = null;
     this.clearSelectedTool();
     this.resetFreshChatFlag();
   }
 
-  // Save or update chat
-  async saveChat() {
-    if (this.messages.length === 0) return;
+  /**
+   * Load the page of messages before the oldest loaded one
+   */
+  async loadOlderMessages() {
+    const chatId = this.currentChatId;
+    if (!chatId || !this.hasOlderMessages || this.isLoadingOlderMessages) return;
 
     try {
-      const title = this.generateChatTitle(this.messages[0].content || 'Untitled Chat');
+      this.isLoadingOlderMessages = true;
+      const response = await fetch(`/api/chats/${chatId}/messages?before=${this.messageOffset}`);
+      if (!response.ok) {
+        toast.error("Failed to load earlier messages");
+        return;
+      }
 
-      if (this.currentChatId) {
-        // Update existing chat
-        const response = await fetch(`/api/chats/${this.currentChatId}`, {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            title,
-            model: this.selectedModel,
-            messages: this.messages,
-          }),
-        });
+      const data = await response.json();
 
-        if (response.ok) {
-          const updatedChat = await response.json();
+      // Ignore the result if the user switched chats meanwhile
+      if (this.currentChatId !== chatId) return;
 
-          // Update the chat in local state immediately for better UX
-          const chatIndex = this.chatHistory.findIndex(
-            (chat) => chat.id === this.currentChatId
-          );
-          if (chatIndex !== -1) {
-            // Update the existing chat and move it to the top
-            const updated = { ...this.chatHistory[chatIndex], ...updatedChat.chat };
-            this.chatHistory = [
-              updated,
-              ...this.chatHistory.filter((chat) => chat.id !== this.currentChatId),
-            ];
-          }
-          // Also refresh from server to ensure consistency
-          this.loadChatHistory();
-        }
-      } else {
-        // Create new chat
-        const response = await fetch("/api/chats", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            title,
-            model: this.selectedModel,
-            messages: this.messages
-          }),
-        });
+      const olderMessages: AIMessage[] = data.messages.map((msg: AIMessage) => ({
+        ...msg,
+        content: this.cleanMessageContent(msg.content || ''),
+      }));
 
-        if (response.ok) {
-          const data = await response.json();
-          this.currentChatId = data.chat.id;
-          this.markAsFreshChat(); // Mark as fresh chat to preserve tool selection
-          // Update URL to reflect the new chat with new route structure
-          goto(`/chat/${data.chat.id}`, {
-            replaceState: true,
-            noScroll: true,
-          });
-          this.loadChatHistory(); // Refresh chat history
-        }
+      this.messages = [...olderMessages, ...this.messages];
+      this.messageOffset = data.startPosition ?? 0;
+      this.hasOlderMessages = data.hasMore;
+
+      // Keep index-based UI state pointing at the same messages
+      if (this.editingMessageIndex !== null) {
+        this.editingMessageIndex += olderMessages.length;
       }
     } catch (err) {
-      console.error("Failed to save chat:", err);
+      console.error("Failed to load earlier messages:", err);
+      toast.error("Failed to load earlier messages");
+    } finally {
+      this.isLoadingOlderMessages = false;
     }
   }
 
+  resetMessagePaging() {
+    this.hasOlderMessages = false;
+    this.messageOffset = 0;
+  }
+
+  // Save or update chat
+  async saveChat() {
+    if (this.messages.length === 0) return;
+    await this.saveChatById(this.currentChatId, this.messages, this.selectedModel);
+  }
+
   // Save or update a specific chat by ID (used to prevent race conditions)
+  // Messages are append-only: only the ones without an ID are sent, after the last saved one before them
   async saveChatById(chatId: string | null, messages: AIMessage[], model: string): Promise<{ chatId: string | null }> {
     if (messages.length === 0) return { chatId };
 
@@ -626,14 +650,35 @@ export class ChatState {
       const title = this.generateChatTitle(messages[0].content || 'Untitled Chat');
 
       if (chatId) {
-        // Update existing chat
+        const firstUnsaved = messages.findIndex(message => !message.id);
+        if (firstUnsaved !== -1) {
+          // After the previous message, or where the replaced message was (editing the first loaded message)
+          const parentId = firstUnsaved > 0 ? messages[firstUnsaved - 1].id : messages[0].parentId ?? null;
+          const appendResponse = await fetch(`/api/chats/${chatId}/messages`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              messages: messages.slice(firstUnsaved),
+              parentId,
+            }),
+          });
+
+          if (!appendResponse.ok) {
+            console.error("Failed to save messages:", await appendResponse.text());
+            return { chatId };
+          }
+
+          const data = await appendResponse.json();
+          this.applySavedMessageIds(chatId, messages, firstUnsaved, data.messages);
+        }
+
+        // Update title and model
         const response = await fetch(`/api/chats/${chatId}`, {
           method: "PUT",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             title,
             model,
-            messages,
           }),
         });
 
@@ -685,6 +730,8 @@ export class ChatState {
             });
           }
 
+          this.applySavedMessageIds(newChatId, messages, 0, data.messages);
+
           this.loadChatHistory();
           return { chatId: newChatId };
         }
@@ -697,6 +744,41 @@ export class ChatState {
     }
   }
 
+  // Record server IDs on the saved messages, so later saves only send what's new
+  private applySavedMessageIds(chatId: string, messages: AIMessage[], start: number, saved: AIMessage[]) {
+    saved.forEach((savedMessage, i) => {
+      const message = messages[start + i];
+      if (message) {
+        message.id = savedMessage.id;
+        message.parentId = savedMessage.parentId;
+        message.siblingIds = savedMessage.siblingIds;
+      }
+
+      // The displayed messages are separate state proxies; update them too
+      const shown = this.currentChatId === chatId ? this.messages[start + i] : undefined;
+      if (shown && !shown.id && shown.role === savedMessage.role) {
+        shown.id = savedMessage.id;
+        shown.parentId = savedMessage.parentId;
+        shown.siblingIds = savedMessage.siblingIds;
+      }
+    });
+  }
+
+  // Tool invocations are finalized after the response was saved; store them on the saved message
+  private async saveToolInvocations(chatId: string | null, message: AIMessage) {
+    if (!chatId || !message.id || !message.toolInvocations?.length) return;
+
+    try {
+      await fetch(`/api/chats/${chatId}/messages/${message.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ toolInvocations: message.toolInvocations }),
+      });
+    } catch (err) {
+      console.error("Failed to save tool invocations:", err);
+    }
+  }
+
   // Start delete process - show confirmation dialog
   startDeleteChat(chatId: string) {
     this.deletingChatId = chatId;
@@ -806,22 +888,11 @@ export class ChatState {
     if (!this.editingTitle.trim()) return;
 
     try {
-      // Get the full chat data first
-      const chatResponse = await fetch(`/api/chats/${chatId}`);
-      if (!chatResponse.ok) {
-        toast.error("Failed to rename chat");
-        return;
-      }
-
-      const chatData = await chatResponse.json();
-
       const response = await fetch(`/api/chats/${chatId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           title: this.editingTitle.trim(),
-          model: chatData.chat.model,
-          messages: chatData.chat.messages,
         }),
       });
 
@@ -1030,11 +1101,38 @@ export class ChatState {
         }
       }
 
+      // Keep a copy of text files for signed-in users; their content is still sent inline below
+      const textAttachments = filesToUse.filter(f => isTextFileMimeType(f.type));
+      if (this.userId) {
+        for (const file of textAttachments.filter(f => !f.uploadedAttachmentId && f.content)) {
+          try {
+            const response = await fetch('/api/files/text', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                content: file.content,
+                mimeType: file.type,
+                filename: file.name,
+                chatId: this.currentChatId
+              })
+            });
+
+            if (response.ok) {
+              const result = await response.json();
+              file.uploadedAttachmentId = result.fileId;
+            } else {
+              console.error(`Failed to upload ${file.name}:`, await response.text());
+            }
+          } catch (uploadError) {
+            console.error(`Error uploading ${file.name}:`, uploadError);
+          }
+        }
+      }
+
       // Create user message with attachments
       let messageContent = cleanedPrompt;
 
       // Add text file content to the message if present
-      const textAttachments = filesToUse.filter(f => isTextFileMimeType(f.type));
       if (textAttachments.length > 0) {
         const fileContents = textAttachments.map(f =>
           `\n\n---\nFile: ${f.name} (${f.type})\n---\n${f.content || ''}`
@@ -1048,6 +1146,11 @@ export class ChatState {
         type: filesToUse.some(f => f.type.startsWith('image/')) ? "image" : "text"
       };
 
+      const attachmentIds = textAttachments.map(f => f.uploadedAttachmentId).filter((id): id is string => !!id);
+      if (attachmentIds.length > 0) {
+        userMessage.attachmentIds = attachmentIds;
+      }
+
       // Add image attachments to message (support multiple images)
       const imageAttachments = filesToUse.filter(f => f.type.startsWith('image/'));
       if (imageAttachments.length > 0) {
@@ -1262,6 +1365,11 @@ export class ChatState {
                       throw new Error(parsed.error);
                     }
 
+                    // Token usage arrives with the final chunk and is saved with the message
+                    if (parsed.done && parsed.usage) {
+                      assistantMessage.usage = parsed.usage;
+                    }
+
                     if (parsed.content) {
                       // Set streaming content flag on first content arrival
                       if (!this.isStreamingContent) {
@@ -1513,6 +1621,11 @@ export class ChatState {
                           throw new Error(parsed.error);
                         }
 
+                        // Token usage arrives with the final chunk and is saved with the message
+                        if (parsed.done && parsed.usage) {
+                          assistantMessage.usage = parsed.usage;
+                        }
+
                         // Handle tool call events - update activeToolInvocations for UI
                         if (parsed.type === 'tool-call' && parsed.toolCall) {
                           const { toolCallId, toolName, args } = parsed.toolCall;
@@ -1529,6 +1642,16 @@ export class ChatState {
                           this.activeToolInvocations = new Map(this.activeToolInvocations);
                         }
 
+                        // Handle tool progress events - show the running tool's current phase
+                        if (parsed.type === 'tool-progress' && parsed.toolProgress) {
+                          const { toolCallId, progress } = parsed.toolProgress;
+                          const existing = this.activeToolInvocations.get(toolCallId);
+                          if (existing) {
+                            existing.progress = progress;
+                            this.activeToolInvocations = new Map(this.activeToolInvocations);
+                          }
+                        }
+
                         // Handle tool result events - update tool state and append result to content
                         if (parsed.type === 'tool-result' && parsed.toolResult) {
                           const { toolCallId, result } = parsed.toolResult;
@@ -1537,6 +1660,7 @@ export class ChatState {
                           const existing = this.activeToolInvocations.get(toolCallId);
                           if (existing) {
                             existing.state = 'output-available';
+                            delete existing.progress;
                             existing.result = result;
                             this.activeToolInvocations = new Map(this.activeToolInvocations);
                           }
@@ -1726,6 +1850,7 @@ export class ChatState {
           // Store tool invocations on the message for persistence
           lastMessage.toolInvocations = [...this.activeToolInvocations.values()];
           this.messages = messagesCopy;
+          this.saveToolInvocations(actualChatId, lastMessage);
         }
       }
 
@@ -1888,6 +2013,11 @@ export class ChatState {
                     throw new Error(parsed.error);
                   }
 
+                  // Token usage arrives with the final chunk and is saved with the message
+                  if (parsed.done && parsed.usage) {
+                    assistantMessage.usage = parsed.usage;
+                  }
+
                   // Handle tool call events
                   if (parsed.type === 'tool-call' && parsed.toolCall) {
                     const { toolCallId, toolName, args } = parsed.toolCall;
@@ -1900,12 +2030,23 @@ export class ChatState {
                     this.activeToolInvocations = new Map(this.activeToolInvocations);
                   }
 
+                  // Handle tool progress events - show the running tool's current phase
+                  if (parsed.type === 'tool-progress' && parsed.toolProgress) {
+                    const { toolCallId, progress } = parsed.toolProgress;
+                    const existing = this.activeToolInvocations.get(toolCallId);
+                    if (existing) {
+                      existing.progress = progress;
+                      this.activeToolInvocations = new Map(this.activeToolInvocations);
+                    }
+                  }
+
                   // Handle tool result events
                   if (parsed.type === 'tool-result' && parsed.toolResult) {
                     const { toolCallId, result } = parsed.toolResult;
                     const existing = this.activeToolInvocations.get(toolCallId);
                     if (existing) {
                       existing.state = 'output-available';
+                      delete existing.progress;
                       existing.result = result;
                       this.activeToolInvocations = new Map(this.activeToolInvocations);
                     }
@@ -2001,6 +2142,7 @@ export class ChatState {
         if (lastMessage && lastMessage.role === 'assistant') {
           lastMessage.toolInvocations = [...this.activeToolInvocations.values()];
           this.messages = messagesCopy;
+          this.saveToolInvocations(actualChatId, lastMessage);
         }
       }
 
@@ -2036,7 +2178,8 @@ export class ChatState {
     }
 
     // Require existing chat (can't branch from unsaved)
-    if (!this.currentChatId) {
+    const branchMessage = this.messages[messageIndex];
+    if (!this.currentChatId || !branchMessage.id) {
       toast.error('Save the chat first before branching');
       return;
     }
@@ -2048,7 +2191,7 @@ export class ChatState {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           sourceChatId: this.currentChatId,
-          branchAtIndex: messageIndex
+          messageId: branchMessage.id
         })
       });
 
@@ -2073,6 +2216,57 @@ export class ChatState {
     }
   }
 
+  /**
+   * Show the previous or next version of a message (edits and retries are stored as siblings).
+   * Everything after the message is replaced by the selected version's conversation.
+   *
+   * @param messageIndex - The index of the message whose version changes
+   * @param direction - -1 for the previous version, 1 for the next
+   */
+  async switchMessageVersion(messageIndex: number, direction: -1 | 1) {
+    const message = this.messages[messageIndex];
+    const chatId = this.currentChatId;
+    if (!message?.id || !message.siblingIds || !chatId) return;
+
+    if (this.isLoading || this.isStreamingContent || this.switchingVersionIndex !== null) return;
+
+    const targetId = message.siblingIds[message.siblingIds.indexOf(message.id) + direction];
+    if (!targetId) return;
+
+    try {
+      this.switchingVersionIndex = messageIndex;
+      const response = await fetch(`/api/chats/${chatId}/current`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId: targetId })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to switch version');
+      }
+
+      const data = await response.json();
+
+      // Ignore the result if the user switched chats meanwhile
+      if (this.currentChatId !== chatId) return;
+
+      const versionMessages: AIMessage[] = data.messages.map((msg: AIMessage) => ({
+        ...msg,
+        content: this.cleanMessageContent(msg.content || ''),
+      }));
+      this.messages = [...this.messages.slice(0, messageIndex), ...versionMessages];
+
+      if (this.editingMessageIndex !== null && this.editingMessageIndex >= messageIndex) {
+        this.cancelEditMessage();
+      }
+    } catch (err) {
+      console.error('Switch version error:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to switch version');
+    } finally {
+      this.switchingVersionIndex = null;
+    }
+  }
+
   /**
    * Start editing a user message.
    * @param messageIndex - The index of the user message to edit
@@ -2150,8 +2344,10 @@ export class ChatState {
 
     try {
       // Create updated user message (preserve attachments)
+      // The edit is saved as a new message next to the original (same parent)
       const updatedUserMessage: AIMessage = {
         ...originalMessage,
+        id: undefined,
         content: cleanedContent,
       };
 
@@ -2238,6 +2434,11 @@ export class ChatState {
                     throw new Error(parsed.error);
                   }
 
+                  // Token usage arrives with the final chunk and is saved with the message
+                  if (parsed.done && parsed.usage) {
+                    assistantMessage.usage = parsed.usage;
+                  }
+
                   // Handle tool call events
                   if (parsed.type === 'tool-call' && parsed.toolCall) {
                     const { toolCallId, toolName, args } = parsed.toolCall;
@@ -2250,12 +2451,23 @@ export class ChatState {
                     this.activeToolInvocations = new Map(this.activeToolInvocations);
                   }
 
+                  // Handle tool progress events - show the running tool's current phase
+                  if (parsed.type === 'tool-progress' && parsed.toolProgress) {
+                    const { toolCallId, progress } = parsed.toolProgress;
+                    const existing = this.activeToolInvocations.get(toolCallId);
+                    if (existing) {
+                      existing.progress = progress;
+                      this.activeToolInvocations = new Map(this.activeToolInvocations);
+                    }
+                  }
+
                   // Handle tool result events
                   if (parsed.type === 'tool-result' && parsed.toolResult) {
                     const { toolCallId, result } = parsed.toolResult;
                     const existing = this.activeToolInvocations.get(toolCallId);
                     if (existing) {
                       existing.state = 'output-available';
+                      delete existing.progress;
                       existing.result = result;
                       this.activeToolInvocations = new Map(this.activeToolInvocations);
                     }
@@ -2345,6 +2557,7 @@ export class ChatState {
         if (lastMessage && lastMessage.role === 'assistant') {
           lastMessage.toolInvocations = [...this.activeToolInvocations.values()];
           this.messages = messagesCopy;
+          this.saveToolInvocations(actualChatId, lastMessage);
         }
       }
 
@@ -0,0 +1,232 @@
+/**
+ * Client-safe parsing and validation for batch image generation.
+ * The batch page previews the same rows the server creates jobs from.
+ */
+
+import { IMAGE_MODEL_NAMES, MODEL_CONFIGS } from './replicate-model-configs.js';
+
+// Prompts per batch
+export const MAX_BATCH_SIZE = 100;
+
+// Jobs of one batch submitted to the provider at the same time
+export const BATCH_CONCURRENCY = 3;
+
+export const MAX_BATCH_NAME_LENGTH = 100;
+
+const MAX_SEED = 2147483647;
+
+/**
+ * One prompt from the input, with the overrides given on its CSV row
+ */
+export interface BatchPromptRow {
+	line: number; // Line in the input, for error messages
+	prompt: string;
+	model?: string;
+	aspectRatio?: string;
+	seed?: number;
+	style?: string;
+	quality?: string;
+}
+
+/**
+ * Settings for rows that don't override them
+ */
+export interface BatchDefaults {
+	model: string;
+	aspectRatio?: string;
+	seed?: number;
+	style?: string;
+	quality?: string;
+}
+
+export interface BatchItem {
+	prompt: string;
+	model: string;
+	aspectRatio?: string;
+	seed?: number;
+	style?: string;
+	quality?: string;
+}
+
+// CSV header names (lowercased, without spaces, dashes and underscores) for each column
+const COLUMN_ALIASES: Record<string, keyof Omit<BatchPromptRow, 'line'>> = {
+	prompt: 'prompt',
+	model: 'model',
+	aspectratio: 'aspectRatio',
+	ratio: 'aspectRatio',
+	size: 'aspectRatio',
+	seed: 'seed',
+	style: 'style',
+	quality: 'quality'
+};
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields may contain commas, quotes and newlines).
+ * Each record keeps the line it started on.
+ */
+function parseCsv(text: string): { line: number; fields: string[] }[] {
+	const records: { line: number; fields: string[] }[] = [];
+	let fields: string[] = [];
+	let field = '';
+	let inQuotes = false;
+	let line = 1;
+	let recordLine = 1;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				if (char === '\n') line++;
+				field += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ',') {
+			fields.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			fields.push(field);
+			records.push({ line: recordLine, fields });
+			fields = [];
+			field = '';
+			line++;
+			recordLine = line;
+		} else {
+			field += char;
+		}
+	}
+
+	if (field || fields.length > 0) {
+		fields.push(field);
+		records.push({ line: recordLine, fields });
+	}
+
+	return records.filter(record => record.fields.some(value => value.trim()));
+}
+
+function normalizeHeader(value: string): string {
+	return value.trim().toLowerCase().replace(/[\s_-]/g, '');
+}
+
+/**
+ * Read prompts from a plain list (one prompt per line, # starts a comment) or from CSV with a
+ * header row that has a "prompt" column and optionally model, aspect_ratio, seed, style, quality
+ */
+export function parseBatchPrompts(text: string): { rows: BatchPromptRow[]; errors: string[] } {
+	const rows: BatchPromptRow[] = [];
+	const errors: string[] = [];
+
+	const firstLine = text.split(/\r?\n/).find(value => value.trim()) ?? '';
+	const header = parseCsv(firstLine)[0]?.fields.map(normalizeHeader) ?? [];
+
+	if (!header.includes('prompt')) {
+		text.split(/\r?\n/).forEach((value, index) => {
+			const prompt = value.trim();
+			if (prompt && !prompt.startsWith('#')) {
+				rows.push({ line: index + 1, prompt });
+			}
+		});
+		return { rows, errors };
+	}
+
+	const [, ...records] = parseCsv(text);
+	const columns = header.map(name => COLUMN_ALIASES[name]);
+
+	for (const { line, fields } of records) {
+		const row: BatchPromptRow = { line, prompt: '' };
+
+		columns.forEach((column, index) => {
+			const value = fields[index]?.trim();
+			if (!column || !value) return;
+
+			if (column === 'seed') {
+				const seed = Number(value);
+				if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) {
+					errors.push(`Line ${line}: seed must be a whole number from 0 to ${MAX_SEED}`);
+				} else {
+					row.seed = seed;
+				}
+			} else {
+				row[column] = value;
+			}
+		});
+
+		if (!row.prompt) {
+			errors.push(`Line ${line}: prompt is empty`);
+			continue;
+		}
+		rows.push(row);
+	}
+
+	return { rows, errors };
+}
+
+/**
+ * Models a batch can use: text-to-image models (not the upscaler or fill models, which need an input image)
+ */
+export function isBatchModel(model: string): boolean {
+	return IMAGE_MODEL_NAMES.includes(model) && !MODEL_CONFIGS[model]?.requiresImageInput;
+}
+
+/**
+ * Apply the defaults to each row and check the options against the row's model. Options a row
+ * sets itself must be valid for its model; defaults the model doesn't support are left out.
+ */
+export function resolveBatchItems(rows: BatchPromptRow[], defaults: BatchDefaults): { items: BatchItem[]; errors: string[] } {
+	const items: BatchItem[] = [];
+	const errors: string[] = [];
+
+	if (rows.length > MAX_BATCH_SIZE) {
+		errors.push(`A batch can have at most ${MAX_BATCH_SIZE} prompts`);
+	}
+
+	for (const row of rows.slice(0, MAX_BATCH_SIZE)) {
+		const model = row.model ?? defaults.model;
+		const config = MODEL_CONFIGS[model];
+		if (!isBatchModel(model) || !config) {
+			errors.push(`Line ${row.line}: unknown image model "${model}"`);
+			continue;
+		}
+
+		const item: BatchItem = { prompt: row.prompt, model };
+		const rowErrors: string[] = [];
+
+		const options: ['aspectRatio' | 'style' | 'quality', readonly string[] | undefined, string][] = [
+			['aspectRatio', config.sizeParam?.options, 'aspect ratio'],
+			['style', config.styleParam?.options, 'style'],
+			['quality', config.qualityParam?.options, 'quality']
+		];
+
+		for (const [key, allowed, label] of options) {
+			const value = row[key] ?? defaults[key];
+			if (!value) continue;
+			if (allowed?.includes(value)) {
+				item[key] = value;
+			} else if (row[key]) {
+				rowErrors.push(allowed ? `${label} "${value}" isn't available for ${model}` : `${model} has no ${label} option`);
+			}
+		}
+
+		const seed = row.seed ?? defaults.seed;
+		if (seed !== undefined && config.seedParam) {
+			item.seed = seed;
+		} else if (row.seed !== undefined) {
+			rowErrors.push(`${model} doesn't take a seed`);
+		}
+
+		if (rowErrors.length > 0) {
+			errors.push(`Line ${row.line}: ${rowErrors.join('; ')}`);
+			continue;
+		}
+		items.push(item);
+	}
+
+	return { items, errors };
+}
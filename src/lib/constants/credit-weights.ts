@@ -0,0 +1,40 @@
+/**
+ * Client-safe credit cost calculation for model credit weights.
+ * Weights are edited under Admin > Settings > Credit Weights and stored in model_credit_weight;
+ * the server applies them to plan limits and extra credits, the image/video page shows the same cost.
+ */
+
+export interface CreditWeight {
+	model: string;
+	quality: string; // Quality/resolution option from MODEL_CONFIGS, '' = any
+	weight: number;
+	perSecond: boolean; // Multiply by the requested video duration
+}
+
+export interface CreditCostOptions {
+	quality?: string;
+	duration?: number; // Seconds
+	numberOfImages?: number;
+}
+
+// Cost of a generation when its model has no weight
+export const DEFAULT_CREDIT_WEIGHT = 1;
+
+/**
+ * Credits one request uses: the weight for the chosen quality (else the model's "any quality" weight),
+ * times the duration for per-second weights, times the number of images
+ */
+export function getCreditCost(weights: CreditWeight[], model: string, options: CreditCostOptions = {}): number {
+	const modelWeights = weights.filter(w => w.model === model);
+	const match =
+		(options.quality && modelWeights.find(w => w.quality === options.quality)) ||
+		modelWeights.find(w => w.quality === '');
+
+	const count = Math.max(1, Math.floor(options.numberOfImages ?? 1) || 1);
+	if (!match) {
+		return DEFAULT_CREDIT_WEIGHT * count;
+	}
+
+	const seconds = match.perSecond ? Math.max(1, Math.ceil(options.duration ?? 1) || 1) : 1;
+	return match.weight * seconds * count;
+}
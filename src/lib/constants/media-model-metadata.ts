@@ -114,6 +114,16 @@ export const IMAGE_MODEL_METADATA: Record<string, ModelMetadata> = {
 		description: 'Lightning-fast FLUX for rapid iterations',
 		categories: ['Fast', 'Creative']
 	},
+	'flux-fill-pro': {
+		description: 'Inpaint painted regions or outpaint beyond the edges of an image',
+		categories: ['Editing'],
+		isNew: true
+	},
+	'flux-fill-dev': {
+		description: 'Open-weight FLUX inpainting for painted regions',
+		categories: ['Editing'],
+		isNew: true
+	},
 
 	// Stability AI Models
 	'stable-diffusion-3.5-large': {
@@ -18,6 +18,9 @@ export interface ModelCapability {
 	supportsImageEnd: boolean;
 	supportsUpscale: boolean;
 	supportsCompression: boolean;
+	supportsMask: boolean; // Inpainting with a painted mask
+	supportsOutpaint: boolean;
+	supportsNegativePrompt: boolean;
 }
 
 /**
@@ -41,7 +44,10 @@ function deriveCapabilities(modelNames: readonly string[]): Record<string, Model
 					supportsImageStart: !!config?.imageStartParam,
 					supportsImageEnd: !!config?.imageEndParam,
 					supportsUpscale: !!config?.upscaleParam,
-					supportsCompression: !!config?.compressionParam
+					supportsCompression: !!config?.compressionParam,
+					supportsMask: !!config?.maskParam,
+					supportsOutpaint: !!config?.outpaintParam,
+					supportsNegativePrompt: !!config?.negativePromptParam
 				}
 			];
 		})
@@ -137,6 +143,22 @@ export function getModelCompressionRange(modelName: string): { min: number; max:
 	return config ? { min: config.min, max: config.max } : null;
 }
 
+/**
+ * Helper function to get outpaint options for a model (first option is no outpainting).
+ * Reads directly from MODEL_CONFIGS (Single Source of Truth).
+ */
+export function getModelOutpaintOptions(modelName: string): readonly string[] {
+	return MODEL_CONFIGS[modelName]?.outpaintParam?.options ?? [];
+}
+
+/**
+ * Helper function to get the mask color that marks the area to regenerate, or null
+ * if the model doesn't take a mask.
+ */
+export function getModelMaskPaintedArea(modelName: string): 'white' | 'black' | null {
+	return MODEL_CONFIGS[modelName]?.maskParam?.paintedArea ?? null;
+}
+
 /**
  * Default aspect ratio for image generation
  */
@@ -0,0 +1,46 @@
+/**
+ * Client-safe promo code discount calculation.
+ * Codes are managed under Admin > Settings > Promo Codes; the server applies the discount at checkout
+ * and the pricing and billing pages preview it with the same calculation.
+ */
+
+export interface PromoCodeDiscount {
+	discountType: 'percentage' | 'fixed';
+	percentOff: number | null; // 1-100
+	amountOff: number | null; // USD cents
+	amountOffBdt: number | null; // BDT paisa
+}
+
+// What /api/promo-codes/validate returns for a usable code
+export interface PromoCodePreview extends PromoCodeDiscount {
+	code: string;
+	description: string | null;
+	planIds: string[] | null; // Pricing/credit plan IDs the code is limited to, null = any
+}
+
+/**
+ * Amount taken off a price (cents or paisa), never more than the price.
+ * Null when a fixed code has no amount in this currency
+ */
+export function getDiscountAmount(discount: PromoCodeDiscount, amount: number, currency: string): number | null {
+	if (discount.discountType === 'percentage') {
+		return Math.min(amount, Math.round(amount * (discount.percentOff ?? 0) / 100));
+	}
+
+	const amountOff = currency === 'bdt' ? discount.amountOffBdt : currency === 'usd' ? discount.amountOff : null;
+	return amountOff === null ? null : Math.min(amount, amountOff);
+}
+
+export function promoCodeAppliesToPlan(promo: PromoCodePreview, planId: string): boolean {
+	return !promo.planIds?.length || promo.planIds.includes(planId);
+}
+
+export function formatDiscount(discount: PromoCodeDiscount, currency: string): string {
+	if (discount.discountType === 'percentage') {
+		return `${discount.percentOff}% off`;
+	}
+	if (currency === 'bdt') {
+		return discount.amountOffBdt === null ? '' : `৳${(discount.amountOffBdt / 100).toLocaleString('en-BD')} off`;
+	}
+	return discount.amountOff === null ? '' : `$${(discount.amountOff / 100).toFixed(2).replace(/\.00$/, '')} off`;
+}
@@ -30,6 +30,9 @@ export interface ModelParamConfig {
 		name: string;                           // Parameter name (e.g., "style", "style_preset")
 		options: readonly string[];             // Valid options (e.g., ['anime', 'photorealistic', 'digital-art'])
 	};
+	negativePromptParam?: {
+		name: string;          // Parameter name (e.g., "negative_prompt") - what the output should not contain
+	};
 	durationParam?: {
 		name: string;          // Parameter name (e.g., "duration", "length", "video_length")
 		min: number;           // Minimum duration
@@ -58,6 +61,17 @@ export interface ModelParamConfig {
 		min: number;		   // Minimum value
 		max: number;		   // Maximum value
 	}
+
+	// INPAINTING / OUTPAINTING SPECIFIC PARAMS
+	maskParam?: {
+		name: string;                  // Parameter name (e.g., "mask")
+		paintedArea: 'white' | 'black'; // Mask color that marks the area to regenerate (the rest is kept)
+	};
+	outpaintParam?: {
+		name: string;                           // Parameter name (e.g., "outpaint")
+		options: readonly string[];             // Valid options, first one means no outpainting (e.g., ['None', 'Zoom out 2x'])
+	};
+	requiresImageInput?: boolean; // Edits an input image and can't generate from a prompt alone
 }
 
 export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
@@ -96,9 +110,11 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 	},
 	'imagen-3': {
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '3:4', '4:3', '9:16', '16:9'] },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 	'imagen-3-fast': {
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '3:4', '4:3', '9:16', '16:9'] },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 
 	// Black Forest Labs Models
@@ -156,6 +172,31 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		seedParam: { name: 'seed', type: 'integer' },
 		numberOfImagesParam: { name: 'num_outputs', min: 1, max: 4 }
 	},
+	'flux-fill-pro': {
+		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		maskParam: { name: 'mask', paintedArea: 'white' },
+		outpaintParam: {
+			name: 'outpaint', options: [
+				'None',
+				'Zoom out 1.5x',
+				'Zoom out 2x',
+				'Make square',
+				'Left outpaint',
+				'Right outpaint',
+				'Top outpaint',
+				'Bottom outpaint'
+			]
+		},
+		seedParam: { name: 'seed', type: 'integer' },
+		requiresImageInput: true
+	},
+	'flux-fill-dev': {
+		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		maskParam: { name: 'mask', paintedArea: 'white' },
+		seedParam: { name: 'seed', type: 'integer' },
+		numberOfImagesParam: { name: 'num_outputs', min: 1, max: 4 },
+		requiresImageInput: true
+	},
 
 	// Stability AI Models
 	'stable-diffusion-3.5-large': {
@@ -176,7 +217,8 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 	'stable-diffusion-3': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '2:3', '3:2', '9:16', '16:9'] },
-		seedParam: { name: 'seed', type: 'integer' }
+		seedParam: { name: 'seed', type: 'integer' },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 
 	// Luma Models
@@ -306,38 +348,46 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 	// Ideogram Models
 	'ideogram-v3-quality': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		maskParam: { name: 'mask', paintedArea: 'black' },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9'] },
 		seedParam: { name: 'seed', type: 'integer' },
 		styleParam: { name: 'style_type', options: ['None', 'Auto', 'General', 'Realistic', 'Design'] }
 	},
 	'ideogram-v3-balanced': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		maskParam: { name: 'mask', paintedArea: 'black' },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9'] },
 		seedParam: { name: 'seed', type: 'integer' },
 		styleParam: { name: 'style_type', options: ['None', 'Auto', 'General', 'Realistic', 'Design'] }
 	},
 	'ideogram-v3-turbo': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		maskParam: { name: 'mask', paintedArea: 'black' },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9'] },
 		seedParam: { name: 'seed', type: 'integer' },
 		styleParam: { name: 'style_type', options: ['None', 'Auto', 'General', 'Realistic', 'Design'] }
 	},
 	'ideogram-v2': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		maskParam: { name: 'mask', paintedArea: 'black' },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9'] },
 		seedParam: { name: 'seed', type: 'integer' },
-		styleParam: { name: 'style_type', options: ['None', 'Auto', 'General', 'Realistic', 'Design', 'Render 3D', 'Anime'] }
+		styleParam: { name: 'style_type', options: ['None', 'Auto', 'General', 'Realistic', 'Design', 'Render 3D', 'Anime'] },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'ideogram-v2-turbo': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		maskParam: { name: 'mask', paintedArea: 'black' },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '2:3', '3:2', '3:4', '4:3', '9:16', '16:9'] },
 		seedParam: { name: 'seed', type: 'integer' },
-		styleParam: { name: 'style_type', options: ['None', 'Auto', 'General', 'Realistic', 'Design', 'Render 3D', 'Anime'] }
+		styleParam: { name: 'style_type', options: ['None', 'Auto', 'General', 'Realistic', 'Design', 'Render 3D', 'Anime'] },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	// ===== IMAGE UPSCALERS =====
 
 	'upscaler': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
+		requiresImageInput: true,
 		upscaleParam: { name: 'upscale_factor', options: ['x2', 'x4'] },
 		compressionParam: { name: 'compression_quality', min: 1, max: 100, type: 'integer' }
 	},
@@ -364,7 +414,8 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'resolution', options: ['720p', '1080p'] },
 		durationParam: { name: 'duration', min: 4, max: 8, unit: 'seconds' },
-		imageEndParam: { name: 'last_frame', isArray: false, needsDataUri: false }
+		imageEndParam: { name: 'last_frame', isArray: false, needsDataUri: false },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'veo-3.1-fast': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
@@ -372,7 +423,8 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'resolution', options: ['720p', '1080p'] },
 		durationParam: { name: 'duration', min: 4, max: 8, unit: 'seconds' },
-		imageEndParam: { name: 'last_frame', isArray: false, needsDataUri: false }
+		imageEndParam: { name: 'last_frame', isArray: false, needsDataUri: false },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'veo-3': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
@@ -380,6 +432,7 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'resolution', options: ['720p', '1080p'] },
 		durationParam: { name: 'duration', min: 4, max: 8, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 	'veo-3-fast': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
@@ -387,6 +440,7 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'resolution', options: ['720p', '1080p'] },
 		durationParam: { name: 'duration', min: 4, max: 8, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 	'veo-2': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
@@ -462,35 +516,41 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 	'wan-2.6-t2v': {
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'size', options: ['1280*720', '720*1280', '1920*1080', '1080*1920'] },
-		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' }
+		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'wan-2.5-t2v': {
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'size', options: ['1280*720', '720*1280', '1920*1080', '1080*1920'] },
-		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' }
+		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'wan-2.5-t2v-fast': {
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'size', options: ['1280*720', '720*1280', '1920*1080', '1080*1920'] },
-		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' }
+		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'wan-2.6-i2v': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'resolution', options: ['720p', '1080p'] },
-		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' }
+		durationParam: { name: 'duration', min: 5, max: 15, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'wan-2.5-i2v': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'resolution', options: ['480p', '720p', '1080p'] },
-		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' }
+		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'wan-2.5-i2v-fast': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
 		seedParam: { name: 'seed', type: 'integer' },
 		qualityParam: { name: 'resolution', options: ['720p', '1080p'] },
-		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' }
+		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'wan-2.2-5b-fast': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
@@ -519,6 +579,7 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		qualityParam: { name: 'quality', options: ['360p', '540p', '720p', '1080p'] },
 		durationParam: { name: 'duration', min: 5, max: 8, unit: 'seconds' },
 		imageEndParam: { name: 'last_frame_image', isArray: false, needsDataUri: false },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 	'pixverse-v4.5': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
@@ -527,7 +588,8 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		qualityParam: { name: 'quality', options: ['360p', '540p', '720p', '1080p'] },
 		durationParam: { name: 'duration', min: 5, max: 8, unit: 'seconds' },
 		imageEndParam: { name: 'last_frame_image', isArray: false, needsDataUri: false },
-		styleParam: { name: 'style', options: ['None', 'anime', '3d_animation', 'clay', 'cyberpunk', 'comic'] }
+		styleParam: { name: 'style', options: ['None', 'anime', '3d_animation', 'clay', 'cyberpunk', 'comic'] },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 	'pixverse-v4': {
 		imageInputParam: { name: 'image', isArray: false, needsDataUri: false },
@@ -536,7 +598,8 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		qualityParam: { name: 'quality', options: ['360p', '540p', '720p', '1080p'] },
 		durationParam: { name: 'duration', min: 5, max: 8, unit: 'seconds' },
 		imageEndParam: { name: 'last_frame_image', isArray: false, needsDataUri: false },
-		styleParam: { name: 'style', options: ['None', 'anime', '3d_animation', 'clay', 'cyberpunk', 'comic'] }
+		styleParam: { name: 'style', options: ['None', 'anime', '3d_animation', 'clay', 'cyberpunk', 'comic'] },
+		negativePromptParam: { name: 'negative_prompt' }
 	},
 
 	// KlingAI models
@@ -550,21 +613,25 @@ export const MODEL_CONFIGS: Record<string, ModelParamConfig> = {
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '9:16', '16:9'] },
 		imageEndParam: { name: 'end_image', isArray: false, needsDataUri: false },
 		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 	'kling-v2.1': {
 		imageInputParam: { name: 'start_image', isArray: false, needsDataUri: false },
 		imageEndParam: { name: 'end_image', isArray: false, needsDataUri: false },
 		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 	'kling-v2.1-master': {
 		imageInputParam: { name: 'start_image', isArray: false, needsDataUri: false },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '9:16', '16:9'] },
 		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' },
 	},
 	'kling-v2.0': {
 		imageInputParam: { name: 'start_image', isArray: false, needsDataUri: false },
 		sizeParam: { name: 'aspect_ratio', options: ['1:1', '9:16', '16:9'] },
 		durationParam: { name: 'duration', min: 5, max: 10, unit: 'seconds' },
+		negativePromptParam: { name: 'negative_prompt' },
 	}
 };
 
@@ -600,6 +667,8 @@ export const MODEL_IDENTIFIERS: Record<string, { path: string; type: 'image' | '
 	'flux-kontext-pro': { path: 'black-forest-labs/flux-kontext-pro', type: 'image' },
 	'flux-kontext-max': { path: 'black-forest-labs/flux-kontext-max', type: 'image' },
 	'flux-schnell': { path: 'black-forest-labs/flux-schnell', type: 'image' },
+	'flux-fill-pro': { path: 'black-forest-labs/flux-fill-pro', type: 'image' },
+	'flux-fill-dev': { path: 'black-forest-labs/flux-fill-dev', type: 'image' },
 
 	// Stable Diffusion models
 	'stable-diffusion-3.5-large': { path: 'stability-ai/stable-diffusion-3.5-large', type: 'image' },
@@ -116,6 +116,8 @@ export { default as WrenchIcon } from "@lucide/svelte/icons/wrench";
 export { default as Clock4Icon } from "@lucide/svelte/icons/clock-4";
 export { default as DiamondIcon } from "@lucide/svelte/icons/diamond";
 export { default as PaintbrushIcon } from "@lucide/svelte/icons/paintbrush";
+export { default as EraserIcon } from "@lucide/svelte/icons/eraser";
+export { default as GitForkIcon } from "@lucide/svelte/icons/git-fork";
 export { default as MaximizeIcon } from "@lucide/svelte/icons/maximize";
 export { default as RefreshCwIcon } from "@lucide/svelte/icons/refresh-cw";
 export { default as ImagePlusIcon } from "@lucide/svelte/icons/image-plus";
@@ -129,3 +131,9 @@ export { default as MessageSquareIcon } from "@lucide/svelte/icons/message-squar
 // Email template icons
 export { default as EditIcon } from "@lucide/svelte/icons/edit";
 export { default as RotateCcwIcon } from "@lucide/svelte/icons/rotate-ccw";
+
+// Admin credit weights icon
+export { default as ScaleIcon } from "@lucide/svelte/icons/scale";
+
+// Promo codes icon
+export { default as TicketPercentIcon } from "@lucide/svelte/icons/ticket-percent";
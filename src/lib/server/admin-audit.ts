@@ -0,0 +1,110 @@
+import { db } from './db/index.js';
+import { adminAuditLog } from './db/schema.js';
+import { eq, desc, count, sql } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export type AdminAuditEntry = typeof adminAuditLog.$inferSelect;
+export type AdminAuditAction = AdminAuditEntry['action'];
+
+export interface AdminActor {
+        id: string;
+        email?: string | null;
+}
+
+export interface NewAdminAuditEntry {
+        admin: AdminActor;
+        action: AdminAuditAction;
+        targetUser?: { id: string; email: string | null } | null;
+        entityType: AdminAuditEntry['entityType'];
+        entityId: string | null;
+        reason: string;
+        details?: Record<string, unknown>;
+}
+
+const IMMUTABLE_TRIGGER = 'admin_audit_log_immutable';
+
+export class AdminAuditService {
+        /**
+         * Append an entry. Pass the transaction of the action being logged so the two commit together.
+         */
+        static async record(entry: NewAdminAuditEntry, executor: Executor = db): Promise<AdminAuditEntry> {
+                const [created] = await executor
+                        .insert(adminAuditLog)
+                        .values({
+                                adminId: entry.admin.id,
+                                adminEmail: entry.admin.email ?? null,
+                                action: entry.action,
+                                targetUserId: entry.targetUser?.id ?? null,
+                                targetUserEmail: entry.targetUser?.email ?? null,
+                                entityType: entry.entityType,
+                                entityId: entry.entityId,
+                                reason: entry.reason,
+                                details: entry.details ?? null,
+                        })
+                        .returning();
+
+                return created;
+        }
+
+        static async list({ targetUserId, limit, offset = 0 }: {
+                targetUserId?: string;
+                limit: number;
+                offset?: number;
+        }): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+                const filter = targetUserId ? eq(adminAuditLog.targetUserId, targetUserId) : undefined;
+
+                const [entries, [{ total }]] = await Promise.all([
+                        db
+                                .select()
+                                .from(adminAuditLog)
+                                .where(filter)
+                                .orderBy(desc(adminAuditLog.createdAt))
+                                .limit(limit)
+                                .offset(offset),
+                        db
+                                .select({ total: count() })
+                                .from(adminAuditLog)
+                                .where(filter),
+                ]);
+
+                return { entries, total };
+        }
+
+        /**
+         * Install the trigger that rejects UPDATE, DELETE and TRUNCATE on the audit log.
+         * Returns false when it's already installed.
+         */
+        static async protectTable(): Promise<boolean> {
+                // postgres-js returns the rows as an array
+                const existing = await db.execute<{ tgname: string }>(
+                        sql`SELECT tgname FROM pg_trigger WHERE tgname = ${IMMUTABLE_TRIGGER} LIMIT 1`
+                );
+                if (existing.length > 0) {
+                        return false;
+                }
+
+                await db.transaction(async (tx) => {
+                        await tx.execute(sql.raw(`
+                                CREATE OR REPLACE FUNCTION ${IMMUTABLE_TRIGGER}() RETURNS trigger AS $$
+                                BEGIN
+                                        RAISE EXCEPTION 'admin_audit_log is append-only';
+                                END;
+                                $$ LANGUAGE plpgsql
+                        `));
+                        await tx.execute(sql.raw(`
+                                CREATE TRIGGER ${IMMUTABLE_TRIGGER}
+                                BEFORE UPDATE OR DELETE ON "admin_audit_log"
+                                FOR EACH ROW EXECUTE FUNCTION ${IMMUTABLE_TRIGGER}()
+                        `));
+                        await tx.execute(sql.raw(`
+                                CREATE TRIGGER ${IMMUTABLE_TRIGGER}_truncate
+                                BEFORE TRUNCATE ON "admin_audit_log"
+                                FOR EACH STATEMENT EXECUTE FUNCTION ${IMMUTABLE_TRIGGER}()
+                        `));
+                });
+
+                return true;
+        }
+}
@@ -0,0 +1,332 @@
+import { randomUUID } from 'crypto';
+import { db } from './db/index.js';
+import { paymentHistory, paymentRefunds, subscriptions, userCredits, users } from './db/schema.js';
+import { eq } from 'drizzle-orm';
+import { AdminAuditService, type AdminActor } from './admin-audit.js';
+import { CreditService, type CreditType } from './credit-service.js';
+import { StripeService } from './stripe.js';
+
+export class AdminActionError extends Error {
+        constructor(message: string) {
+                super(message);
+                this.name = 'AdminActionError';
+        }
+}
+
+export const MAX_REASON_LENGTH = 500;
+export const MAX_EXTENSION_DAYS = 365;
+
+const EXTENDABLE_STATUSES = ['active', 'trialing', 'past_due'];
+
+function requireReason(reason: string): string {
+        const trimmed = reason.trim();
+        if (!trimmed) {
+                throw new AdminActionError('A reason is required');
+        }
+        if (trimmed.length > MAX_REASON_LENGTH) {
+                throw new AdminActionError(`Reason must be ${MAX_REASON_LENGTH} characters or less`);
+        }
+        return trimmed;
+}
+
+function requirePositiveInteger(value: number, label: string): void {
+        if (!Number.isInteger(value) || value <= 0) {
+                throw new AdminActionError(`${label} must be a positive whole number`);
+        }
+}
+
+async function getTargetUser(userId: string | null): Promise<{ id: string; email: string | null } | null> {
+        if (!userId) {
+                return null;
+        }
+        const [user] = await db
+                .select({ id: users.id, email: users.email })
+                .from(users)
+                .where(eq(users.id, userId))
+                .limit(1);
+        return user ?? null;
+}
+
+/**
+ * Billing actions taken from the admin pages. Each one is written to the admin audit log in the
+ * same transaction as the change it makes.
+ */
+export class AdminBillingService {
+        /**
+         * Refund part or all of a payment. Stripe payments are refunded through the API; Opaybd has
+         * no refund API, so the refund is made in the Opaybd dashboard and recorded here with its reference.
+         */
+        static async refundPayment({ admin, paymentId, amount, reason, reference }: {
+                admin: AdminActor;
+                paymentId: string;
+                amount: number;
+                reason: string;
+                reference?: string;
+        }): Promise<void> {
+                const refundReason = requireReason(reason);
+                requirePositiveInteger(amount, 'Refund amount');
+
+                const [payment] = await db
+                        .select()
+                        .from(paymentHistory)
+                        .where(eq(paymentHistory.id, paymentId))
+                        .limit(1);
+
+                if (!payment) {
+                        throw new AdminActionError('Payment not found');
+                }
+                if (payment.status !== 'succeeded') {
+                        throw new AdminActionError('Only successful payments can be refunded');
+                }
+
+                const refundable = payment.amount - payment.refundedAmount;
+                if (amount > refundable) {
+                        throw new AdminActionError('Refund amount is more than what is left to refund on this payment');
+                }
+
+                const refundId = randomUUID();
+                let providerRefundId: string;
+
+                if (payment.paymentProvider === 'stripe') {
+                        try {
+                                const refund = await StripeService.refundPayment({
+                                        paymentIntentId: payment.stripePaymentIntentId,
+                                        invoiceId: payment.stripeInvoiceId,
+                                        amount,
+                                        idempotencyKey: `admin_refund_${refundId}`,
+                                        metadata: { paymentHistoryId: payment.id, adminId: admin.id },
+                                });
+                                providerRefundId = refund.id;
+                        } catch (error) {
+                                console.error('Stripe refund failed for payment:', payment.id, error);
+                                throw new AdminActionError(
+                                        `Stripe refund failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+                                );
+                        }
+                } else {
+                        const opayReference = reference?.trim();
+                        if (!opayReference) {
+                                throw new AdminActionError('Enter the Opaybd refund reference');
+                        }
+                        providerRefundId = opayReference;
+                }
+
+                const targetUser = await getTargetUser(payment.userId);
+
+                try {
+                        await db.transaction(async (tx) => {
+                                const [locked] = await tx
+                                        .select({ refundedAmount: paymentHistory.refundedAmount })
+                                        .from(paymentHistory)
+                                        .where(eq(paymentHistory.id, payment.id))
+                                        .for('update');
+
+                                const refundedAmount = locked.refundedAmount + amount;
+                                if (refundedAmount > payment.amount) {
+                                        throw new AdminActionError('This payment was refunded by someone else in the meantime');
+                                }
+
+                                await tx
+                                        .update(paymentHistory)
+                                        .set({
+                                                refundedAmount,
+                                                status: refundedAmount >= payment.amount ? 'refunded' : payment.status,
+                                        })
+                                        .where(eq(paymentHistory.id, payment.id));
+
+                                await tx.insert(paymentRefunds).values({
+                                        id: refundId,
+                                        paymentHistoryId: payment.id,
+                                        amount,
+                                        currency: payment.currency,
+                                        paymentProvider: payment.paymentProvider,
+                                        providerRefundId,
+                                        reason: refundReason,
+                                        adminId: admin.id,
+                                });
+
+                                await AdminAuditService.record({
+                                        admin,
+                                        action: 'payment.refund',
+                                        targetUser,
+                                        entityType: 'payment',
+                                        entityId: payment.id,
+                                        reason: refundReason,
+                                        details: {
+                                                amount,
+                                                currency: payment.currency,
+                                                paymentProvider: payment.paymentProvider,
+                                                providerRefundId,
+                                                refundedAmount,
+                                                paymentAmount: payment.amount,
+                                        },
+                                }, tx);
+                        });
+                } catch (error) {
+                        if (payment.paymentProvider !== 'stripe') {
+                                throw error;
+                        }
+                        // The money has already gone back, so make sure the admin knows to reconcile it
+                        console.error('Stripe refund issued but not recorded:', providerRefundId, error);
+                        throw new AdminActionError(
+                                `Stripe refund ${providerRefundId} was issued but could not be recorded. Please record it manually.`
+                        );
+                }
+        }
+
+        /**
+         * Add credits to a user's balance. Granted credits don't expire.
+         */
+        static async grantCredits({ admin, userId, creditType, amount, reason }: {
+                admin: AdminActor;
+                userId: string;
+                creditType: CreditType;
+                amount: number;
+                reason: string;
+        }): Promise<void> {
+                const grantReason = requireReason(reason);
+                requirePositiveInteger(amount, 'Credit amount');
+
+                const targetUser = await getTargetUser(userId);
+                if (!targetUser) {
+                        throw new AdminActionError('User not found');
+                }
+
+                await db.transaction(async (tx) => {
+                        const [credit] = await tx
+                                .insert(userCredits)
+                                .values({
+                                        userId,
+                                        creditType,
+                                        creditAmount: amount,
+                                        purchasedAmount: amount,
+                                        paymentProvider: 'admin',
+                                })
+                                .returning({ id: userCredits.id });
+
+                        await AdminAuditService.record({
+                                admin,
+                                action: 'credits.grant',
+                                targetUser,
+                                entityType: 'user_credit',
+                                entityId: credit.id,
+                                reason: grantReason,
+                                details: { creditType, amount },
+                        }, tx);
+                });
+        }
+
+        /**
+         * Remove credits from a user's balance, taking from the batches that expire first
+         */
+        static async revokeCredits({ admin, userId, creditType, amount, reason }: {
+                admin: AdminActor;
+                userId: string;
+                creditType: CreditType;
+                amount: number;
+                reason: string;
+        }): Promise<void> {
+                const revokeReason = requireReason(reason);
+                requirePositiveInteger(amount, 'Credit amount');
+
+                const targetUser = await getTargetUser(userId);
+                if (!targetUser) {
+                        throw new AdminActionError('User not found');
+                }
+
+                await db.transaction(async (tx) => {
+                        const deductions = await CreditService.useCredit(userId, creditType, amount, tx);
+                        if (!deductions) {
+                                const available = await CreditService.getAvailableCredits(userId, creditType);
+                                throw new AdminActionError(`The user only has ${available} ${creditType} credits`);
+                        }
+
+                        await AdminAuditService.record({
+                                admin,
+                                action: 'credits.revoke',
+                                targetUser,
+                                entityType: 'user_credit',
+                                entityId: deductions.length === 1 ? deductions[0].id : null,
+                                reason: revokeReason,
+                                details: { creditType, amount, deductions },
+                        }, tx);
+                });
+        }
+
+        /**
+         * Move a subscription's period end out by a number of days, counted from the current
+         * period end (or from now if that has already passed). Stripe won't charge until the new date.
+         */
+        static async extendSubscription({ admin, subscriptionId, days, reason }: {
+                admin: AdminActor;
+                subscriptionId: string;
+                days: number;
+                reason: string;
+        }): Promise<Date> {
+                const extendReason = requireReason(reason);
+                requirePositiveInteger(days, 'Extension');
+                if (days > MAX_EXTENSION_DAYS) {
+                        throw new AdminActionError(`Subscriptions can be extended by at most ${MAX_EXTENSION_DAYS} days at a time`);
+                }
+
+                const [subscription] = await db
+                        .select()
+                        .from(subscriptions)
+                        .where(eq(subscriptions.id, subscriptionId))
+                        .limit(1);
+
+                if (!subscription) {
+                        throw new AdminActionError('Subscription not found');
+                }
+                if (!EXTENDABLE_STATUSES.includes(subscription.status)) {
+                        throw new AdminActionError(`A ${subscription.status} subscription can't be extended`);
+                }
+
+                const previousEnd = subscription.currentPeriodEnd;
+                const newEnd = new Date(Math.max(previousEnd.getTime(), Date.now()) + days * 24 * 60 * 60 * 1000);
+
+                if (subscription.paymentProvider === 'stripe') {
+                        try {
+                                await StripeService.extendSubscription(subscription.stripeSubscriptionId, newEnd);
+                        } catch (error) {
+                                console.error('Stripe subscription extension failed:', subscription.id, error);
+                                throw new AdminActionError(
+                                        `Stripe update failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+                                );
+                        }
+                }
+
+                const targetUser = await getTargetUser(subscription.userId);
+
+                await db.transaction(async (tx) => {
+                        await tx
+                                .update(subscriptions)
+                                .set({
+                                        currentPeriodEnd: newEnd,
+                                        // Opaybd renewals are manual; the reminder and grace period restart from the new end
+                                        ...(subscription.paymentProvider === 'opaybd'
+                                                ? { renewalRequired: false, renewalReminderSentAt: null }
+                                                : {}),
+                                        updatedAt: new Date(),
+                                })
+                                .where(eq(subscriptions.id, subscription.id));
+
+                        await AdminAuditService.record({
+                                admin,
+                                action: 'subscription.extend',
+                                targetUser,
+                                entityType: 'subscription',
+                                entityId: subscription.id,
+                                reason: extendReason,
+                                details: {
+                                        days,
+                                        paymentProvider: subscription.paymentProvider,
+                                        previousPeriodEnd: previousEnd.toISOString(),
+                                        newPeriodEnd: newEnd.toISOString(),
+                                },
+                        }, tx);
+                });
+
+                return newEnd;
+        }
+}
@@ -198,6 +198,25 @@ async function reEncryptSetting(key: string, decryptedValue: string): Promise<vo
   }
 }
 
+/**
+ * Encrypts a secret stored outside admin_settings (e.g. custom tool auth headers).
+ */
+export function encryptSecret(text: string): string {
+  return encrypt(text);
+}
+
+/**
+ * Decrypts a value produced by encryptSecret(). Returns null if it can't be decrypted.
+ */
+export function decryptSecret(encryptedText: string): string | null {
+  try {
+    return decrypt(encryptedText).value;
+  } catch (error) {
+    console.error('Failed to decrypt secret:', error);
+    return null;
+  }
+}
+
 // List of sensitive keys that should be encrypted
 const SENSITIVE_KEYS = [
   'stripe_secret_key',
@@ -209,6 +228,7 @@ const SENSITIVE_KEYS = [
   'openrouter_api_key',
   'replicate_api_key',
   'elevenlabs_api_key',
+  'brave_search_api_key',
   'r2_account_id',
   'r2_access_key_id',
   'r2_secret_access_key',
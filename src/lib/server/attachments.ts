@@ -0,0 +1,229 @@
+import { readFile, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { db } from './db/index.js';
+import { attachments, images } from './db/schema.js';
+import { and, eq, inArray, notLike, sql } from 'drizzle-orm';
+import { storageService } from './storage.js';
+import { isTextFileMimeType } from '../utils/file-types.js';
+
+export type Attachment = typeof attachments.$inferSelect;
+
+export const MAX_ATTACHMENT_SIZE = 1024 * 1024; // 1MB
+
+// Where /api/files/text used to write uploads before attachments had their own table
+const LEGACY_UPLOAD_DIR = join('static', 'uploads', 'files');
+
+const MIME_EXTENSIONS: Record<string, string> = {
+        'text/plain': 'txt',
+        'text/markdown': 'md',
+        'text/csv': 'csv',
+        'application/json': 'json',
+        'text/html': 'html',
+        'text/css': 'css',
+        'text/javascript': 'js',
+        'application/javascript': 'js'
+};
+
+export class AttachmentService {
+        /**
+         * Attachments are text files: anything the chat reads inline, plus JavaScript
+         */
+        static isAllowedMimeType(mimeType: string): boolean {
+                return isTextFileMimeType(mimeType) || mimeType === 'application/javascript';
+        }
+
+        /**
+         * Store a file through the storage service and record it for the user
+         */
+        static async upload(input: {
+                userId: string;
+                filename: string;
+                mimeType: string;
+                buffer: Buffer;
+                chatId?: string | null;
+        }): Promise<Attachment> {
+                // generateFilename keeps the extension of the name it's given
+                const sourceName = input.filename.includes('.') ? input.filename : `file.${MIME_EXTENSIONS[input.mimeType] || 'txt'}`;
+                const stored = await storageService.upload(
+                        { buffer: input.buffer, mimeType: input.mimeType, filename: storageService.generateFilename(sourceName) },
+                        input.userId,
+                        'attachments',
+                        'uploaded'
+                );
+
+                try {
+                        const [attachment] = await db
+                                .insert(attachments)
+                                .values({
+                                        userId: input.userId,
+                                        chatId: input.chatId || null,
+                                        filename: input.filename,
+                                        mimeType: input.mimeType,
+                                        fileSize: input.buffer.length,
+                                        storageLocation: stored.storageLocation,
+                                        storagePath: stored.path
+                                })
+                                .returning();
+                        return attachment;
+                } catch (error) {
+                        // Don't leave an orphaned file behind
+                        await storageService.delete(stored.path).catch(() => {});
+                        throw error;
+                }
+        }
+
+        /**
+         * Get an attachment only if it belongs to the user
+         */
+        static async getForUser(id: string, userId: string): Promise<Attachment | null> {
+                const [attachment] = await db
+                        .select()
+                        .from(attachments)
+                        .where(and(eq(attachments.id, id), eq(attachments.userId, userId)));
+                return attachment ?? null;
+        }
+
+        /**
+         * Delete an attachment's file and record
+         */
+        static async delete(attachment: Attachment): Promise<void> {
+                try {
+                        await storageService.delete(attachment.storagePath);
+                } catch (error) {
+                        console.error('Attachment storage deletion error:', error);
+                }
+                await db.delete(attachments).where(eq(attachments.id, attachment.id));
+        }
+
+        /**
+         * Delete all attachments of a chat (used when the chat is deleted).
+         * Files that messages in the user's other chats still reference (branches copy them) move to one of those
+         * chats instead, so they are deleted with the last chat using them.
+         */
+        static async deleteForChat(chatId: string, userId: string): Promise<void> {
+                const rows = await db
+                        .select()
+                        .from(attachments)
+                        .where(and(eq(attachments.chatId, chatId), eq(attachments.userId, userId)));
+
+                for (const row of rows) {
+                        // postgres-js returns the rows as an array
+                        const [reference] = await db.execute<{ id: string; chatId: string }>(sql`
+                                SELECT m.id, m."chatId" FROM message m
+                                JOIN chat c ON c.id = m."chatId"
+                                WHERE c."userId" = ${userId} AND m."chatId" <> ${chatId}
+                                        AND (m.attachments::jsonb -> 'attachmentIds') @> to_jsonb(${row.id}::text)
+                                ORDER BY m."createdAt" DESC
+                                LIMIT 1
+                        `);
+
+                        if (reference) {
+                                await db
+                                        .update(attachments)
+                                        .set({ chatId: reference.chatId, messageId: reference.id })
+                                        .where(eq(attachments.id, row.id));
+                        } else {
+                                await this.delete(row);
+                        }
+                }
+        }
+
+        /**
+         * Point the attachments referenced by saved messages at their chat and message row.
+         * Only the user's own attachments are updated, so foreign IDs in a message are ignored.
+         */
+        static async linkToChat(
+                chatId: string,
+                userId: string,
+                messages: Array<{ id?: string; attachmentIds?: string[] }>
+        ): Promise<void> {
+                for (const message of messages) {
+                        if (!message?.id || !Array.isArray(message.attachmentIds) || message.attachmentIds.length === 0) continue;
+
+                        await db
+                                .update(attachments)
+                                .set({ chatId, messageId: message.id })
+                                .where(and(
+                                        inArray(attachments.id, message.attachmentIds.filter(id => typeof id === 'string')),
+                                        eq(attachments.userId, userId)
+                                ));
+                }
+        }
+
+        /**
+         * Link attachments saved before they recorded their message row (they only had its position)
+         * to the most recently saved message of their chat that references them.
+         */
+        static async linkToMessages(): Promise<number> {
+                // postgres-js returns the rows as an array
+                const linked = await db.execute<{ id: string }>(sql`
+                        UPDATE attachment a SET "messageId" = (
+                                SELECT m.id FROM message m
+                                WHERE m."chatId" = a."chatId" AND (m.attachments::jsonb -> 'attachmentIds') @> to_jsonb(a.id)
+                                ORDER BY m."createdAt" DESC, m.position DESC
+                                LIMIT 1
+                        )
+                        WHERE a."messageId" IS NULL AND a."chatId" IS NOT NULL AND EXISTS (
+                                SELECT 1 FROM message m
+                                WHERE m."chatId" = a."chatId" AND (m.attachments::jsonb -> 'attachmentIds') @> to_jsonb(a.id)
+                        )
+                        RETURNING a.id
+                `);
+                return linked.length;
+        }
+
+        /**
+         * Move text files that older versions stored in the image table into attachments,
+         * copying them from static/uploads/files into the configured storage.
+         * Rows keep their IDs so existing references stay valid.
+         */
+        static async migrateFromImages(): Promise<number> {
+                const legacyRows = await db
+                        .select()
+                        .from(images)
+                        .where(notLike(images.mimeType, 'image/%'));
+
+                for (const row of legacyRows) {
+                        const legacyPath = join(process.cwd(), LEGACY_UPLOAD_DIR, row.filename);
+
+                        const copied = existsSync(legacyPath);
+                        let storageLocation = row.storageLocation;
+                        let storagePath = row.cloudPath || `files/${row.filename}`;
+
+                        if (copied) {
+                                const stored = await storageService.upload(
+                                        { buffer: await readFile(legacyPath), mimeType: row.mimeType, filename: row.filename },
+                                        row.userId,
+                                        'attachments',
+                                        'uploaded'
+                                );
+                                storageLocation = stored.storageLocation;
+                                storagePath = stored.path;
+                        } else {
+                                console.warn(`[Attachments] Legacy file missing for ${row.id}, keeping its old path`);
+                        }
+
+                        await db.transaction(async (tx) => {
+                                await tx.insert(attachments).values({
+                                        id: row.id,
+                                        userId: row.userId,
+                                        chatId: row.chatId,
+                                        filename: row.filename,
+                                        mimeType: row.mimeType,
+                                        fileSize: row.fileSize,
+                                        storageLocation,
+                                        storagePath,
+                                        createdAt: row.createdAt
+                                }).onConflictDoNothing();
+                                await tx.delete(images).where(eq(images.id, row.id));
+                        });
+
+                        if (copied) {
+                                await unlink(legacyPath).catch(() => {});
+                        }
+                }
+
+                return legacyRows.length;
+        }
+}
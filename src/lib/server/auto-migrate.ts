@@ -1,5 +1,16 @@
 import { sql } from 'drizzle-orm';
 import { db } from './db/index.js';
+import { AttachmentService } from './attachments.js';
+import { ChatMessageService } from './chat-messages.js';
+import { AdminAuditService } from './admin-audit.js';
+import { MediaLineageService } from './media-lineage.js';
+import { adminSettingsService } from './admin-settings.js';
+
+// Admin setting recording that existing plans got the audio limit for the split-off usage types
+const AUDIO_SPLIT_BACKFILL_MARKER = 'migration_audio_split_limits';
+
+// Admin setting recording that images and videos saved before media lineage were linked
+const LINEAGE_BACKFILL_MARKER = 'migration_media_lineage_backfill';
 
 async function columnExists(table: string, column: string): Promise<boolean> {
   const result = await db.execute(
@@ -8,6 +19,13 @@ async function columnExists(table: string, column: string): Promise<boolean> {
   return (result as any).rows?.length > 0 || (Array.isArray(result) && result.length > 0);
 }
 
+async function tableExists(table: string): Promise<boolean> {
+  const result = await db.execute(
+    sql.raw(`SELECT 1 FROM information_schema.tables WHERE table_name='${table}' LIMIT 1`)
+  );
+  return (result as any).rows?.length > 0 || (Array.isArray(result) && result.length > 0);
+}
+
 async function addColumnIfMissing(table: string, column: string, type: string): Promise<boolean> {
   const exists = await columnExists(table, column);
   if (!exists) {
@@ -26,19 +44,108 @@ export async function runAutoMigrations(): Promise<void> {
       { table: 'user', column: 'profession', type: 'text' },
       { table: 'user', column: 'personalInstructions', type: 'text' },
       { table: 'pricing_plan', column: 'voiceGenerationLimit', type: 'integer' },
+      { table: 'pricing_plan', column: 'allowedTools', type: 'json' },
+      { table: 'project_file', column: 'storageLocation', type: 'text' },
+      { table: 'project_file', column: 'storagePath', type: 'text' },
+      { table: 'project_file', column: 'metadata', type: 'json' },
+      { table: 'chat', column: 'currentMessageId', type: 'text' },
+      { table: 'pricing_plan', column: 'monthlyTokenLimit', type: 'integer' },
+      { table: 'pricing_plan', column: 'monthlyCostLimit', type: 'integer' },
+      { table: 'usage_tracking', column: 'tokenCount', type: 'integer NOT NULL DEFAULT 0' },
+      { table: 'usage_tracking', column: 'costUsd', type: 'double precision NOT NULL DEFAULT 0' },
+      { table: 'usage_tracking', column: 'voiceGenerationCount', type: 'integer NOT NULL DEFAULT 0' },
+      { table: 'usage_tracking', column: 'musicGenerationCount', type: 'integer NOT NULL DEFAULT 0' },
+      { table: 'usage_tracking', column: 'soundEffectGenerationCount', type: 'integer NOT NULL DEFAULT 0' },
+      { table: 'usage_tracking', column: 'transcriptionGenerationCount', type: 'integer NOT NULL DEFAULT 0' },
+      { table: 'pricing_plan', column: 'trialDays', type: 'integer NOT NULL DEFAULT 0' },
+      { table: 'payment_history', column: 'refundedAmount', type: 'integer NOT NULL DEFAULT 0' },
+      { table: 'image', column: 'sourceImageId', type: 'text' },
+      { table: 'image', column: 'maskImageId', type: 'text' },
+      { table: 'image', column: 'outpaint', type: 'text' },
+      { table: 'image', column: 'negativePrompt', type: 'text' },
+      { table: 'video', column: 'negativePrompt', type: 'text' },
     ];
 
+    const audioSplitLimits = ['musicGenerationLimit', 'soundEffectGenerationLimit', 'transcriptionGenerationLimit'];
+
     let addedCount = 0;
     for (const { table, column, type } of migrations) {
       const added = await addColumnIfMissing(table, column, type);
       if (added) addedCount++;
     }
 
+    for (const column of audioSplitLimits) {
+      if (await addColumnIfMissing('pricing_plan', column, 'integer')) addedCount++;
+    }
+
     if (addedCount > 0) {
       console.log(`[Auto-Migrate] ${addedCount} column(s) added successfully`);
     } else {
       console.log('[Auto-Migrate] All columns present, no migration needed');
     }
+
+    // Music, sound effects and transcription used to count against the audio limit, so existing
+    // plans start with that limit instead of unlimited (NULL). Runs once, whether the columns
+    // came from here or from db:push
+    if (!(await adminSettingsService.getSetting(AUDIO_SPLIT_BACKFILL_MARKER))) {
+      await db.transaction(async (tx) => {
+        for (const column of audioSplitLimits) {
+          await tx.execute(sql.raw(`UPDATE "pricing_plan" SET "${column}" = "audioGenerationLimit" WHERE "${column}" IS NULL`));
+        }
+      });
+      await adminSettingsService.setSetting(AUDIO_SPLIT_BACKFILL_MARKER, new Date().toISOString(), 'migrations', 'Existing plans got the audio limit for music, sound effects and transcription');
+      console.log('[Auto-Migrate] Copied the audio limit to the music, sound effect and transcription limits');
+    }
+
+    // Text files used to be stored in the image table; move them once the attachment table exists (db:push)
+    if (await tableExists('attachment')) {
+      const moved = await AttachmentService.migrateFromImages();
+      if (moved > 0) {
+        console.log(`[Auto-Migrate] Moved ${moved} text file(s) from "image" to "attachment"`);
+      }
+    }
+
+    // Chats used to keep all messages in chat.messages; move them into the message table (db:push)
+    if (await tableExists('message')) {
+      const migratedChats = await ChatMessageService.migrateFromJson();
+      if (migratedChats > 0) {
+        console.log(`[Auto-Migrate] Moved messages of ${migratedChats} chat(s) into "message"`);
+      }
+    }
+
+    // Invoice numbers used to come from an identity column; they now come from invoice_counter (db:push)
+    if (await tableExists('invoice')) {
+      await db.execute(sql.raw(`ALTER TABLE "invoice" ALTER COLUMN "number" DROP IDENTITY IF EXISTS`));
+    }
+
+    // Promo code checkouts reserve the code before the payment, when there is no transaction yet (db:push)
+    if (await tableExists('promo_code_redemption')) {
+      await addColumnIfMissing('promo_code_redemption', 'status', "text NOT NULL DEFAULT 'redeemed'");
+      await addColumnIfMissing('promo_code_redemption', 'reservedUntil', 'timestamp');
+      await db.execute(sql.raw(`ALTER TABLE "promo_code_redemption" ALTER COLUMN "transactionId" DROP NOT NULL`));
+    }
+
+    // Attachments used to record the position of their message; link them to the message row instead
+    if (await tableExists('attachment') && await tableExists('message')) {
+      await addColumnIfMissing('attachment', 'messageId', 'text');
+      const linkedAttachments = await AttachmentService.linkToMessages();
+      if (linkedAttachments > 0) {
+        console.log(`[Auto-Migrate] Linked ${linkedAttachments} attachment(s) to their message`);
+      }
+    }
+
+    // Lineage used to live only in reference URLs; link existing items once the table exists (db:push).
+    // The app is already creating links meanwhile, so a marker (set once it finishes) decides whether it ran
+    if (await tableExists('media_lineage') && !(await adminSettingsService.getSetting(LINEAGE_BACKFILL_MARKER))) {
+      const linked = await MediaLineageService.backfill();
+      await adminSettingsService.setSetting(LINEAGE_BACKFILL_MARKER, new Date().toISOString(), 'migrations', 'Existing images and videos were linked into media lineage');
+      console.log(`[Auto-Migrate] Linked ${linked} image/video parent(s) into "media_lineage"`);
+    }
+
+    // The audit log is append-only; the table comes from db:push, the trigger enforcing it from here
+    if (await tableExists('admin_audit_log') && await AdminAuditService.protectTable()) {
+      console.log('[Auto-Migrate] Made "admin_audit_log" append-only');
+    }
   } catch (error) {
     console.error('[Auto-Migrate] Migration check failed:', error);
   }
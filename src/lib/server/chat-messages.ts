@@ -0,0 +1,379 @@
+import { randomUUID } from 'crypto';
+import { db } from './db/index.js';
+import { chatMessages, chats } from './db/schema.js';
+import { and, asc, eq, gt, inArray, isNull, or, sql } from 'drizzle-orm';
+import type { AIMessage } from '../ai/types.js';
+
+type MessageRow = typeof chatMessages.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export const MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+export const MAX_APPEND_MESSAGES = 50;
+
+const MESSAGE_ROLES = ['user', 'assistant', 'system'];
+
+// Legacy JSON chats moved per batch by migrateFromJson
+const MIGRATION_BATCH_SIZE = 100;
+
+export interface MessagePage {
+        messages: AIMessage[];
+        hasMore: boolean;
+        startPosition: number; // Position of the first message in the page
+}
+
+export interface AppendResult {
+        messages: AIMessage[]; // Saved messages with their IDs
+        startPosition: number; // Position of the first saved message
+}
+
+export class ChatMessageService {
+        /**
+         * Check that a client-supplied message can be stored
+         */
+        static isValidMessage(message: unknown): message is AIMessage {
+                if (!message || typeof message !== 'object') return false;
+                const { role, content } = message as AIMessage;
+                return MESSAGE_ROLES.includes(role) && (content === null || content === undefined || typeof content === 'string');
+        }
+
+        /**
+         * Append messages as a chain under parentId and make the last one the chat's current message.
+         * parentId undefined continues the active path; null starts a new root (e.g. a new chat).
+         * The chat row is locked, so concurrent appends from other tabs never overwrite each other.
+         */
+        static async append(chatId: string, messages: AIMessage[], parentId?: string | null): Promise<AppendResult> {
+                if (messages.length === 0) return { messages: [], startPosition: 0 };
+
+                return db.transaction(async (tx) => {
+                        const [chat] = await tx
+                                .select({ currentMessageId: chats.currentMessageId })
+                                .from(chats)
+                                .where(eq(chats.id, chatId))
+                                .for('update');
+
+                        if (!chat) {
+                                throw new Error('Chat not found');
+                        }
+
+                        const parent = parentId === undefined ? chat.currentMessageId : parentId;
+                        const saved = await this.insertChain(tx, chatId, parent, messages);
+                        await this.attachSiblings(tx, chatId, saved.messages);
+
+                        await tx
+                                .update(chats)
+                                .set({ currentMessageId: saved.messages[saved.messages.length - 1].id!, updatedAt: sql`NOW()` })
+                                .where(eq(chats.id, chatId));
+
+                        return saved;
+                });
+        }
+
+        /**
+         * Load a page of the chat's active path, oldest first.
+         * before is a position: pass the position of the oldest loaded message to get the page before it.
+         */
+        static async getPage(chatId: string, options: { before?: number; limit?: number } = {}): Promise<MessagePage> {
+                const limit = Math.min(Math.max(options.limit ?? MESSAGE_PAGE_SIZE, 1), MAX_MESSAGE_PAGE_SIZE);
+
+                const [chat] = await db
+                        .select({ currentMessageId: chats.currentMessageId })
+                        .from(chats)
+                        .where(eq(chats.id, chatId));
+
+                if (!chat?.currentMessageId) {
+                        return { messages: [], hasMore: false, startPosition: 0 };
+                }
+
+                const ids = await this.getPathIds(chat.currentMessageId, options.before, limit + 1);
+                const rows = await this.loadRows(ids.slice(0, limit));
+                const messages = rows.map(row => this.toAIMessage(row));
+                await this.attachSiblings(db, chatId, messages);
+
+                return {
+                        messages,
+                        hasMore: ids.length > limit,
+                        startPosition: rows[0]?.position ?? 0
+                };
+        }
+
+        /**
+         * Load the whole path from the first message down to (and including) messageId
+         */
+        static async getPathTo(messageId: string): Promise<AIMessage[]> {
+                const ids = await this.getPathIds(messageId);
+                const rows = await this.loadRows(ids);
+                return rows.map(row => this.toAIMessage(row));
+        }
+
+        /**
+         * The conversation a model should answer. Clients only hold the newest page of a long chat, so the history
+         * is the saved path down to the newest saved message they sent, followed by the messages not saved yet
+         * (e.g. an edited message). The client's messages are used as-is when none of them is saved in the user's chat.
+         */
+        static async getModelContext(chatId: string, userId: string, messages: AIMessage[]): Promise<AIMessage[]> {
+                let lastSaved = messages.length - 1;
+                while (lastSaved >= 0 && !messages[lastSaved].id) lastSaved--;
+
+                // Nothing saved yet: an unsaved edit of the first loaded message still names its parent
+                const anchorId = lastSaved >= 0 ? messages[lastSaved].id : messages[0]?.parentId;
+                if (!anchorId) return messages;
+
+                const [anchor] = await db
+                        .select({ id: chatMessages.id })
+                        .from(chatMessages)
+                        .innerJoin(chats, eq(chats.id, chatMessages.chatId))
+                        .where(and(eq(chatMessages.id, anchorId), eq(chatMessages.chatId, chatId), eq(chats.userId, userId)));
+
+                if (!anchor) return messages;
+
+                return [...(await this.getPathTo(anchorId)), ...messages.slice(lastSaved + 1)];
+        }
+
+        /**
+         * Get one message, only if it belongs to the chat
+         */
+        static async getMessage(chatId: string, messageId: string): Promise<AIMessage & { position: number } | null> {
+                const [row] = await db
+                        .select()
+                        .from(chatMessages)
+                        .where(and(eq(chatMessages.id, messageId), eq(chatMessages.chatId, chatId)));
+                return row ? { ...this.toAIMessage(row), position: row.position } : null;
+        }
+
+        /**
+         * Make another version of a message part of the active path.
+         * Continues down to the newest reply under it and makes that leaf the chat's current message.
+         * Returns the path from messageId to the leaf, or null if the message isn't in the chat.
+         */
+        static async switchVersion(chatId: string, messageId: string): Promise<AIMessage[] | null> {
+                const tree = await db
+                        .select({ id: chatMessages.id, parentId: chatMessages.parentId })
+                        .from(chatMessages)
+                        .where(eq(chatMessages.chatId, chatId))
+                        .orderBy(asc(chatMessages.createdAt), asc(chatMessages.position));
+
+                if (!tree.some(node => node.id === messageId)) return null;
+
+                // Ordered by creation, so the last child seen is the newest
+                const newestChild = new Map<string, string>();
+                for (const node of tree) {
+                        if (node.parentId) newestChild.set(node.parentId, node.id);
+                }
+
+                const ids = [messageId];
+                let next = newestChild.get(messageId);
+                while (next) {
+                        ids.push(next);
+                        next = newestChild.get(next);
+                }
+
+                await db
+                        .update(chats)
+                        .set({ currentMessageId: ids[ids.length - 1] })
+                        .where(eq(chats.id, chatId));
+
+                const rows = await this.loadRows(ids);
+                const messages = rows.map(row => this.toAIMessage(row));
+                await this.attachSiblings(db, chatId, messages);
+                return messages;
+        }
+
+        /**
+         * Record tool invocations on a saved assistant message (they're finalized after streaming ends)
+         */
+        static async updateToolInvocations(
+                chatId: string,
+                messageId: string,
+                toolInvocations: NonNullable<AIMessage['toolInvocations']>
+        ): Promise<boolean> {
+                const updated = await db
+                        .update(chatMessages)
+                        .set({ toolInvocations })
+                        .where(and(eq(chatMessages.id, messageId), eq(chatMessages.chatId, chatId)))
+                        .returning({ id: chatMessages.id });
+                return updated.length > 0;
+        }
+
+        /**
+         * Move one chat's legacy JSON messages into the message table.
+         * Doesn't touch updatedAt, so the chat keeps its place in the sidebar.
+         */
+        static async migrateChat(chatId: string, legacyMessages: AIMessage[]): Promise<void> {
+                await db.transaction(async (tx) => {
+                        // Re-check under lock in case another request migrated it first
+                        const [chat] = await tx
+                                .select({ currentMessageId: chats.currentMessageId })
+                                .from(chats)
+                                .where(eq(chats.id, chatId))
+                                .for('update');
+
+                        if (!chat || chat.currentMessageId) return;
+
+                        const valid = legacyMessages.filter(message => this.isValidMessage(message));
+                        const saved = valid.length > 0 ? (await this.insertChain(tx, chatId, null, valid)).messages : [];
+
+                        await tx
+                                .update(chats)
+                                .set({ currentMessageId: saved.length > 0 ? saved[saved.length - 1].id! : null, messages: [] })
+                                .where(eq(chats.id, chatId));
+                });
+        }
+
+        /**
+         * Move every chat still storing messages in chat.messages into the message table
+         */
+        static async migrateFromJson(): Promise<number> {
+                let migrated = 0;
+                let lastId = '';
+
+                while (true) {
+                        const batch = await db
+                                .select({ id: chats.id, messages: chats.messages })
+                                .from(chats)
+                                .where(and(
+                                        isNull(chats.currentMessageId),
+                                        gt(chats.id, lastId),
+                                        sql`json_array_length(${chats.messages}) > 0`
+                                ))
+                                .orderBy(asc(chats.id))
+                                .limit(MIGRATION_BATCH_SIZE);
+
+                        if (batch.length === 0) break;
+
+                        for (const chat of batch) {
+                                try {
+                                        await this.migrateChat(chat.id, chat.messages as AIMessage[]);
+                                        migrated++;
+                                } catch (error) {
+                                        console.error(`[Messages] Failed to migrate chat ${chat.id}:`, error);
+                                }
+                        }
+
+                        lastId = batch[batch.length - 1].id;
+                }
+
+                return migrated;
+        }
+
+        private static async insertChain(
+                tx: Transaction,
+                chatId: string,
+                parentId: string | null,
+                messages: AIMessage[]
+        ): Promise<AppendResult> {
+                let position = 0;
+                if (parentId) {
+                        const [parent] = await tx
+                                .select({ position: chatMessages.position })
+                                .from(chatMessages)
+                                .where(and(eq(chatMessages.id, parentId), eq(chatMessages.chatId, chatId)));
+
+                        if (!parent) {
+                                throw new Error('Parent message not found in this chat');
+                        }
+                        position = parent.position + 1;
+                }
+
+                let previousId = parentId;
+                const values = messages.map((message, i) => {
+                        const id = randomUUID();
+                        const value = { ...this.toValues(message), id, chatId, parentId: previousId, position: position + i };
+                        previousId = id;
+                        return value;
+                });
+
+                const rows = await tx.insert(chatMessages).values(values).returning();
+                rows.sort((a, b) => a.position - b.position);
+                return { messages: rows.map(row => this.toAIMessage(row)), startPosition: position };
+        }
+
+        // Set siblingIds (all versions, oldest first) on messages that have other versions
+        private static async attachSiblings(executor: Executor, chatId: string, messages: AIMessage[]): Promise<void> {
+                if (messages.length === 0) return;
+
+                const parentIds = [...new Set(messages.map(message => message.parentId).filter((id): id is string => !!id))];
+                const includesRoot = messages.some(message => !message.parentId);
+                const conditions = [
+                        ...(parentIds.length > 0 ? [inArray(chatMessages.parentId, parentIds)] : []),
+                        ...(includesRoot ? [isNull(chatMessages.parentId)] : [])
+                ];
+
+                const siblings = await executor
+                        .select({ id: chatMessages.id, parentId: chatMessages.parentId })
+                        .from(chatMessages)
+                        .where(and(eq(chatMessages.chatId, chatId), or(...conditions)))
+                        .orderBy(asc(chatMessages.createdAt), asc(chatMessages.id));
+
+                const byParent = new Map<string, string[]>();
+                for (const sibling of siblings) {
+                        const key = sibling.parentId ?? '';
+                        byParent.set(key, [...(byParent.get(key) ?? []), sibling.id]);
+                }
+
+                for (const message of messages) {
+                        const ids = byParent.get(message.parentId ?? '');
+                        if (ids && ids.length > 1) message.siblingIds = ids;
+                }
+        }
+
+        // IDs along the path ending at leafId, newest first
+        private static async getPathIds(leafId: string, before?: number, limit?: number): Promise<string[]> {
+                const result = await db.execute(sql`
+                        WITH RECURSIVE path AS (
+                                SELECT id, "parentId", position FROM message WHERE id = ${leafId}
+                                UNION ALL
+                                SELECT m.id, m."parentId", m.position FROM message m JOIN path p ON m.id = p."parentId"
+                        )
+                        SELECT id FROM path
+                        ${before !== undefined ? sql`WHERE position < ${before}` : sql``}
+                        ORDER BY position DESC
+                        ${limit !== undefined ? sql`LIMIT ${limit}` : sql``}
+                `);
+                const rows = ((result as any).rows ?? result) as Array<{ id: string }>;
+                return rows.map(row => row.id);
+        }
+
+        private static async loadRows(ids: string[]): Promise<MessageRow[]> {
+                if (ids.length === 0) return [];
+                return db
+                        .select()
+                        .from(chatMessages)
+                        .where(inArray(chatMessages.id, ids))
+                        .orderBy(asc(chatMessages.position));
+        }
+
+        private static toValues(message: AIMessage) {
+                const { imageId, imageIds, images, imageUrl, imageData, videoId, mimeType, attachmentIds } = message;
+                const attachments = Object.fromEntries(
+                        Object.entries({ imageId, imageIds, images, imageUrl, imageData, videoId, mimeType, attachmentIds })
+                                .filter(([, value]) => value !== undefined && value !== null)
+                );
+
+                return {
+                        role: message.role,
+                        content: message.content ?? '',
+                        model: message.model ?? null,
+                        type: message.type ?? null,
+                        toolInvocations: message.toolInvocations?.length ? message.toolInvocations : null,
+                        attachments: Object.keys(attachments).length > 0 ? attachments : null,
+                        usage: message.usage ?? null
+                };
+        }
+
+        private static toAIMessage(row: MessageRow): AIMessage {
+                const message: AIMessage = {
+                        id: row.id,
+                        parentId: row.parentId,
+                        role: row.role as AIMessage['role'],
+                        content: row.content,
+                        ...(row.attachments ?? {})
+                };
+                if (row.model) message.model = row.model;
+                if (row.type) message.type = row.type as AIMessage['type'];
+                if (row.toolInvocations) message.toolInvocations = row.toolInvocations;
+                if (row.usage) message.usage = row.usage;
+                return message;
+        }
+}
@@ -2,7 +2,18 @@ import { db } from './db/index.js';
 import { userCredits, creditPlans } from './db/schema.js';
 import { eq, and, gt, sql, isNull, or } from 'drizzle-orm';
 
-export type CreditType = 'text' | 'image' | 'video' | 'audio';
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export type CreditType = 'text' | 'image' | 'video' | 'audio' | 'voice' | 'music' | 'soundEffect' | 'transcription';
+
+/**
+ * Credits taken from one purchase, kept so a failed generation can refund them
+ */
+export interface CreditDeduction {
+        id: string;
+        amount: number;
+}
 
 export class CreditService {
         static async getUserCredits(userId: string): Promise<Record<CreditType, number>> {
@@ -30,6 +41,10 @@ export class CreditService {
                         image: 0,
                         video: 0,
                         audio: 0,
+                        voice: 0,
+                        music: 0,
+                        soundEffect: 0,
+                        transcription: 0,
                 };
 
                 for (const row of credits) {
@@ -61,50 +76,85 @@ export class CreditService {
                 return Number(result?.total ?? 0);
         }
 
-        static async useCredit(userId: string, creditType: CreditType): Promise<boolean> {
+        /**
+         * Deduct credits oldest-first, spreading across purchases when one doesn't cover the amount.
+         * The rows stay locked until the deduction commits, so concurrent requests can't spend the same credit.
+         * Deducts nothing and returns null if the user doesn't have enough.
+         */
+        static async useCredit(
+                userId: string,
+                creditType: CreditType,
+                amount = 1,
+                executor: Executor = db
+        ): Promise<CreditDeduction[] | null> {
                 const now = new Date();
-                const availableCredits = await db
-                        .select({
-                                id: userCredits.id,
-                                creditAmount: userCredits.creditAmount,
-                        })
-                        .from(userCredits)
-                        .where(
-                                and(
-                                        eq(userCredits.userId, userId),
-                                        eq(userCredits.creditType, creditType),
-                                        gt(userCredits.creditAmount, 0),
-                                        or(
-                                                isNull(userCredits.expiresAt),
-                                                gt(userCredits.expiresAt, now)
+                return await executor.transaction(async (tx) => {
+                        const availableCredits = await tx
+                                .select({
+                                        id: userCredits.id,
+                                        creditAmount: userCredits.creditAmount,
+                                })
+                                .from(userCredits)
+                                .where(
+                                        and(
+                                                eq(userCredits.userId, userId),
+                                                eq(userCredits.creditType, creditType),
+                                                gt(userCredits.creditAmount, 0),
+                                                or(
+                                                        isNull(userCredits.expiresAt),
+                                                        gt(userCredits.expiresAt, now)
+                                                )
                                         )
                                 )
-                        )
-                        .orderBy(userCredits.purchasedAt)
-                        .limit(1);
+                                .orderBy(userCredits.purchasedAt)
+                                .for('update');
+
+                        const total = availableCredits.reduce((sum, credit) => sum + credit.creditAmount, 0);
+                        if (total < amount) {
+                                return null;
+                        }
+
+                        const deductions: CreditDeduction[] = [];
+                        let remaining = amount;
+                        for (const credit of availableCredits) {
+                                if (remaining === 0) break;
+                                const deducted = Math.min(remaining, credit.creditAmount);
+                                await tx
+                                        .update(userCredits)
+                                        .set({
+                                                creditAmount: credit.creditAmount - deducted,
+                                        })
+                                        .where(eq(userCredits.id, credit.id));
+                                deductions.push({ id: credit.id, amount: deducted });
+                                remaining -= deducted;
+                        }
+
+                        return deductions;
+                });
+        }
 
-                if (availableCredits.length === 0) {
-                        return false;
+        /**
+         * Give back credits taken by useCredit()
+         */
+        static async refundCredits(deductions: CreditDeduction[]): Promise<void> {
+                for (const deduction of deductions) {
+                        await db
+                                .update(userCredits)
+                                .set({
+                                        creditAmount: sql`${userCredits.creditAmount} + ${deduction.amount}`,
+                                })
+                                .where(eq(userCredits.id, deduction.id));
                 }
-
-                const credit = availableCredits[0];
-                await db
-                        .update(userCredits)
-                        .set({
-                                creditAmount: credit.creditAmount - 1,
-                        })
-                        .where(eq(userCredits.id, credit.id));
-
-                return true;
         }
 
         static async purchaseCredits(
                 userId: string,
                 creditPlanId: string,
                 paymentProvider: 'stripe' | 'opaybd',
-                transactionId: string
+                transactionId: string,
+                executor: Executor = db
         ): Promise<void> {
-                const [existing] = await db
+                const [existing] = await executor
                         .select({ id: userCredits.id })
                         .from(userCredits)
                         .where(eq(userCredits.transactionId, transactionId))
@@ -115,7 +165,7 @@ export class CreditService {
                         return;
                 }
 
-                const [plan] = await db
+                const [plan] = await executor
                         .select()
                         .from(creditPlans)
                         .where(eq(creditPlans.id, creditPlanId))
@@ -125,7 +175,7 @@ export class CreditService {
                         throw new Error('Credit plan not found');
                 }
 
-                await db.insert(userCredits).values({
+                await executor.insert(userCredits).values({
                         userId,
                         creditType: plan.creditType,
                         creditAmount: plan.creditAmount,
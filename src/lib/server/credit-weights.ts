@@ -0,0 +1,50 @@
+import { db } from './db/index.js';
+import { modelCreditWeights } from './db/schema.js';
+import { getCreditCost, type CreditCostOptions, type CreditWeight } from '../constants/credit-weights.js';
+
+const CACHE_TTL = 60 * 1000; // 1 minute - admin edits also clear the cache directly
+
+let cachedWeights: CreditWeight[] | null = null;
+let cachedAt = 0;
+
+export class CreditWeightService {
+        /**
+         * All model credit weights (models without one cost DEFAULT_CREDIT_WEIGHT)
+         */
+        static async getWeights(): Promise<CreditWeight[]> {
+                if (cachedWeights && Date.now() - cachedAt < CACHE_TTL) {
+                        return cachedWeights;
+                }
+
+                try {
+                        cachedWeights = await db
+                                .select({
+                                        model: modelCreditWeights.model,
+                                        quality: modelCreditWeights.quality,
+                                        weight: modelCreditWeights.weight,
+                                        perSecond: modelCreditWeights.perSecond
+                                })
+                                .from(modelCreditWeights);
+                        cachedAt = Date.now();
+                        return cachedWeights;
+                } catch (error) {
+                        console.error('Error loading model credit weights (table may not exist yet):', error);
+                        return [];
+                }
+        }
+
+        /**
+         * Credits a generation uses from the plan limit (or extra credits)
+         */
+        static async getCreditCost(model: string, options: CreditCostOptions = {}): Promise<number> {
+                return getCreditCost(await this.getWeights(), model, options);
+        }
+
+        /**
+         * Clear the weight cache after admin changes
+         */
+        static clearCache(): void {
+                cachedWeights = null;
+                cachedAt = 0;
+        }
+}
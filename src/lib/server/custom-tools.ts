@@ -0,0 +1,237 @@
+import { db } from './db/index.js';
+import { customTools, pricingPlans, users } from './db/schema.js';
+import { eq } from 'drizzle-orm';
+import { StripeService } from './stripe.js';
+import { decryptSecret, encryptSecret } from './admin-settings.js';
+import { getBuiltInToolList, isValidToolName, type AvailableTool } from '../ai/tools/index.js';
+import { CUSTOM_TOOL_LIMITS, CUSTOM_TOOL_NAME_PATTERN, type CustomToolDefinition } from '../ai/tools/custom-http.js';
+import { isPublicUrl } from '../ai/research/extract.js';
+import { McpToolsService } from './mcp-tools.js';
+
+type CustomToolRow = typeof customTools.$inferSelect;
+
+/**
+ * Raw form fields, echoed back to the admin form on validation errors
+ */
+export interface CustomToolFormFields {
+        name: string;
+        displayName: string;
+        description: string;
+        parameters: string;
+        endpointUrl: string;
+        httpMethod: string;
+        authHeaderName: string;
+        timeoutMs: string;
+        maxResponseBytes: string;
+}
+
+/**
+ * Validated values ready to insert into / update custom_tool.
+ * authHeaderValue is undefined when the form left it blank (keep the stored secret).
+ */
+export type CustomToolValues = Omit<typeof customTools.$inferInsert, 'id' | 'createdAt' | 'updatedAt' | 'isActive'>;
+
+export type ParsedCustomToolForm =
+        | { values: CustomToolValues; fields: CustomToolFormFields }
+        | { error: string; fields: CustomToolFormFields };
+
+const CACHE_TTL = 60 * 1000; // 1 minute - admin edits also clear the cache directly
+
+let cachedTools: CustomToolDefinition[] | null = null;
+let cachedAt = 0;
+
+export class CustomToolsService {
+        /**
+         * Get active custom tool definitions (auth header decrypted) for the tool registry
+         */
+        static async getActiveTools(): Promise<CustomToolDefinition[]> {
+                if (cachedTools && Date.now() - cachedAt < CACHE_TTL) {
+                        return cachedTools;
+                }
+
+                try {
+                        const rows = await db
+                                .select()
+                                .from(customTools)
+                                .where(eq(customTools.isActive, true));
+
+                        cachedTools = rows.map(row => this.toDefinition(row));
+                        cachedAt = Date.now();
+                        return cachedTools;
+                } catch (error) {
+                        console.error('Error loading custom tools (table may not exist yet):', error);
+                        return [];
+                }
+        }
+
+        /**
+         * Clear the tool cache after admin changes
+         */
+        static clearCache(): void {
+                cachedTools = null;
+                cachedAt = 0;
+        }
+
+        /**
+         * Get the tool allow-list from the user's pricing plan.
+         * Returns null when the plan doesn't restrict tools. Guests use the free plan.
+         */
+        static async getAllowedToolNames(userId?: string): Promise<string[] | null> {
+                try {
+                        let plan: typeof pricingPlans.$inferSelect | undefined;
+
+                        if (userId) {
+                                const [user] = await db.select({ planTier: users.planTier }).from(users).where(eq(users.id, userId)).limit(1);
+                                if (user && user.planTier !== 'free') {
+                                        const subscriptionData = await StripeService.getActiveSubscription(userId);
+                                        plan = subscriptionData?.plan;
+                                }
+                        }
+
+                        if (!plan) {
+                                [plan] = await db
+                                        .select()
+                                        .from(pricingPlans)
+                                        .where(eq(pricingPlans.tier, 'free'))
+                                        .limit(1);
+                        }
+
+                        return plan?.allowedTools ?? null;
+                } catch (error) {
+                        console.error('Error getting allowed tools:', error);
+                        return null;
+                }
+        }
+
+        /**
+         * Filter requested tool names down to the ones the user's plan allows
+         */
+        static async filterAllowedTools(toolNames: string[], userId?: string): Promise<string[]> {
+                const allowed = await this.getAllowedToolNames(userId);
+                if (!allowed) return toolNames;
+                return toolNames.filter(name => allowed.includes(name));
+        }
+
+        /**
+         * Get the tools a user can pick in chat (built-in, custom and MCP, after plan filtering)
+         */
+        static async getAvailableTools(userId?: string): Promise<AvailableTool[]> {
+                const [definitions, mcpTools, allowed] = await Promise.all([
+                        this.getActiveTools(),
+                        McpToolsService.getAvailableTools(),
+                        this.getAllowedToolNames(userId)
+                ]);
+
+                const builtIn = getBuiltInToolList();
+                const builtInNames = new Set(builtIn.map(tool => tool.name));
+                const custom: AvailableTool[] = definitions
+                        .filter(definition => !builtInNames.has(definition.name))
+                        .map(definition => ({
+                                name: definition.name,
+                                displayName: definition.displayName,
+                                description: definition.description,
+                                custom: true
+                        }));
+
+                const tools = [...builtIn, ...custom, ...mcpTools.filter(tool => !builtInNames.has(tool.name))];
+                return allowed ? tools.filter(tool => allowed.includes(tool.name)) : tools;
+        }
+
+        /**
+         * Parse and validate the admin tool form.
+         * An empty auth header value leaves the stored secret unchanged; clearAuthHeader removes it.
+         */
+        static async parseToolForm(data: FormData): Promise<ParsedCustomToolForm> {
+                const fields: CustomToolFormFields = {
+                        name: data.get('name')?.toString().trim() || '',
+                        displayName: data.get('displayName')?.toString().trim() || '',
+                        description: data.get('description')?.toString().trim() || '',
+                        parameters: data.get('parameters')?.toString().trim() || '',
+                        endpointUrl: data.get('endpointUrl')?.toString().trim() || '',
+                        httpMethod: data.get('httpMethod')?.toString() || 'POST',
+                        authHeaderName: data.get('authHeaderName')?.toString().trim() || '',
+                        timeoutMs: data.get('timeoutMs')?.toString() || '10000',
+                        maxResponseBytes: data.get('maxResponseBytes')?.toString() || '100000'
+                };
+                const authHeaderValue = data.get('authHeaderValue')?.toString() || '';
+                const clearAuthHeader = data.get('clearAuthHeader') === 'on';
+
+                if (!fields.name || !fields.displayName || !fields.description || !fields.endpointUrl) {
+                        return { error: 'Required fields are missing', fields };
+                }
+
+                if (!CUSTOM_TOOL_NAME_PATTERN.test(fields.name)) {
+                        return { error: 'Tool name must start with a letter and use only lowercase letters, numbers and underscores (2-64 characters)', fields };
+                }
+
+                if (isValidToolName(fields.name)) {
+                        return { error: `"${fields.name}" is a built-in tool name`, fields };
+                }
+
+                let parameters: Record<string, unknown>;
+                try {
+                        parameters = fields.parameters ? JSON.parse(fields.parameters) : { type: 'object', properties: {} };
+                } catch {
+                        return { error: 'Parameters must be valid JSON', fields };
+                }
+
+                if (!parameters || typeof parameters !== 'object' || Array.isArray(parameters) || parameters.type !== 'object') {
+                        return { error: 'Parameters must be a JSON Schema object with "type": "object"', fields };
+                }
+
+                if (!(await isPublicUrl(fields.endpointUrl))) {
+                        return { error: 'Endpoint must be a public http(s) URL', fields };
+                }
+
+                if (fields.httpMethod !== 'GET' && fields.httpMethod !== 'POST') {
+                        return { error: 'Invalid HTTP method selected', fields };
+                }
+
+                const timeoutMs = parseInt(fields.timeoutMs);
+                if (isNaN(timeoutMs) || timeoutMs < CUSTOM_TOOL_LIMITS.minTimeoutMs || timeoutMs > CUSTOM_TOOL_LIMITS.maxTimeoutMs) {
+                        return { error: `Timeout must be between ${CUSTOM_TOOL_LIMITS.minTimeoutMs} and ${CUSTOM_TOOL_LIMITS.maxTimeoutMs} ms`, fields };
+                }
+
+                const maxResponseBytes = parseInt(fields.maxResponseBytes);
+                if (isNaN(maxResponseBytes) || maxResponseBytes <= 0 || maxResponseBytes > CUSTOM_TOOL_LIMITS.maxResponseBytes) {
+                        return { error: `Max response size must be between 1 and ${CUSTOM_TOOL_LIMITS.maxResponseBytes} bytes`, fields };
+                }
+
+                if (authHeaderValue && !fields.authHeaderName) {
+                        return { error: 'Auth header name is required when an auth header value is set', fields };
+                }
+
+                return {
+                        fields,
+                        values: {
+                                name: fields.name,
+                                displayName: fields.displayName,
+                                description: fields.description,
+                                parameters,
+                                endpointUrl: fields.endpointUrl,
+                                httpMethod: fields.httpMethod,
+                                authHeaderName: fields.authHeaderName || null,
+                                authHeaderValue: clearAuthHeader
+                                        ? null
+                                        : authHeaderValue ? encryptSecret(authHeaderValue) : undefined,
+                                timeoutMs,
+                                maxResponseBytes
+                        }
+                };
+        }
+
+        private static toDefinition(row: CustomToolRow): CustomToolDefinition {
+                return {
+                        name: row.name,
+                        displayName: row.displayName,
+                        description: row.description,
+                        parameters: row.parameters,
+                        endpointUrl: row.endpointUrl,
+                        httpMethod: row.httpMethod,
+                        authHeaderName: row.authHeaderName,
+                        authHeaderValue: row.authHeaderValue ? decryptSecret(row.authHeaderValue) : null,
+                        timeoutMs: row.timeoutMs,
+                        maxResponseBytes: row.maxResponseBytes
+                };
+        }
+}
@@ -8,8 +8,12 @@ import {
         integer,
         json,
         index,
+        uniqueIndex,
         real,
+        doublePrecision,
+        type AnyPgColumn,
 } from "drizzle-orm/pg-core"
+import { sql } from "drizzle-orm"
 import type { AdapterAccountType } from "@auth/core/adapters"
 import { randomUUID } from 'crypto';
 
@@ -163,10 +167,14 @@ export const images = pgTable("image", {
         seed: integer("seed"), // Random seed for reproducibility
         quality: text("quality"), // Quality setting (model-specific)
         style: text("style"), // Style setting (model-specific)
+        negativePrompt: text("negativePrompt"), // What the model was asked to leave out
         numberOfImages: integer("numberOfImages"), // Number of images generated
         referenceImageUrl: text("referenceImageUrl"), // i2i reference image URL
         upscaleFactor: text("upscaleFactor"), // Upscale factor (e.g., "x2", "x4") - Google Upscaler
         compressionQuality: integer("compressionQuality"), // Compression quality (1-100) - Google Upscaler
+        sourceImageId: text("sourceImageId"), // Image this one was edited from (inpaint/outpaint)
+        maskImageId: text("maskImageId"), // Uploaded mask used for the edit
+        outpaint: text("outpaint"), // Outpaint option (e.g., "Zoom out 2x") - FLUX Fill Pro
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
 }, (table) => [
         // Composite index for library queries (order by createdAt DESC for user)
@@ -174,6 +182,10 @@ export const images = pgTable("image", {
         index('images_user_created_idx').on(table.userId, table.createdAt),
         // Index for filtering by storage location (R2 vs local)
         index('images_storage_location_idx').on(table.storageLocation),
+        // Full-text search on prompts (expression must match SearchService)
+        index('images_prompt_search_idx').using('gin', sql`to_tsvector('simple', coalesce(${table.prompt}, ''))`),
+        // Edit history lookups (edits of an image)
+        index('images_source_image_idx').on(table.sourceImageId),
 ])
 
 export const videos = pgTable("video", {
@@ -200,6 +212,7 @@ export const videos = pgTable("video", {
         seed: integer("seed"), // Random seed for reproducibility
         quality: text("quality"), // Quality setting (model-specific)
         style: text("style"), // Style setting (model-specific)
+        negativePrompt: text("negativePrompt"), // What the model was asked to leave out
         imageStartUrl: text("imageStartUrl"), // i2v start frame URL
         imageEndUrl: text("imageEndUrl"), // i2v end frame URL
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
@@ -209,6 +222,33 @@ export const videos = pgTable("video", {
         index('videos_user_created_idx').on(table.userId, table.createdAt),
         // Index for filtering by storage location (R2 vs local)
         index('videos_storage_location_idx').on(table.storageLocation),
+        // Full-text search on prompts (expression must match SearchService)
+        index('videos_prompt_search_idx').using('gin', sql`to_tsvector('simple', coalesce(${table.prompt}, ''))`),
+])
+
+// Which library image each image or video was made from (see src/lib/server/media-lineage.ts).
+// Exactly one of childImageId/childVideoId is set
+export const mediaLineage = pgTable("media_lineage", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        userId: text("userId")
+                .notNull()
+                .references(() => users.id, { onDelete: "cascade" }),
+        parentImageId: text("parentImageId")
+                .notNull()
+                .references(() => images.id, { onDelete: "cascade" }),
+        childImageId: text("childImageId").references(() => images.id, { onDelete: "cascade" }),
+        childVideoId: text("childVideoId").references(() => videos.id, { onDelete: "cascade" }),
+        relation: text("relation", {
+                enum: ["reference", "edit", "upscale", "start_frame", "end_frame"]
+        }).notNull(),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        unique('media_lineage_image_unique').on(table.parentImageId, table.childImageId, table.relation),
+        unique('media_lineage_video_unique').on(table.parentImageId, table.childVideoId, table.relation),
+        index('media_lineage_child_image_idx').on(table.childImageId),
+        index('media_lineage_child_video_idx').on(table.childVideoId),
 ])
 
 export const audio = pgTable("audio", {
@@ -263,6 +303,8 @@ export const transcriptions = pgTable("transcriptions", {
         index('transcriptions_user_created_idx').on(table.userId, table.createdAt),
         // Index for filtering by storage location (R2 vs local)
         index('transcriptions_storage_location_idx').on(table.storageLocation),
+        // Full-text search on transcribed text (expression must match SearchService)
+        index('transcriptions_text_search_idx').using('gin', sql`to_tsvector('simple', ${table.text})`),
 ])
 
 export const voiceChanges = pgTable("voice_changes", {
@@ -320,6 +362,8 @@ export const music = pgTable("music", {
         index('music_user_created_idx').on(table.userId, table.createdAt),
         // Index for filtering by storage location (R2 vs local)
         index('music_storage_location_idx').on(table.storageLocation),
+        // Full-text search on prompts (expression must match SearchService)
+        index('music_prompt_search_idx').using('gin', sql`to_tsvector('simple', ${table.prompt})`),
 ])
 
 export const soundEffects = pgTable("sound_effects", {
@@ -345,6 +389,63 @@ export const soundEffects = pgTable("sound_effects", {
         index('sound_effects_user_created_idx').on(table.userId, table.createdAt),
         // Index for filtering by storage location (R2 vs local)
         index('sound_effects_storage_location_idx').on(table.storageLocation),
+        // Full-text search on descriptions (expression must match SearchService)
+        index('sound_effects_text_search_idx').using('gin', sql`to_tsvector('simple', ${table.text})`),
+])
+
+// Image and video generations that run in the background (see src/lib/server/generation-jobs.ts),
+// so a reload or proxy timeout doesn't lose a generation that's still running
+export const generationBatches = pgTable("generation_batch", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        userId: text("userId")
+                .notNull()
+                .references(() => users.id, { onDelete: "cascade" }),
+        name: text("name").notNull(),
+        status: text("status", {
+                enum: ["running", "completed", "canceled"]
+        }).notNull().default("running"),
+        total: integer("total").notNull(), // Number of prompts (one generation_job each)
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+        completedAt: timestamp("completedAt", { mode: "date" }),
+        updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('generation_batch_user_created_idx').on(table.userId, table.createdAt),
+        index('generation_batch_status_idx').on(table.status),
+])
+
+export const generationJobs = pgTable("generation_job", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        userId: text("userId")
+                .notNull()
+                .references(() => users.id, { onDelete: "cascade" }),
+        type: text("type", {
+                enum: ["image", "video"]
+        }).notNull(),
+        model: text("model").notNull(),
+        params: json("params").$type<Record<string, unknown>>().notNull(), // ImageGenerationParams or VideoGenerationParams
+        // pending: batch job waiting for a slot (see generation_batch)
+        status: text("status", {
+                enum: ["pending", "queued", "running", "saving", "succeeded", "failed", "canceled"]
+        }).notNull().default("queued"),
+        predictionId: text("predictionId").unique(), // Provider's prediction ID, set once submitted
+        progress: integer("progress").notNull().default(0), // 0-100
+        error: text("error"),
+        resultIds: json("resultIds").$type<string[]>(), // Image or video IDs, once saved
+        usageReservation: json("usageReservation").$type<Record<string, unknown>>(), // Committed on success, released otherwise
+        batchId: text("batchId").references(() => generationBatches.id, { onDelete: "cascade" }),
+        batchIndex: integer("batchIndex"), // Position of the prompt in its batch
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+        startedAt: timestamp("startedAt", { mode: "date" }),
+        completedAt: timestamp("completedAt", { mode: "date" }),
+        updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('generation_job_user_status_idx').on(table.userId, table.status),
+        index('generation_job_status_idx').on(table.status),
+        index('generation_job_batch_idx').on(table.batchId, table.batchIndex),
 ])
 
 export const projects = pgTable("project", {
@@ -373,12 +474,44 @@ export const projectFiles = pgTable("project_file", {
         filename: text("filename").notNull(),
         mimeType: text("mimeType").notNull(),
         fileSize: integer("fileSize").notNull(), // bytes
-        content: text("content").notNull(), // text content stored directly in DB
+        content: text("content").notNull(), // text content stored directly in DB (extracted text for documents)
+        // Uploaded documents (PDF, DOCX, XLSX, PPTX): original file and page/sheet details
+        storageLocation: text("storageLocation"), // 'local' | 'r2', null for text files
+        storagePath: text("storagePath"),
+        metadata: json("metadata").$type<{
+                format: 'pdf' | 'docx' | 'xlsx' | 'pptx';
+                pageCount?: number;
+                sheets?: Array<{ name: string; rows: number; columns: number }>;
+                slideCount?: number;
+        }>(),
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
 }, (table) => [
         index('project_files_project_idx').on(table.projectId),
 ])
 
+// Retrieval index for project files (rebuilt from projectFiles.content, safe to delete)
+export const projectFileChunks = pgTable("project_file_chunk", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        fileId: text("fileId")
+                .notNull()
+                .references(() => projectFiles.id, { onDelete: "cascade" }),
+        projectId: text("projectId")
+                .notNull()
+                .references(() => projects.id, { onDelete: "cascade" }),
+        chunkIndex: integer("chunkIndex").notNull(),
+        startLine: integer("startLine").notNull(), // 1-based, inclusive
+        endLine: integer("endLine").notNull(),
+        content: text("content").notNull(),
+        embedding: json("embedding").$type<number[]>(), // null when no embeddings model is configured
+        embeddingModel: text("embeddingModel"), // Model that produced `embedding`
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('project_file_chunks_project_idx').on(table.projectId),
+        index('project_file_chunks_file_idx').on(table.fileId),
+])
+
 export const chats = pgTable("chat", {
         id: text("id")
                 .primaryKey()
@@ -388,6 +521,7 @@ export const chats = pgTable("chat", {
                 .references(() => users.id, { onDelete: "cascade" }),
         title: text("title").notNull(),
         model: text("model").notNull(),
+        // Deprecated: messages now live in the message table (moved by auto-migrate on startup)
         messages: json("messages").$type<Array<{
                 role: 'user' | 'assistant' | 'system';
                 content: string;
@@ -396,6 +530,7 @@ export const chats = pgTable("chat", {
                 imageUrl?: string; // Deprecated, for backwards compatibility
                 imageData?: string; // Deprecated, for backwards compatibility
                 videoId?: string; // Reference to videos table
+                attachmentIds?: string[]; // References to attachment table
                 mimeType?: string;
                 type?: 'text' | 'image' | 'video';
         }>>().notNull().default([]),
@@ -405,10 +540,82 @@ export const chats = pgTable("chat", {
         branchSourceChatId: text("branchSourceChatId"),
         projectId: text("projectId")
                 .references(() => projects.id, { onDelete: "set null" }), // Chats preserved if project deleted
+        currentMessageId: text("currentMessageId"), // Last message of the active path (message table)
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
         updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
 }, (table) => [
         index('chats_project_idx').on(table.projectId),
+        // Full-text search on titles (expression must match SearchService)
+        index('chats_title_search_idx').using('gin', sql`to_tsvector('simple', ${table.title})`),
+])
+
+// Chat messages, one row each. Messages form a tree through parentId; the chat's
+// currentMessageId is the leaf of the path shown to the user. Rows are only appended.
+export const chatMessages = pgTable("message", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        chatId: text("chatId")
+                .notNull()
+                .references(() => chats.id, { onDelete: "cascade" }),
+        parentId: text("parentId")
+                .references((): AnyPgColumn => chatMessages.id, { onDelete: "cascade" }),
+        position: integer("position").notNull(), // Depth in the tree: 0 for the first message
+        role: text("role").notNull(), // 'user' | 'assistant' | 'system'
+        content: text("content").notNull().default(""),
+        model: text("model"),
+        type: text("type"), // 'text' | 'image' | 'video'
+        toolInvocations: json("toolInvocations").$type<Array<{
+                toolCallId: string;
+                toolName: string;
+                args: Record<string, unknown>;
+                state: 'input-streaming' | 'input-available' | 'output-available' | 'output-error';
+                result?: unknown;
+                error?: string;
+        }>>(),
+        // Media and file references (image, video and attachment table IDs)
+        attachments: json("attachments").$type<{
+                imageId?: string;
+                imageIds?: string[];
+                images?: Array<{ imageId?: string; imageData?: string; mimeType: string }>;
+                imageUrl?: string;
+                imageData?: string;
+                videoId?: string;
+                mimeType?: string;
+                attachmentIds?: string[];
+        }>(),
+        usage: json("usage").$type<{
+                promptTokens: number;
+                completionTokens: number;
+                totalTokens: number;
+        }>(),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('messages_chat_position_idx').on(table.chatId, table.position),
+        index('messages_parent_idx').on(table.parentId),
+        // Full-text search on message bodies (expression must match SearchService)
+        index('messages_content_search_idx').using('gin', sql`to_tsvector('simple', ${table.content})`),
+])
+
+// Files attached to chat messages (text files; images live in the image table)
+export const attachments = pgTable("attachment", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        userId: text("userId")
+                .notNull()
+                .references(() => users.id, { onDelete: "cascade" }),
+        chatId: text("chatId"), // Set once the message is saved to a chat
+        messageId: text("messageId"), // Message (message table) that references the file
+        filename: text("filename").notNull(), // Original filename shown to the user
+        mimeType: text("mimeType").notNull(),
+        fileSize: integer("fileSize").notNull(), // bytes
+        storageLocation: text("storageLocation").notNull().default("local"), // 'local' | 'r2'
+        storagePath: text("storagePath").notNull(),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('attachments_user_created_idx').on(table.userId, table.createdAt),
+        index('attachments_chat_idx').on(table.chatId),
 ])
 
 export const pricingPlans = pgTable("pricing_plan", {
@@ -429,9 +636,17 @@ export const pricingPlans = pgTable("pricing_plan", {
         textGenerationLimit: integer("textGenerationLimit"), // null = unlimited
         imageGenerationLimit: integer("imageGenerationLimit"), // null = unlimited
         videoGenerationLimit: integer("videoGenerationLimit"), // null = unlimited
-        audioGenerationLimit: integer("audioGenerationLimit"), // null = unlimited
-        voiceGenerationLimit: integer("voiceGenerationLimit"), // null = unlimited
+        audioGenerationLimit: integer("audioGenerationLimit"), // Text-to-speech, null = unlimited
+        voiceGenerationLimit: integer("voiceGenerationLimit"), // Voice changes, null = unlimited
+        musicGenerationLimit: integer("musicGenerationLimit"), // null = unlimited
+        soundEffectGenerationLimit: integer("soundEffectGenerationLimit"), // null = unlimited
+        transcriptionGenerationLimit: integer("transcriptionGenerationLimit"), // Speech-to-text, null = unlimited
+        // Budgets across all generation types, per usage period (monthly; 12 hours on free)
+        monthlyTokenLimit: integer("monthlyTokenLimit"), // Text tokens (prompt + completion), null = unlimited
+        monthlyCostLimit: integer("monthlyCostLimit"), // Provider cost in cents, null = unlimited
         features: json("features").$type<string[]>().notNull().default([]),
+        allowedTools: json("allowedTools").$type<string[]>(), // null = all tools allowed
+        trialDays: integer("trialDays").notNull().default(0), // Free trial for first-time subscribers, 0 = no trial
         isActive: boolean("isActive").notNull().default(true),
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
         updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
@@ -472,6 +687,25 @@ export const subscriptions = pgTable("subscription", {
         updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
 })
 
+// One free trial per user and email address; kept after the user is deleted so the email can't trial again
+export const subscriptionTrials = pgTable("subscription_trial", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        userId: text("userId")
+                .references(() => users.id, { onDelete: "set null" }),
+        email: text("email").notNull().unique(), // Lowercased
+        planId: text("planId").notNull(),
+        paymentProvider: text("paymentProvider", {
+                enum: ["stripe", "opaybd"]
+        }).notNull(),
+        subscriptionId: text("subscriptionId"), // Stripe subscription ID or opay_trial_* for Opaybd
+        startedAt: timestamp("startedAt", { mode: "date" }).notNull().defaultNow(),
+        endsAt: timestamp("endsAt", { mode: "date" }).notNull(),
+}, (table) => [
+        index('subscription_trial_user_idx').on(table.userId),
+])
+
 export const usageTracking = pgTable("usage_tracking", {
         id: text("id")
                 .primaryKey()
@@ -484,7 +718,13 @@ export const usageTracking = pgTable("usage_tracking", {
         textGenerationCount: integer("textGenerationCount").notNull().default(0),
         imageGenerationCount: integer("imageGenerationCount").notNull().default(0),
         videoGenerationCount: integer("videoGenerationCount").notNull().default(0),
-        audioGenerationCount: integer("audioGenerationCount").notNull().default(0),
+        audioGenerationCount: integer("audioGenerationCount").notNull().default(0), // Text-to-speech
+        voiceGenerationCount: integer("voiceGenerationCount").notNull().default(0), // Voice changes
+        musicGenerationCount: integer("musicGenerationCount").notNull().default(0),
+        soundEffectGenerationCount: integer("soundEffectGenerationCount").notNull().default(0),
+        transcriptionGenerationCount: integer("transcriptionGenerationCount").notNull().default(0),
+        tokenCount: integer("tokenCount").notNull().default(0), // Text tokens this period
+        costUsd: doublePrecision("costUsd").notNull().default(0), // Provider cost this period
         lastResetAt: timestamp("lastResetAt", { mode: "date" }).notNull().defaultNow(),
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
         updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
@@ -492,6 +732,31 @@ export const usageTracking = pgTable("usage_tracking", {
         unique('user_month_year_unique').on(table.userId, table.month, table.year),
 ])
 
+// One row per generation: what was used and what it cost (usage_tracking keeps the period totals)
+export const usageEvents = pgTable("usage_event", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        userId: text("userId")
+                .notNull()
+                .references(() => users.id, { onDelete: "cascade" }),
+        usageType: text("usageType", {
+                enum: ["text", "image", "video", "audio", "voice", "music", "soundEffect", "transcription"]
+        }).notNull(),
+        model: text("model"),
+        chatId: text("chatId"),
+        promptTokens: integer("promptTokens").notNull().default(0),
+        completionTokens: integer("completionTokens").notNull().default(0),
+        totalTokens: integer("totalTokens").notNull().default(0),
+        imageCount: integer("imageCount").notNull().default(0),
+        mediaSeconds: real("mediaSeconds").notNull().default(0), // Generated or processed audio/video
+        characterCount: integer("characterCount").notNull().default(0), // Text-to-speech input
+        costUsd: doublePrecision("costUsd").notNull().default(0), // Computed provider cost
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('usage_events_user_created_idx').on(table.userId, table.createdAt),
+])
+
 export const paymentHistory = pgTable("payment_history", {
         id: text("id")
                 .primaryKey()
@@ -503,6 +768,7 @@ export const paymentHistory = pgTable("payment_history", {
         subscriptionId: text("subscriptionId")
                 .references(() => subscriptions.id, { onDelete: "set null" }),
         amount: integer("amount").notNull(), // Amount in cents
+        refundedAmount: integer("refundedAmount").notNull().default(0), // Cents refunded so far; status becomes "refunded" once it reaches amount
         currency: text("currency").notNull().default("usd"),
         status: text("status", { 
                 enum: ["succeeded", "pending", "failed", "canceled", "refunded"] 
@@ -521,6 +787,136 @@ export const paymentHistory = pgTable("payment_history", {
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
 })
 
+// Refunds issued by admins. Stripe refunds are made through the API; Opaybd refunds are made outside
+// the app and recorded here with their reference
+export const paymentRefunds = pgTable("payment_refund", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        paymentHistoryId: text("paymentHistoryId")
+                .notNull()
+                .references(() => paymentHistory.id, { onDelete: "cascade" }),
+        amount: integer("amount").notNull(), // Cents (USD) or paisa (BDT)
+        currency: text("currency").notNull(),
+        paymentProvider: text("paymentProvider", {
+                enum: ["stripe", "opaybd"]
+        }).notNull(),
+        providerRefundId: text("providerRefundId"), // Stripe refund ID, or the reference entered for Opaybd
+        reason: text("reason").notNull(),
+        adminId: text("adminId")
+                .references(() => users.id, { onDelete: "set null" }),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('payment_refund_payment_idx').on(table.paymentHistoryId),
+])
+
+// One invoice per successful payment. Seller and customer details are copied at issue time so a
+// downloaded invoice always shows what it showed when it was issued
+export const invoices = pgTable("invoice", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        number: integer("number").notNull().unique(), // Sequential without gaps (see invoiceCounter), shown as INV-000001
+        paymentHistoryId: text("paymentHistoryId")
+                .notNull()
+                .unique()
+                .references(() => paymentHistory.id, { onDelete: "cascade" }),
+        userId: text("userId")
+                .references(() => users.id, { onDelete: "set null" }),
+        seller: json("seller").$type<{
+                name: string;
+                address: string;
+                email: string;
+                taxId: string;
+        }>().notNull(),
+        customerName: text("customerName"),
+        customerEmail: text("customerEmail"),
+        issuedAt: timestamp("issuedAt", { mode: "date" }).notNull().defaultNow(),
+        emailedAt: timestamp("emailedAt", { mode: "date" }),
+}, (table) => [
+        index('invoice_user_idx').on(table.userId),
+])
+
+// The last invoice number issued. Invoices take the next number under this row's lock, in the
+// transaction that saves them, so a number is never skipped
+export const invoiceCounter = pgTable("invoice_counter", {
+        id: text("id").primaryKey(),
+        lastNumber: integer("lastNumber").notNull(),
+})
+
+// Payment provider webhooks as received; one row per provider event, so retried deliveries are only processed once
+export const webhookEvents = pgTable("webhook_event", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        provider: text("provider", {
+                enum: ["stripe", "opaybd"]
+        }).notNull(),
+        eventId: text("eventId").notNull(), // Stripe event ID, Opaybd transaction ID
+        eventType: text("eventType").notNull(),
+        payload: json("payload").notNull(),
+        status: text("status", {
+                enum: ["received", "processing", "processed", "failed"]
+        }).notNull().default("received"),
+        error: text("error"),
+        attempts: integer("attempts").notNull().default(0),
+        processedAt: timestamp("processedAt", { mode: "date" }),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+        updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        unique('webhook_event_provider_event_unique').on(table.provider, table.eventId),
+        index('webhook_event_status_idx').on(table.status),
+])
+
+// One row per scheduled job run (see src/lib/server/scheduled-jobs.ts)
+export const scheduledJobRuns = pgTable("scheduled_job_run", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        job: text("job").notNull(),
+        trigger: text("trigger", {
+                enum: ["schedule", "manual"]
+        }).notNull().default("schedule"),
+        status: text("status", {
+                enum: ["running", "succeeded", "failed"]
+        }).notNull().default("running"),
+        processed: integer("processed").notNull().default(0), // Items the run acted on
+        summary: text("summary"),
+        error: text("error"),
+        startedAt: timestamp("startedAt", { mode: "date" }).notNull().defaultNow(),
+        finishedAt: timestamp("finishedAt", { mode: "date" }),
+}, (table) => [
+        index('scheduled_job_run_job_started_idx').on(table.job, table.startedAt),
+        // At most one run of a job at a time, across app instances
+        uniqueIndex('scheduled_job_run_running_unique').on(table.job).where(sql`${table.status} = 'running'`),
+])
+
+// Admin billing actions: refunds, credit grants and revocations, subscription extensions.
+// Rows can't be updated or deleted (trigger installed by auto-migrate.ts), so users are
+// copied by id and email instead of referenced
+export const adminAuditLog = pgTable("admin_audit_log", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        adminId: text("adminId").notNull(),
+        adminEmail: text("adminEmail"),
+        action: text("action", {
+                enum: ["payment.refund", "credits.grant", "credits.revoke", "subscription.extend"]
+        }).notNull(),
+        targetUserId: text("targetUserId"),
+        targetUserEmail: text("targetUserEmail"),
+        entityType: text("entityType", {
+                enum: ["payment", "user_credit", "subscription"]
+        }).notNull(),
+        entityId: text("entityId"),
+        reason: text("reason").notNull(),
+        details: json("details").$type<Record<string, unknown>>(),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        index('admin_audit_log_target_user_idx').on(table.targetUserId),
+        index('admin_audit_log_created_at_idx').on(table.createdAt),
+])
+
 export const adminSettings = pgTable("admin_settings", {
         id: text("id")
                 .primaryKey()
@@ -577,7 +973,7 @@ export const creditPlans = pgTable("credit_plan", {
         name: text("name").notNull(),
         description: text("description"),
         creditType: text("creditType", {
-                enum: ["text", "image", "video", "audio"]
+                enum: ["text", "image", "video", "audio", "voice", "music", "soundEffect", "transcription"]
         }).notNull(),
         creditAmount: integer("creditAmount").notNull(),
         priceAmount: integer("priceAmount").notNull(),
@@ -596,14 +992,14 @@ export const userCredits = pgTable("user_credit", {
                 .notNull()
                 .references(() => users.id, { onDelete: "cascade" }),
         creditType: text("creditType", {
-                enum: ["text", "image", "video", "audio"]
+                enum: ["text", "image", "video", "audio", "voice", "music", "soundEffect", "transcription"]
         }).notNull(),
         creditAmount: integer("creditAmount").notNull(),
         purchasedAmount: integer("purchasedAmount").notNull(),
         creditPlanId: text("creditPlanId")
                 .references(() => creditPlans.id, { onDelete: "set null" }),
         paymentProvider: text("paymentProvider", {
-                enum: ["stripe", "opaybd"]
+                enum: ["stripe", "opaybd", "admin"] // admin = granted from the admin user page
         }).notNull().default("stripe"),
         transactionId: text("transactionId"),
         purchasedAt: timestamp("purchasedAt", { mode: "date" }).notNull().defaultNow(),
@@ -611,4 +1007,120 @@ export const userCredits = pgTable("user_credit", {
         createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
 }, (table) => [
         index('user_credits_user_type_idx').on(table.userId, table.creditType),
-])
\ No newline at end of file
+])
+
+// Admin-managed discount codes for plan checkouts and credit packs (see src/lib/server/promo-codes.ts)
+export const promoCodes = pgTable("promo_code", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        code: text("code").notNull().unique(), // Stored uppercase
+        description: text("description"),
+        discountType: text("discountType", {
+                enum: ["percentage", "fixed"]
+        }).notNull(),
+        percentOff: integer("percentOff"), // 1-100, percentage codes
+        amountOff: integer("amountOff"), // USD cents, fixed codes
+        amountOffBdt: integer("amountOffBdt"), // Paisa, fixed codes used with Opaybd
+        appliesTo: text("appliesTo", {
+                enum: ["all", "subscriptions", "credits"]
+        }).notNull().default("all"),
+        planIds: json("planIds").$type<string[]>(), // Pricing/credit plan IDs the code is limited to, null = any
+        firstPurchaseOnly: boolean("firstPurchaseOnly").notNull().default(false),
+        maxRedemptions: integer("maxRedemptions"), // null = unlimited
+        redemptionCount: integer("redemptionCount").notNull().default(0),
+        expiresAt: timestamp("expiresAt", { mode: "date" }),
+        isActive: boolean("isActive").notNull().default(true),
+        stripeCouponId: text("stripeCouponId"), // Created on first Stripe checkout
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+        updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
+})
+
+export const promoCodeRedemptions = pgTable("promo_code_redemption", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        promoCodeId: text("promoCodeId")
+                .notNull()
+                .references(() => promoCodes.id, { onDelete: "cascade" }),
+        userId: text("userId")
+                .notNull()
+                .references(() => users.id, { onDelete: "cascade" }),
+        purchaseType: text("purchaseType", {
+                enum: ["subscription", "credits"]
+        }).notNull(),
+        planId: text("planId"), // Pricing or credit plan ID
+        paymentProvider: text("paymentProvider", {
+                enum: ["stripe", "opaybd"]
+        }).notNull(),
+        // Reserved when a checkout starts, redeemed when its payment completes
+        status: text("status", {
+                enum: ["reserved", "redeemed"]
+        }).notNull().default("redeemed"),
+        reservedUntil: timestamp("reservedUntil", { mode: "date" }), // Reserved rows stop counting after this
+        transactionId: text("transactionId"), // Stripe checkout session ID or Opaybd transaction ID, set once paid
+        originalAmount: integer("originalAmount").notNull(), // Cents (USD) or paisa (BDT)
+        discountAmount: integer("discountAmount").notNull(),
+        currency: text("currency").notNull(),
+        redeemedAt: timestamp("redeemedAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        unique('promo_code_redemption_transaction_unique').on(table.promoCodeId, table.transactionId),
+        index('promo_code_redemption_user_idx').on(table.userId),
+        index('promo_code_redemption_code_user_idx').on(table.promoCodeId, table.userId),
+])
+
+// How much plan allowance / extra credit one generation uses, per model and quality option.
+// Models without a row cost 1 (see src/lib/constants/credit-weights.ts)
+export const modelCreditWeights = pgTable("model_credit_weight", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        model: text("model").notNull(),
+        quality: text("quality").notNull().default(""), // Quality/resolution option, "" = any
+        weight: integer("weight").notNull().default(1),
+        perSecond: boolean("perSecond").notNull().default(false), // Multiply by video duration
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+        updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
+}, (table) => [
+        unique('model_credit_weight_model_quality_unique').on(table.model, table.quality),
+])
+
+export const customTools = pgTable("custom_tool", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        name: text("name").notNull().unique(), // Tool name exposed to the model (snake_case)
+        displayName: text("displayName").notNull(),
+        description: text("description").notNull(),
+        parameters: json("parameters").$type<Record<string, unknown>>().notNull(), // JSON Schema for the tool input
+        endpointUrl: text("endpointUrl").notNull(),
+        httpMethod: text("httpMethod", {
+                enum: ["GET", "POST"]
+        }).notNull().default("POST"),
+        authHeaderName: text("authHeaderName"), // e.g. 'Authorization', 'X-API-Key'
+        authHeaderValue: text("authHeaderValue"), // Encrypted
+        timeoutMs: integer("timeoutMs").notNull().default(10000),
+        maxResponseBytes: integer("maxResponseBytes").notNull().default(100000),
+        isActive: boolean("isActive").notNull().default(true),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+        updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
+})
+
+export const mcpServers = pgTable("mcp_server", {
+        id: text("id")
+                .primaryKey()
+                .$defaultFn(() => randomUUID()),
+        name: text("name").notNull().unique(), // Prefix for the server's tool names (e.g. 'github' -> 'github__search_issues')
+        displayName: text("displayName").notNull(),
+        transport: text("transport", {
+                enum: ["stdio", "http"]
+        }).notNull(),
+        command: text("command"), // stdio: executable to spawn
+        args: json("args").$type<string[]>(), // stdio: command arguments
+        url: text("url"), // http: streamable-HTTP endpoint
+        secrets: text("secrets"), // Encrypted JSON object: env vars (stdio) or request headers (http)
+        timeoutMs: integer("timeoutMs").notNull().default(15000),
+        isActive: boolean("isActive").notNull().default(true),
+        createdAt: timestamp("createdAt", { mode: "date" }).notNull().defaultNow(),
+        updatedAt: timestamp("updatedAt", { mode: "date" }).notNull().defaultNow(),
+})
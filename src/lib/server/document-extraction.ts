@@ -0,0 +1,461 @@
+import AdmZip from 'adm-zip';
+import { XMLParser } from 'fast-xml-parser';
+import { extractText, getDocumentProxy } from 'unpdf';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'pptx';
+
+export const DOCUMENT_MIME_TYPES: Record<DocumentFormat, string> = {
+	pdf: 'application/pdf',
+	docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+
+export const DOCUMENT_LIMITS = {
+	maxFileBytes: 10 * 1024 * 1024, // Original upload
+	maxTextChars: 500_000, // Extracted text stored in project_file.content
+	maxUncompressedBytes: 100 * 1024 * 1024, // Guards against zip bombs in Office files
+	maxPdfPages: 500
+} as const;
+
+/**
+ * Page / sheet / slide details recorded with an extracted document
+ */
+export interface DocumentMetadata {
+	format: DocumentFormat;
+	pageCount?: number;
+	sheets?: Array<{ name: string; rows: number; columns: number }>;
+	slideCount?: number;
+}
+
+export interface ExtractedDocument {
+	text: string;
+	metadata: DocumentMetadata;
+}
+
+export type DocumentExtractionErrorCode = 'encrypted' | 'too_large' | 'empty' | 'corrupt';
+
+export class DocumentExtractionError extends Error {
+	constructor(message: string, public code: DocumentExtractionErrorCode) {
+		super(message);
+		this.name = 'DocumentExtractionError';
+	}
+}
+
+// OLE compound file header: password-protected Office files (and legacy .doc/.xls/.ppt) use this container
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46]; // %PDF
+
+/**
+ * Detect a supported document format from the file extension or MIME type
+ */
+export function getDocumentFormat(filename: string, mimeType?: string): DocumentFormat | null {
+	const extension = filename.split('.').pop()?.toLowerCase();
+	if (extension && extension in DOCUMENT_MIME_TYPES) return extension as DocumentFormat;
+
+	const byMime = Object.entries(DOCUMENT_MIME_TYPES).find(([, mime]) => mime === mimeType);
+	return byMime ? byMime[0] as DocumentFormat : null;
+}
+
+/**
+ * Convert a PDF, Word, Excel or PowerPoint file to plain text / markdown.
+ * Throws DocumentExtractionError with a user-facing message for encrypted,
+ * oversized, empty or unreadable files.
+ */
+export async function extractDocument(buffer: Buffer, format: DocumentFormat): Promise<ExtractedDocument> {
+	if (buffer.length > DOCUMENT_LIMITS.maxFileBytes) {
+		throw new DocumentExtractionError(`Documents must be smaller than ${DOCUMENT_LIMITS.maxFileBytes / (1024 * 1024)}MB`, 'too_large');
+	}
+
+	if (startsWith(buffer, CFB_SIGNATURE)) {
+		throw new DocumentExtractionError(
+			'This file is password-protected or in a legacy Office format. Remove the password or save it as .docx/.xlsx/.pptx and try again.',
+			'encrypted'
+		);
+	}
+
+	let result: ExtractedDocument;
+	if (format === 'pdf') {
+		if (!startsWith(buffer, PDF_SIGNATURE)) {
+			throw new DocumentExtractionError('This file is not a valid PDF', 'corrupt');
+		}
+		result = await extractPdf(buffer);
+	} else {
+		if (!startsWith(buffer, ZIP_SIGNATURE)) {
+			throw new DocumentExtractionError(`This file is not a valid .${format} document`, 'corrupt');
+		}
+		const zip = openOfficeZip(buffer);
+		result = format === 'docx' ? extractDocx(zip) : format === 'xlsx' ? extractXlsx(zip) : extractPptx(zip);
+	}
+
+	result.text = result.text.replace(/\n{3,}/g, '\n\n').trim();
+
+	if (!result.text) {
+		throw new DocumentExtractionError(
+			format === 'pdf'
+				? 'No text found in this PDF. Scanned PDFs need OCR before they can be used.'
+				: 'No text found in this document',
+			'empty'
+		);
+	}
+
+	if (result.text.length > DOCUMENT_LIMITS.maxTextChars) {
+		throw new DocumentExtractionError(
+			`This document contains too much text (${Math.round(result.text.length / 1000)}K characters, limit ${DOCUMENT_LIMITS.maxTextChars / 1000}K). Split it into smaller files.`,
+			'too_large'
+		);
+	}
+
+	return result;
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+async function extractPdf(buffer: Buffer): Promise<ExtractedDocument> {
+	let pdf;
+	try {
+		pdf = await getDocumentProxy(new Uint8Array(buffer));
+	} catch (error) {
+		if (error instanceof Error && error.name === 'PasswordException') {
+			throw new DocumentExtractionError('This PDF is password-protected. Remove the password and try again.', 'encrypted');
+		}
+		throw new DocumentExtractionError('This PDF could not be read', 'corrupt');
+	}
+
+	try {
+		if (pdf.numPages > DOCUMENT_LIMITS.maxPdfPages) {
+			throw new DocumentExtractionError(`PDFs can have at most ${DOCUMENT_LIMITS.maxPdfPages} pages (this one has ${pdf.numPages})`, 'too_large');
+		}
+
+		const { totalPages, text } = await extractText(pdf, { mergePages: false });
+		const pages = text
+			.map((pageText, index) => ({ number: index + 1, text: pageText.trim() }))
+			.filter(page => page.text);
+
+		return {
+			// Page headings let retrieval citations be mapped back to pages
+			text: pages.map(page => `## Page ${page.number}\n\n${page.text}`).join('\n\n'),
+			metadata: { format: 'pdf', pageCount: totalPages }
+		};
+	} finally {
+		await pdf.destroy().catch(() => {});
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Office Open XML (DOCX / XLSX / PPTX)
+// ---------------------------------------------------------------------------
+
+type XmlNode = Record<string, unknown>;
+
+const xmlParser = new XMLParser({
+	preserveOrder: true,
+	ignoreAttributes: false,
+	attributeNamePrefix: '',
+	parseTagValue: false,
+	trimValues: false
+});
+
+function openOfficeZip(buffer: Buffer): AdmZip {
+	let zip: AdmZip;
+	try {
+		zip = new AdmZip(buffer);
+	} catch {
+		throw new DocumentExtractionError('This document could not be read', 'corrupt');
+	}
+
+	const uncompressed = zip.getEntries().reduce((total, entry) => total + entry.header.size, 0);
+	if (uncompressed > DOCUMENT_LIMITS.maxUncompressedBytes) {
+		throw new DocumentExtractionError('This document is too large to process', 'too_large');
+	}
+
+	return zip;
+}
+
+function readXml(zip: AdmZip, path: string): XmlNode[] | null {
+	const entry = zip.getEntry(path);
+	if (!entry) return null;
+	return xmlParser.parse(entry.getData().toString('utf8')) as XmlNode[];
+}
+
+function tagName(node: XmlNode): string {
+	return Object.keys(node).find(key => key !== ':@') ?? '';
+}
+
+function childrenOf(node: XmlNode): XmlNode[] {
+	const value = node[tagName(node)];
+	return Array.isArray(value) ? value as XmlNode[] : [];
+}
+
+function attr(node: XmlNode, name: string): string | undefined {
+	const attributes = node[':@'] as Record<string, string> | undefined;
+	return attributes?.[name];
+}
+
+/**
+ * Depth-first search for elements with the given tag (does not descend into matches)
+ */
+function findAll(nodes: XmlNode[], tag: string): XmlNode[] {
+	const found: XmlNode[] = [];
+	for (const node of nodes) {
+		if (tagName(node) === tag) {
+			found.push(node);
+		} else {
+			found.push(...findAll(childrenOf(node), tag));
+		}
+	}
+	return found;
+}
+
+function findFirst(nodes: XmlNode[], tag: string): XmlNode | undefined {
+	return findAll(nodes, tag)[0];
+}
+
+/**
+ * Concatenate text nodes under `textTag` elements, turning tabs/breaks into whitespace
+ */
+function collectText(nodes: XmlNode[], textTag: string, tabTag?: string, breakTag?: string): string {
+	let text = '';
+	for (const node of nodes) {
+		const name = tagName(node);
+		if (name === textTag) {
+			text += childrenOf(node).map(child => String(child['#text'] ?? '')).join('');
+		} else if (name === tabTag) {
+			text += '\t';
+		} else if (name === breakTag) {
+			text += '\n';
+		} else if (name !== '#text') {
+			text += collectText(childrenOf(node), textTag, tabTag, breakTag);
+		}
+	}
+	return text;
+}
+
+function markdownTable(rows: string[][]): string {
+	const width = Math.max(...rows.map(row => row.length));
+	if (width === 0) return '';
+
+	const cell = (value: string | undefined) => (value ?? '').replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|').trim();
+	const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+
+	const [header, ...body] = rows;
+	return [line(header), `| ${Array(width).fill('---').join(' | ')} |`, ...body.map(line)].join('\n');
+}
+
+/**
+ * Resolve a relationship id to a zip path, relative to the part that owns the rels file
+ */
+function readRelationships(zip: AdmZip, partPath: string): Map<string, string> {
+	const directory = partPath.slice(0, partPath.lastIndexOf('/'));
+	const filename = partPath.slice(partPath.lastIndexOf('/') + 1);
+	const rels = readXml(zip, `${directory}/_rels/${filename}.rels`) ?? [];
+	const map = new Map<string, string>();
+
+	for (const rel of findAll(rels, 'Relationship')) {
+		const id = attr(rel, 'Id');
+		const target = attr(rel, 'Target');
+		if (!id || !target) continue;
+		map.set(id, target.startsWith('/') ? target.slice(1) : normalizePath(`${directory}/${target}`));
+	}
+
+	return map;
+}
+
+function normalizePath(path: string): string {
+	const parts: string[] = [];
+	for (const part of path.split('/')) {
+		if (part === '..') parts.pop();
+		else if (part && part !== '.') parts.push(part);
+	}
+	return parts.join('/');
+}
+
+// DOCX ----------------------------------------------------------------------
+
+function extractDocx(zip: AdmZip): ExtractedDocument {
+	const document = readXml(zip, 'word/document.xml');
+	const body = document && findFirst(document, 'w:body');
+	if (!body) {
+		throw new DocumentExtractionError('This Word document could not be read', 'corrupt');
+	}
+
+	const blocks = docxBlocks(childrenOf(body));
+
+	const pages = Number(collectText(readXml(zip, 'docProps/app.xml') ?? [], 'Pages'));
+
+	return {
+		text: blocks.join('\n\n'),
+		metadata: { format: 'docx', ...(pages > 0 && { pageCount: pages }) }
+	};
+}
+
+function docxBlocks(nodes: XmlNode[]): string[] {
+	const blocks: string[] = [];
+
+	for (const node of nodes) {
+		switch (tagName(node)) {
+			case 'w:p': {
+				const paragraph = docxParagraph(node);
+				if (paragraph) blocks.push(paragraph);
+				break;
+			}
+			case 'w:tbl': {
+				const rows = findAll(childrenOf(node), 'w:tr').map(row =>
+					findAll(childrenOf(row), 'w:tc').map(cell => docxBlocks(childrenOf(cell)).join(' '))
+				);
+				const table = markdownTable(rows);
+				if (table) blocks.push(table);
+				break;
+			}
+			case 'w:sdt':
+			case 'w:sdtContent':
+			case 'w:customXml':
+				// Content controls wrap ordinary paragraphs and tables
+				blocks.push(...docxBlocks(childrenOf(node)));
+				break;
+		}
+	}
+
+	return blocks;
+}
+
+function docxParagraph(node: XmlNode): string {
+	const children = childrenOf(node);
+	const text = collectText(children.filter(child => tagName(child) !== 'w:pPr'), 'w:t', 'w:tab', 'w:br').trim();
+	if (!text) return '';
+
+	const properties = children.find(child => tagName(child) === 'w:pPr');
+	const style = properties && attr(findFirst(childrenOf(properties), 'w:pStyle') ?? {}, 'w:val');
+	const heading = style?.match(/^Heading(\d)$/i) ?? (style === 'Title' ? [style, '1'] : null);
+
+	if (heading) return `${'#'.repeat(Math.min(Number(heading[1]), 6))} ${text}`;
+	if (properties && findFirst(childrenOf(properties), 'w:numPr')) return `- ${text}`;
+	return text;
+}
+
+// XLSX ----------------------------------------------------------------------
+
+function extractXlsx(zip: AdmZip): ExtractedDocument {
+	const workbook = readXml(zip, 'xl/workbook.xml');
+	if (!workbook) {
+		throw new DocumentExtractionError('This spreadsheet could not be read', 'corrupt');
+	}
+
+	const relationships = readRelationships(zip, 'xl/workbook.xml');
+	const sharedStrings = findAll(readXml(zip, 'xl/sharedStrings.xml') ?? [], 'si').map(item => collectText(childrenOf(item), 't'));
+
+	const sections: string[] = [];
+	const sheets: NonNullable<DocumentMetadata['sheets']> = [];
+
+	for (const sheet of findAll(workbook, 'sheet')) {
+		const name = attr(sheet, 'name') ?? `Sheet ${sheets.length + 1}`;
+		const path = relationships.get(attr(sheet, 'r:id') ?? '');
+		const sheetXml = path ? readXml(zip, path) : null;
+		if (!sheetXml) continue;
+
+		const rows = xlsxRows(sheetXml, sharedStrings);
+		const columns = Math.max(0, ...rows.map(row => row.length));
+		sheets.push({ name, rows: rows.length, columns });
+
+		sections.push(rows.length > 0 ? `## Sheet: ${name}\n\n${markdownTable(rows)}` : `## Sheet: ${name}\n\n(empty)`);
+	}
+
+	return {
+		text: sections.join('\n\n'),
+		metadata: { format: 'xlsx', sheets }
+	};
+}
+
+function xlsxRows(sheetXml: XmlNode[], sharedStrings: string[]): string[][] {
+	const rows: string[][] = [];
+
+	for (const row of findAll(sheetXml, 'row')) {
+		const values: string[] = [];
+
+		for (const cell of findAll(childrenOf(row), 'c')) {
+			const column = columnIndex(attr(cell, 'r')) ?? values.length;
+			const type = attr(cell, 't');
+			const raw = collectText(childrenOf(cell).filter(child => tagName(child) === 'v'), 'v');
+
+			let value: string;
+			if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+			else if (type === 'inlineStr') value = collectText(childrenOf(cell), 't');
+			else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+			else value = raw;
+
+			values[column] = value;
+		}
+
+		// Fill gaps left by sparse cells, and skip rows that are entirely empty
+		const filled = Array.from(values, value => value ?? '');
+		if (filled.some(value => value.trim())) rows.push(filled);
+	}
+
+	return rows;
+}
+
+function columnIndex(reference: string | undefined): number | null {
+	const letters = reference?.match(/^[A-Z]+/)?.[0];
+	if (!letters) return null;
+	return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// PPTX ----------------------------------------------------------------------
+
+function extractPptx(zip: AdmZip): ExtractedDocument {
+	const presentation = readXml(zip, 'ppt/presentation.xml');
+	if (!presentation) {
+		throw new DocumentExtractionError('This presentation could not be read', 'corrupt');
+	}
+
+	const relationships = readRelationships(zip, 'ppt/presentation.xml');
+	const slidePaths = findAll(presentation, 'p:sldId')
+		.map(slide => relationships.get(attr(slide, 'r:id') ?? ''))
+		.filter((path): path is string => !!path);
+
+	const sections = slidePaths.map((path, index) => {
+		const slide = readXml(zip, path) ?? [];
+		const parts = [`## Slide ${index + 1}`, ...pptxBlocks(slide)];
+
+		// Speaker notes are linked from the slide's own relationships
+		const notesPath = [...readRelationships(zip, path).values()].find(target => target.includes('notesSlide'));
+		const notes = notesPath && pptxBlocks(readXml(zip, notesPath) ?? []).join('\n').trim();
+		if (notes) parts.push(`Notes: ${notes}`);
+
+		return parts.join('\n\n');
+	});
+
+	return {
+		text: sections.join('\n\n'),
+		metadata: { format: 'pptx', slideCount: slidePaths.length }
+	};
+}
+
+function pptxBlocks(nodes: XmlNode[]): string[] {
+	const blocks: string[] = [];
+
+	for (const node of nodes) {
+		const name = tagName(node);
+		if (name === 'a:tbl') {
+			const rows = findAll(childrenOf(node), 'a:tr').map(row =>
+				findAll(childrenOf(row), 'a:tc').map(cell => collectText(childrenOf(cell), 'a:t', undefined, 'a:br'))
+			);
+			const table = markdownTable(rows);
+			if (table) blocks.push(table);
+		} else if (name === 'a:p') {
+			const text = collectText(childrenOf(node), 'a:t', undefined, 'a:br').trim();
+			if (text) blocks.push(text);
+		} else if (name !== '#text') {
+			blocks.push(...pptxBlocks(childrenOf(node)));
+		}
+	}
+
+	return blocks;
+}
+
+function startsWith(buffer: Buffer, signature: number[]): boolean {
+	return signature.every((byte, index) => buffer[index] === byte);
+}
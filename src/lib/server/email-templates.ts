@@ -51,12 +51,24 @@ const TEMPLATE_DEFINITIONS: Record<string, { label: string; description: string;
     defaultSubject: 'Credits Added - {{platformName}}',
     variables: ['platformName', 'displayName', 'publicOrigin', 'logoUrl', 'logoWidth', 'logoHeight', 'creditPackName', 'creditAmount', 'creditType', 'amount'],
   },
+  'payment-receipt': {
+    label: 'Payment Receipt',
+    description: 'Sent after each successful payment, with the PDF invoice attached.',
+    defaultSubject: 'Your Receipt {{invoiceNumber}} - {{platformName}}',
+    variables: ['platformName', 'displayName', 'publicOrigin', 'logoUrl', 'logoWidth', 'logoHeight', 'invoiceNumber', 'description', 'amount', 'paymentDate', 'paymentMethod'],
+  },
   'subscription-expiry': {
     label: 'Subscription Expiry Warning',
     description: 'Sent when a user\'s subscription is about to expire.',
     defaultSubject: 'Your Subscription is Expiring - {{platformName}}',
     variables: ['platformName', 'displayName', 'publicOrigin', 'logoUrl', 'logoWidth', 'logoHeight', 'planName', 'expiryDate', 'daysRemaining'],
   },
+  'trial-ending': {
+    label: 'Trial Ending',
+    description: 'Sent a few days before a user\'s free trial ends.',
+    defaultSubject: 'Your Free Trial Ends Soon - {{platformName}}',
+    variables: ['platformName', 'displayName', 'publicOrigin', 'logoUrl', 'logoWidth', 'logoHeight', 'planName', 'trialEndDate', 'daysRemaining', 'billingNote'],
+  },
   'plan-upgrade': {
     label: 'Plan Upgrade / Downgrade',
     description: 'Sent when a user upgrades or downgrades their subscription plan.',
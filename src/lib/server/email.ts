@@ -15,6 +15,16 @@ export interface EmailOptions {
   subject: string
   html: string
   text: string
+  attachments?: EmailAttachment[]
+}
+
+/**
+ * File attached to an email
+ */
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+  contentType?: string
 }
 
 /**
@@ -271,6 +281,7 @@ class EmailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        attachments: options.attachments,
       }
 
       const info = await this.transporter.sendMail(mailOptions)
@@ -541,7 +552,8 @@ ${publicOrigin}
     templateName: string,
     to: string,
     variables: Record<string, any>,
-    subjectOverride?: string
+    subjectOverride?: string,
+    attachments?: EmailAttachment[]
   ): Promise<boolean> {
     const template = await EmailTemplateService.getTemplate(templateName)
     if (!template) {
@@ -560,7 +572,7 @@ ${publicOrigin}
     const html = processEmailTemplate(template.html, allVars)
     const text = subject
 
-    return await this.sendEmail({ to, subject, html, text })
+    return await this.sendEmail({ to, subject, html, text, attachments })
   }
 
   async sendOtpEmail(data: { email: string; name?: string; otpCode: string; expiryMinutes?: number }): Promise<boolean> {
@@ -595,6 +607,20 @@ ${publicOrigin}
     })
   }
 
+  async sendPaymentReceiptEmail(data: {
+    email: string; name?: string; invoiceNumber: string; description: string; amount: string; paymentDate: string; paymentMethod: string
+    attachment: { filename: string; content: Buffer }
+  }): Promise<boolean> {
+    return this.sendTemplatedEmail('payment-receipt', data.email, {
+      displayName: data.name || data.email.split('@')[0],
+      invoiceNumber: data.invoiceNumber,
+      description: data.description,
+      amount: data.amount,
+      paymentDate: data.paymentDate,
+      paymentMethod: data.paymentMethod,
+    }, undefined, [{ ...data.attachment, contentType: 'application/pdf' }])
+  }
+
   async sendExpiryWarningEmail(data: {
     email: string; name?: string; planName: string; expiryDate: string; daysRemaining: number
   }): Promise<boolean> {
@@ -606,6 +632,18 @@ ${publicOrigin}
     })
   }
 
+  async sendTrialEndingEmail(data: {
+    email: string; name?: string; planName: string; trialEndDate: string; daysRemaining: number; billingNote: string
+  }): Promise<boolean> {
+    return this.sendTemplatedEmail('trial-ending', data.email, {
+      displayName: data.name || data.email.split('@')[0],
+      planName: data.planName,
+      trialEndDate: data.trialEndDate,
+      daysRemaining: data.daysRemaining,
+      billingNote: data.billingNote,
+    })
+  }
+
   async sendPlanUpgradeEmail(data: {
     email: string; name?: string; previousPlan: string; newPlan: string; amount: string; effectiveDate: string
   }): Promise<boolean> {
@@ -662,6 +700,8 @@ export const testEmailConnection = () => emailService.testConnection()
 export const sendOtpEmail = (data: Parameters<typeof emailService.sendOtpEmail>[0]) => emailService.sendOtpEmail(data)
 export const sendPlanPurchaseEmail = (data: Parameters<typeof emailService.sendPlanPurchaseEmail>[0]) => emailService.sendPlanPurchaseEmail(data)
 export const sendCreditPurchaseEmail = (data: Parameters<typeof emailService.sendCreditPurchaseEmail>[0]) => emailService.sendCreditPurchaseEmail(data)
+export const sendPaymentReceiptEmail = (data: Parameters<typeof emailService.sendPaymentReceiptEmail>[0]) => emailService.sendPaymentReceiptEmail(data)
 export const sendExpiryWarningEmail = (data: Parameters<typeof emailService.sendExpiryWarningEmail>[0]) => emailService.sendExpiryWarningEmail(data)
+export const sendTrialEndingEmail = (data: Parameters<typeof emailService.sendTrialEndingEmail>[0]) => emailService.sendTrialEndingEmail(data)
 export const sendPlanUpgradeEmail = (data: Parameters<typeof emailService.sendPlanUpgradeEmail>[0]) => emailService.sendPlanUpgradeEmail(data)
 export const sendNoticeEmail = (data: Parameters<typeof emailService.sendNoticeEmail>[0]) => emailService.sendNoticeEmail(data)
\ No newline at end of file
@@ -73,6 +73,13 @@ export const FILE_UPLOAD_RATE_LIMITS: Record<string, RateLimitConfig> = {
 		windowMs: 60 * 1000, // 1 minute
 		max: 20, // 20 uploads per minute
 		message: 'Too many file uploads. Please wait before uploading more.'
+	},
+
+	// Document uploads (project files - PDF/Office text extraction is CPU-heavy)
+	documentUpload: {
+		windowMs: 60 * 1000, // 1 minute
+		max: 5, // 5 documents per minute
+		message: 'Too many document uploads. Please wait before uploading more.'
 	}
 };
 
@@ -0,0 +1,345 @@
+import { ZipArchive, type Archiver } from 'archiver';
+import { once } from 'events';
+import { Readable } from 'stream';
+import { db } from './db/index.js';
+import { generationBatches, generationJobs, images } from './db/schema.js';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import type { ImageGenerationParams } from '../ai/types.js';
+import { GenerationJobService, supportsGenerationJobs, type GenerationJob } from './generation-jobs.js';
+import { storageService } from './storage.js';
+import { MAX_BATCH_NAME_LENGTH, type BatchItem } from '../constants/batch-generation.js';
+
+export class GenerationBatchError extends Error {
+        constructor(message: string) {
+                super(message);
+                this.name = 'GenerationBatchError';
+        }
+}
+
+export type GenerationBatch = typeof generationBatches.$inferSelect;
+
+// Batches shown on the batch page
+const RECENT_BATCH_LIMIT = 20;
+
+const MANIFEST_COLUMNS = ['row', 'prompt', 'model', 'aspect_ratio', 'seed', 'style', 'quality', 'status', 'error', 'image_ids', 'files'];
+
+function csvField(value: string | number | null | undefined): string {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function extensionFor(mimeType: string): string {
+        const subtype = mimeType.split('/')[1]?.split(';')[0] || 'png';
+        return subtype === 'jpeg' ? 'jpg' : subtype;
+}
+
+/**
+ * Counts per status for a batch's progress bar
+ */
+function summarize(jobs: GenerationJob[]) {
+        return {
+                succeeded: jobs.filter(job => job.status === 'succeeded').length,
+                failed: jobs.filter(job => job.status === 'failed').length,
+                canceled: jobs.filter(job => job.status === 'canceled').length,
+                inProgress: jobs.filter(job => ['queued', 'running', 'saving'].includes(job.status)).length,
+                pending: jobs.filter(job => job.status === 'pending').length,
+        };
+}
+
+export function toPublicBatch(batch: GenerationBatch, jobs: GenerationJob[]) {
+        return {
+                id: batch.id,
+                name: batch.name,
+                status: batch.status,
+                total: batch.total,
+                createdAt: batch.createdAt,
+                completedAt: batch.completedAt,
+                ...summarize(jobs),
+        };
+}
+
+/**
+ * Batches of image prompts. Each prompt is a generation job; GenerationJobService.fillBatch
+ * submits them a few at a time.
+ */
+export class GenerationBatchService {
+        static async create({ userId, name, items }: {
+                userId: string;
+                name: string;
+                items: BatchItem[];
+        }): Promise<GenerationBatch> {
+                if (items.length === 0) {
+                        throw new GenerationBatchError('Add at least one prompt');
+                }
+                for (const model of new Set(items.map(item => item.model))) {
+                        if (!supportsGenerationJobs(model, 'image')) {
+                                throw new GenerationBatchError(`Model ${model} can't be used in a batch`);
+                        }
+                }
+
+                const batchName = name.trim().slice(0, MAX_BATCH_NAME_LENGTH)
+                        || `Batch of ${items.length} prompt${items.length === 1 ? '' : 's'}`;
+
+                const batch = await db.transaction(async (tx) => {
+                        const [created] = await tx
+                                .insert(generationBatches)
+                                .values({ userId, name: batchName, total: items.length })
+                                .returning();
+
+                        await tx.insert(generationJobs).values(items.map((item, index) => {
+                                const params: ImageGenerationParams = {
+                                        model: item.model,
+                                        prompt: item.prompt,
+                                        size: item.aspectRatio,
+                                        seed: item.seed,
+                                        style: item.style,
+                                        quality: item.quality,
+                                        userId,
+                                };
+                                return {
+                                        userId,
+                                        type: 'image' as const,
+                                        model: item.model,
+                                        params: { ...params },
+                                        status: 'pending' as const,
+                                        batchId: created.id,
+                                        batchIndex: index,
+                                };
+                        }));
+
+                        return created;
+                });
+
+                await GenerationJobService.fillBatch(batch.id);
+                return batch;
+        }
+
+        static async list(userId: string) {
+                const batches = await db
+                        .select()
+                        .from(generationBatches)
+                        .where(eq(generationBatches.userId, userId))
+                        .orderBy(desc(generationBatches.createdAt))
+                        .limit(RECENT_BATCH_LIMIT);
+
+                if (batches.length === 0) {
+                        return [];
+                }
+
+                const jobs = await db
+                        .select()
+                        .from(generationJobs)
+                        .where(inArray(generationJobs.batchId, batches.map(batch => batch.id)));
+
+                return batches.map(batch => toPublicBatch(batch, jobs.filter(job => job.batchId === batch.id)));
+        }
+
+        static async get(batchId: string, userId: string): Promise<GenerationBatch | null> {
+                const [batch] = await db
+                        .select()
+                        .from(generationBatches)
+                        .where(and(eq(generationBatches.id, batchId), eq(generationBatches.userId, userId)))
+                        .limit(1);
+
+                return batch ?? null;
+        }
+
+        /**
+         * The batch and its jobs in prompt order, checking running jobs with the provider
+         * when their last update is more than a few seconds old
+         */
+        static async getStatus(batchId: string, userId: string): Promise<{ batch: GenerationBatch; jobs: GenerationJob[] } | null> {
+                let batch = await this.get(batchId, userId);
+                if (!batch) {
+                        return null;
+                }
+
+                if (batch.status === 'running') {
+                        const running = await db
+                                .select({ id: generationJobs.id })
+                                .from(generationJobs)
+                                .where(and(eq(generationJobs.batchId, batch.id), eq(generationJobs.status, 'running')));
+
+                        for (const job of running) {
+                                await GenerationJobService.getStatus(job.id, userId);
+                        }
+                        await GenerationJobService.fillBatch(batch.id);
+                        batch = (await this.get(batchId, userId)) ?? batch;
+                }
+
+                return { batch, jobs: await this.getJobs(batch.id) };
+        }
+
+        /**
+         * Stop a batch: prompts not yet started are dropped and running generations are canceled
+         */
+        static async cancel(batchId: string, userId: string): Promise<GenerationBatch> {
+                const [canceled] = await db
+                        .update(generationBatches)
+                        .set({ status: 'canceled', completedAt: new Date(), updatedAt: new Date() })
+                        .where(and(
+                                eq(generationBatches.id, batchId),
+                                eq(generationBatches.userId, userId),
+                                eq(generationBatches.status, 'running')
+                        ))
+                        .returning();
+
+                if (!canceled) {
+                        const batch = await this.get(batchId, userId);
+                        throw new GenerationBatchError(batch ? 'This batch has already finished' : 'Batch not found');
+                }
+
+                await db
+                        .update(generationJobs)
+                        .set({ status: 'canceled', completedAt: new Date(), updatedAt: new Date() })
+                        .where(and(eq(generationJobs.batchId, batchId), eq(generationJobs.status, 'pending')));
+
+                const active = await db
+                        .select({ id: generationJobs.id })
+                        .from(generationJobs)
+                        .where(and(
+                                eq(generationJobs.batchId, batchId),
+                                inArray(generationJobs.status, ['queued', 'running'])
+                        ));
+
+                for (const job of active) {
+                        // A job may finish while the batch is being canceled; keep what it made
+                        await GenerationJobService.cancel(job.id, userId).catch(() => {});
+                }
+
+                return canceled;
+        }
+
+        /**
+         * Zip of the batch's images with manifest.csv and manifest.json mapping each prompt to its
+         * image IDs and files. Images deleted since are listed without a file. The zip is streamed:
+         * each image is downloaded only once the previous one has been written out.
+         */
+        static async buildArchive(batchId: string, userId: string): Promise<{ filename: string; stream: ReadableStream<Uint8Array> } | null> {
+                const batch = await this.get(batchId, userId);
+                if (!batch) {
+                        return null;
+                }
+
+                const jobs = await this.getJobs(batch.id);
+                const imageIds = jobs.flatMap(job => job.resultIds ?? []);
+                const imageRecords = imageIds.length > 0
+                        ? await db
+                                .select({ id: images.id, cloudPath: images.cloudPath, mimeType: images.mimeType })
+                                .from(images)
+                                .where(and(inArray(images.id, imageIds), eq(images.userId, userId)))
+                        : [];
+
+                const archive = new ZipArchive();
+                // Aborts the pending write when the client goes away
+                const closed = new AbortController();
+                archive.once('close', () => closed.abort());
+
+                this.writeArchive(archive, batch, jobs, imageRecords, closed.signal).catch(error => {
+                        if (closed.signal.aborted) {
+                                return;
+                        }
+                        console.error('Failed to build batch archive:', batch.id, error);
+                        archive.destroy(error instanceof Error ? error : new Error(String(error)));
+                });
+
+                const slug = batch.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+                return {
+                        filename: `${slug || 'batch'}-${batch.id.slice(0, 8)}.zip`,
+                        stream: Readable.toWeb(archive) as ReadableStream<Uint8Array>,
+                };
+        }
+
+        private static async writeArchive(
+                archive: Archiver,
+                batch: GenerationBatch,
+                jobs: GenerationJob[],
+                imageRecords: { id: string; cloudPath: string | null; mimeType: string }[],
+                signal: AbortSignal
+        ): Promise<void> {
+                // Waits until the entry has been written, so the next download only starts once the client has read it.
+                // Buffer sources are taken in whole; a stream source is only consumed as the output drains
+                const append = async (data: Buffer, name: string) => {
+                        const written = once(archive, 'entry', { signal });
+                        archive.append(Readable.from([data]), { name });
+                        await written;
+                };
+
+                const manifest = [];
+
+                for (const job of jobs) {
+                        const row = (job.batchIndex ?? 0) + 1;
+                        const params = job.params as unknown as ImageGenerationParams;
+                        const files: { imageId: string; file: string | null }[] = [];
+
+                        for (const [index, imageId] of (job.resultIds ?? []).entries()) {
+                                const record = imageRecords.find(image => image.id === imageId);
+                                let file: string | null = null;
+
+                                if (record?.cloudPath) {
+                                        let data: Buffer | null = null;
+                                        try {
+                                                data = await storageService.download(record.cloudPath);
+                                        } catch (error) {
+                                                console.error('Failed to add batch image to archive:', imageId, error);
+                                        }
+                                        if (data) {
+                                                const suffix = (job.resultIds?.length ?? 0) > 1 ? `-${index + 1}` : '';
+                                                file = `images/${String(row).padStart(3, '0')}${suffix}.${extensionFor(record.mimeType)}`;
+                                                await append(data, file);
+                                        }
+                                }
+                                files.push({ imageId, file });
+                        }
+
+                        manifest.push({
+                                row,
+                                prompt: params.prompt,
+                                model: job.model,
+                                aspectRatio: params.size ?? null,
+                                seed: params.seed ?? null,
+                                style: params.style ?? null,
+                                quality: params.quality ?? null,
+                                status: job.status,
+                                error: job.error,
+                                images: files,
+                        });
+                }
+
+                const csv = [
+                        MANIFEST_COLUMNS.join(','),
+                        ...manifest.map(entry => [
+                                entry.row,
+                                entry.prompt,
+                                entry.model,
+                                entry.aspectRatio,
+                                entry.seed,
+                                entry.style,
+                                entry.quality,
+                                entry.status,
+                                entry.error,
+                                entry.images.map(image => image.imageId).join(' '),
+                                entry.images.map(image => image.file ?? '').join(' '),
+                        ].map(csvField).join(',')),
+                ].join('\r\n');
+
+                await append(Buffer.from(csv, 'utf8'), 'manifest.csv');
+                await append(Buffer.from(JSON.stringify({
+                        name: batch.name,
+                        status: batch.status,
+                        createdAt: batch.createdAt.toISOString(),
+                        completedAt: batch.completedAt?.toISOString() ?? null,
+                        prompts: manifest,
+                }, null, 2), 'utf8'), 'manifest.json');
+
+                await archive.finalize();
+        }
+
+        private static async getJobs(batchId: string): Promise<GenerationJob[]> {
+                return await db
+                        .select()
+                        .from(generationJobs)
+                        .where(eq(generationJobs.batchId, batchId))
+                        .orderBy(asc(generationJobs.batchIndex));
+        }
+}
@@ -0,0 +1,587 @@
+import { db } from './db/index.js';
+import { generationBatches, generationJobs } from './db/schema.js';
+import { and, asc, eq, inArray, isNull, lt, desc } from 'drizzle-orm';
+import { getModelProvider } from '../ai/index.js';
+import type { GenerationPrediction, ImageGenerationParams, VideoGenerationParams } from '../ai/types.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from './usage-tracking.js';
+import { CreditWeightService } from './credit-weights.js';
+import { getPublicOrigin } from './settings-store.js';
+import { BATCH_CONCURRENCY } from '../constants/batch-generation.js';
+
+export class GenerationJobError extends Error {
+        constructor(message: string) {
+                super(message);
+                this.name = 'GenerationJobError';
+        }
+}
+
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type GenerationJobType = GenerationJob['type'];
+export type GenerationJobStatus = GenerationJob['status'];
+
+const ACTIVE_STATUSES: GenerationJobStatus[] = ['pending', 'queued', 'running', 'saving'];
+
+// Submitted (or being submitted) to the provider; counts against a batch's concurrency
+const IN_PROGRESS_STATUSES: GenerationJobStatus[] = ['queued', 'running', 'saving'];
+
+// How often the worker checks on running predictions nobody is watching
+const WORKER_INTERVAL_MS = 10 * 1000;
+
+// A job still queued after this was interrupted before it reached the provider
+const STALE_QUEUED_MS = 60 * 1000;
+
+// A job still saving after this lost its instance mid-save and is saved again
+const STALE_SAVING_MS = 10 * 60 * 1000;
+
+// Replicate deletes prediction outputs after an hour, so there's no point waiting longer
+const JOB_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Status requests refresh from the provider at most this often (webhooks update sooner)
+const REFRESH_INTERVAL_MS = 3 * 1000;
+
+/**
+ * Whether the model's generations run as background jobs instead of within the request
+ */
+export function supportsGenerationJobs(model: string, type: GenerationJobType): boolean {
+        const provider = getModelProvider(model);
+        return type === 'image' ? !!provider?.startImageGeneration : !!provider?.startVideoGeneration;
+}
+
+export function isJobFinished(status: GenerationJobStatus): boolean {
+        return !ACTIVE_STATUSES.includes(status);
+}
+
+/**
+ * The job as sent to the browser: no provider IDs or usage internals
+ */
+export function toPublicJob(job: GenerationJob) {
+        return {
+                id: job.id,
+                type: job.type,
+                model: job.model,
+                prompt: typeof job.params.prompt === 'string' ? job.params.prompt : '',
+                status: job.status,
+                progress: job.progress,
+                error: job.error,
+                resultIds: job.resultIds ?? [],
+                batchIndex: job.batchIndex,
+                createdAt: job.createdAt,
+                completedAt: job.completedAt,
+        };
+}
+
+export type PublicGenerationJob = ReturnType<typeof toPublicJob>;
+
+function getReservation(job: GenerationJob): UsageReservation | null {
+        if (!job.usageReservation) {
+                return null;
+        }
+        const reservation = job.usageReservation as unknown as UsageReservation;
+        // Stored as JSON, so the date comes back as a string
+        return { ...reservation, reservedAt: new Date(reservation.reservedAt) };
+}
+
+/**
+ * Replicate only calls public HTTPS URLs; elsewhere (e.g. local development) jobs are polled
+ */
+async function getWebhookUrl(): Promise<string | undefined> {
+        const origin = await getPublicOrigin();
+        return origin.startsWith('https://') ? `${origin.replace(/\/$/, '')}/api/generation-jobs/webhook` : undefined;
+}
+
+export class GenerationJobService {
+        private static workerStarted = false;
+        private static workerBusy = false;
+
+        /**
+         * Start the in-process worker that submits interrupted jobs and saves finished ones.
+         * Safe to call more than once.
+         */
+        static startWorker(): void {
+                if (this.workerStarted) {
+                        return;
+                }
+                this.workerStarted = true;
+
+                setInterval(() => {
+                        if (this.workerBusy) {
+                                return;
+                        }
+                        this.workerBusy = true;
+                        this.processPending()
+                                .catch(error => console.error('[Generation Jobs] Worker failed:', error))
+                                .finally(() => {
+                                        this.workerBusy = false;
+                                });
+                }, WORKER_INTERVAL_MS).unref?.();
+        }
+
+        /**
+         * Create a job and submit it to the provider. The usage reservation is committed when the
+         * job succeeds and released if it fails or is canceled.
+         */
+        static async create({ userId, type, params, reservation }: {
+                userId: string;
+                type: GenerationJobType;
+                params: ImageGenerationParams | VideoGenerationParams;
+                reservation: UsageReservation;
+        }): Promise<GenerationJob> {
+                const [job] = await db
+                        .insert(generationJobs)
+                        .values({
+                                userId,
+                                type,
+                                model: params.model,
+                                params: { ...params },
+                                usageReservation: { ...reservation },
+                        })
+                        .returning();
+
+                return await this.submit(job);
+        }
+
+        static async get(jobId: string, userId: string): Promise<GenerationJob | null> {
+                const [job] = await db
+                        .select()
+                        .from(generationJobs)
+                        .where(and(eq(generationJobs.id, jobId), eq(generationJobs.userId, userId)))
+                        .limit(1);
+
+                return job ?? null;
+        }
+
+        /**
+         * The user's unfinished jobs outside batches, newest first, so the page can reconnect after a reload
+         */
+        static async listActive(userId: string, type?: GenerationJobType): Promise<GenerationJob[]> {
+                return await db
+                        .select()
+                        .from(generationJobs)
+                        .where(and(
+                                eq(generationJobs.userId, userId),
+                                inArray(generationJobs.status, ACTIVE_STATUSES),
+                                isNull(generationJobs.batchId),
+                                type ? eq(generationJobs.type, type) : undefined
+                        ))
+                        .orderBy(desc(generationJobs.createdAt));
+        }
+
+        /**
+         * Current state of one of the user's jobs, checking with the provider if the
+         * last update is more than a few seconds old
+         */
+        static async getStatus(jobId: string, userId: string): Promise<GenerationJob | null> {
+                const job = await this.get(jobId, userId);
+                if (!job || job.status !== 'running' || Date.now() - job.updatedAt.getTime() < REFRESH_INTERVAL_MS) {
+                        return job;
+                }
+                return await this.refresh(job);
+        }
+
+        /**
+         * Cancel one of the user's jobs at the provider and give back the usage it reserved
+         */
+        static async cancel(jobId: string, userId: string): Promise<GenerationJob> {
+                const job = await this.get(jobId, userId);
+                if (!job) {
+                        throw new GenerationJobError('Generation not found');
+                }
+
+                const [canceled] = await db
+                        .update(generationJobs)
+                        .set({ status: 'canceled', completedAt: new Date(), updatedAt: new Date() })
+                        .where(and(
+                                eq(generationJobs.id, job.id),
+                                inArray(generationJobs.status, ['pending', 'queued', 'running'])
+                        ))
+                        .returning();
+
+                if (!canceled) {
+                        throw new GenerationJobError(
+                                job.status === 'saving'
+                                        ? 'This generation has finished and is being saved'
+                                        : 'This generation has already finished'
+                        );
+                }
+
+                if (job.predictionId) {
+                        const provider = getModelProvider(job.model);
+                        await provider?.cancelGeneration?.(job.predictionId).catch(error => {
+                                console.error('Failed to cancel prediction:', job.predictionId, error);
+                        });
+                }
+
+                await this.releaseUsage(job);
+                if (job.batchId) {
+                        await this.fillBatch(job.batchId);
+                }
+                return canceled;
+        }
+
+        /**
+         * Apply a prediction update delivered by a provider webhook
+         */
+        static async handleWebhook(prediction: GenerationPrediction): Promise<void> {
+                const [job] = await db
+                        .select()
+                        .from(generationJobs)
+                        .where(eq(generationJobs.predictionId, prediction.id))
+                        .limit(1);
+
+                if (!job) {
+                        console.warn('Webhook for unknown prediction:', prediction.id);
+                        return;
+                }
+
+                await this.applyPrediction(job, prediction);
+        }
+
+        /**
+         * Start a batch's pending jobs while fewer than BATCH_CONCURRENCY are in progress, and mark
+         * the batch completed once all of its jobs have finished
+         */
+        static async fillBatch(batchId: string): Promise<void> {
+                const claimed = await db.transaction(async (tx) => {
+                        // Locking the batch keeps concurrent fills (worker, webhooks, status polls) under the limit
+                        const [batch] = await tx
+                                .select({ status: generationBatches.status })
+                                .from(generationBatches)
+                                .where(eq(generationBatches.id, batchId))
+                                .for('update');
+
+                        if (!batch || batch.status !== 'running') {
+                                return [];
+                        }
+
+                        const jobs = await tx
+                                .select({ id: generationJobs.id, status: generationJobs.status })
+                                .from(generationJobs)
+                                .where(eq(generationJobs.batchId, batchId))
+                                .orderBy(asc(generationJobs.batchIndex));
+
+                        const inProgress = jobs.filter(job => IN_PROGRESS_STATUSES.includes(job.status)).length;
+                        const pending = jobs.filter(job => job.status === 'pending');
+
+                        if (inProgress === 0 && pending.length === 0) {
+                                await tx
+                                        .update(generationBatches)
+                                        .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+                                        .where(eq(generationBatches.id, batchId));
+                                return [];
+                        }
+
+                        const next = pending.slice(0, Math.max(0, BATCH_CONCURRENCY - inProgress));
+                        if (next.length === 0) {
+                                return [];
+                        }
+
+                        return await tx
+                                .update(generationJobs)
+                                .set({ status: 'queued', updatedAt: new Date() })
+                                .where(and(
+                                        inArray(generationJobs.id, next.map(job => job.id)),
+                                        eq(generationJobs.status, 'pending')
+                                ))
+                                .returning();
+                });
+
+                let finished = false;
+                for (const job of claimed) {
+                        const started = await this.start(job);
+                        finished ||= isJobFinished(started.status);
+                }
+
+                // Jobs that failed to start (e.g. out of allowance) free their slot straight away
+                if (finished) {
+                        await this.fillBatch(batchId);
+                }
+        }
+
+        /**
+         * One worker pass: submit interrupted jobs, retry interrupted saves, check running jobs
+         * and move batches along
+         */
+        static async processPending(): Promise<number> {
+                const now = Date.now();
+
+                const queued = await db
+                        .select()
+                        .from(generationJobs)
+                        .where(and(
+                                eq(generationJobs.status, 'queued'),
+                                lt(generationJobs.updatedAt, new Date(now - STALE_QUEUED_MS))
+                        ));
+
+                for (const job of queued) {
+                        await this.start(job);
+                }
+
+                await db
+                        .update(generationJobs)
+                        .set({ status: 'running', updatedAt: new Date() })
+                        .where(and(
+                                eq(generationJobs.status, 'saving'),
+                                lt(generationJobs.updatedAt, new Date(now - STALE_SAVING_MS))
+                        ));
+
+                const running = await db
+                        .select()
+                        .from(generationJobs)
+                        .where(and(
+                                eq(generationJobs.status, 'running'),
+                                lt(generationJobs.updatedAt, new Date(now - REFRESH_INTERVAL_MS))
+                        ));
+
+                for (const job of running) {
+                        await this.refresh(job);
+                }
+
+                const batches = await db
+                        .select({ id: generationBatches.id })
+                        .from(generationBatches)
+                        .where(eq(generationBatches.status, 'running'));
+
+                for (const batch of batches) {
+                        await this.fillBatch(batch.id);
+                }
+
+                return queued.length + running.length;
+        }
+
+        /**
+         * Submit a queued job. Batch jobs reserve their usage here, when their turn comes,
+         * rather than when the batch is created.
+         */
+        private static async start(job: GenerationJob): Promise<GenerationJob> {
+                if (job.usageReservation) {
+                        return await this.submit(job);
+                }
+
+                // Only batch jobs are created without a reservation, and batches are image-only
+                const params = job.params as unknown as ImageGenerationParams;
+                let reservation: UsageReservation;
+                try {
+                        const credits = await CreditWeightService.getCreditCost(job.model, {
+                                quality: params.quality,
+                                numberOfImages: params.numberOfImages,
+                        });
+                        reservation = await UsageTrackingService.reserveUsage(job.userId, job.type, credits);
+                } catch (error) {
+                        if (!(error instanceof UsageLimitError)) {
+                                console.error('Failed to reserve usage for generation job:', job.id, error);
+                        }
+                        return await this.fail(job, error instanceof UsageLimitError ? error.message : 'Failed to reserve usage');
+                }
+
+                const [reserved] = await db
+                        .update(generationJobs)
+                        .set({ usageReservation: { ...reservation }, updatedAt: new Date() })
+                        .where(and(eq(generationJobs.id, job.id), eq(generationJobs.status, 'queued')))
+                        .returning();
+
+                if (!reserved) {
+                        // Canceled in the meantime
+                        await UsageTrackingService.releaseUsage(reservation);
+                        return (await this.get(job.id, job.userId)) ?? job;
+                }
+
+                return await this.submit(reserved);
+        }
+
+        /**
+         * Send a queued job to the provider. Marks it failed if the provider rejects it.
+         */
+        private static async submit(job: GenerationJob): Promise<GenerationJob> {
+                const provider = getModelProvider(job.model);
+
+                let prediction: GenerationPrediction;
+                try {
+                        const options = { webhookUrl: await getWebhookUrl() };
+                        if (job.type === 'image' && provider?.startImageGeneration) {
+                                prediction = await provider.startImageGeneration(job.params as unknown as ImageGenerationParams, options);
+                        } else if (job.type === 'video' && provider?.startVideoGeneration) {
+                                prediction = await provider.startVideoGeneration(job.params as unknown as VideoGenerationParams, options);
+                        } else {
+                                throw new Error(`Model ${job.model} does not support background generation`);
+                        }
+                } catch (error) {
+                        console.error('Failed to submit generation job:', job.id, error);
+                        return await this.fail(job, error instanceof Error ? error.message : 'Failed to start generation');
+                }
+
+                const [started] = await db
+                        .update(generationJobs)
+                        .set({
+                                status: 'running',
+                                predictionId: prediction.id,
+                                progress: prediction.progress ?? 0,
+                                startedAt: new Date(),
+                                updatedAt: new Date(),
+                        })
+                        .where(and(eq(generationJobs.id, job.id), eq(generationJobs.status, 'queued')))
+                        .returning();
+
+                if (!started) {
+                        // Canceled while it was being submitted
+                        await provider?.cancelGeneration?.(prediction.id).catch(error => {
+                                console.error('Failed to cancel prediction:', prediction.id, error);
+                        });
+                        return (await this.get(job.id, job.userId)) ?? job;
+                }
+
+                return await this.applyPrediction(started, prediction);
+        }
+
+        /**
+         * Check a running job with the provider, failing it once it has run too long
+         */
+        private static async refresh(job: GenerationJob): Promise<GenerationJob> {
+                if (job.status !== 'running' || !job.predictionId) {
+                        return job;
+                }
+
+                const provider = getModelProvider(job.model);
+                if (!provider?.getGeneration) {
+                        return await this.fail(job, `Model ${job.model} does not support background generation`);
+                }
+
+                if (Date.now() - (job.startedAt ?? job.createdAt).getTime() > JOB_TIMEOUT_MS) {
+                        await provider.cancelGeneration?.(job.predictionId).catch(() => {});
+                        return await this.fail(job, 'Generation timed out');
+                }
+
+                try {
+                        return await this.applyPrediction(job, await provider.getGeneration(job.predictionId));
+                } catch (error) {
+                        // Provider unreachable; try again on the next pass
+                        console.error('Failed to check generation job:', job.id, error);
+                        return job;
+                }
+        }
+
+        private static async applyPrediction(job: GenerationJob, prediction: GenerationPrediction): Promise<GenerationJob> {
+                if (job.status !== 'running') {
+                        return job;
+                }
+
+                const updated = await this.applyPredictionStatus(job, prediction);
+
+                // Give the finished job's batch slot to the next prompt
+                if (job.batchId && isJobFinished(updated.status)) {
+                        await this.fillBatch(job.batchId).catch(error => {
+                                console.error('Failed to continue generation batch:', job.batchId, error);
+                        });
+                }
+
+                return updated;
+        }
+
+        private static async applyPredictionStatus(job: GenerationJob, prediction: GenerationPrediction): Promise<GenerationJob> {
+                switch (prediction.status) {
+                        case 'succeeded':
+                                return await this.save(job, prediction.output);
+                        case 'failed':
+                                return await this.fail(job, prediction.error || 'Generation failed');
+                        case 'canceled': {
+                                const [canceled] = await db
+                                        .update(generationJobs)
+                                        .set({ status: 'canceled', completedAt: new Date(), updatedAt: new Date() })
+                                        .where(and(eq(generationJobs.id, job.id), eq(generationJobs.status, 'running')))
+                                        .returning();
+                                if (canceled) {
+                                        await this.releaseUsage(job);
+                                }
+                                return canceled ?? job;
+                        }
+                        default: {
+                                const [updated] = await db
+                                        .update(generationJobs)
+                                        .set({ progress: Math.max(job.progress, prediction.progress ?? 0), updatedAt: new Date() })
+                                        .where(and(eq(generationJobs.id, job.id), eq(generationJobs.status, 'running')))
+                                        .returning();
+                                return updated ?? job;
+                        }
+                }
+        }
+
+        /**
+         * Download and store the finished output. Only one caller gets to save a job: the
+         * running -> saving update is the claim.
+         */
+        private static async save(job: GenerationJob, output: unknown): Promise<GenerationJob> {
+                const [claimed] = await db
+                        .update(generationJobs)
+                        .set({ status: 'saving', progress: 100, updatedAt: new Date() })
+                        .where(and(eq(generationJobs.id, job.id), eq(generationJobs.status, 'running')))
+                        .returning();
+
+                if (!claimed) {
+                        return job;
+                }
+
+                const provider = getModelProvider(job.model);
+                let resultIds: string[];
+                let usage: { images?: number; seconds?: number };
+
+                try {
+                        if (job.type === 'image' && provider?.saveImageGeneration) {
+                                const params = job.params as unknown as ImageGenerationParams;
+                                const response = await provider.saveImageGeneration(params, output);
+                                resultIds = response.imageIds ?? [response.imageId];
+                                usage = { images: params.numberOfImages };
+                        } else if (job.type === 'video' && provider?.saveVideoGeneration) {
+                                const params = job.params as unknown as VideoGenerationParams;
+                                const response = await provider.saveVideoGeneration(params, output);
+                                resultIds = [response.videoId];
+                                usage = { seconds: response.duration ?? params.duration };
+                        } else {
+                                throw new Error(`Model ${job.model} does not support background generation`);
+                        }
+                } catch (error) {
+                        console.error('Failed to save generation job output:', job.id, error);
+                        return await this.fail(claimed, error instanceof Error ? error.message : 'Failed to save generation');
+                }
+
+                const [succeeded] = await db
+                        .update(generationJobs)
+                        .set({ status: 'succeeded', resultIds, error: null, completedAt: new Date(), updatedAt: new Date() })
+                        .where(eq(generationJobs.id, job.id))
+                        .returning();
+
+                const reservation = getReservation(job);
+                if (reservation) {
+                        UsageTrackingService.commitUsage(reservation, {
+                                model: job.model,
+                                chatId: typeof job.params.chatId === 'string' ? job.params.chatId : undefined,
+                                ...usage,
+                        }).catch(console.error);
+                }
+
+                return succeeded;
+        }
+
+        /**
+         * Mark an unfinished job failed and give back its usage
+         */
+        private static async fail(job: GenerationJob, error: string): Promise<GenerationJob> {
+                const [failed] = await db
+                        .update(generationJobs)
+                        .set({ status: 'failed', error, completedAt: new Date(), updatedAt: new Date() })
+                        .where(and(eq(generationJobs.id, job.id), inArray(generationJobs.status, ACTIVE_STATUSES)))
+                        .returning();
+
+                if (!failed) {
+                        return job;
+                }
+
+                await this.releaseUsage(job);
+                return failed;
+        }
+
+        private static async releaseUsage(job: GenerationJob): Promise<void> {
+                const reservation = getReservation(job);
+                if (reservation) {
+                        await UsageTrackingService.releaseUsage(reservation);
+                }
+        }
+}
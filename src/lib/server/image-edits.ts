@@ -0,0 +1,39 @@
+import { db } from './db/index.js';
+import { images } from './db/schema.js';
+import { and, eq, inArray } from 'drizzle-orm';
+import { storageService } from './storage.js';
+
+export type ImageRecord = typeof images.$inferSelect;
+
+/**
+ * Library image helpers for inpaint/outpaint edits. Each result keeps the ID of the image it
+ * was made from (image.sourceImageId), which is linked as an 'edit' in media_lineage; the edit
+ * history is read from there (see MediaLineageService.getEditHistory).
+ */
+export class ImageEditService {
+        /**
+         * IDs of the user's images among the given ones (for checking IDs sent by the client)
+         */
+        static async filterOwned(imageIds: string[], userId: string): Promise<string[]> {
+                if (imageIds.length === 0) {
+                        return [];
+                }
+
+                const owned = await db
+                        .select({ id: images.id })
+                        .from(images)
+                        .where(and(inArray(images.id, imageIds), eq(images.userId, userId)));
+
+                return owned.map(image => image.id);
+        }
+
+        /**
+         * URL the browser loads the image from (presigned for R2, the API route otherwise)
+         */
+        static async getUrl(image: ImageRecord): Promise<string> {
+                if (image.storageLocation === 'r2' && image.cloudPath) {
+                        return await storageService.getUrl(image.cloudPath);
+                }
+                return `/api/images/${image.id}`;
+        }
+}
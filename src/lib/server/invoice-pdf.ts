@@ -0,0 +1,277 @@
+/**
+ * Renders invoices as single-page A4 PDFs using the standard Helvetica fonts, so no font files
+ * or PDF libraries are needed. Text is limited to the WinAnsi character set; anything else is
+ * printed as "?".
+ */
+
+export interface InvoiceDocument {
+        invoiceNumber: string;
+        status: string;
+        issuedAt: string;
+        paidAt: string;
+        seller: {
+                name: string;
+                address: string;
+                email: string;
+                taxId: string;
+        };
+        customer: {
+                name: string;
+                email: string;
+        };
+        items: Array<{ description: string; amount: string }>;
+        total: string;
+        paymentDetails: Array<{ label: string; value: string }>;
+        footer: string;
+}
+
+type Font = 'regular' | 'bold';
+
+interface TextOptions {
+        font?: Font;
+        size?: number;
+        color?: number; // Gray level, 0 = black
+        align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_RIGHT = PAGE_WIDTH - MARGIN;
+const MUTED = 0.45;
+
+// Glyph widths (1/1000 em) for characters 32-126, from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+        1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+        333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+        556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+        278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+        975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+        333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+        611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsi still has a code for
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+        '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+        '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+function toWinAnsi(value: string): string {
+        let result = '';
+        for (const char of value.replace(/[\t\r\n]+/g, ' ')) {
+                const code = char.codePointAt(0)!;
+                if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+                        result += char;
+                } else if (WIN_ANSI_EXTRAS[char]) {
+                        result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+                } else {
+                        result += '?';
+                }
+        }
+        return result;
+}
+
+function textWidth(value: string, font: Font, size: number): number {
+        const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+        let total = 0;
+        for (const char of toWinAnsi(value)) {
+                const code = char.charCodeAt(0);
+                total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH;
+        }
+        return (total * size) / 1000;
+}
+
+/**
+ * Split text into lines no wider than maxWidth, breaking on spaces (and mid-word when a
+ * single word is too long). Explicit newlines are kept.
+ */
+function wrapText(value: string, font: Font, size: number, maxWidth: number): string[] {
+        const lines: string[] = [];
+
+        for (const paragraph of value.split(/\r?\n/)) {
+                let line = '';
+                for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+                        const candidate = line ? `${line} ${word}` : word;
+                        if (textWidth(candidate, font, size) <= maxWidth) {
+                                line = candidate;
+                                continue;
+                        }
+                        if (line) {
+                                lines.push(line);
+                        }
+                        line = word;
+                        while (textWidth(line, font, size) > maxWidth && line.length > 1) {
+                                let cut = line.length - 1;
+                                while (cut > 1 && textWidth(line.slice(0, cut), font, size) > maxWidth) {
+                                        cut--;
+                                }
+                                lines.push(line.slice(0, cut));
+                                line = line.slice(cut);
+                        }
+                }
+                if (line) {
+                        lines.push(line);
+                }
+        }
+
+        return lines;
+}
+
+function escapePdfString(value: string): string {
+        return value.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Content stream for one page. Coordinates are measured from the top-left corner, like the
+ * layout code thinks about them, and flipped to PDF's bottom-left origin here.
+ */
+class PageContent {
+        private operations: string[] = [];
+
+        text(value: string, x: number, top: number, options: TextOptions = {}): void {
+                const { font = 'regular', size = 10, color = 0, align = 'left' } = options;
+                if (!value) {
+                        return;
+                }
+                const left = align === 'right' ? x - textWidth(value, font, size) : x;
+                const fontName = font === 'bold' ? 'F2' : 'F1';
+                this.operations.push(
+                        `BT /${fontName} ${size} Tf ${color} g ${left.toFixed(2)} ${(PAGE_HEIGHT - top).toFixed(2)} Td (${escapePdfString(toWinAnsi(value))}) Tj ET`
+                );
+        }
+
+        line(x1: number, x2: number, top: number, color = 0.85): void {
+                const y = (PAGE_HEIGHT - top).toFixed(2);
+                this.operations.push(`${color} G 0.75 w ${x1} ${y} m ${x2} ${y} l S`);
+        }
+
+        toString(): string {
+                return this.operations.join('\n');
+        }
+}
+
+/**
+ * Wrap a page content stream in a minimal PDF file with the two Helvetica fonts it uses
+ */
+function buildPdf(content: string, title: string): Buffer {
+        const objects = [
+                '<< /Type /Catalog /Pages 2 0 R >>',
+                '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+                '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+                '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+                `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+                `<< /Title (${escapePdfString(toWinAnsi(title))}) >>`
+        ];
+
+        // Every character is a single latin1 byte, so string lengths are byte offsets
+        let pdf = '%PDF-1.4\n';
+        const offsets: number[] = [];
+        objects.forEach((object, index) => {
+                offsets.push(pdf.length);
+                pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        });
+
+        const xrefOffset = pdf.length;
+        pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+        pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+        return Buffer.from(pdf, 'latin1');
+}
+
+export function renderInvoicePdf(invoice: InvoiceDocument): Buffer {
+        const page = new PageContent();
+        const amountColumn = CONTENT_RIGHT;
+        const descriptionWidth = 360;
+
+        // Seller details (left) and invoice details (right)
+        let leftTop = 70;
+        page.text(invoice.seller.name, MARGIN, leftTop, { font: 'bold', size: 16 });
+        leftTop += 20;
+        const sellerLines = [
+                ...wrapText(invoice.seller.address, 'regular', 9, 260),
+                invoice.seller.email,
+                invoice.seller.taxId ? `Tax ID: ${invoice.seller.taxId}` : ''
+        ].filter(Boolean);
+        for (const line of sellerLines) {
+                page.text(line, MARGIN, leftTop, { size: 9, color: MUTED });
+                leftTop += 13;
+        }
+
+        let rightTop = 70;
+        page.text('INVOICE', CONTENT_RIGHT, rightTop, { font: 'bold', size: 20, align: 'right' });
+        rightTop += 24;
+        const invoiceDetails = [
+                ['Invoice number', invoice.invoiceNumber],
+                ['Issue date', invoice.issuedAt],
+                ['Payment date', invoice.paidAt],
+                ['Status', invoice.status]
+        ];
+        for (const [label, value] of invoiceDetails) {
+                page.text(label, 360, rightTop, { size: 9, color: MUTED });
+                page.text(value, CONTENT_RIGHT, rightTop, { size: 9, align: 'right' });
+                rightTop += 13;
+        }
+
+        // Customer
+        let top = Math.max(leftTop, rightTop) + 24;
+        page.text('BILL TO', MARGIN, top, { font: 'bold', size: 8, color: MUTED });
+        top += 15;
+        for (const line of [invoice.customer.name, invoice.customer.email].filter(Boolean)) {
+                page.text(line, MARGIN, top, { size: 10 });
+                top += 14;
+        }
+
+        // Line items
+        top += 20;
+        page.text('Description', MARGIN, top, { font: 'bold', size: 9, color: MUTED });
+        page.text('Amount', amountColumn, top, { font: 'bold', size: 9, color: MUTED, align: 'right' });
+        top += 8;
+        page.line(MARGIN, CONTENT_RIGHT, top);
+        top += 18;
+
+        for (const item of invoice.items) {
+                const lines = wrapText(item.description, 'regular', 10, descriptionWidth);
+                page.text(item.amount, amountColumn, top, { size: 10, align: 'right' });
+                for (const line of lines) {
+                        page.text(line, MARGIN, top, { size: 10 });
+                        top += 14;
+                }
+                top += 6;
+        }
+
+        page.line(MARGIN, CONTENT_RIGHT, top - 6);
+        top += 14;
+        page.text('Total', 360, top, { font: 'bold', size: 11 });
+        page.text(invoice.total, amountColumn, top, { font: 'bold', size: 11, align: 'right' });
+
+        // Payment details
+        top += 40;
+        page.text('PAYMENT DETAILS', MARGIN, top, { font: 'bold', size: 8, color: MUTED });
+        top += 15;
+        for (const { label, value } of invoice.paymentDetails) {
+                page.text(label, MARGIN, top, { size: 9, color: MUTED });
+                page.text(value, MARGIN + 130, top, { size: 9 });
+                top += 13;
+        }
+
+        // Footer
+        page.line(MARGIN, CONTENT_RIGHT, PAGE_HEIGHT - 70);
+        for (const [index, line] of wrapText(invoice.footer, 'regular', 8, CONTENT_RIGHT - MARGIN).slice(0, 2).entries()) {
+                page.text(line, MARGIN, PAGE_HEIGHT - 55 + index * 11, { size: 8, color: MUTED });
+        }
+
+        return buildPdf(page.toString(), `Invoice ${invoice.invoiceNumber}`);
+}
@@ -0,0 +1,274 @@
+import { db } from './db/index.js';
+import { invoiceCounter, invoices, paymentHistory, users } from './db/schema.js';
+import { eq, and, sql } from 'drizzle-orm';
+import { getBrandingSettings } from './admin-settings.js';
+import { getSiteName, getPublicOrigin } from './settings-store.js';
+import { sendPaymentReceiptEmail } from './email.js';
+import { renderInvoicePdf } from './invoice-pdf.js';
+
+export class InvoiceError extends Error {
+        constructor(message: string) {
+                super(message);
+                this.name = 'InvoiceError';
+        }
+}
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceSeller = Invoice['seller'];
+type Payment = typeof paymentHistory.$inferSelect;
+
+// The single invoice_counter row
+const INVOICE_COUNTER_ID = 'invoice';
+
+// Refunded payments keep the invoice they were paid with
+const INVOICEABLE_STATUSES: Payment['status'][] = ['succeeded', 'refunded'];
+
+export function isInvoiceable(status: Payment['status']): boolean {
+        return INVOICEABLE_STATUSES.includes(status);
+}
+
+export function formatInvoiceNumber(number: number): string {
+        return `INV-${String(number).padStart(6, '0')}`;
+}
+
+/**
+ * Format an amount in cents (or paisa) for display, e.g. $12.00 or ৳1,200.00.
+ * currencyCode writes "BDT" instead of ৳, which the invoice PDF fonts can't print.
+ */
+export function formatPaymentAmount(amount: number, currency: string, { currencyCode = false } = {}): string {
+        const code = currency.toUpperCase();
+        const value = (amount / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+        if (code === 'USD') {
+                return `$${value}`;
+        }
+        if (code === 'BDT' && !currencyCode) {
+                return `৳${value}`;
+        }
+        return `${code} ${value}`;
+}
+
+function formatInvoiceDate(date: Date): string {
+        return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function capitalize(value: string): string {
+        return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function describePaymentMethod(payment: Payment): string {
+        if (payment.paymentProvider === 'opaybd') {
+                return payment.opayPaymentMethod ? `Opaybd (${payment.opayPaymentMethod})` : 'Opaybd';
+        }
+        if (payment.brand && payment.last4) {
+                return `${capitalize(payment.brand)} ending in ${payment.last4}`;
+        }
+        return payment.paymentMethodType ? capitalize(payment.paymentMethodType) : 'Card';
+}
+
+export class InvoiceService {
+        /**
+         * Seller details from Admin > Settings > Branding, falling back to the site name
+         */
+        static async getSellerDetails(): Promise<InvoiceSeller> {
+                const [branding, siteName] = await Promise.all([getBrandingSettings(), getSiteName()]);
+                return {
+                        name: branding.invoice_seller_name || siteName,
+                        address: branding.invoice_seller_address || '',
+                        email: branding.invoice_seller_email || '',
+                        taxId: branding.invoice_seller_tax_id || '',
+                };
+        }
+
+        /**
+         * Get the payment's invoice, issuing it with the next invoice number the first time
+         */
+        static async issueInvoice(paymentHistoryId: string): Promise<Invoice> {
+                const [existing] = await db
+                        .select()
+                        .from(invoices)
+                        .where(eq(invoices.paymentHistoryId, paymentHistoryId))
+                        .limit(1);
+
+                if (existing) {
+                        return existing;
+                }
+
+                const [payment] = await db
+                        .select({
+                                status: paymentHistory.status,
+                                userId: paymentHistory.userId,
+                                customerName: users.name,
+                                customerEmail: users.email,
+                        })
+                        .from(paymentHistory)
+                        .leftJoin(users, eq(paymentHistory.userId, users.id))
+                        .where(eq(paymentHistory.id, paymentHistoryId))
+                        .limit(1);
+
+                if (!payment) {
+                        throw new InvoiceError('Payment not found');
+                }
+                if (!isInvoiceable(payment.status)) {
+                        throw new InvoiceError('Invoices are only available for completed payments');
+                }
+
+                const seller = await this.getSellerDetails();
+
+                return await db.transaction(async (tx) => {
+                        // Starts after the highest number issued before the counter existed
+                        await tx
+                                .insert(invoiceCounter)
+                                .values({
+                                        id: INVOICE_COUNTER_ID,
+                                        lastNumber: sql`(select coalesce(max(${invoices.number}), 0) from ${invoices})`,
+                                })
+                                .onConflictDoNothing();
+
+                        // Issuing queues on the counter row, so the number is only taken by an invoice that is saved
+                        const [counter] = await tx
+                                .select()
+                                .from(invoiceCounter)
+                                .where(eq(invoiceCounter.id, INVOICE_COUNTER_ID))
+                                .for('update');
+
+                        // Issued by a concurrent request
+                        const [issued] = await tx
+                                .select()
+                                .from(invoices)
+                                .where(eq(invoices.paymentHistoryId, paymentHistoryId))
+                                .limit(1);
+
+                        if (issued) {
+                                return issued;
+                        }
+
+                        const number = counter.lastNumber + 1;
+                        const [created] = await tx
+                                .insert(invoices)
+                                .values({
+                                        number,
+                                        paymentHistoryId,
+                                        userId: payment.userId,
+                                        seller,
+                                        customerName: payment.customerName,
+                                        customerEmail: payment.customerEmail,
+                                })
+                                .returning();
+
+                        await tx
+                                .update(invoiceCounter)
+                                .set({ lastNumber: number })
+                                .where(eq(invoiceCounter.id, INVOICE_COUNTER_ID));
+
+                        return created;
+                });
+        }
+
+        /**
+         * The invoice PDF for one of the user's payments, or null if the payment isn't theirs
+         */
+        static async getInvoicePdf(paymentHistoryId: string, userId: string): Promise<{ filename: string; pdf: Buffer } | null> {
+                const [payment] = await db
+                        .select()
+                        .from(paymentHistory)
+                        .where(and(
+                                eq(paymentHistory.id, paymentHistoryId),
+                                eq(paymentHistory.userId, userId)
+                        ))
+                        .limit(1);
+
+                if (!payment) {
+                        return null;
+                }
+
+                const invoice = await this.issueInvoice(payment.id);
+                return {
+                        filename: `${formatInvoiceNumber(invoice.number)}.pdf`,
+                        pdf: await this.render(invoice, payment),
+                };
+        }
+
+        /**
+         * Email the receipt with the invoice attached after a successful payment. Never throws:
+         * the payment is already recorded, and the invoice stays downloadable from billing settings.
+         */
+        static async emailInvoice(paymentHistoryId: string): Promise<boolean> {
+                try {
+                        const [payment] = await db
+                                .select()
+                                .from(paymentHistory)
+                                .where(eq(paymentHistory.id, paymentHistoryId))
+                                .limit(1);
+
+                        // $0 payments (e.g. a Stripe trial starting) don't get an email
+                        if (!payment || payment.status !== 'succeeded' || payment.amount <= 0) {
+                                return false;
+                        }
+
+                        const invoice = await this.issueInvoice(payment.id);
+                        if (invoice.emailedAt || !invoice.customerEmail) {
+                                return false;
+                        }
+
+                        const invoiceNumber = formatInvoiceNumber(invoice.number);
+                        const sent = await sendPaymentReceiptEmail({
+                                email: invoice.customerEmail,
+                                name: invoice.customerName || undefined,
+                                invoiceNumber,
+                                description: payment.description || 'Subscription payment',
+                                amount: formatPaymentAmount(payment.amount, payment.currency),
+                                paymentDate: formatInvoiceDate(payment.paidAt ?? payment.createdAt),
+                                paymentMethod: describePaymentMethod(payment),
+                                attachment: {
+                                        filename: `${invoiceNumber}.pdf`,
+                                        content: await this.render(invoice, payment),
+                                },
+                        });
+
+                        if (sent) {
+                                await db
+                                        .update(invoices)
+                                        .set({ emailedAt: new Date() })
+                                        .where(eq(invoices.id, invoice.id));
+                        }
+
+                        return sent;
+                } catch (error) {
+                        console.error('Failed to email invoice for payment:', paymentHistoryId, error);
+                        return false;
+                }
+        }
+
+        private static async render(invoice: Invoice, payment: Payment): Promise<Buffer> {
+                const amount = formatPaymentAmount(payment.amount, payment.currency, { currencyCode: true });
+                const reference = payment.opayTransactionId || payment.stripeInvoiceId || payment.stripePaymentIntentId;
+
+                const paymentDetails = [
+                        { label: 'Payment method', value: describePaymentMethod(payment) },
+                        { label: 'Reference', value: reference || '' },
+                ];
+                if (payment.opayPaymentFee) {
+                        paymentDetails.push({
+                                label: 'Gateway fee',
+                                value: formatPaymentAmount(payment.opayPaymentFee, payment.currency, { currencyCode: true }),
+                        });
+                }
+
+                return renderInvoicePdf({
+                        invoiceNumber: formatInvoiceNumber(invoice.number),
+                        status: payment.status === 'refunded' ? 'Refunded' : 'Paid',
+                        issuedAt: formatInvoiceDate(invoice.issuedAt),
+                        paidAt: formatInvoiceDate(payment.paidAt ?? payment.createdAt),
+                        seller: invoice.seller,
+                        customer: {
+                                name: invoice.customerName || '',
+                                email: invoice.customerEmail || '',
+                        },
+                        items: [{ description: payment.description || 'Subscription payment', amount }],
+                        total: amount,
+                        paymentDetails: paymentDetails.filter((detail) => detail.value),
+                        footer: `Thank you for your business. Questions about this invoice? Visit ${await getPublicOrigin()}/settings/billing`,
+                });
+        }
+}
@@ -0,0 +1,366 @@
+import { createMCPClient, type MCPClient } from '@ai-sdk/mcp';
+import { Experimental_StdioMCPTransport } from '@ai-sdk/mcp/mcp-stdio';
+import { db } from './db/index.js';
+import { mcpServers } from './db/schema.js';
+import { eq } from 'drizzle-orm';
+import { decryptSecret, encryptSecret } from './admin-settings.js';
+import { getToolDisplayName, type AvailableTool, type ToolInstance } from '../ai/tools/index.js';
+import {
+        createMcpTool,
+        getMcpToolName,
+        MCP_LIMITS,
+        MCP_SERVER_NAME_PATTERN,
+        type McpToolCaller,
+        type McpToolDefinition
+} from '../ai/tools/mcp.js';
+
+type McpServerRow = typeof mcpServers.$inferSelect;
+
+interface McpConnection {
+        client: MCPClient;
+        tools: Record<string, ToolInstance>;
+        available: AvailableTool[];
+}
+
+/**
+ * Raw form fields, echoed back to the admin form on validation errors
+ */
+export interface McpServerFormFields {
+        name: string;
+        displayName: string;
+        transport: string;
+        command: string;
+        args: string;
+        url: string;
+        timeoutMs: string;
+}
+
+/**
+ * Validated values ready to insert into / update mcp_server.
+ * secrets is undefined when the form left it blank (keep the stored secrets).
+ */
+export type McpServerValues = Omit<typeof mcpServers.$inferInsert, 'id' | 'createdAt' | 'updatedAt' | 'isActive'>;
+
+export type ParsedMcpServerForm =
+        | { values: McpServerValues; fields: McpServerFormFields }
+        | { error: string; fields: McpServerFormFields };
+
+const CACHE_TTL = 60 * 1000; // 1 minute - admin edits also clear the cache directly
+
+let cachedServers: McpServerRow[] | null = null;
+let cachedAt = 0;
+
+// Open clients keyed by server id + updatedAt, so edited servers reconnect with the new config
+const connections = new Map<string, Promise<McpConnection>>();
+
+export class McpToolsService {
+        /**
+         * Get active MCP servers
+         */
+        static async getActiveServers(): Promise<McpServerRow[]> {
+                if (cachedServers && Date.now() - cachedAt < CACHE_TTL) {
+                        return cachedServers;
+                }
+
+                try {
+                        cachedServers = await db
+                                .select()
+                                .from(mcpServers)
+                                .where(eq(mcpServers.isActive, true));
+                        cachedAt = Date.now();
+                } catch (error) {
+                        console.error('Error loading MCP servers (table may not exist yet):', error);
+                        return [];
+                }
+
+                // Drop clients for servers that were deactivated or edited
+                const currentKeys = new Set(cachedServers.map(server => this.connectionKey(server)));
+                for (const key of connections.keys()) {
+                        if (!currentKeys.has(key)) this.closeConnection(key);
+                }
+
+                return cachedServers;
+        }
+
+        /**
+         * Get AI SDK tools for every active server, keyed by prefixed tool name.
+         * Servers that fail to connect are skipped.
+         */
+        static async getTools(): Promise<Record<string, ToolInstance>> {
+                const connected = await this.connectAll();
+                return Object.assign({}, ...connected.map(connection => connection.tools));
+        }
+
+        /**
+         * Get tool picker entries for every active server
+         */
+        static async getAvailableTools(): Promise<AvailableTool[]> {
+                const connected = await this.connectAll();
+                return connected.flatMap(connection => connection.available);
+        }
+
+        /**
+         * Connect to a server with a throwaway client and list its tools (admin "test connection")
+         */
+        static async inspectServer(server: McpServerRow): Promise<{ tools: AvailableTool[] } | { error: string }> {
+                let client: MCPClient | undefined;
+                try {
+                        client = await this.createClient(server);
+                        const { tools } = await client.listTools({ options: { timeout: server.timeoutMs } });
+                        return {
+                                tools: tools.map(definition => this.toAvailableTool(server, definition))
+                        };
+                } catch (error) {
+                        return { error: error instanceof Error ? error.message : 'Failed to connect to MCP server' };
+                } finally {
+                        await client?.close().catch(() => {});
+                }
+        }
+
+        /**
+         * Clear the server cache and close open clients after admin changes
+         */
+        static clearCache(): void {
+                cachedServers = null;
+                cachedAt = 0;
+                for (const key of connections.keys()) {
+                        this.closeConnection(key);
+                }
+        }
+
+        /**
+         * Parse and validate the admin MCP server form.
+         * Empty secrets leave the stored ones unchanged; clearSecrets removes them.
+         */
+        static parseServerForm(data: FormData): ParsedMcpServerForm {
+                const fields: McpServerFormFields = {
+                        name: data.get('name')?.toString().trim() || '',
+                        displayName: data.get('displayName')?.toString().trim() || '',
+                        transport: data.get('transport')?.toString() || 'http',
+                        command: data.get('command')?.toString().trim() || '',
+                        args: data.get('args')?.toString() || '',
+                        url: data.get('url')?.toString().trim() || '',
+                        timeoutMs: data.get('timeoutMs')?.toString() || '15000'
+                };
+                const secretsText = data.get('secrets')?.toString().trim() || '';
+                const clearSecrets = data.get('clearSecrets') === 'on';
+
+                if (!fields.name || !fields.displayName) {
+                        return { error: 'Required fields are missing', fields };
+                }
+
+                if (!MCP_SERVER_NAME_PATTERN.test(fields.name)) {
+                        return { error: 'Server name must start with a letter and use only lowercase letters, numbers and hyphens (2-24 characters)', fields };
+                }
+
+                if (fields.transport !== 'stdio' && fields.transport !== 'http') {
+                        return { error: 'Invalid transport selected', fields };
+                }
+
+                if (fields.transport === 'stdio' && !fields.command) {
+                        return { error: 'Command is required for stdio servers', fields };
+                }
+
+                if (fields.transport === 'http') {
+                        // Only admins configure servers, and stdio can already run any command,
+                        // so internal URLs (e.g. a sidecar container) are allowed here
+                        try {
+                                const url = new URL(fields.url);
+                                if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+                        } catch {
+                                return { error: 'Server URL must be an http(s) URL', fields };
+                        }
+                }
+
+                const timeoutMs = parseInt(fields.timeoutMs);
+                if (isNaN(timeoutMs) || timeoutMs < MCP_LIMITS.minTimeoutMs || timeoutMs > MCP_LIMITS.maxTimeoutMs) {
+                        return { error: `Timeout must be between ${MCP_LIMITS.minTimeoutMs} and ${MCP_LIMITS.maxTimeoutMs} ms`, fields };
+                }
+
+                let secrets: string | null | undefined;
+                if (clearSecrets) {
+                        secrets = null;
+                } else if (secretsText) {
+                        const parsed = this.parseSecrets(secretsText, fields.transport);
+                        if (!parsed) {
+                                return {
+                                        error: fields.transport === 'stdio'
+                                                ? 'Environment variables must be one KEY=value per line'
+                                                : 'Headers must be one "Header-Name: value" per line',
+                                        fields
+                                };
+                        }
+                        secrets = encryptSecret(JSON.stringify(parsed));
+                }
+
+                const isStdio = fields.transport === 'stdio';
+                return {
+                        fields,
+                        values: {
+                                name: fields.name,
+                                displayName: fields.displayName,
+                                transport: fields.transport,
+                                command: isStdio ? fields.command : null,
+                                args: isStdio
+                                        ? fields.args.split('\n').map(arg => arg.trim()).filter(Boolean)
+                                        : null,
+                                url: isStdio ? null : fields.url,
+                                secrets,
+                                timeoutMs
+                        }
+                };
+        }
+
+        private static async connectAll(): Promise<McpConnection[]> {
+                const servers = await this.getActiveServers();
+                const results = await Promise.allSettled(servers.map(server => this.getConnection(server)));
+
+                return results.flatMap((result, index) => {
+                        if (result.status === 'fulfilled') return [result.value];
+                        console.error(`[MCP] Failed to connect to "${servers[index].name}":`, result.reason);
+                        return [];
+                });
+        }
+
+        private static getConnection(server: McpServerRow): Promise<McpConnection> {
+                const key = this.connectionKey(server);
+                let connection = connections.get(key);
+                if (!connection) {
+                        connection = this.connect(server, key);
+                        // Failed connections are retried on the next request
+                        connection.catch(() => connections.delete(key));
+                        connections.set(key, connection);
+                }
+                return connection;
+        }
+
+        private static async connect(server: McpServerRow, key: string): Promise<McpConnection> {
+                const client = await this.createClient(server, () => this.closeConnection(key));
+
+                try {
+                        const definitions = await client.listTools({ options: { timeout: server.timeoutMs } });
+                        const executors = client.toolsFromDefinitions(definitions);
+
+                        const tools: Record<string, ToolInstance> = {};
+                        const available: AvailableTool[] = [];
+
+                        for (const definition of definitions.tools) {
+                                const executor = executors[definition.name];
+                                if (!executor) continue;
+
+                                const call: McpToolCaller = async (input, options) => {
+                                        try {
+                                                return await executor.execute(input, options);
+                                        } catch (error) {
+                                                // A dead stdio process or dropped session fails every call, so reconnect next time
+                                                if (!options.abortSignal?.aborted) this.closeConnection(key);
+                                                throw error;
+                                        }
+                                };
+
+                                tools[getMcpToolName(server.name, definition.name)] = createMcpTool(
+                                        this.toToolDefinition(definition),
+                                        call,
+                                        server.timeoutMs
+                                );
+                                available.push(this.toAvailableTool(server, definition));
+                        }
+
+                        return { client, tools, available };
+                } catch (error) {
+                        await client.close().catch(() => {});
+                        throw error;
+                }
+        }
+
+        private static async createClient(server: McpServerRow, onError?: () => void): Promise<MCPClient> {
+                const secrets = this.readSecrets(server);
+
+                const transport = server.transport === 'stdio'
+                        ? new Experimental_StdioMCPTransport({
+                                command: server.command ?? '',
+                                args: server.args ?? [],
+                                env: secrets,
+                                stderr: 'ignore'
+                        })
+                        : { type: 'http' as const, url: server.url ?? '', headers: secrets, redirect: 'error' as const };
+
+                return createMCPClient({
+                        transport,
+                        clientName: 'ezboai',
+                        initializationOptions: { timeout: server.timeoutMs },
+                        onUncaughtError: (error) => {
+                                console.error(`[MCP] Error from "${server.name}":`, error);
+                                onError?.();
+                        }
+                });
+        }
+
+        private static closeConnection(key: string): void {
+                const connection = connections.get(key);
+                if (!connection) return;
+
+                connections.delete(key);
+                connection
+                        .then(({ client }) => client.close())
+                        .catch(() => {});
+        }
+
+        private static connectionKey(server: McpServerRow): string {
+                return `${server.id}:${server.updatedAt.getTime()}`;
+        }
+
+        private static readSecrets(server: McpServerRow): Record<string, string> | undefined {
+                if (!server.secrets) return undefined;
+
+                const decrypted = decryptSecret(server.secrets);
+                if (!decrypted) return undefined;
+
+                try {
+                        return JSON.parse(decrypted) as Record<string, string>;
+                } catch {
+                        return undefined;
+                }
+        }
+
+        private static parseSecrets(text: string, transport: 'stdio' | 'http'): Record<string, string> | null {
+                const separator = transport === 'stdio' ? '=' : ':';
+                const secrets: Record<string, string> = {};
+
+                for (const line of text.split('\n').map(line => line.trim()).filter(Boolean)) {
+                        const index = line.indexOf(separator);
+                        if (index <= 0) return null;
+                        secrets[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+                }
+
+                return secrets;
+        }
+
+        private static toToolDefinition(definition: {
+                name: string;
+                title?: string;
+                description?: string;
+                inputSchema: Record<string, unknown>;
+        }): McpToolDefinition {
+                return {
+                        name: definition.name,
+                        title: definition.title,
+                        description: definition.description,
+                        inputSchema: definition.inputSchema
+                };
+        }
+
+        private static toAvailableTool(
+                server: McpServerRow,
+                definition: { name: string; title?: string; description?: string }
+        ): AvailableTool {
+                const name = getMcpToolName(server.name, definition.name);
+                const toolTitle = definition.title || getToolDisplayName(definition.name);
+                return {
+                        name,
+                        displayName: `${server.displayName}: ${toolTitle}`,
+                        description: definition.description || toolTitle,
+                        custom: true
+                };
+        }
+}
@@ -0,0 +1,429 @@
+import { db } from './db/index.js';
+import { images, mediaLineage, videos } from './db/schema.js';
+import { and, asc, eq, gt, inArray, isNotNull, or } from 'drizzle-orm';
+import type { ImageGenerationParams, VideoGenerationParams } from '../ai/types.js';
+import { MODEL_CONFIGS } from '../constants/replicate-model-configs.js';
+import { ImageEditService, type ImageRecord } from './image-edits.js';
+
+export type LineageRelation = (typeof mediaLineage.$inferSelect)['relation'];
+export type VideoRecord = typeof videos.$inferSelect;
+
+export interface MediaRef {
+        type: 'image' | 'video';
+        id: string;
+}
+
+export interface MediaParent {
+        imageId: string;
+        relation: LineageRelation;
+}
+
+export interface LineageEdge {
+        parentId: string;
+        childType: 'image' | 'video';
+        childId: string;
+        relation: LineageRelation;
+}
+
+/**
+ * Ancestors and descendants of an item. depth is negative for ancestors, 0 for the item itself
+ * and positive for descendants.
+ */
+export interface LineageGraph {
+        images: (ImageRecord & { depth: number })[];
+        videos: (VideoRecord & { depth: number })[];
+        edges: LineageEdge[];
+}
+
+// Items shown in one lineage graph; guards against runaway graphs from heavily reused images
+const MAX_LINEAGE_NODES = 100;
+const BACKFILL_BATCH_SIZE = 500;
+
+// Library image URLs look like /api/images/{uuid}, optionally with the site origin
+const IMAGE_API_URL_PATTERN = /^(?:https?:\/\/[^/]+)?\/api\/images\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:[/?#]|$)/i;
+
+// Prefixes local storage URLs have been served under (see storageService.getUrl)
+const LOCAL_URL_PREFIXES = ['/static/uploads/', '/uploads/'];
+
+/**
+ * Parent/child links between library items: the images an image was edited, upscaled or
+ * generated from, and the start/end frames of image-to-video generations.
+ */
+export class MediaLineageService {
+        /**
+         * ID of the library image an /api/images/{id} URL points to
+         */
+        static imageIdFromUrl(url: string | null | undefined): string | null {
+                return url?.match(IMAGE_API_URL_PATTERN)?.[1] ?? null;
+        }
+
+        /**
+         * Library images an image generation was made from
+         */
+        static getImageParents(params: ImageGenerationParams): MediaParent[] {
+                const parents: MediaParent[] = [];
+                if (params.sourceImageId) {
+                        parents.push({ imageId: params.sourceImageId, relation: 'edit' });
+                }
+
+                const relation: LineageRelation = MODEL_CONFIGS[params.model]?.upscaleParam ? 'upscale' : 'reference';
+                const inputUrls = params.imageUrls?.length ? params.imageUrls : params.imageUrl ? [params.imageUrl] : [];
+                for (const url of inputUrls) {
+                        const imageId = this.imageIdFromUrl(url);
+                        // Edits also send their source as the input image
+                        if (imageId && !parents.some(parent => parent.imageId === imageId)) {
+                                parents.push({ imageId, relation });
+                        }
+                }
+
+                return parents;
+        }
+
+        /**
+         * Library images used as the frames of a video generation
+         */
+        static getVideoParents(params: VideoGenerationParams): MediaParent[] {
+                const parents: MediaParent[] = [];
+
+                const startImageId = this.imageIdFromUrl(params.imageUrl || params.imageStartUrl);
+                if (startImageId) {
+                        parents.push({ imageId: startImageId, relation: 'start_frame' });
+                }
+
+                const endImageId = this.imageIdFromUrl(params.imageEndUrl);
+                if (endImageId) {
+                        parents.push({ imageId: endImageId, relation: 'end_frame' });
+                }
+
+                return parents;
+        }
+
+        /**
+         * Record the parents of a newly saved item. Parents the user doesn't own are skipped.
+         * Failures are logged rather than thrown so they never fail the generation.
+         * Returns the number of links created.
+         */
+        static async link(userId: string, child: MediaRef, parents: MediaParent[]): Promise<number> {
+                if (parents.length === 0) {
+                        return 0;
+                }
+
+                try {
+                        const owned = new Set(await ImageEditService.filterOwned(parents.map(parent => parent.imageId), userId));
+                        const rows = parents
+                                .filter(parent => owned.has(parent.imageId))
+                                .map(parent => ({
+                                        userId,
+                                        parentImageId: parent.imageId,
+                                        childImageId: child.type === 'image' ? child.id : null,
+                                        childVideoId: child.type === 'video' ? child.id : null,
+                                        relation: parent.relation
+                                }));
+
+                        if (rows.length === 0) {
+                                return 0;
+                        }
+
+                        const inserted = await db
+                                .insert(mediaLineage)
+                                .values(rows)
+                                .onConflictDoNothing()
+                                .returning({ id: mediaLineage.id });
+                        return inserted.length;
+                } catch (error) {
+                        console.error(`[Lineage] Failed to link ${child.type} ${child.id}:`, error);
+                        return 0;
+                }
+        }
+
+        /**
+         * Everything an item was derived from and everything derived from it, or null if the
+         * user doesn't own the item
+         */
+        static async getGraph(userId: string, root: MediaRef): Promise<LineageGraph | null> {
+                if (!(await this.isOwned(root, userId))) {
+                        return null;
+                }
+
+                const imageDepths = new Map<string, number>();
+                const videoDepths = new Map<string, number>();
+                (root.type === 'image' ? imageDepths : videoDepths).set(root.id, 0);
+                const edges = new Map<string, LineageEdge>();
+                const isFull = () => imageDepths.size + videoDepths.size >= MAX_LINEAGE_NODES;
+
+                const addEdge = (row: typeof mediaLineage.$inferSelect) => {
+                        const childType = row.childVideoId ? 'video' : 'image';
+                        edges.set(row.id, {
+                                parentId: row.parentImageId,
+                                childType,
+                                childId: (row.childVideoId ?? row.childImageId)!,
+                                relation: row.relation
+                        });
+                };
+
+                // Ancestors: follow links from children up to their parents
+                let frontier: MediaRef[] = [root];
+                for (let depth = -1; frontier.length > 0 && !isFull(); depth--) {
+                        const childImageIds = frontier.filter(ref => ref.type === 'image').map(ref => ref.id);
+                        const childVideoIds = frontier.filter(ref => ref.type === 'video').map(ref => ref.id);
+                        const rows = await db
+                                .select()
+                                .from(mediaLineage)
+                                .where(and(
+                                        eq(mediaLineage.userId, userId),
+                                        or(
+                                                childImageIds.length > 0 ? inArray(mediaLineage.childImageId, childImageIds) : undefined,
+                                                childVideoIds.length > 0 ? inArray(mediaLineage.childVideoId, childVideoIds) : undefined
+                                        )
+                                ));
+
+                        frontier = [];
+                        for (const row of rows) {
+                                if (!imageDepths.has(row.parentImageId)) {
+                                        if (isFull()) continue;
+                                        imageDepths.set(row.parentImageId, depth);
+                                        frontier.push({ type: 'image', id: row.parentImageId });
+                                }
+                                addEdge(row);
+                        }
+                }
+
+                // Descendants: follow links from parents down to their children (only images have children)
+                let parentIds = root.type === 'image' ? [root.id] : [];
+                for (let depth = 1; parentIds.length > 0 && !isFull(); depth++) {
+                        const rows = await db
+                                .select()
+                                .from(mediaLineage)
+                                .where(and(eq(mediaLineage.userId, userId), inArray(mediaLineage.parentImageId, parentIds)));
+
+                        parentIds = [];
+                        for (const row of rows) {
+                                const depths = row.childVideoId ? videoDepths : imageDepths;
+                                const childId = (row.childVideoId ?? row.childImageId)!;
+                                if (!depths.has(childId)) {
+                                        if (isFull()) continue;
+                                        depths.set(childId, depth);
+                                        if (row.childImageId) parentIds.push(childId);
+                                }
+                                addEdge(row);
+                        }
+                }
+
+                const imageRows = imageDepths.size > 0
+                        ? await db
+                                .select()
+                                .from(images)
+                                .where(and(inArray(images.id, [...imageDepths.keys()]), eq(images.userId, userId)))
+                                .orderBy(asc(images.createdAt))
+                        : [];
+                const videoRows = videoDepths.size > 0
+                        ? await db
+                                .select()
+                                .from(videos)
+                                .where(and(inArray(videos.id, [...videoDepths.keys()]), eq(videos.userId, userId)))
+                                .orderBy(asc(videos.createdAt))
+                        : [];
+
+                const imageIds = new Set(imageRows.map(image => image.id));
+                const videoIds = new Set(videoRows.map(video => video.id));
+
+                return {
+                        images: imageRows.map(image => ({ ...image, depth: imageDepths.get(image.id)! })),
+                        videos: videoRows.map(video => ({ ...video, depth: videoDepths.get(video.id)! })),
+                        edges: [...edges.values()].filter(edge =>
+                                imageIds.has(edge.parentId) &&
+                                (edge.childType === 'image' ? imageIds : videoIds).has(edge.childId)
+                        )
+                };
+        }
+
+        /**
+         * The images an image was edited from (nearest first) and its direct edits (newest first),
+         * from the 'edit' links of its lineage graph. Null if the user doesn't own the image.
+         */
+        static async getEditHistory(userId: string, imageId: string): Promise<{ sources: ImageRecord[]; edits: ImageRecord[] } | null> {
+                const graph = await this.getGraph(userId, { type: 'image', id: imageId });
+                if (!graph) {
+                        return null;
+                }
+
+                const byId = new Map(graph.images.map(image => [image.id, image]));
+                const editEdges = graph.edges.filter(edge => edge.relation === 'edit' && edge.childType === 'image');
+                const sourceOf = new Map(editEdges.map(edge => [edge.childId, edge.parentId]));
+
+                const sources: ImageRecord[] = [];
+                const seen = new Set([imageId]);
+                let sourceId = sourceOf.get(imageId);
+                while (sourceId && !seen.has(sourceId)) {
+                        const source = byId.get(sourceId);
+                        if (!source) break;
+                        sources.push(source);
+                        seen.add(sourceId);
+                        sourceId = sourceOf.get(sourceId);
+                }
+
+                const edits = editEdges
+                        .filter(edge => edge.parentId === imageId)
+                        .map(edge => byId.get(edge.childId))
+                        .filter((image): image is ImageRecord & { depth: number } => !!image)
+                        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+                return { sources, edits };
+        }
+
+        /**
+         * Link items saved before lineage was recorded, from the URLs and source IDs they store.
+         * Existing links are skipped, so it can run again after a partial run. Returns the number of links created.
+         */
+        static async backfill(): Promise<number> {
+                let linked = 0;
+
+                let lastImageId = '';
+                while (true) {
+                        const batch = await db
+                                .select({
+                                        id: images.id,
+                                        userId: images.userId,
+                                        model: images.model,
+                                        referenceImageUrl: images.referenceImageUrl,
+                                        sourceImageId: images.sourceImageId
+                                })
+                                .from(images)
+                                .where(and(
+                                        gt(images.id, lastImageId),
+                                        or(isNotNull(images.referenceImageUrl), isNotNull(images.sourceImageId))
+                                ))
+                                .orderBy(asc(images.id))
+                                .limit(BACKFILL_BATCH_SIZE);
+
+                        if (batch.length === 0) break;
+
+                        for (const image of batch) {
+                                const parents: MediaParent[] = [];
+                                if (image.sourceImageId) {
+                                        parents.push({ imageId: image.sourceImageId, relation: 'edit' });
+                                }
+
+                                const relation: LineageRelation = image.model && MODEL_CONFIGS[image.model]?.upscaleParam ? 'upscale' : 'reference';
+                                for (const url of this.parseReferenceUrls(image.referenceImageUrl)) {
+                                        const imageId = await this.resolveStoredImageUrl(url, image.userId);
+                                        if (imageId && imageId !== image.id && !parents.some(parent => parent.imageId === imageId)) {
+                                                parents.push({ imageId, relation });
+                                        }
+                                }
+
+                                linked += await this.link(image.userId, { type: 'image', id: image.id }, parents);
+                        }
+
+                        lastImageId = batch[batch.length - 1].id;
+                }
+
+                let lastVideoId = '';
+                while (true) {
+                        const batch = await db
+                                .select({
+                                        id: videos.id,
+                                        userId: videos.userId,
+                                        imageStartUrl: videos.imageStartUrl,
+                                        imageEndUrl: videos.imageEndUrl
+                                })
+                                .from(videos)
+                                .where(and(
+                                        gt(videos.id, lastVideoId),
+                                        or(isNotNull(videos.imageStartUrl), isNotNull(videos.imageEndUrl))
+                                ))
+                                .orderBy(asc(videos.id))
+                                .limit(BACKFILL_BATCH_SIZE);
+
+                        if (batch.length === 0) break;
+
+                        for (const video of batch) {
+                                const parents: MediaParent[] = [];
+                                const startImageId = await this.resolveStoredImageUrl(video.imageStartUrl, video.userId);
+                                if (startImageId) {
+                                        parents.push({ imageId: startImageId, relation: 'start_frame' });
+                                }
+                                const endImageId = await this.resolveStoredImageUrl(video.imageEndUrl, video.userId);
+                                if (endImageId) {
+                                        parents.push({ imageId: endImageId, relation: 'end_frame' });
+                                }
+
+                                linked += await this.link(video.userId, { type: 'video', id: video.id }, parents);
+                        }
+
+                        lastVideoId = batch[batch.length - 1].id;
+                }
+
+                return linked;
+        }
+
+        private static async isOwned(ref: MediaRef, userId: string): Promise<boolean> {
+                if (ref.type === 'image') {
+                        return (await ImageEditService.filterOwned([ref.id], userId)).length > 0;
+                }
+
+                const [video] = await db
+                        .select({ id: videos.id })
+                        .from(videos)
+                        .where(and(eq(videos.id, ref.id), eq(videos.userId, userId)))
+                        .limit(1);
+
+                return !!video;
+        }
+
+        // referenceImageUrl holds a single URL or a JSON array of URLs
+        private static parseReferenceUrls(value: string | null): string[] {
+                if (!value) {
+                        return [];
+                }
+                if (value.startsWith('[')) {
+                        try {
+                                const urls: unknown = JSON.parse(value);
+                                return Array.isArray(urls) ? urls.filter((url): url is string => typeof url === 'string') : [];
+                        } catch {
+                                return [value];
+                        }
+                }
+                return [value];
+        }
+
+        /**
+         * Find the user's image a stored URL points to: an /api/images/{id} URL, a local storage
+         * URL, or a (possibly expired) presigned R2 URL whose path is the image's storage key
+         */
+        private static async resolveStoredImageUrl(url: string | null, userId: string): Promise<string | null> {
+                if (!url) {
+                        return null;
+                }
+
+                const imageId = this.imageIdFromUrl(url);
+                if (imageId) {
+                        return imageId;
+                }
+
+                const candidates: string[] = [];
+                const localPrefix = LOCAL_URL_PREFIXES.find(prefix => url.startsWith(prefix));
+                if (localPrefix) {
+                        candidates.push(url.slice(localPrefix.length));
+                } else if (/^https?:\/\//.test(url)) {
+                        try {
+                                const key = decodeURIComponent(new URL(url).pathname.slice(1));
+                                // Path-style URLs start with the bucket name
+                                candidates.push(key, key.slice(key.indexOf('/') + 1));
+                        } catch {
+                                return null;
+                        }
+                }
+                if (candidates.length === 0) {
+                        return null;
+                }
+
+                const [image] = await db
+                        .select({ id: images.id })
+                        .from(images)
+                        .where(and(inArray(images.cloudPath, candidates), eq(images.userId, userId)))
+                        .limit(1);
+
+                return image?.id ?? null;
+        }
+}
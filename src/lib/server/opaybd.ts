@@ -1,17 +1,24 @@
 import { db } from './db/index.js';
 import { users, subscriptions, pricingPlans, paymentHistory, userCredits } from './db/schema.js';
-import { eq, and, lt } from 'drizzle-orm';
+import { eq, and, lt, gt, lte, ne, inArray, isNull, type SQL } from 'drizzle-orm';
 import { getOpaySettings } from './settings-store.js';
+import { sendExpiryWarningEmail, sendTrialEndingEmail } from './email.js';
+import { PromoCodeService, type AppliedPromoCode } from './promo-codes.js';
+import { TrialService, TrialError } from './trials.js';
+import { InvoiceService } from './invoices.js';
 
 // Opaybd API base URL
 const OPAY_API_BASE = 'https://verify.opaybd.com/api/payment';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export interface OpayPaymentCreateParams {
         userId: string;
         planId: string;
         priceId: string;
         successUrl: string;
         cancelUrl: string;
+        discount?: AppliedPromoCode;
 }
 
 export interface OpayCallbackParams {
@@ -29,6 +36,8 @@ export interface OpayPaymentMetadata {
         planTier: string;
         originalAmountCents: number;
         billingInterval: string;
+        promoCodeId?: string;
+        discountAmount?: number; // Paisa taken off by the promo code
 }
 
 export interface OpayVerificationResult {
@@ -43,6 +52,28 @@ export interface OpayVerificationResult {
         meta_data?: unknown;
 }
 
+export type OpayWebhookStatus = 'pending' | 'success' | 'failed' | 'unknown';
+
+/**
+ * Payment reported by an Opaybd webhook, normalized from its JSON or form body
+ */
+export interface OpayWebhookPayment {
+        transactionId: string;
+        fallbackStatus: OpayWebhookStatus; // Status claimed by the webhook, used when verification is inconclusive
+        paymentMethod: string;
+        paymentAmount: number;
+        paymentFee: number;
+}
+
+export interface OpayWebhookResult {
+        status: 'processed' | 'pending' | 'failed';
+        transactionId: string;
+        planTier?: string;
+        alreadyProcessed?: boolean;
+        verificationStatus?: string;
+        message?: string | null;
+}
+
 export class OpayService {
         private static normalizeMetadata(rawMetadata: unknown): OpayPaymentMetadata | null {
                 if (!rawMetadata) {
@@ -73,6 +104,10 @@ export class OpayService {
                         planTier: String(metadata.planTier ?? ''),
                         originalAmountCents: Number(metadata.originalAmountCents ?? 0),
                         billingInterval: String(metadata.billingInterval ?? ''),
+                        ...(metadata.promoCodeId && {
+                                promoCodeId: String(metadata.promoCodeId),
+                                discountAmount: Number(metadata.discountAmount ?? 0),
+                        }),
                 };
         }
 
@@ -128,6 +163,10 @@ export class OpayService {
                         amount = plan.priceAmount / 100;
                 }
 
+                if (params.discount) {
+                        amount = params.discount.finalAmount / 100;
+                }
+
                 const headers = await this.getHeaders();
 
                 // Prepare metadata to track subscription details
@@ -138,6 +177,10 @@ export class OpayService {
                         planTier: plan.tier,
                         originalAmountCents: plan.priceAmount,
                         billingInterval: plan.billingInterval,
+                        ...(params.discount && {
+                                promoCodeId: params.discount.promoCode.id,
+                                discountAmount: params.discount.discountAmount,
+                        }),
                 };
 
                 // Build webhook URL from success URL (same origin)
@@ -175,25 +218,88 @@ export class OpayService {
                 return data;
         }
 
+        /**
+         * Start an app-managed trial: the plan is active without payment until currentPeriodEnd,
+         * then the user pays through the normal Opaybd checkout or drops to free
+         */
+        static async startTrial({ userId, planId, trialDays }: {
+                userId: string;
+                planId: string;
+                trialDays: number;
+        }): Promise<{ planTier: string; trialEndsAt: Date }> {
+                const [user] = await db.select().from(users).where(eq(users.id, userId));
+                if (!user?.email) {
+                        throw new Error('User not found');
+                }
+
+                const [plan] = await db.select().from(pricingPlans).where(eq(pricingPlans.id, planId));
+                if (!plan) {
+                        throw new Error('Pricing plan not found');
+                }
+
+                const now = new Date();
+                const trialEndsAt = new Date(now.getTime() + trialDays * DAY_MS);
+                const subscriptionId = `opay_trial_${userId}`;
+
+                await db.transaction(async (tx) => {
+                        const claimed = await TrialService.recordTrial({
+                                userId,
+                                email: user.email!,
+                                planId,
+                                paymentProvider: 'opaybd',
+                                subscriptionId,
+                                endsAt: trialEndsAt,
+                        }, tx);
+
+                        if (!claimed) {
+                                throw new TrialError('You have already used your free trial');
+                        }
+
+                        await tx.insert(subscriptions).values({
+                                userId,
+                                stripeSubscriptionId: subscriptionId,
+                                stripePriceId: plan.stripePriceId,
+                                planTier: plan.tier,
+                                status: 'trialing',
+                                currentPeriodStart: now,
+                                currentPeriodEnd: trialEndsAt,
+                                paymentProvider: 'opaybd',
+                                renewalRequired: false,
+                        });
+
+                        await tx.update(users)
+                                .set({
+                                        subscriptionStatus: 'trialing',
+                                        planTier: plan.tier,
+                                })
+                                .where(eq(users.id, userId));
+                });
+
+                console.log(`Started ${trialDays}-day Opaybd trial of ${plan.tier} for user:`, userId);
+                return { planTier: plan.tier, trialEndsAt };
+        }
+
         static async createCreditPayment({
                 userId,
                 creditPlanId,
                 amount,
                 currency,
                 description,
+                discount,
         }: {
                 userId: string;
                 creditPlanId: string;
                 amount: number;
                 currency: string;
                 description: string;
+                discount?: AppliedPromoCode;
         }): Promise<{ paymentUrl: string }> {
                 const [user] = await db.select().from(users).where(eq(users.id, userId));
                 if (!user) {
                         throw new Error('User not found');
                 }
 
-                const amountValue = currency === 'BDT' ? amount / 100 : amount / 100;
+                const amountValue = (discount ? discount.finalAmount : amount) / 100;
 
                 const headers = await this.getHeaders();
 
@@ -201,6 +307,11 @@ export class OpayService {
                         userId,
                         creditPlanId,
                         type: 'credit_purchase',
+                        ...(discount && {
+                                promoCodeId: discount.promoCode.id,
+                                originalAmount: discount.originalAmount,
+                                discountAmount: discount.discountAmount,
+                        }),
                 };
 
                 const origin = process.env.ORIGIN || '';
@@ -263,6 +374,45 @@ export class OpayService {
                 };
         }
 
+        /**
+         * Verify a webhook-reported payment and apply it once Opaybd reports it completed
+         */
+        static async handleWebhookPayment(payment: OpayWebhookPayment): Promise<OpayWebhookResult> {
+                const { transactionId, fallbackStatus, paymentMethod, paymentAmount, paymentFee } = payment;
+                const verification = await this.verifyPayment(transactionId);
+
+                if (verification.status === 'COMPLETED') {
+                        const processed = await this.handlePaymentSuccess({
+                                transactionId,
+                                paymentMethod: verification.payment_method || paymentMethod,
+                                paymentAmount: parseFloat(verification.amount ?? String(paymentAmount)) || paymentAmount,
+                                paymentFee,
+                                status: 'success',
+                        }, verification);
+
+                        return {
+                                status: 'processed',
+                                transactionId,
+                                planTier: processed.planTier,
+                                alreadyProcessed: processed.alreadyProcessed,
+                        };
+                }
+
+                if (verification.status === 'PENDING') {
+                        return {
+                                status: 'pending',
+                                transactionId,
+                        };
+                }
+
+                return {
+                        status: fallbackStatus === 'failed' ? 'failed' : 'pending',
+                        transactionId,
+                        verificationStatus: verification.status,
+                        message: verification.message || null,
+                };
+        }
+
         /**
          * Handle successful payment callback - creates/updates subscription or grants credits
          */
@@ -319,15 +469,7 @@ export class OpayService {
                 const amountCents = this.toCents(normalizedAmount > 0 ? normalizedAmount : (metadata.originalAmountCents / 100));
                 const feeCents = this.toCents(params.paymentFee);
 
-                // Calculate subscription period based on billing interval
-                const periodEnd = new Date(now);
-                if (metadata.billingInterval === 'year') {
-                        periodEnd.setFullYear(periodEnd.getFullYear() + 1);
-                } else {
-                        periodEnd.setMonth(periodEnd.getMonth() + 1);
-                }
-
-                await db.transaction(async (tx) => {
+                const paymentId = await db.transaction(async (tx) => {
                         // Check for existing Opaybd subscription for this user
                         const [existingSub] = await tx
                                 .select()
@@ -337,6 +479,19 @@ export class OpayService {
                                         eq(subscriptions.paymentProvider, 'opaybd')
                                 ));
 
+                        // Paying during a trial keeps the rest of the trial; the paid period starts when it ends
+                        const periodStart = existingSub?.status === 'trialing' && existingSub.currentPeriodEnd > now
+                                ? existingSub.currentPeriodEnd
+                                : now;
+
+                        // Calculate subscription period based on billing interval
+                        const periodEnd = new Date(periodStart);
+                        if (metadata.billingInterval === 'year') {
+                                periodEnd.setFullYear(periodEnd.getFullYear() + 1);
+                        } else {
+                                periodEnd.setMonth(periodEnd.getMonth() + 1);
+                        }
+
                         if (existingSub) {
                                 // Update existing subscription
                                 await tx.update(subscriptions)
@@ -345,9 +500,10 @@ export class OpayService {
                                                 planTier: metadata.planTier as 'free' | 'starter' | 'pro' | 'advanced',
                                                 previousPlanTier: existingSub.planTier,
                                                 status: 'active',
-                                                currentPeriodStart: now,
+                                                currentPeriodStart: periodStart,
                                                 currentPeriodEnd: periodEnd,
                                                 renewalRequired: false,
+                                                renewalReminderSentAt: null,
                                                 opayTransactionId: params.transactionId,
                                                 lastPaymentAmount: amountCents,
                                                 planChangedAt: existingSub.planTier !== metadata.planTier ? now : existingSub.planChangedAt,
@@ -394,7 +550,7 @@ export class OpayService {
                                 ));
 
                         // Record payment history
-                        await tx.insert(paymentHistory).values({
+                        const [payment] = await tx.insert(paymentHistory).values({
                                 userId: metadata.userId,
                                 subscriptionId: subscription?.id || null,
                                 amount: amountCents,
@@ -406,11 +562,29 @@ export class OpayService {
                                 opayPaymentMethod: params.paymentMethod,
                                 opayPaymentFee: feeCents,
                                 paidAt: now,
-                        });
+                        }).returning({ id: paymentHistory.id });
+
+                        if (metadata.promoCodeId) {
+                                await PromoCodeService.recordRedemption({
+                                        promoCodeId: metadata.promoCodeId,
+                                        userId: metadata.userId,
+                                        purchaseType: 'subscription',
+                                        planId: metadata.planId || null,
+                                        paymentProvider: 'opaybd',
+                                        transactionId: params.transactionId,
+                                        originalAmount: amountCents + (metadata.discountAmount ?? 0),
+                                        discountAmount: metadata.discountAmount ?? 0,
+                                        currency: 'bdt',
+                                }, tx);
+                        }
+
+                        return payment.id;
                 });
 
                 console.log('Successfully processed Opaybd payment for user:', metadata.userId);
 
+                await InvoiceService.emailInvoice(paymentId);
+
                 return {
                         planTier: metadata.planTier,
                         userId: metadata.userId,
@@ -424,7 +598,7 @@ export class OpayService {
          */
         private static async handleCreditPurchaseSuccess(
                 transactionId: string,
-                meta: { userId: string; creditPlanId: string; type: string }
+                meta: { userId: string; creditPlanId: string; type: string; promoCodeId?: string; originalAmount?: number; discountAmount?: number }
         ): Promise<{ planTier: string; userId: string; alreadyProcessed: boolean }> {
                 const { CreditService } = await import('./credit-service.js');
 
@@ -439,12 +613,25 @@ export class OpayService {
                         return { planTier: 'credit_purchase', userId: meta.userId, alreadyProcessed: true };
                 }
 
-                try {
-                        await CreditService.purchaseCredits(meta.userId, meta.creditPlanId, 'opaybd', transactionId);
-                        console.log(`Opaybd credit purchase completed: user=${meta.userId}, plan=${meta.creditPlanId}`);
-                } catch (error) {
-                        console.error('Error processing Opaybd credit purchase:', error);
-                }
+                // Errors propagate so the webhook event is marked failed and can be replayed
+                await db.transaction(async (tx) => {
+                        await CreditService.purchaseCredits(meta.userId, meta.creditPlanId, 'opaybd', transactionId, tx);
+
+                        if (meta.promoCodeId) {
+                                await PromoCodeService.recordRedemption({
+                                        promoCodeId: meta.promoCodeId,
+                                        userId: meta.userId,
+                                        purchaseType: 'credits',
+                                        planId: meta.creditPlanId,
+                                        paymentProvider: 'opaybd',
+                                        transactionId,
+                                        originalAmount: Number(meta.originalAmount ?? 0),
+                                        discountAmount: Number(meta.discountAmount ?? 0),
+                                        currency: 'bdt',
+                                }, tx);
+                        }
+                });
+                console.log(`Opaybd credit purchase completed: user=${meta.userId}, plan=${meta.creditPlanId}`);
 
                 return { planTier: 'credit_purchase', userId: meta.userId, alreadyProcessed: false };
         }
@@ -465,7 +652,7 @@ export class OpayService {
 
         /**
          * Mark expired Opaybd subscriptions as needing renewal
-         * This should be called periodically (e.g., in middleware or cron job)
+         * Run hourly by the opaybd-subscription-expiry scheduled job
          */
         static async markExpiredSubscriptionsForRenewal(): Promise<number> {
                 const now = new Date();
@@ -502,6 +689,237 @@ export class OpayService {
                 return expiredSubs.length;
         }
 
+        /**
+         * Email a renewal reminder when an active Opaybd subscription reaches one of the
+         * given days before expiry. Each threshold is emailed at most once per period.
+         */
+        static async sendRenewalReminders(reminderDays: number[]): Promise<{ sent: number; failed: number }> {
+                const thresholds = [...reminderDays].sort((a, b) => a - b);
+                if (thresholds.length === 0) {
+                        return { sent: 0, failed: 0 };
+                }
+
+                const now = new Date();
+                const horizon = new Date(now.getTime() + thresholds[thresholds.length - 1] * DAY_MS);
+
+                const expiring = await db
+                        .select({
+                                subscriptionId: subscriptions.id,
+                                currentPeriodEnd: subscriptions.currentPeriodEnd,
+                                renewalReminderSentAt: subscriptions.renewalReminderSentAt,
+                                email: users.email,
+                                name: users.name,
+                                planName: pricingPlans.name,
+                                planTier: subscriptions.planTier,
+                        })
+                        .from(subscriptions)
+                        .innerJoin(users, eq(subscriptions.userId, users.id))
+                        .leftJoin(pricingPlans, eq(subscriptions.stripePriceId, pricingPlans.stripePriceId))
+                        .where(and(
+                                eq(subscriptions.paymentProvider, 'opaybd'),
+                                eq(subscriptions.status, 'active'),
+                                gt(subscriptions.currentPeriodEnd, now),
+                                lte(subscriptions.currentPeriodEnd, horizon)
+                        ));
+
+                let sent = 0;
+                let failed = 0;
+
+                for (const sub of expiring) {
+                        const daysRemaining = Math.ceil((sub.currentPeriodEnd.getTime() - now.getTime()) / DAY_MS);
+                        const threshold = thresholds.find(days => days >= daysRemaining);
+                        if (!threshold || !sub.email) {
+                                continue;
+                        }
+
+                        // Skip if a reminder already went out since this threshold was reached
+                        const thresholdReachedAt = new Date(sub.currentPeriodEnd.getTime() - threshold * DAY_MS);
+                        if (sub.renewalReminderSentAt && sub.renewalReminderSentAt >= thresholdReachedAt) {
+                                continue;
+                        }
+
+                        const delivered = await sendExpiryWarningEmail({
+                                email: sub.email,
+                                name: sub.name ?? undefined,
+                                planName: sub.planName ?? sub.planTier,
+                                expiryDate: sub.currentPeriodEnd.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+                                daysRemaining,
+                        });
+
+                        if (!delivered) {
+                                failed++;
+                                continue;
+                        }
+
+                        await db.update(subscriptions)
+                                .set({ renewalReminderSentAt: now, updatedAt: now })
+                                .where(eq(subscriptions.id, sub.subscriptionId));
+                        sent++;
+                }
+
+                if (sent > 0 || failed > 0) {
+                        console.log(`Opaybd renewal reminders: ${sent} sent, ${failed} failed`);
+                }
+                return { sent, failed };
+        }
+
+        /**
+         * End Opaybd subscriptions still unrenewed after the grace period and move their users to free
+         */
+        static async downgradeLapsedSubscriptions(gracePeriodDays: number): Promise<number> {
+                const now = new Date();
+                const cutoff = new Date(now.getTime() - gracePeriodDays * DAY_MS);
+
+                const lapsed = await db
+                        .select({ id: subscriptions.id, userId: subscriptions.userId, planTier: subscriptions.planTier })
+                        .from(subscriptions)
+                        .where(and(
+                                eq(subscriptions.paymentProvider, 'opaybd'),
+                                eq(subscriptions.status, 'active'),
+                                lt(subscriptions.currentPeriodEnd, cutoff)
+                        ));
+
+                let downgraded = 0;
+                for (const sub of lapsed) {
+                        // Re-checked in the update: a renewal since the select extends currentPeriodEnd
+                        const ended = await this.endSubscription(sub, now, and(
+                                eq(subscriptions.status, 'active'),
+                                lt(subscriptions.currentPeriodEnd, cutoff)
+                        )!);
+                        if (ended) {
+                                downgraded++;
+                                console.log(`Downgraded lapsed Opaybd subscription ${sub.id} (${sub.planTier}) to free`);
+                        }
+                }
+
+                return downgraded;
+        }
+
+        /**
+         * Email Opaybd trial users once, the given number of days before their trial ends
+         */
+        static async sendTrialEndingReminders(daysBefore: number): Promise<{ sent: number; failed: number }> {
+                const now = new Date();
+                const horizon = new Date(now.getTime() + daysBefore * DAY_MS);
+
+                const ending = await db
+                        .select({
+                                subscriptionId: subscriptions.id,
+                                currentPeriodEnd: subscriptions.currentPeriodEnd,
+                                email: users.email,
+                                name: users.name,
+                                planName: pricingPlans.name,
+                                planTier: subscriptions.planTier,
+                        })
+                        .from(subscriptions)
+                        .innerJoin(users, eq(subscriptions.userId, users.id))
+                        .leftJoin(pricingPlans, eq(subscriptions.stripePriceId, pricingPlans.stripePriceId))
+                        .where(and(
+                                eq(subscriptions.paymentProvider, 'opaybd'),
+                                eq(subscriptions.status, 'trialing'),
+                                isNull(subscriptions.renewalReminderSentAt),
+                                gt(subscriptions.currentPeriodEnd, now),
+                                lte(subscriptions.currentPeriodEnd, horizon)
+                        ));
+
+                let sent = 0;
+                let failed = 0;
+
+                for (const sub of ending) {
+                        if (!sub.email) {
+                                continue;
+                        }
+
+                        const delivered = await sendTrialEndingEmail({
+                                email: sub.email,
+                                name: sub.name ?? undefined,
+                                planName: sub.planName ?? sub.planTier,
+                                trialEndDate: sub.currentPeriodEnd.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+                                daysRemaining: Math.ceil((sub.currentPeriodEnd.getTime() - now.getTime()) / DAY_MS),
+                                billingNote: 'Subscribe before your trial ends to keep your plan. Otherwise your account moves to the free plan.',
+                        });
+
+                        if (!delivered) {
+                                failed++;
+                                continue;
+                        }
+
+                        await db.update(subscriptions)
+                                .set({ renewalReminderSentAt: now, updatedAt: now })
+                                .where(eq(subscriptions.id, sub.subscriptionId));
+                        sent++;
+                }
+
+                return { sent, failed };
+        }
+
+        /**
+         * End Opaybd trials that reached their end without a payment and move their users to free
+         */
+        static async endExpiredTrials(): Promise<number> {
+                const now = new Date();
+
+                const expired = await db
+                        .select({ id: subscriptions.id, userId: subscriptions.userId, planTier: subscriptions.planTier })
+                        .from(subscriptions)
+                        .where(and(
+                                eq(subscriptions.paymentProvider, 'opaybd'),
+                                eq(subscriptions.status, 'trialing'),
+                                lt(subscriptions.currentPeriodEnd, now)
+                        ));
+
+                let ended = 0;
+                for (const sub of expired) {
+                        // Re-checked in the update: paying since the select turns the trial active
+                        if (await this.endSubscription(sub, now, and(eq(subscriptions.status, 'trialing'), lt(subscriptions.currentPeriodEnd, now))!)) {
+                                ended++;
+                                console.log(`Ended Opaybd trial ${sub.id} (${sub.planTier}), user moved to free`);
+                        }
+                }
+
+                return ended;
+        }
+
+        // Cancel the subscription if it still matches `stillEnding`, and move the user to free.
+        // Returns false when the subscription changed since it was selected (nothing is touched then)
+        private static async endSubscription(sub: { id: string; userId: string }, now: Date, stillEnding: SQL): Promise<boolean> {
+                return db.transaction(async (tx) => {
+                        const [ended] = await tx.update(subscriptions)
+                                .set({
+                                        status: 'canceled',
+                                        endedAt: now,
+                                        updatedAt: now,
+                                })
+                                .where(and(eq(subscriptions.id, sub.id), stillEnding))
+                                .returning({ id: subscriptions.id });
+
+                        if (!ended) {
+                                return false;
+                        }
+
+                        // Leave the user alone if they have since subscribed through another provider
+                        const [otherActive] = await tx
+                                .select({ id: subscriptions.id })
+                                .from(subscriptions)
+                                .where(and(
+                                        eq(subscriptions.userId, sub.userId),
+                                        inArray(subscriptions.status, ['active', 'trialing']),
+                                        ne(subscriptions.id, sub.id)
+                                ))
+                                .limit(1);
+
+                        if (!otherActive) {
+                                await tx.update(users)
+                                        .set({
+                                                subscriptionStatus: 'canceled',
+                                                planTier: 'free',
+                                        })
+                                        .where(eq(users.id, sub.userId));
+                        }
+                        return true;
+                });
+        }
+
         /**
          * Get active Opaybd subscription for a user
          */
@@ -512,7 +930,7 @@ export class OpayService {
                         .where(and(
                                 eq(subscriptions.userId, userId),
                                 eq(subscriptions.paymentProvider, 'opaybd'),
-                                eq(subscriptions.status, 'active')
+                                inArray(subscriptions.status, ['active', 'trialing'])
                         ));
 
                 if (!sub) {
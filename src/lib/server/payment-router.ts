@@ -1,6 +1,7 @@
 import { getActivePaymentProvider } from './settings-store.js';
 import { StripeService } from './stripe.js';
 import { OpayService } from './opaybd.js';
+import { PromoCodeService, type AppliedPromoCode } from './promo-codes.js';
 
 export type PaymentProvider = 'stripe' | 'opaybd';
 
@@ -11,6 +12,7 @@ export interface CheckoutResult {
 	sessionId?: string;
 	// Opaybd-specific fields
 	paymentUrl?: string;
+	trialStarted?: boolean; // Opaybd trials start right away without a payment
 }
 
 export interface CreateCheckoutParams {
@@ -19,6 +21,10 @@ export interface CreateCheckoutParams {
 	planId: string;
 	successUrl: string;
 	cancelUrl: string;
+	// Promo code already validated against this plan and provider
+	discount?: AppliedPromoCode;
+	// Free trial the user is eligible for (see TrialService.getTrialDays)
+	trialDays?: number;
 }
 
 /**
@@ -49,6 +55,19 @@ export class PaymentRouter {
 				throw new Error('Opaybd is selected but not configured. Please configure Opaybd credentials in Admin > Payment Methods.');
 			}
 
+			if (params.trialDays) {
+				await OpayService.startTrial({
+					userId: params.userId,
+					planId: params.planId,
+					trialDays: params.trialDays,
+				});
+
+				return {
+					provider: 'opaybd',
+					trialStarted: true,
+				};
+			}
+
 			// For Opaybd, we need to use the callback endpoint as success URL
 			// Extract origin from successUrl (which contains the Stripe template)
 			const origin = params.successUrl.split('/settings/billing')[0];
@@ -62,6 +81,7 @@ export class PaymentRouter {
 				priceId: params.priceId,
 				successUrl: opaySuccessUrl,
 				cancelUrl: opayCancelUrl,
+				discount: params.discount,
 			});
 
 			return {
@@ -74,8 +94,15 @@ export class PaymentRouter {
 		const session = await StripeService.createCheckoutSession({
 			userId: params.userId,
 			priceId: params.priceId,
+			planId: params.planId,
 			successUrl: params.successUrl,
 			cancelUrl: params.cancelUrl,
+			discount: params.discount && {
+				promoCodeId: params.discount.promoCode.id,
+				couponId: await PromoCodeService.getStripeCouponId(params.discount.promoCode),
+				expiresAt: params.discount.reservedUntil,
+			},
+			trialDays: params.trialDays,
 		});
 
 		return {
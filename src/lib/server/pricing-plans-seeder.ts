@@ -24,6 +24,9 @@ export interface PricingPlanSeed {
         videoGenerationLimit: number | null;
         audioGenerationLimit: number | null;
         voiceGenerationLimit: number | null;
+        musicGenerationLimit: number | null;
+        soundEffectGenerationLimit: number | null;
+        transcriptionGenerationLimit: number | null;
         features: string[];
         isActive: boolean;
 }
@@ -42,6 +45,9 @@ const pricingPlansData: PricingPlanSeed[] = [
                 videoGenerationLimit: 0, // No video generation
                 audioGenerationLimit: 5, // 5 audio generations per month
                 voiceGenerationLimit: 5, // 5 voice generations per month
+                musicGenerationLimit: 5, // 5 music generations per month
+                soundEffectGenerationLimit: 5, // 5 sound effects per month
+                transcriptionGenerationLimit: 5, // 5 transcriptions per month
                 features: [
                         '10 text generations per month',
                         '5 image generations per month',
@@ -65,6 +71,9 @@ const pricingPlansData: PricingPlanSeed[] = [
                 videoGenerationLimit: 0, // No video generation
                 audioGenerationLimit: 50, // 50 audio generations per month
                 voiceGenerationLimit: 50, // 50 voice generations per month
+                musicGenerationLimit: 50, // 50 music generations per month
+                soundEffectGenerationLimit: 50, // 50 sound effects per month
+                transcriptionGenerationLimit: 50, // 50 transcriptions per month
                 features: [
                         'All 32+ text generation models',
                         '50 image generations per month',
@@ -87,6 +96,9 @@ const pricingPlansData: PricingPlanSeed[] = [
                 videoGenerationLimit: 5, // 5 videos per month
                 audioGenerationLimit: 500, // 500 audio generations per month
                 voiceGenerationLimit: 500, // 500 voice generations per month
+                musicGenerationLimit: 500, // 500 music generations per month
+                soundEffectGenerationLimit: 500, // 500 sound effects per month
+                transcriptionGenerationLimit: 500, // 500 transcriptions per month
                 features: [
                         'All 32+ text generation models',
                         '500 image generations per month',
@@ -112,6 +124,9 @@ const pricingPlansData: PricingPlanSeed[] = [
                 videoGenerationLimit: 50, // 50 videos per month
                 audioGenerationLimit: null, // Unlimited audio generations
                 voiceGenerationLimit: null, // Unlimited voice generations
+                musicGenerationLimit: null, // Unlimited music generations
+                soundEffectGenerationLimit: null, // Unlimited sound effects
+                transcriptionGenerationLimit: null, // Unlimited transcriptions
                 features: [
                         'Unlimited text generations',
                         'Unlimited image generations',
@@ -140,6 +155,9 @@ const pricingPlansData: PricingPlanSeed[] = [
                 videoGenerationLimit: 0, // No video generation
                 audioGenerationLimit: 50, // 50 audio generations per month
                 voiceGenerationLimit: 50, // 50 voice generations per month
+                musicGenerationLimit: 50, // 50 music generations per month
+                soundEffectGenerationLimit: 50, // 50 sound effects per month
+                transcriptionGenerationLimit: 50, // 50 transcriptions per month
                 features: [
                         'All 32+ text generation models',
                         '50 image generations per month',
@@ -162,6 +180,9 @@ const pricingPlansData: PricingPlanSeed[] = [
                 videoGenerationLimit: 5, // 5 videos per month
                 audioGenerationLimit: 500, // 500 audio generations per month
                 voiceGenerationLimit: 500, // 500 voice generations per month
+                musicGenerationLimit: 500, // 500 music generations per month
+                soundEffectGenerationLimit: 500, // 500 sound effects per month
+                transcriptionGenerationLimit: 500, // 500 transcriptions per month
                 features: [
                         'All 32+ text generation models',
                         '500 image generations per month',
@@ -187,6 +208,9 @@ const pricingPlansData: PricingPlanSeed[] = [
                 videoGenerationLimit: 50, // 50 videos per month
                 audioGenerationLimit: null, // Unlimited audio generations
                 voiceGenerationLimit: null, // Unlimited voice generations
+                musicGenerationLimit: null, // Unlimited music generations
+                soundEffectGenerationLimit: null, // Unlimited sound effects
+                transcriptionGenerationLimit: null, // Unlimited transcriptions
                 features: [
                         'Unlimited text generations',
                         'Unlimited image generations',
@@ -233,6 +257,9 @@ export async function seedPricingPlans(): Promise<void> {
                                                 videoGenerationLimit: planData.videoGenerationLimit,
                                                 audioGenerationLimit: planData.audioGenerationLimit,
                                                 voiceGenerationLimit: planData.voiceGenerationLimit,
+                                                musicGenerationLimit: planData.musicGenerationLimit,
+                                                soundEffectGenerationLimit: planData.soundEffectGenerationLimit,
+                                                transcriptionGenerationLimit: planData.transcriptionGenerationLimit,
                                                 features: planData.features,
                                                 isActive: planData.isActive,
                                                 updatedAt: new Date(),
@@ -0,0 +1,201 @@
+import { env } from '$env/dynamic/private';
+import { db } from './db/index.js';
+import { projectFileChunks, projectFiles } from './db/schema.js';
+import { eq } from 'drizzle-orm';
+import { getEmbeddingModel, getOpenRouterApiKey } from './settings-store.js';
+import {
+        chunkText,
+        createEmbeddingBackend,
+        retrieveChunks,
+        DEFAULT_TOP_K,
+        type EmbeddingBackend,
+        type RetrievedChunk
+} from '../ai/retrieval/index.js';
+
+export interface ProjectFileSummary {
+        filename: string;
+        mimeType: string;
+}
+
+export interface ProjectRetrievalResult {
+        files: ProjectFileSummary[];
+        chunks: RetrievedChunk[];
+}
+
+// After an embeddings failure, index without vectors for a while instead of retrying every message
+const EMBEDDING_RETRY_DELAY = 5 * 60 * 1000;
+
+let embeddingFailedAt = 0;
+
+// Per-file indexing in progress, so concurrent chat requests don't index the same file twice
+const indexing = new Map<string, Promise<void>>();
+
+export class ProjectRetrievalService {
+        /**
+         * Get the configured embeddings backend, or null for BM25-only retrieval.
+         * EMBEDDINGS_BASE_URL selects any OpenAI-compatible endpoint; otherwise the
+         * admin "Embedding Model" setting is used with the OpenRouter key.
+         */
+        static async getEmbeddingBackend(): Promise<EmbeddingBackend | null> {
+                try {
+                        if (env.EMBEDDINGS_BASE_URL && env.EMBEDDINGS_MODEL) {
+                                return createEmbeddingBackend({
+                                        type: 'openai-compatible',
+                                        baseUrl: env.EMBEDDINGS_BASE_URL,
+                                        apiKey: env.EMBEDDINGS_API_KEY || '',
+                                        model: env.EMBEDDINGS_MODEL
+                                });
+                        }
+
+                        const model = await getEmbeddingModel();
+                        const apiKey = (await getOpenRouterApiKey()) || env.OPENROUTER_API_KEY || '';
+                        if (!model || !apiKey) return null;
+
+                        return createEmbeddingBackend({ type: 'openrouter', apiKey, model });
+                } catch (error) {
+                        console.error('Error creating embeddings backend:', error);
+                        return null;
+                }
+        }
+
+        /**
+         * Chunk (and embed, if a backend is given) one file, replacing its previous chunks
+         */
+        static async indexFile(
+                file: { id: string; projectId: string; content: string },
+                embeddings?: EmbeddingBackend | null
+        ): Promise<void> {
+                const pending = indexing.get(file.id);
+                if (pending) return pending;
+
+                const task = this.buildFileIndex(file, embeddings ?? null).finally(() => indexing.delete(file.id));
+                indexing.set(file.id, task);
+                return task;
+        }
+
+        /**
+         * Find the chunks of a project's files most relevant to a query.
+         * Files that were never indexed, or were embedded with a different model, are indexed first.
+         */
+        static async search(projectId: string, query: string, topK = DEFAULT_TOP_K): Promise<ProjectRetrievalResult> {
+                const files = await db
+                        .select({
+                                id: projectFiles.id,
+                                projectId: projectFiles.projectId,
+                                filename: projectFiles.filename,
+                                mimeType: projectFiles.mimeType,
+                                content: projectFiles.content
+                        })
+                        .from(projectFiles)
+                        .where(eq(projectFiles.projectId, projectId));
+
+                if (files.length === 0) return { files: [], chunks: [] };
+
+                const embeddings = await this.getEmbeddingBackend();
+                const rows = await this.ensureIndexed(projectId, files, embeddings);
+                const filenames = new Map(files.map(file => [file.id, file.filename]));
+
+                const chunks = rows.map(row => ({
+                        filename: filenames.get(row.fileId) || 'unknown',
+                        chunkIndex: row.chunkIndex,
+                        startLine: row.startLine,
+                        endLine: row.endLine,
+                        content: row.content,
+                        // Never compare vectors from different models
+                        embedding: embeddings && row.embeddingModel === embeddings.model ? row.embedding : null
+                }));
+
+                const retrieved = await retrieveChunks(query, chunks, { topK, embeddings });
+
+                // Generic questions ("summarize this") may match nothing lexically; fill the
+                // remaining slots with the opening chunk of files not represented yet
+                if (retrieved.length < topK) {
+                        const covered = new Set(retrieved.map(chunk => chunk.filename));
+                        for (const chunk of chunks) {
+                                if (retrieved.length >= topK) break;
+                                if (chunk.chunkIndex !== 0 || covered.has(chunk.filename)) continue;
+                                covered.add(chunk.filename);
+                                retrieved.push({ ...chunk, score: 0 });
+                        }
+                }
+
+                return {
+                        files: files.map(file => ({ filename: file.filename, mimeType: file.mimeType })),
+                        chunks: retrieved
+                };
+        }
+
+        private static async ensureIndexed(
+                projectId: string,
+                files: Array<{ id: string; projectId: string; content: string }>,
+                embeddings: EmbeddingBackend | null
+        ) {
+                let rows = await this.loadChunks(projectId);
+
+                const canEmbed = !!embeddings && Date.now() - embeddingFailedAt > EMBEDDING_RETRY_DELAY;
+                const stale = files.filter(file => {
+                        const fileRows = rows.filter(row => row.fileId === file.id);
+                        if (fileRows.length === 0) return true;
+                        return canEmbed && fileRows.some(row => row.embeddingModel !== embeddings!.model);
+                });
+
+                if (stale.length > 0) {
+                        await Promise.all(stale.map(file => this.indexFile(file, canEmbed ? embeddings : null)));
+                        rows = await this.loadChunks(projectId);
+                }
+
+                return rows;
+        }
+
+        private static loadChunks(projectId: string) {
+                return db
+                        .select({
+                                fileId: projectFileChunks.fileId,
+                                chunkIndex: projectFileChunks.chunkIndex,
+                                startLine: projectFileChunks.startLine,
+                                endLine: projectFileChunks.endLine,
+                                content: projectFileChunks.content,
+                                embedding: projectFileChunks.embedding,
+                                embeddingModel: projectFileChunks.embeddingModel
+                        })
+                        .from(projectFileChunks)
+                        .where(eq(projectFileChunks.projectId, projectId))
+                        .orderBy(projectFileChunks.fileId, projectFileChunks.chunkIndex);
+        }
+
+        private static async buildFileIndex(
+                file: { id: string; projectId: string; content: string },
+                embeddings: EmbeddingBackend | null
+        ): Promise<void> {
+                const chunks = chunkText(file.content);
+
+                let vectors: number[][] | null = null;
+                if (embeddings && chunks.length > 0) {
+                        try {
+                                vectors = await embeddings.embed(chunks.map(chunk => chunk.content));
+                        } catch (error) {
+                                embeddingFailedAt = Date.now();
+                                console.warn('[Retrieval] Embedding failed, indexing for BM25 only:', error instanceof Error ? error.message : error);
+                        }
+                }
+
+                await db.transaction(async (tx) => {
+                        await tx.delete(projectFileChunks).where(eq(projectFileChunks.fileId, file.id));
+
+                        if (chunks.length === 0) return;
+
+                        await tx.insert(projectFileChunks).values(
+                                chunks.map((chunk, i) => ({
+                                        fileId: file.id,
+                                        projectId: file.projectId,
+                                        chunkIndex: chunk.index,
+                                        startLine: chunk.startLine,
+                                        endLine: chunk.endLine,
+                                        content: chunk.content,
+                                        embedding: vectors ? vectors[i] : null,
+                                        embeddingModel: vectors ? embeddings!.model : null
+                                }))
+                        );
+                });
+        }
+}
@@ -0,0 +1,318 @@
+import { db } from './db/index.js';
+import { promoCodes, promoCodeRedemptions, paymentHistory, userCredits } from './db/schema.js';
+import { eq, and, desc, gt, isNotNull, lt, or, sql, type SQL } from 'drizzle-orm';
+import { getStripe } from './stripe.js';
+import { getDiscountAmount } from '../constants/promo-codes.js';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export class PromoCodeError extends Error {
+        constructor(message: string) {
+                super(message);
+                this.name = 'PromoCodeError';
+        }
+}
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type PromoCodeRedemption = typeof promoCodeRedemptions.$inferSelect;
+export type PromoPurchaseType = PromoCodeRedemption['purchaseType'];
+export type PromoPaymentProvider = PromoCodeRedemption['paymentProvider'];
+
+// How long a checkout holds its code. Stripe checkout sessions expire with the reservation (30 minutes minimum)
+export const PROMO_RESERVATION_MINUTES = 60;
+
+export interface PromoCodeContext {
+        userId: string;
+        purchaseType: PromoPurchaseType;
+        planId?: string; // Omit to check the code without a plan (e.g. previewing it on the pricing page)
+}
+
+export interface AppliedPromoCode {
+        promoCode: PromoCode;
+        originalAmount: number; // Cents (USD) or paisa (BDT)
+        discountAmount: number;
+        finalAmount: number;
+        currency: string;
+        reservationId: string; // Release it if the checkout can't be created
+        reservedUntil: Date;
+}
+
+/**
+ * Amount a checkout charges for a pricing or credit plan with the given provider.
+ * Opaybd charges the BDT price (falling back to the USD amount, as OpayService does)
+ */
+export function getCheckoutPrice(
+        plan: { priceAmount: number; priceAmountBdt: number | null; currency: string },
+        provider: PromoPaymentProvider
+): { amount: number; currency: string } {
+        if (provider === 'opaybd') {
+                return { amount: plan.priceAmountBdt ?? plan.priceAmount, currency: 'bdt' };
+        }
+        return { amount: plan.priceAmount, currency: plan.currency.toLowerCase() };
+}
+
+export function normalizePromoCode(code: string): string {
+        return code.trim().toUpperCase();
+}
+
+export class PromoCodeService {
+        /**
+         * Look up a code and check it can be used by this user for this purchase
+         */
+        static async validate(code: string, context: PromoCodeContext): Promise<PromoCode> {
+                const [promoCode] = await db
+                        .select()
+                        .from(promoCodes)
+                        .where(eq(promoCodes.code, normalizePromoCode(code)))
+                        .limit(1);
+
+                if (!promoCode || !promoCode.isActive) {
+                        throw new PromoCodeError('Invalid promo code');
+                }
+
+                if (promoCode.expiresAt && promoCode.expiresAt <= new Date()) {
+                        throw new PromoCodeError('This promo code has expired');
+                }
+
+                await this.checkAvailability(db, promoCode, context.userId);
+
+                if (promoCode.appliesTo === 'subscriptions' && context.purchaseType !== 'subscription') {
+                        throw new PromoCodeError('This promo code can only be used for plan subscriptions');
+                }
+
+                if (promoCode.appliesTo === 'credits' && context.purchaseType !== 'credits') {
+                        throw new PromoCodeError('This promo code can only be used for credit packs');
+                }
+
+                if (context.planId && promoCode.planIds?.length && !promoCode.planIds.includes(context.planId)) {
+                        throw new PromoCodeError("This promo code doesn't apply to this plan");
+                }
+
+                if (promoCode.firstPurchaseOnly && await this.hasPurchased(context.userId)) {
+                        throw new PromoCodeError('This promo code is only valid on your first purchase');
+                }
+
+                return promoCode;
+        }
+
+        /**
+         * Validate a code, work out the discounted amount for a checkout and reserve the code for it.
+         * The reservation counts against maxRedemptions and the user's single use until the payment
+         * completes (recordRedemption) or it expires after PROMO_RESERVATION_MINUTES.
+         */
+        static async apply(
+                code: string,
+                context: PromoCodeContext & { amount: number; currency: string; paymentProvider: PromoPaymentProvider }
+        ): Promise<AppliedPromoCode> {
+                const promoCode = await this.validate(code, context);
+                const discountAmount = this.calculateDiscount(promoCode, context.amount, context.currency);
+                const finalAmount = context.amount - discountAmount;
+
+                // Opaybd can't create a payment for nothing
+                if (finalAmount <= 0 && context.currency === 'bdt') {
+                        throw new PromoCodeError("This promo code covers the full price, which isn't supported for this payment method");
+                }
+
+                const reservedUntil = new Date(Date.now() + PROMO_RESERVATION_MINUTES * 60 * 1000);
+
+                const reservationId = await db.transaction(async (tx) => {
+                        // Parallel checkouts for the same code queue here, so the checks below see each other's reservations
+                        const [current] = await tx.select().from(promoCodes).where(eq(promoCodes.id, promoCode.id)).for('update');
+
+                        await tx
+                                .delete(promoCodeRedemptions)
+                                .where(and(
+                                        eq(promoCodeRedemptions.promoCodeId, promoCode.id),
+                                        eq(promoCodeRedemptions.status, 'reserved'),
+                                        lt(promoCodeRedemptions.reservedUntil, new Date())
+                                ));
+
+                        await this.checkAvailability(tx, current, context.userId);
+
+                        const [reservation] = await tx
+                                .insert(promoCodeRedemptions)
+                                .values({
+                                        promoCodeId: promoCode.id,
+                                        userId: context.userId,
+                                        purchaseType: context.purchaseType,
+                                        planId: context.planId ?? null,
+                                        paymentProvider: context.paymentProvider,
+                                        status: 'reserved',
+                                        reservedUntil,
+                                        originalAmount: context.amount,
+                                        discountAmount,
+                                        currency: context.currency,
+                                })
+                                .returning({ id: promoCodeRedemptions.id });
+                        return reservation.id;
+                });
+
+                return {
+                        promoCode,
+                        originalAmount: context.amount,
+                        discountAmount,
+                        finalAmount,
+                        currency: context.currency,
+                        reservationId,
+                        reservedUntil,
+                };
+        }
+
+        /**
+         * Give back a reservation whose checkout was never created
+         */
+        static async releaseReservation(reservationId: string): Promise<void> {
+                await db
+                        .delete(promoCodeRedemptions)
+                        .where(and(eq(promoCodeRedemptions.id, reservationId), eq(promoCodeRedemptions.status, 'reserved')));
+        }
+
+        static calculateDiscount(promoCode: PromoCode, amount: number, currency: string): number {
+                const discountAmount = getDiscountAmount(promoCode, amount, currency);
+                if (discountAmount === null) {
+                        throw new PromoCodeError("This promo code can't be used with this payment method");
+                }
+                return discountAmount;
+        }
+
+        /**
+         * Stripe coupon mirroring the code's discount, created the first time the code is used with Stripe
+         */
+        static async getStripeCouponId(promoCode: PromoCode): Promise<string> {
+                if (promoCode.stripeCouponId) {
+                        return promoCode.stripeCouponId;
+                }
+
+                const stripe = await getStripe();
+                const coupon = await stripe.coupons.create({
+                        name: promoCode.code,
+                        duration: 'once',
+                        ...(promoCode.maxRedemptions !== null && { max_redemptions: promoCode.maxRedemptions }),
+                        ...(promoCode.discountType === 'percentage'
+                                ? { percent_off: promoCode.percentOff ?? 0 }
+                                : { amount_off: promoCode.amountOff ?? 0, currency: 'usd' }),
+                        metadata: { promoCodeId: promoCode.id },
+                });
+
+                await db
+                        .update(promoCodes)
+                        .set({ stripeCouponId: coupon.id, updatedAt: new Date() })
+                        .where(eq(promoCodes.id, promoCode.id));
+
+                return coupon.id;
+        }
+
+        /**
+         * Record a completed purchase that used a code, turning the user's checkout reservation into a redemption.
+         * Safe to call again for the same transaction. The payment has been taken at this point, so it is
+         * recorded even when the reservation already expired.
+         * Pass the purchase's own transaction so the redemption commits with it.
+         */
+        static async recordRedemption(redemption: {
+                promoCodeId: string;
+                userId: string;
+                purchaseType: PromoPurchaseType;
+                planId: string | null;
+                paymentProvider: PromoPaymentProvider;
+                transactionId: string;
+                originalAmount: number;
+                discountAmount: number;
+                currency: string;
+        }, executor: Executor = db): Promise<void> {
+                await executor.transaction(async (tx) => {
+                        await tx.select({ id: promoCodes.id }).from(promoCodes).where(eq(promoCodes.id, redemption.promoCodeId)).for('update');
+
+                        const [recorded] = await tx
+                                .select({ id: promoCodeRedemptions.id })
+                                .from(promoCodeRedemptions)
+                                .where(and(
+                                        eq(promoCodeRedemptions.promoCodeId, redemption.promoCodeId),
+                                        eq(promoCodeRedemptions.transactionId, redemption.transactionId)
+                                ));
+
+                        if (recorded) {
+                                return;
+                        }
+
+                        const [reservation] = await tx
+                                .select({ id: promoCodeRedemptions.id })
+                                .from(promoCodeRedemptions)
+                                .where(and(
+                                        eq(promoCodeRedemptions.promoCodeId, redemption.promoCodeId),
+                                        eq(promoCodeRedemptions.userId, redemption.userId),
+                                        eq(promoCodeRedemptions.status, 'reserved')
+                                ))
+                                .orderBy(desc(promoCodeRedemptions.reservedUntil))
+                                .limit(1);
+
+                        const values = { ...redemption, status: 'redeemed' as const, reservedUntil: null, redeemedAt: new Date() };
+                        if (reservation) {
+                                await tx.update(promoCodeRedemptions).set(values).where(eq(promoCodeRedemptions.id, reservation.id));
+                        } else {
+                                await tx.insert(promoCodeRedemptions).values(values);
+                        }
+
+                        await tx
+                                .update(promoCodes)
+                                .set({
+                                        redemptionCount: sql`${promoCodes.redemptionCount} + 1`,
+                                        updatedAt: new Date()
+                                })
+                                .where(eq(promoCodes.id, redemption.promoCodeId));
+                });
+        }
+
+        // Rows that use up the code: redemptions plus reservations that haven't expired
+        private static isHeld(): SQL {
+                return or(
+                        eq(promoCodeRedemptions.status, 'redeemed'),
+                        gt(promoCodeRedemptions.reservedUntil, new Date())
+                )!;
+        }
+
+        // The redemption limit counts open reservations too; a user gets one redemption or open reservation per code
+        private static async checkAvailability(executor: Executor, promoCode: PromoCode, userId: string): Promise<void> {
+                const [held] = await executor
+                        .select({
+                                reserved: sql<number>`count(*) filter (where ${promoCodeRedemptions.status} = 'reserved')`.mapWith(Number),
+                                redeemedByUser: sql<number>`count(*) filter (where ${promoCodeRedemptions.userId} = ${userId} and ${promoCodeRedemptions.status} = 'redeemed')`.mapWith(Number),
+                                reservedByUser: sql<number>`count(*) filter (where ${promoCodeRedemptions.userId} = ${userId} and ${promoCodeRedemptions.status} = 'reserved')`.mapWith(Number),
+                        })
+                        .from(promoCodeRedemptions)
+                        .where(and(eq(promoCodeRedemptions.promoCodeId, promoCode.id), this.isHeld()));
+
+                if (promoCode.maxRedemptions !== null && promoCode.redemptionCount + held.reserved >= promoCode.maxRedemptions) {
+                        throw new PromoCodeError('This promo code has reached its redemption limit');
+                }
+
+                if (held.redeemedByUser > 0) {
+                        throw new PromoCodeError('You have already used this promo code');
+                }
+
+                if (held.reservedByUser > 0) {
+                        throw new PromoCodeError(`This promo code is held by another checkout of yours. Complete it, or try again in up to ${PROMO_RESERVATION_MINUTES} minutes`);
+                }
+        }
+
+        // Any paid subscription invoice or purchased credit pack counts as a previous purchase
+        private static async hasPurchased(userId: string): Promise<boolean> {
+                const [payment] = await db
+                        .select({ id: paymentHistory.id })
+                        .from(paymentHistory)
+                        .where(and(eq(paymentHistory.userId, userId), eq(paymentHistory.status, 'succeeded')))
+                        .limit(1);
+
+                if (payment) {
+                        return true;
+                }
+
+                const [credit] = await db
+                        .select({ id: userCredits.id })
+                        .from(userCredits)
+                        .where(and(eq(userCredits.userId, userId), isNotNull(userCredits.transactionId)))
+                        .limit(1);
+
+                return !!credit;
+        }
+}
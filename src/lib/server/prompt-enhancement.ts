@@ -0,0 +1,95 @@
+import { completeText } from '../ai/providers/openrouter.js';
+import { getPromptEnhancementModel } from './settings-store.js';
+
+export class PromptEnhancementError extends Error {
+        constructor(message: string) {
+                super(message);
+                this.name = 'PromptEnhancementError';
+        }
+}
+
+export type PromptEnhancementType = 'image' | 'video';
+
+interface PromptGuidance {
+        matches: (model: string) => boolean;
+        guidance: string;
+}
+
+// Longest prompt accepted for enhancement
+export const MAX_ENHANCEMENT_PROMPT_LENGTH = 4000;
+
+const SYSTEM_PROMPT = `You rewrite prompts for AI media generation models.
+Keep the user's subject, intent and any text they want shown; add concrete visual detail rather than changing the idea.
+Write in the user's language. Reply with the rewritten prompt only: no preamble, quotes, headings or alternatives.`;
+
+// Model-family specific advice, first match wins
+const IMAGE_GUIDANCE: PromptGuidance[] = [
+        {
+                matches: model => model.startsWith('ideogram'),
+                guidance: 'Ideogram renders text well: put any words that should appear in the image in double quotes and say where they go (sign, poster, title). Describe layout, typography and colors.'
+        },
+        {
+                matches: model => model.startsWith('flux'),
+                guidance: 'FLUX follows natural language: write one or two flowing descriptive sentences covering subject, setting, lighting, camera and lens, and mood. Avoid keyword lists and weighting syntax.'
+        },
+        {
+                matches: model => model.startsWith('stable-diffusion'),
+                guidance: 'Stable Diffusion works best with a short description followed by comma-separated details: subject, medium, style, lighting, color palette, composition and quality terms.'
+        }
+];
+
+const DEFAULT_IMAGE_GUIDANCE = 'Describe the subject, setting, composition, lighting, color palette, style or medium, and mood in one detailed paragraph.';
+
+const VIDEO_GUIDANCE: PromptGuidance[] = [
+        {
+                matches: model => model.startsWith('veo'),
+                guidance: 'Veo generates sound: after the visuals and camera movement, add audio cues such as ambient sound, sound effects and any dialogue (with who says it, in quotes).'
+        },
+        {
+                matches: model => /^(kling|wan|pixverse)/.test(model),
+                guidance: 'Describe the motion explicitly: what moves, how and at what pace, followed by the camera move (pan, tilt, dolly, orbit, tracking, static) and shot type. Keep it to a single continuous shot.'
+        }
+];
+
+const DEFAULT_VIDEO_GUIDANCE = 'Describe the scene, the action as it unfolds over the clip, the camera movement and shot type, lighting and mood, as a single continuous shot.';
+
+/**
+ * Optional prompt rewriting for image and video models, using the OpenRouter text model set in
+ * the admin "Prompt Enhancement" setting. Each call counts as a text generation.
+ */
+export class PromptEnhancementService {
+        /**
+         * Whether a prompt enhancement model is configured
+         */
+        static async isEnabled(): Promise<boolean> {
+                return !!(await getPromptEnhancementModel());
+        }
+
+        /**
+         * Rewrite a prompt for the given media model. Throws UsageLimitError when the user is out of text generations.
+         */
+        static async enhance(params: { prompt: string; model: string; type: PromptEnhancementType; userId: string }): Promise<string> {
+                const enhancementModel = await getPromptEnhancementModel();
+                if (!enhancementModel) {
+                        throw new PromptEnhancementError('Prompt enhancement is not configured');
+                }
+
+                const text = await completeText(enhancementModel, params.userId, {
+                        system: SYSTEM_PROMPT,
+                        prompt: `Target: ${params.type} model "${params.model}".\n${this.getGuidance(params.model, params.type)}\n\nPrompt to rewrite:\n${params.prompt}`,
+                        maxTokens: 600
+                });
+
+                const enhanced = text.trim();
+                if (!enhanced) {
+                        throw new PromptEnhancementError('The enhancement model returned an empty prompt');
+                }
+                return enhanced;
+        }
+
+        private static getGuidance(model: string, type: PromptEnhancementType): string {
+                const guidance = type === 'video' ? VIDEO_GUIDANCE : IMAGE_GUIDANCE;
+                const fallback = type === 'video' ? DEFAULT_VIDEO_GUIDANCE : DEFAULT_IMAGE_GUIDANCE;
+                return guidance.find(entry => entry.matches(model))?.guidance ?? fallback;
+        }
+}
@@ -0,0 +1,199 @@
+import { db } from './db/index.js';
+import { scheduledJobRuns } from './db/schema.js';
+import { eq, and, lt, desc, sql } from 'drizzle-orm';
+import { OpayService } from './opaybd.js';
+import { getOpaySettings } from './settings-store.js';
+
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+export type ScheduledJobTrigger = ScheduledJobRun['trigger'];
+
+export interface ScheduledJobResult {
+        processed: number;
+        summary: string;
+}
+
+interface ScheduledJob {
+        label: string;
+        description: string;
+        intervalMs: number;
+        run: () => Promise<ScheduledJobResult>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// First scheduled run waits for startup (and auto-migrations) to settle
+const STARTUP_DELAY_MS = 60 * 1000;
+
+// Matches Stripe's trial_will_end notice, sent three days before a trial ends
+const TRIAL_REMINDER_DAYS = 3;
+
+// A run still "running" after this long is assumed to have crashed with its instance
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+const JOBS = {
+        'opaybd-renewal-reminders': {
+                label: 'Opaybd renewal reminders',
+                description: 'Emails Opaybd subscribers the configured number of days before their plan expires',
+                intervalMs: HOUR_MS,
+                run: async () => {
+                        const { renewalReminderDays } = await getOpaySettings();
+                        const { sent, failed } = await OpayService.sendRenewalReminders(renewalReminderDays);
+                        return {
+                                processed: sent,
+                                summary: failed > 0
+                                        ? `Sent ${sent} reminder(s), ${failed} could not be delivered`
+                                        : `Sent ${sent} reminder(s)`
+                        };
+                }
+        },
+        'opaybd-subscription-expiry': {
+                label: 'Opaybd subscription expiry',
+                description: 'Flags expired Opaybd subscriptions for renewal and downgrades them to free after the grace period',
+                intervalMs: HOUR_MS,
+                run: async () => {
+                        const { gracePeriodDays } = await getOpaySettings();
+                        const flagged = await OpayService.markExpiredSubscriptionsForRenewal();
+                        const downgraded = await OpayService.downgradeLapsedSubscriptions(gracePeriodDays);
+                        return {
+                                processed: flagged + downgraded,
+                                summary: `Flagged ${flagged} for renewal, downgraded ${downgraded} to free`
+                        };
+                }
+        },
+        'opaybd-trials': {
+                label: 'Opaybd trials',
+                description: 'Emails Opaybd trial users before their free trial ends and moves expired trials to free',
+                intervalMs: HOUR_MS,
+                run: async () => {
+                        const { sent, failed } = await OpayService.sendTrialEndingReminders(TRIAL_REMINDER_DAYS);
+                        const ended = await OpayService.endExpiredTrials();
+                        return {
+                                processed: sent + ended,
+                                summary: failed > 0
+                                        ? `Sent ${sent} trial reminder(s), ${failed} could not be delivered, ended ${ended} trial(s)`
+                                        : `Sent ${sent} trial reminder(s), ended ${ended} trial(s)`
+                        };
+                }
+        }
+} satisfies Record<string, ScheduledJob>;
+
+export type ScheduledJobName = keyof typeof JOBS;
+
+export class ScheduledJobService {
+        private static started = false;
+
+        /**
+         * Start the in-process timers for every job. Safe to call more than once.
+         */
+        static start(): void {
+                if (this.started) {
+                        return;
+                }
+                this.started = true;
+
+                for (const name of this.getJobNames()) {
+                        const runOnSchedule = () => {
+                                this.runJob(name, 'schedule').catch(error => {
+                                        console.error(`[Scheduled Jobs] ${name} failed:`, error);
+                                });
+                        };
+
+                        setTimeout(runOnSchedule, STARTUP_DELAY_MS).unref?.();
+                        setInterval(runOnSchedule, JOBS[name].intervalMs).unref?.();
+                }
+        }
+
+        static getJobNames(): ScheduledJobName[] {
+                return Object.keys(JOBS) as ScheduledJobName[];
+        }
+
+        static isJobName(name: string): name is ScheduledJobName {
+                return name in JOBS;
+        }
+
+        static getJobs() {
+                return this.getJobNames().map(name => ({
+                        name,
+                        label: JOBS[name].label,
+                        description: JOBS[name].description,
+                        intervalMs: JOBS[name].intervalMs
+                }));
+        }
+
+        /**
+         * Run a job and record the run. Returns null when another run of the job is in progress.
+         */
+        static async runJob(name: ScheduledJobName, trigger: ScheduledJobTrigger): Promise<ScheduledJobRun | null> {
+                // Free the slot held by a run whose instance died mid-run
+                await db
+                        .update(scheduledJobRuns)
+                        .set({ status: 'failed', error: 'Timed out', finishedAt: new Date() })
+                        .where(and(
+                                eq(scheduledJobRuns.job, name),
+                                eq(scheduledJobRuns.status, 'running'),
+                                lt(scheduledJobRuns.startedAt, new Date(Date.now() - STALE_RUN_MS))
+                        ));
+
+                // The partial unique index on running rows makes this the lock
+                const [run] = await db
+                        .insert(scheduledJobRuns)
+                        .values({ job: name, trigger })
+                        .onConflictDoNothing({
+                                target: scheduledJobRuns.job,
+                                where: sql`${scheduledJobRuns.status} = 'running'`
+                        })
+                        .returning();
+
+                if (!run) {
+                        return null;
+                }
+
+                try {
+                        const result = await JOBS[name].run();
+                        const [finished] = await db
+                                .update(scheduledJobRuns)
+                                .set({
+                                        status: 'succeeded',
+                                        processed: result.processed,
+                                        summary: result.summary,
+                                        finishedAt: new Date()
+                                })
+                                .where(eq(scheduledJobRuns.id, run.id))
+                                .returning();
+                        return finished;
+                } catch (error) {
+                        console.error(`[Scheduled Jobs] ${name} failed:`, error);
+                        const [finished] = await db
+                                .update(scheduledJobRuns)
+                                .set({
+                                        status: 'failed',
+                                        error: error instanceof Error ? error.message : String(error),
+                                        finishedAt: new Date()
+                                })
+                                .where(eq(scheduledJobRuns.id, run.id))
+                                .returning();
+                        return finished;
+                }
+        }
+
+        static async getRecentRuns(limit: number, offset = 0): Promise<ScheduledJobRun[]> {
+                return db
+                        .select()
+                        .from(scheduledJobRuns)
+                        .orderBy(desc(scheduledJobRuns.startedAt))
+                        .limit(limit)
+                        .offset(offset);
+        }
+
+        /**
+         * Most recent run of each job
+         */
+        static async getLastRuns(): Promise<Partial<Record<ScheduledJobName, ScheduledJobRun>>> {
+                const runs = await db
+                        .selectDistinctOn([scheduledJobRuns.job])
+                        .from(scheduledJobRuns)
+                        .orderBy(scheduledJobRuns.job, desc(scheduledJobRuns.startedAt));
+
+                return Object.fromEntries(runs.map(run => [run.job, run]));
+        }
+}
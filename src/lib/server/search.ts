@@ -0,0 +1,215 @@
+import { db } from './db/index.js';
+import { chatMessages, chats, images, music, soundEffects, transcriptions, videos } from './db/schema.js';
+import { and, desc, eq, sql, type SQL } from 'drizzle-orm';
+import type { PgColumn } from 'drizzle-orm/pg-core';
+
+export const SEARCH_RESULT_TYPES = ['chat', 'message', 'image', 'video', 'music', 'sound_effect', 'transcription'] as const;
+
+export type SearchResultType = (typeof SEARCH_RESULT_TYPES)[number];
+
+export interface SnippetPart {
+        text: string;
+        match: boolean;
+}
+
+export interface SearchResult {
+        type: SearchResultType;
+        id: string;
+        title: string; // Chat title, or a label for library items
+        snippet: SnippetPart[]; // Matched text with highlighted terms
+        url: string;
+        chatId: string | null;
+        createdAt: Date;
+        rank: number;
+}
+
+export const DEFAULT_RESULTS_PER_TYPE = 5;
+export const MAX_RESULTS_PER_TYPE = 20;
+
+// 'simple' doesn't stem, so it works the same for every UI language (en, de, es, pt, ar).
+// Queries must use the same expressions as the GIN indexes in schema.ts to hit them.
+const SEARCH_CONFIG = sql.raw(`'simple'`);
+
+// Terms are reduced to letters and digits, so they're safe inside to_tsquery syntax
+const MAX_QUERY_TERMS = 10;
+
+// Control characters can't appear in normal text, so they mark highlights unambiguously
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+const HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+interface SourceRow {
+        id: string;
+        title: string | null;
+        headline: string;
+        chatId: string | null;
+        createdAt: Date;
+        rank: number;
+}
+
+export class SearchService {
+        /**
+         * Turn user input into a prefix tsquery ("ima gen" matches "image generation"), or null if nothing searchable
+         */
+        static buildQuery(input: string): string | null {
+                const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.slice(0, MAX_QUERY_TERMS) ?? [];
+                return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+        }
+
+        /**
+         * Search the user's chats, messages and library items, best matches first within each type
+         */
+        static async search(
+                userId: string,
+                input: string,
+                options: { types?: SearchResultType[]; limit?: number } = {}
+        ): Promise<SearchResult[]> {
+                const tsquery = this.buildQuery(input);
+                if (!tsquery) return [];
+
+                const query = sql`to_tsquery(${SEARCH_CONFIG}, ${tsquery})`;
+                const limit = Math.min(Math.max(options.limit ?? DEFAULT_RESULTS_PER_TYPE, 1), MAX_RESULTS_PER_TYPE);
+                const types = options.types?.length ? options.types : SEARCH_RESULT_TYPES;
+
+                const searches = types.map(async (type): Promise<SearchResult[]> => {
+                        const rows = await this.searchType(type, userId, query, limit);
+                        return rows.map(row => ({
+                                type,
+                                id: row.id,
+                                title: row.title || '',
+                                snippet: this.parseHeadline(row.headline),
+                                url: this.getUrl(type, row),
+                                chatId: row.chatId,
+                                createdAt: row.createdAt,
+                                rank: Number(row.rank)
+                        }));
+                });
+
+                return (await Promise.all(searches)).flat();
+        }
+
+        private static searchType(type: SearchResultType, userId: string, query: SQL, limit: number): Promise<SourceRow[]> {
+                switch (type) {
+                        case 'chat': {
+                                const vector = sql`to_tsvector(${SEARCH_CONFIG}, ${chats.title})`;
+                                return db
+                                        .select(this.columns(vector, query, chats.title, { id: chats.id, title: chats.title, chatId: chats.id, createdAt: chats.updatedAt }))
+                                        .from(chats)
+                                        .where(and(eq(chats.userId, userId), sql`${vector} @@ ${query}`))
+                                        .orderBy(desc(sql`rank`))
+                                        .limit(limit);
+                        }
+                        case 'message': {
+                                const vector = sql`to_tsvector(${SEARCH_CONFIG}, ${chatMessages.content})`;
+                                return db
+                                        .select(this.columns(vector, query, chatMessages.content, {
+                                                id: chatMessages.id,
+                                                title: chats.title,
+                                                chatId: chatMessages.chatId,
+                                                createdAt: chatMessages.createdAt
+                                        }))
+                                        .from(chatMessages)
+                                        .innerJoin(chats, eq(chatMessages.chatId, chats.id))
+                                        .where(and(eq(chats.userId, userId), sql`${vector} @@ ${query}`))
+                                        .orderBy(desc(sql`rank`))
+                                        .limit(limit);
+                        }
+                        case 'image': {
+                                const vector = sql`to_tsvector(${SEARCH_CONFIG}, coalesce(${images.prompt}, ''))`;
+                                return db
+                                        .select(this.columns(vector, query, images.prompt, { id: images.id, title: images.model, chatId: images.chatId, createdAt: images.createdAt }))
+                                        .from(images)
+                                        .where(and(eq(images.userId, userId), sql`${vector} @@ ${query}`))
+                                        .orderBy(desc(sql`rank`))
+                                        .limit(limit);
+                        }
+                        case 'video': {
+                                const vector = sql`to_tsvector(${SEARCH_CONFIG}, coalesce(${videos.prompt}, ''))`;
+                                return db
+                                        .select(this.columns(vector, query, videos.prompt, { id: videos.id, title: videos.model, chatId: videos.chatId, createdAt: videos.createdAt }))
+                                        .from(videos)
+                                        .where(and(eq(videos.userId, userId), sql`${vector} @@ ${query}`))
+                                        .orderBy(desc(sql`rank`))
+                                        .limit(limit);
+                        }
+                        case 'music': {
+                                const vector = sql`to_tsvector(${SEARCH_CONFIG}, ${music.prompt})`;
+                                return db
+                                        .select(this.columns(vector, query, music.prompt, { id: music.id, title: music.model, chatId: music.chatId, createdAt: music.createdAt }))
+                                        .from(music)
+                                        .where(and(eq(music.userId, userId), sql`${vector} @@ ${query}`))
+                                        .orderBy(desc(sql`rank`))
+                                        .limit(limit);
+                        }
+                        case 'sound_effect': {
+                                const vector = sql`to_tsvector(${SEARCH_CONFIG}, ${soundEffects.text})`;
+                                return db
+                                        .select(this.columns(vector, query, soundEffects.text, {
+                                                id: soundEffects.id,
+                                                title: soundEffects.model,
+                                                chatId: soundEffects.chatId,
+                                                createdAt: soundEffects.createdAt
+                                        }))
+                                        .from(soundEffects)
+                                        .where(and(eq(soundEffects.userId, userId), sql`${vector} @@ ${query}`))
+                                        .orderBy(desc(sql`rank`))
+                                        .limit(limit);
+                        }
+                        case 'transcription': {
+                                const vector = sql`to_tsvector(${SEARCH_CONFIG}, ${transcriptions.text})`;
+                                return db
+                                        .select(this.columns(vector, query, transcriptions.text, {
+                                                id: transcriptions.id,
+                                                title: transcriptions.filename,
+                                                chatId: transcriptions.chatId,
+                                                createdAt: transcriptions.createdAt
+                                        }))
+                                        .from(transcriptions)
+                                        .where(and(eq(transcriptions.userId, userId), sql`${vector} @@ ${query}`))
+                                        .orderBy(desc(sql`rank`))
+                                        .limit(limit);
+                        }
+                }
+        }
+
+        // Shared select list: rank and headline are computed from the searched column
+        private static columns<T extends { id: PgColumn; title: PgColumn; chatId: PgColumn; createdAt: PgColumn }>(
+                vector: SQL,
+                query: SQL,
+                text: PgColumn,
+                fields: T
+        ) {
+                return {
+                        ...fields,
+                        rank: sql<number>`ts_rank(${vector}, ${query})`.as('rank'),
+                        headline: sql<string>`ts_headline(${SEARCH_CONFIG}, coalesce(${text}, ''), ${query}, ${HEADLINE_OPTIONS})`
+                };
+        }
+
+        private static parseHeadline(headline: string): SnippetPart[] {
+                const parts: SnippetPart[] = [];
+                for (const [i, segment] of headline.split(MATCH_START).entries()) {
+                        const [matched, rest] = i === 0 ? [null, segment] : segment.split(MATCH_END);
+                        if (matched) parts.push({ text: matched, match: true });
+                        if (rest) parts.push({ text: rest, match: false });
+                }
+                return parts;
+        }
+
+        private static getUrl(type: SearchResultType, row: SourceRow): string {
+                switch (type) {
+                        case 'chat':
+                        case 'message':
+                                return `/chat/${row.chatId}`;
+                        case 'image':
+                                return '/library?type=images';
+                        case 'video':
+                                return '/library?type=videos';
+                        case 'music':
+                                return '/audio?tab=music';
+                        case 'sound_effect':
+                        case 'transcription':
+                                return '/audio';
+                }
+        }
+}
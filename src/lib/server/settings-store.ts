@@ -19,6 +19,8 @@ export interface CachedSettings {
   stripeSecretKey: string;
   stripeWebhookSecret: string;
   opayApiKey: string;
+  opayRenewalReminderDays: number[]; // Days before expiry to email a renewal reminder
+  opayGracePeriodDays: number; // Days after expiry before downgrading to free
 
   // OAuth settings
   googleEnabled: boolean;
@@ -39,6 +41,9 @@ export interface CachedSettings {
   openrouterSystemPrompt: string;
   replicateApiKey: string;
   elevenlabsApiKey: string;
+  braveSearchApiKey: string;
+  embeddingModel: string;
+  promptEnhancementModel: string;
 
   // Cloud Storage settings
   r2AccountId: string;
@@ -147,6 +152,8 @@ const DEFAULT_SETTINGS: Omit<CachedSettings, 'lastUpdated'> = {
   stripeSecretKey: "",
   stripeWebhookSecret: "",
   opayApiKey: "",
+  opayRenewalReminderDays: [7, 3, 1],
+  opayGracePeriodDays: 3,
   googleEnabled: true,
   googleClientId: "",
   googleClientSecret: "",
@@ -163,6 +170,9 @@ const DEFAULT_SETTINGS: Omit<CachedSettings, 'lastUpdated'> = {
   openrouterSystemPrompt: "",
   replicateApiKey: "",
   elevenlabsApiKey: "",
+  braveSearchApiKey: "",
+  embeddingModel: "",
+  promptEnhancementModel: "",
   r2AccountId: "",
   r2AccessKeyId: "",
   r2SecretAccessKey: "",
@@ -179,6 +189,24 @@ const DEFAULT_SETTINGS: Omit<CachedSettings, 'lastUpdated'> = {
   currentFavicon: null // Default no custom favicon
 };
 
+/**
+ * Parse a comma-separated list of days (e.g. "7,3,1"), largest first. Returns null if invalid
+ */
+export function parseReminderDays(value: string | undefined): number[] | null {
+  if (!value) return null;
+  const days = value.split(',').map(day => Number(day.trim()));
+  if (days.length === 0 || days.some(day => !Number.isInteger(day) || day < 1 || day > 60)) {
+    return null;
+  }
+  return [...new Set(days)].sort((a, b) => b - a);
+}
+
+export function parseGracePeriodDays(value: string | undefined): number | null {
+  if (!value) return null;
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 && days <= 60 ? days : null;
+}
+
 class SettingsStore {
   private cache: CachedSettings | null = null;
   private initPromise: Promise<CachedSettings> | null = null;
@@ -316,6 +344,8 @@ class SettingsStore {
         stripeSecretKey: paymentSettings.stripe_secret_key || DEFAULT_SETTINGS.stripeSecretKey,
         stripeWebhookSecret: paymentSettings.stripe_webhook_secret || DEFAULT_SETTINGS.stripeWebhookSecret,
         opayApiKey: paymentSettings.opay_api_key || DEFAULT_SETTINGS.opayApiKey,
+        opayRenewalReminderDays: parseReminderDays(paymentSettings.opay_renewal_reminder_days) ?? DEFAULT_SETTINGS.opayRenewalReminderDays,
+        opayGracePeriodDays: parseGracePeriodDays(paymentSettings.opay_grace_period_days) ?? DEFAULT_SETTINGS.opayGracePeriodDays,
         googleEnabled: oauthSettings.google_enabled !== 'false',
         googleClientId: oauthSettings.google_client_id || DEFAULT_SETTINGS.googleClientId,
         googleClientSecret: oauthSettings.google_client_secret || DEFAULT_SETTINGS.googleClientSecret,
@@ -332,6 +362,9 @@ class SettingsStore {
         openrouterSystemPrompt: aiModelSettings.openrouter_system_prompt || DEFAULT_SETTINGS.openrouterSystemPrompt,
         replicateApiKey: aiModelSettings.replicate_api_key || DEFAULT_SETTINGS.replicateApiKey,
         elevenlabsApiKey: aiModelSettings.elevenlabs_api_key || DEFAULT_SETTINGS.elevenlabsApiKey,
+        braveSearchApiKey: aiModelSettings.brave_search_api_key || DEFAULT_SETTINGS.braveSearchApiKey,
+        embeddingModel: aiModelSettings.embedding_model || DEFAULT_SETTINGS.embeddingModel,
+        promptEnhancementModel: aiModelSettings.prompt_enhancement_model || DEFAULT_SETTINGS.promptEnhancementModel,
         r2AccountId: cloudStorageSettings.r2_account_id || DEFAULT_SETTINGS.r2AccountId,
         r2AccessKeyId: cloudStorageSettings.r2_access_key_id || DEFAULT_SETTINGS.r2AccessKeyId,
         r2SecretAccessKey: cloudStorageSettings.r2_secret_access_key || DEFAULT_SETTINGS.r2SecretAccessKey,
@@ -490,7 +523,9 @@ export async function getOpayApiKey(): Promise<string> {
 export async function getOpaySettings() {
   const settings = await settingsStore.getSettings();
   return {
-    apiKey: settings.opayApiKey
+    apiKey: settings.opayApiKey,
+    renewalReminderDays: settings.opayRenewalReminderDays,
+    gracePeriodDays: settings.opayGracePeriodDays
   };
 }
 
@@ -570,7 +605,8 @@ export async function getAIModelSettings() {
   return {
     openrouterApiKey: settings.openrouterApiKey,
     replicateApiKey: settings.replicateApiKey,
-    elevenlabsApiKey: settings.elevenlabsApiKey
+    elevenlabsApiKey: settings.elevenlabsApiKey,
+    braveSearchApiKey: settings.braveSearchApiKey
   };
 }
 
@@ -588,6 +624,21 @@ export async function getElevenLabsApiKey(): Promise<string> {
   return typeof key === 'string' ? key : '';
 }
 
+export async function getBraveSearchApiKey(): Promise<string> {
+  const key = await settingsStore.getSetting('braveSearchApiKey');
+  return typeof key === 'string' ? key : '';
+}
+
+export async function getEmbeddingModel(): Promise<string> {
+  const model = await settingsStore.getSetting('embeddingModel');
+  return typeof model === 'string' ? model : '';
+}
+
+export async function getPromptEnhancementModel(): Promise<string> {
+  const model = await settingsStore.getSetting('promptEnhancementModel');
+  return typeof model === 'string' ? model : '';
+}
+
 // Cloud Storage settings convenience functions
 export async function getCloudStorageSettingsFromCache() {
   const settings = await settingsStore.getSettings();
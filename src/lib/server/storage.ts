@@ -578,7 +578,7 @@ class StorageService {
 		return new LocalStorageProvider(this.config.localPath || 'static/uploads');
 	}
 
-	generateFilePath(userId: string, fileType: 'images' | 'videos' | 'audio', filename: string, category: 'generated' | 'uploaded' = 'generated'): string {
+	generateFilePath(userId: string, fileType: 'images' | 'videos' | 'audio' | 'documents' | 'attachments', filename: string, category: 'generated' | 'uploaded' = 'generated'): string {
 		return `${userId}/${fileType}/${category}/${filename}`;
 	}
 
@@ -600,7 +600,7 @@ class StorageService {
 		return `${id}.${ext}`;
 	}
 
-	async upload(file: StorageFile, userId: string, fileType: 'images' | 'videos' | 'audio', category: 'generated' | 'uploaded' = 'generated'): Promise<StorageResult> {
+	async upload(file: StorageFile, userId: string, fileType: 'images' | 'videos' | 'audio' | 'documents' | 'attachments', category: 'generated' | 'uploaded' = 'generated'): Promise<StorageResult> {
 		await this.ensureInitialized();
 
 		const filename = file.filename || this.generateFilename('file');
@@ -2,8 +2,14 @@ import Stripe from 'stripe';
 import { env } from '$env/dynamic/private';
 import { db } from './db/index.js';
 import { users, subscriptions, pricingPlans, paymentHistory } from './db/schema.js';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
 import { getStripeSecretKey } from './settings-store.js';
+import { sendTrialEndingEmail } from './email.js';
+import { TrialService } from './trials.js';
+import { InvoiceService } from './invoices.js';
+
+// Subscription metadata flag set when an admin extends a paid subscription with trial_end
+const EXTENDED_PAID_PERIOD_KEY = 'extendedPaidPeriod';
 
 // Cache for the Stripe instance to avoid creating it repeatedly
 let stripeInstance: Stripe | null = null;
@@ -66,8 +72,20 @@ export interface CreateCustomerParams {
 export interface CreateCheckoutSessionParams {
         userId: string;
         priceId: string;
+        planId?: string;
         successUrl: string;
         cancelUrl: string;
+        discount?: CheckoutDiscount;
+        trialDays?: number; // Already checked with TrialService
+}
+
+/**
+ * Promo code applied to a checkout, as the Stripe coupon mirroring it
+ */
+export interface CheckoutDiscount {
+        promoCodeId: string;
+        couponId: string;
+        expiresAt: Date; // End of the code's reservation; the session can't be paid after it
 }
 
 export interface SubscriptionWithPlan {
@@ -143,8 +161,11 @@ export class StripeService {
         static async createCheckoutSession({
                 userId,
                 priceId,
+                planId,
                 successUrl,
                 cancelUrl,
+                discount,
+                trialDays,
         }: CreateCheckoutSessionParams): Promise<Stripe.Checkout.Session> {
                 try {
                         const customerId = await this.getOrCreateCustomer(userId);
@@ -162,8 +183,15 @@ export class StripeService {
                                 mode: 'subscription',
                                 return_url: successUrl,
                                 // automatic_tax: { enabled: true }, // Disabled for development - enable when business address is configured
+                                ...(discount && {
+                                        discounts: [{ coupon: discount.couponId }],
+                                        expires_at: Math.floor(discount.expiresAt.getTime() / 1000),
+                                }),
+                                ...(trialDays && { subscription_data: { trial_period_days: trialDays } }),
                                 metadata: {
                                         userId,
+                                        ...(planId && { planId }),
+                                        ...(discount && { promoCodeId: discount.promoCodeId }),
                                 },
                         });
 
@@ -181,6 +209,7 @@ export class StripeService {
                 currency,
                 name,
                 description,
+                discount,
         }: {
                 userId: string;
                 creditPlanId: string;
@@ -188,6 +217,7 @@ export class StripeService {
                 currency: string;
                 name: string;
                 description: string;
+                discount?: CheckoutDiscount;
         }): Promise<Stripe.Checkout.Session> {
                 try {
                         const customerId = await this.getOrCreateCustomer(userId);
@@ -211,10 +241,15 @@ export class StripeService {
                                 ],
                                 mode: 'payment',
                                 return_url: `${process.env.ORIGIN || ''}/settings/billing?credit_purchase=success`,
+                                ...(discount && {
+                                        discounts: [{ coupon: discount.couponId }],
+                                        expires_at: Math.floor(discount.expiresAt.getTime() / 1000),
+                                }),
                                 metadata: {
                                         userId,
                                         creditPlanId,
                                         type: 'credit_purchase',
+                                        ...(discount && { promoCodeId: discount.promoCodeId }),
                                 },
                         });
 
@@ -257,7 +292,8 @@ export class StripeService {
                                 .where(
                                         and(
                                                 eq(subscriptions.userId, userId),
-                                                eq(subscriptions.status, 'active') // Status is 'active' even for cancelled subscriptions until period ends
+                                                // Status is 'active' even for cancelled subscriptions until period ends
+                                                inArray(subscriptions.status, ['active', 'trialing'])
                                         )
                                 );
 
@@ -367,6 +403,10 @@ export class StripeService {
                                 throw error;
                         }
 
+                        if (subscription.status === 'trialing' && subscription.trial_end) {
+                                await this.recordTrial(subscription, userId, plan.id);
+                        }
+
                         // Update user subscription status
                         await db
                                 .update(users)
@@ -410,7 +450,7 @@ export class StripeService {
 
                         // Update subscription record with comprehensive validation
                         const updateData = {
-                                status: subscription.status as any,
+                                status: this.localStatus(subscription) as any,
                                 currentPeriodStart: validateTimestamp((subscription as any).current_period_start, 'periodStart'),
                                 currentPeriodEnd: validateTimestamp((subscription as any).current_period_end, 'periodEnd'),
                                 cancelAtPeriodEnd: Boolean(subscription.cancel_at_period_end),
@@ -516,7 +556,7 @@ export class StripeService {
                         await db
                                 .update(users)
                                 .set({
-                                        subscriptionStatus: subscription.status as any,
+                                        subscriptionStatus: this.localStatus(subscription) as any,
                                         planTier: planTier,
                                 })
                                 .where(eq(users.id, userId));
@@ -570,6 +610,152 @@ export class StripeService {
                 }
         }
 
+        /**
+         * Apply a verified webhook event (also used to replay logged events)
+         */
+        static async handleWebhookEvent(event: Stripe.Event): Promise<void> {
+                switch (event.type) {
+                        case 'checkout.session.completed': {
+                                const session = event.data.object as Stripe.Checkout.Session;
+                                console.log('Checkout session completed:', session.id);
+
+                                // Handle setting payment method as default for the customer
+                                await this.handleCheckoutSessionCompleted(session);
+
+                                // The subscription will be handled by the customer.subscription.created event
+                                // This event is mainly for one-time payments or initial setup
+                                break;
+                        }
+
+                        case 'customer.subscription.created': {
+                                const subscription = event.data.object as Stripe.Subscription;
+                                console.log('Subscription created:', subscription.id);
+                                await this.handleSubscriptionCreated(subscription);
+                                break;
+                        }
+
+                        case 'customer.subscription.updated': {
+                                const subscription = event.data.object as Stripe.Subscription;
+                                console.log('Subscription updated:', subscription.id);
+                                await this.handleSubscriptionUpdated(subscription);
+                                break;
+                        }
+
+                        case 'customer.subscription.deleted': {
+                                const subscription = event.data.object as Stripe.Subscription;
+                                console.log('Subscription deleted:', subscription.id);
+                                await this.handleSubscriptionDeleted(subscription);
+                                break;
+                        }
+
+                        case 'invoice.payment_succeeded': {
+                                const invoice = event.data.object as Stripe.Invoice;
+                                console.log('Invoice payment succeeded:', invoice.id);
+                                await this.handleInvoicePaymentSucceeded(invoice);
+                                break;
+                        }
+
+                        case 'invoice.payment_failed': {
+                                const invoice = event.data.object as Stripe.Invoice;
+                                console.log('Invoice payment failed:', invoice.id);
+                                await this.handleInvoicePaymentFailed(invoice);
+                                break;
+                        }
+
+                        case 'customer.subscription.trial_will_end': {
+                                const subscription = event.data.object as Stripe.Subscription;
+                                console.log('Subscription trial will end:', subscription.id);
+                                await this.handleTrialWillEnd(subscription);
+                                break;
+                        }
+
+                        case 'payment_method.attached': {
+                                const paymentMethod = event.data.object as Stripe.PaymentMethod;
+                                console.log('Payment method attached:', paymentMethod.id);
+                                // Payment method attached to customer - no action needed
+                                break;
+                        }
+
+                        default:
+                                console.log(`Unhandled event type: ${event.type}`);
+                }
+        }
+
+        /**
+         * Claim the user's one trial for a trialing subscription. If they already had one
+         * (e.g. two checkouts opened at once), the trial is ended and billing starts now.
+         */
+        private static async recordTrial(subscription: Stripe.Subscription, userId: string, planId: string): Promise<void> {
+                const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+                if (!user?.email) {
+                        return;
+                }
+
+                const claimed = await TrialService.recordTrial({
+                        userId,
+                        email: user.email,
+                        planId,
+                        paymentProvider: 'stripe',
+                        subscriptionId: subscription.id,
+                        endsAt: new Date(subscription.trial_end! * 1000),
+                });
+
+                if (!claimed) {
+                        console.warn(`User ${userId} already had a trial, ending trial on ${subscription.id}`);
+                        const stripe = await getStripe();
+                        await stripe.subscriptions.update(subscription.id, { trial_end: 'now' });
+                }
+        }
+
+        /**
+         * Email the user three days before their trial converts (sent by Stripe's trial_will_end event)
+         */
+        static async handleTrialWillEnd(subscription: Stripe.Subscription): Promise<void> {
+                if (!subscription.trial_end || subscription.status !== 'trialing') {
+                        return;
+                }
+
+                // An admin extension of a paid subscription is not a free trial
+                if (this.isExtendedPaidPeriod(subscription)) {
+                        return;
+                }
+
+                const [record] = await db
+                        .select({
+                                email: users.email,
+                                name: users.name,
+                                planName: pricingPlans.name,
+                                priceAmount: pricingPlans.priceAmount,
+                                currency: pricingPlans.currency,
+                        })
+                        .from(subscriptions)
+                        .innerJoin(users, eq(subscriptions.userId, users.id))
+                        .leftJoin(pricingPlans, eq(subscriptions.stripePriceId, pricingPlans.stripePriceId))
+                        .where(eq(subscriptions.stripeSubscriptionId, subscription.id))
+                        .limit(1);
+
+                if (!record?.email) {
+                        console.warn('No user found for trialing subscription:', subscription.id);
+                        return;
+                }
+
+                const trialEnd = new Date(subscription.trial_end * 1000);
+                const amount = record.priceAmount !== null
+                        ? new Intl.NumberFormat('en-US', { style: 'currency', currency: (record.currency ?? 'usd').toUpperCase() }).format(record.priceAmount / 100)
+                        : null;
+
+                await sendTrialEndingEmail({
+                        email: record.email,
+                        name: record.name ?? undefined,
+                        planName: record.planName ?? 'your plan',
+                        trialEndDate: trialEnd.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+                        daysRemaining: Math.max(0, Math.ceil((trialEnd.getTime() - Date.now()) / (24 * 60 * 60 * 1000))),
+                        billingNote: subscription.cancel_at_period_end
+                                ? 'Your subscription is set to cancel, so you will not be charged and your account will move to the free plan when the trial ends.'
+                                : `Your saved payment method will be charged${amount ? ` ${amount}` : ''} when the trial ends unless you cancel before then.`,
+                });
+        }
+
         static async handleInvoicePaymentSucceeded(invoice: Stripe.Invoice): Promise<void> {
                 try {
                         console.log('Processing invoice payment succeeded:', invoice.id);
@@ -587,6 +773,20 @@ export class StripeService {
                                 throw new Error('User ID not found in customer metadata');
                         }
 
+                        // An invoice is only recorded once, even if its event is delivered or replayed again
+                        if (invoice.id) {
+                                const [existingPayment] = await db
+                                        .select({ id: paymentHistory.id })
+                                        .from(paymentHistory)
+                                        .where(eq(paymentHistory.stripeInvoiceId, invoice.id))
+                                        .limit(1);
+
+                                if (existingPayment) {
+                                        console.log('Invoice payment already recorded:', invoice.id);
+                                        return;
+                                }
+                        }
+
                         // Get subscription record - handle cases where it might not exist yet
                         let subscription = null;
                         if ((invoice as any).subscription) {
@@ -623,14 +823,20 @@ export class StripeService {
                         };
 
                         console.log('Inserting payment history with data:', paymentData);
-                        await db.insert(paymentHistory).values(paymentData);
+                        const [payment] = await db
+                                .insert(paymentHistory)
+                                .values(paymentData)
+                                .returning({ id: paymentHistory.id });
+
+                        await InvoiceService.emailInvoice(payment.id);
 
                         console.log('Successfully processed invoice payment succeeded for user:', userId);
 
                 } catch (error) {
                         console.error('Error handling invoice payment succeeded:', error);
                         console.error('Invoice data:', JSON.stringify(invoice, null, 2));
-                        // Don't throw - we want webhook to return 200
+                        // Rethrow so the webhook event is logged as failed and can be replayed
+                        throw error;
                 }
         }
 
@@ -730,6 +936,76 @@ export class StripeService {
                 }
         }
 
+        /**
+         * Refund (part of) a payment. Invoice payments are looked up through the invoice, since
+         * payment_history only stores the invoice ID for them.
+         */
+        static async refundPayment({ paymentIntentId, invoiceId, amount, idempotencyKey, metadata }: {
+                paymentIntentId: string | null;
+                invoiceId: string | null;
+                amount: number;
+                idempotencyKey: string;
+                metadata: Record<string, string>;
+        }): Promise<Stripe.Refund> {
+                const stripe = await getStripe();
+
+                let charge: string | undefined;
+                let paymentIntent = paymentIntentId ?? undefined;
+                if (!paymentIntent && invoiceId) {
+                        const invoicePayments = await stripe.invoicePayments.list({ invoice: invoiceId, status: 'paid', limit: 1 });
+                        const payment = invoicePayments.data[0]?.payment;
+                        const intent = payment?.payment_intent;
+                        const paymentCharge = payment?.charge;
+                        paymentIntent = typeof intent === 'string' ? intent : intent?.id;
+                        charge = typeof paymentCharge === 'string' ? paymentCharge : paymentCharge?.id;
+                }
+
+                if (!paymentIntent && !charge) {
+                        throw new Error('No Stripe payment found for this record');
+                }
+
+                return await stripe.refunds.create(
+                        {
+                                ...(paymentIntent ? { payment_intent: paymentIntent } : { charge }),
+                                amount,
+                                reason: 'requested_by_customer',
+                                metadata,
+                        },
+                        { idempotencyKey }
+                );
+        }
+
+        /**
+         * Push the next charge of a subscription out to the given date. Stripe models the free
+         * period as a trial, so a paying subscription is flagged in its metadata and keeps
+         * syncing as active rather than trialing.
+         */
+        static async extendSubscription(stripeSubscriptionId: string, until: Date): Promise<Stripe.Subscription> {
+                const stripe = await getStripe();
+                const current = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+                const wasPaying = current.status !== 'trialing' || this.isExtendedPaidPeriod(current);
+
+                return await stripe.subscriptions.update(stripeSubscriptionId, {
+                        trial_end: Math.floor(until.getTime() / 1000),
+                        proration_behavior: 'none',
+                        metadata: { [EXTENDED_PAID_PERIOD_KEY]: wasPaying ? 'true' : '' },
+                });
+        }
+
+        /**
+         * Whether the subscription is trialing only because an admin extended a paid subscription
+         */
+        private static isExtendedPaidPeriod(subscription: Stripe.Subscription): boolean {
+                return subscription.status === 'trialing' && subscription.metadata?.[EXTENDED_PAID_PERIOD_KEY] === 'true';
+        }
+
+        /**
+         * The status to store for a Stripe subscription, treating admin extensions of paid subscriptions as active
+         */
+        private static localStatus(subscription: Stripe.Subscription): Stripe.Subscription.Status {
+                return this.isExtendedPaidPeriod(subscription) ? 'active' : subscription.status;
+        }
+
         static async getSubscriptionItems(subscriptionId: string): Promise<Stripe.SubscriptionItem[]> {
                 try {
                         const stripe = await getStripe();
@@ -798,6 +1074,12 @@ export class StripeService {
                 try {
                         console.log('Processing checkout session completed:', session.id);
 
+                        if (session.metadata?.promoCodeId && session.metadata.userId) {
+                                await this.recordPromoCodeRedemption(session).catch(error => {
+                                        console.error('Error recording promo code redemption:', error);
+                                });
+                        }
+
                         if (session.mode === 'payment' && session.metadata?.type === 'credit_purchase') {
                                 await this.handleCreditPurchaseCompleted(session);
                                 return;
@@ -839,6 +1121,23 @@ export class StripeService {
                 }
         }
 
+        private static async recordPromoCodeRedemption(session: Stripe.Checkout.Session): Promise<void> {
+                const { PromoCodeService } = await import('./promo-codes.js');
+                const isCreditPurchase = session.metadata?.type === 'credit_purchase';
+
+                await PromoCodeService.recordRedemption({
+                        promoCodeId: session.metadata!.promoCodeId,
+                        userId: session.metadata!.userId,
+                        purchaseType: isCreditPurchase ? 'credits' : 'subscription',
+                        planId: (isCreditPurchase ? session.metadata?.creditPlanId : session.metadata?.planId) ?? null,
+                        paymentProvider: 'stripe',
+                        transactionId: session.id,
+                        originalAmount: session.amount_subtotal ?? 0,
+                        discountAmount: session.total_details?.amount_discount ?? 0,
+                        currency: session.currency ?? 'usd',
+                });
+        }
+
         private static async handleCreditPurchaseCompleted(session: Stripe.Checkout.Session): Promise<void> {
                 const { CreditService } = await import('./credit-service.js');
 
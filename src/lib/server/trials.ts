@@ -0,0 +1,102 @@
+import { db } from './db/index.js';
+import { users, subscriptions, subscriptionTrials } from './db/schema.js';
+import { eq, or } from 'drizzle-orm';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type Executor = typeof db | Transaction;
+
+export class TrialError extends Error {
+        constructor(message: string) {
+                super(message);
+                this.name = 'TrialError';
+        }
+}
+
+export type SubscriptionTrial = typeof subscriptionTrials.$inferSelect;
+
+export interface NewSubscriptionTrial {
+        userId: string;
+        email: string;
+        planId: string;
+        paymentProvider: SubscriptionTrial['paymentProvider'];
+        subscriptionId: string;
+        endsAt: Date;
+}
+
+export class TrialService {
+        /**
+         * Trial length the user gets when subscribing to this plan now, 0 when the plan has
+         * no trial or the user isn't eligible
+         */
+        static async getTrialDays(userId: string, plan: { trialDays: number }): Promise<number> {
+                if (plan.trialDays <= 0) {
+                        return 0;
+                }
+                return (await this.isEligible(userId)) ? plan.trialDays : 0;
+        }
+
+        /**
+         * Trials are for first-time subscribers: one per user and per email address
+         */
+        static async isEligible(userId: string): Promise<boolean> {
+                const [user] = await db
+                        .select({ email: users.email })
+                        .from(users)
+                        .where(eq(users.id, userId))
+                        .limit(1);
+
+                if (!user?.email) {
+                        return false;
+                }
+
+                const [previousTrial] = await db
+                        .select({ id: subscriptionTrials.id })
+                        .from(subscriptionTrials)
+                        .where(or(
+                                eq(subscriptionTrials.userId, userId),
+                                eq(subscriptionTrials.email, user.email.toLowerCase())
+                        ))
+                        .limit(1);
+
+                if (previousTrial) {
+                        return false;
+                }
+
+                const [previousSubscription] = await db
+                        .select({ id: subscriptions.id })
+                        .from(subscriptions)
+                        .where(eq(subscriptions.userId, userId))
+                        .limit(1);
+
+                return !previousSubscription;
+        }
+
+        /**
+         * Claim the user's trial. Returns false when the user or email already had a trial
+         * for a different subscription; recording the same subscription again is a no-op.
+         */
+        static async recordTrial(trial: NewSubscriptionTrial, executor: Executor = db): Promise<boolean> {
+                const email = trial.email.toLowerCase();
+
+                const [existing] = await executor
+                        .select({ subscriptionId: subscriptionTrials.subscriptionId })
+                        .from(subscriptionTrials)
+                        .where(or(
+                                eq(subscriptionTrials.userId, trial.userId),
+                                eq(subscriptionTrials.email, email)
+                        ))
+                        .limit(1);
+
+                if (existing) {
+                        return existing.subscriptionId === trial.subscriptionId;
+                }
+
+                const inserted = await executor
+                        .insert(subscriptionTrials)
+                        .values({ ...trial, email })
+                        .onConflictDoNothing()
+                        .returning({ id: subscriptionTrials.id });
+
+                return inserted.length > 0;
+        }
+}
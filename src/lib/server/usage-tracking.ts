@@ -1,9 +1,11 @@
 import { db } from './db/index.js';
-import { usageTracking, users, subscriptions, pricingPlans, chats } from './db/schema.js';
-import { eq, and, sql } from 'drizzle-orm';
+import { usageTracking, usageEvents, users, subscriptions, pricingPlans, chats, chatMessages } from './db/schema.js';
+import { eq, and, lte, sql, type SQL } from 'drizzle-orm';
 import { StripeService } from './stripe.js';
 import { getModelProvider } from '../ai/index.js';
-import { CreditService } from './credit-service.js';
+import { calculateCost, type ModelPricing } from '../ai/pricing.js';
+import { CreditService, type CreditDeduction } from './credit-service.js';
+import { removeWebSearchSuffix } from '../constants/web-search.js';
 
 export class UsageLimitError extends Error {
         constructor(message: string, public remainingQuota: number = 0) {
@@ -12,11 +14,32 @@ export class UsageLimitError extends Error {
         }
 }
 
+// 'audio' is text-to-speech and 'voice' is voice changes (the plan columns predate the other audio types)
+export type UsageType = 'text' | 'image' | 'video' | 'audio' | 'voice' | 'music' | 'soundEffect' | 'transcription';
+
+// Names used in limit messages
+const USAGE_TYPE_LABELS: Record<UsageType, string> = {
+        text: 'Text generation',
+        image: 'Image generation',
+        video: 'Video generation',
+        audio: 'Text-to-speech',
+        voice: 'Voice change',
+        music: 'Music generation',
+        soundEffect: 'Sound effect',
+        transcription: 'Transcription'
+};
+
 export interface UsageLimits {
         textGenerationLimit: number | null; // null = unlimited
         imageGenerationLimit: number | null;
         videoGenerationLimit: number | null;
         audioGenerationLimit: number | null;
+        voiceGenerationLimit: number | null;
+        musicGenerationLimit: number | null;
+        soundEffectGenerationLimit: number | null;
+        transcriptionGenerationLimit: number | null;
+        monthlyTokenLimit: number | null;
+        monthlyCostLimit: number | null; // cents
 }
 
 export interface CurrentUsage {
@@ -24,10 +47,72 @@ export interface CurrentUsage {
         imageGenerationCount: number;
         videoGenerationCount: number;
         audioGenerationCount: number;
+        voiceGenerationCount: number;
+        musicGenerationCount: number;
+        soundEffectGenerationCount: number;
+        transcriptionGenerationCount: number;
+        tokenCount: number;
+        costUsd: number;
         month: number;
         year: number;
 }
 
+/**
+ * What a generation consumed, recorded in the usage ledger
+ */
+export interface UsageDetails {
+        model?: string;
+        chatId?: string | null;
+        promptTokens?: number;
+        completionTokens?: number;
+        images?: number;
+        seconds?: number; // Generated or processed audio/video
+        characters?: number; // Text-to-speech input
+}
+
+/**
+ * Allowance taken by reserveUsage() before a provider call
+ */
+export interface UsageReservation {
+        userId: string;
+        usageType: UsageType;
+        credits: number; // Counted against the type limit (see CreditWeightService)
+        tracked: boolean; // false for users missing from the database
+        month: number; // Usage period the count was added to
+        year: number;
+        reservedAt: Date;
+        creditDeductions: CreditDeduction[]; // Extra credits taken once the plan limit was reached
+}
+
+// Fallback prices (USD) for models without published pricing, e.g. Replicate and ElevenLabs models.
+// These are estimates; adjust them to your provider rates.
+const DEFAULT_PRICING: Record<UsageType, ModelPricing> = {
+        text: { prompt: 3 / 1_000_000, completion: 15 / 1_000_000 },
+        image: { image: 0.04 },
+        video: { second: 0.1 },
+        audio: { character: 0.0003 },
+        voice: { request: 0.01 }, // Voice changes report no duration
+        music: { second: 0.0135 },
+        soundEffect: { second: 0.002 },
+        transcription: { second: 0.0001 }
+};
+
+// Assumed length when a video provider doesn't report one
+const DEFAULT_VIDEO_SECONDS = 5;
+
+const UNLIMITED: UsageLimits = {
+        textGenerationLimit: null,
+        imageGenerationLimit: null,
+        videoGenerationLimit: null,
+        audioGenerationLimit: null,
+        voiceGenerationLimit: null,
+        musicGenerationLimit: null,
+        soundEffectGenerationLimit: null,
+        transcriptionGenerationLimit: null,
+        monthlyTokenLimit: null,
+        monthlyCostLimit: null
+};
+
 export interface ModelUsageStatistic {
         model: string;
         provider: string;
@@ -58,21 +143,11 @@ export class UsageTrackingService {
                                         .limit(1);
                                 
                                 if (freePlan) {
-                                        return {
-                                                textGenerationLimit: freePlan.textGenerationLimit,
-                                                imageGenerationLimit: freePlan.imageGenerationLimit,
-                                                videoGenerationLimit: freePlan.videoGenerationLimit,
-                                                audioGenerationLimit: freePlan.audioGenerationLimit
-                                        };
+                                        return this.toLimits(freePlan);
                                 }
 
                                 // Fallback to unlimited if free plan not found in database
-                                return {
-                                        textGenerationLimit: null,
-                                        imageGenerationLimit: null,
-                                        videoGenerationLimit: null,
-                                        audioGenerationLimit: null
-                                };
+                                return UNLIMITED;
                         }
 
                         // Get user's active subscription for paid plans
@@ -87,42 +162,58 @@ export class UsageTrackingService {
                                         .limit(1);
                                 
                                 if (freePlan) {
-                                        return {
-                                                textGenerationLimit: freePlan.textGenerationLimit,
-                                                imageGenerationLimit: freePlan.imageGenerationLimit,
-                                                videoGenerationLimit: freePlan.videoGenerationLimit,
-                                                audioGenerationLimit: freePlan.audioGenerationLimit
-                                        };
+                                        return this.toLimits(freePlan);
                                 }
 
                                 // Fallback to unlimited if free plan not found
-                                return {
-                                        textGenerationLimit: null,
-                                        imageGenerationLimit: null,
-                                        videoGenerationLimit: null,
-                                        audioGenerationLimit: null
-                                };
+                                return UNLIMITED;
                         }
 
                         // Return plan-specific limits for paid plans
-                        return {
-                                textGenerationLimit: subscriptionData.plan.textGenerationLimit,
-                                imageGenerationLimit: subscriptionData.plan.imageGenerationLimit,
-                                videoGenerationLimit: subscriptionData.plan.videoGenerationLimit,
-                                audioGenerationLimit: subscriptionData.plan.audioGenerationLimit
-                        };
+                        return this.toLimits(subscriptionData.plan);
                 } catch (error) {
                         console.error('Error getting user limits:', error);
                         // Default to unlimited on error to be permissive
-                        return {
-                                textGenerationLimit: null,
-                                imageGenerationLimit: null,
-                                videoGenerationLimit: null,
-                                audioGenerationLimit: null
-                        };
+                        return UNLIMITED;
                 }
         }
 
+        private static toLimits(plan: typeof pricingPlans.$inferSelect): UsageLimits {
+                return {
+                        textGenerationLimit: plan.textGenerationLimit,
+                        imageGenerationLimit: plan.imageGenerationLimit,
+                        videoGenerationLimit: plan.videoGenerationLimit,
+                        audioGenerationLimit: plan.audioGenerationLimit,
+                        voiceGenerationLimit: plan.voiceGenerationLimit,
+                        musicGenerationLimit: plan.musicGenerationLimit,
+                        soundEffectGenerationLimit: plan.soundEffectGenerationLimit,
+                        transcriptionGenerationLimit: plan.transcriptionGenerationLimit,
+                        monthlyTokenLimit: plan.monthlyTokenLimit,
+                        monthlyCostLimit: plan.monthlyCostLimit
+                };
+        }
+
+        private static toCurrentUsage(
+                usage: typeof usageTracking.$inferSelect | undefined,
+                month: number,
+                year: number
+        ): CurrentUsage {
+                return {
+                        textGenerationCount: usage?.textGenerationCount || 0,
+                        imageGenerationCount: usage?.imageGenerationCount || 0,
+                        videoGenerationCount: usage?.videoGenerationCount || 0,
+                        audioGenerationCount: usage?.audioGenerationCount || 0,
+                        voiceGenerationCount: usage?.voiceGenerationCount || 0,
+                        musicGenerationCount: usage?.musicGenerationCount || 0,
+                        soundEffectGenerationCount: usage?.soundEffectGenerationCount || 0,
+                        transcriptionGenerationCount: usage?.transcriptionGenerationCount || 0,
+                        tokenCount: usage?.tokenCount || 0,
+                        costUsd: usage?.costUsd || 0,
+                        month,
+                        year
+                };
+        }
+
         /**
          * Check if user exists in the database
          */
@@ -248,6 +339,12 @@ export class UsageTrackingService {
                                         imageGenerationCount: 0,
                                         videoGenerationCount: 0,
                                         audioGenerationCount: 0,
+                                        voiceGenerationCount: 0,
+                                        musicGenerationCount: 0,
+                                        soundEffectGenerationCount: 0,
+                                        transcriptionGenerationCount: 0,
+                                        tokenCount: 0,
+                                        costUsd: 0,
                                         lastResetAt: now,
                                         updatedAt: now,
                                 })
@@ -312,48 +409,20 @@ export class UsageTrackingService {
                                                 )
                                         );
 
-                                return {
-                                        textGenerationCount: createdUsage?.textGenerationCount || 0,
-                                        imageGenerationCount: createdUsage?.imageGenerationCount || 0,
-                                        videoGenerationCount: createdUsage?.videoGenerationCount || 0,
-                                        audioGenerationCount: createdUsage?.audioGenerationCount || 0,
-                                        month: currentMonth,
-                                        year: currentYear
-                                };
+                                return this.toCurrentUsage(createdUsage, currentMonth, currentYear);
                         }
 
                         // Check if usage should be reset (every 12 hours)
                         if (this.shouldResetFreeUsage(usage.lastResetAt)) {
                                 await this.resetFreeUsage(userId, currentMonth, currentYear);
 
-                                return {
-                                        textGenerationCount: 0,
-                                        imageGenerationCount: 0,
-                                        videoGenerationCount: 0,
-                                        audioGenerationCount: 0,
-                                        month: currentMonth,
-                                        year: currentYear
-                                };
+                                return this.toCurrentUsage(undefined, currentMonth, currentYear);
                         }
 
-                        return {
-                                textGenerationCount: usage.textGenerationCount,
-                                imageGenerationCount: usage.imageGenerationCount,
-                                videoGenerationCount: usage.videoGenerationCount,
-                                audioGenerationCount: usage.audioGenerationCount,
-                                month: usage.month,
-                                year: usage.year
-                        };
+                        return this.toCurrentUsage(usage, usage.month, usage.year);
                 } catch (error) {
                         console.error('Error getting current free usage:', error);
-                        return {
-                                textGenerationCount: 0,
-                                imageGenerationCount: 0,
-                                videoGenerationCount: 0,
-                                audioGenerationCount: 0,
-                                month: currentMonth,
-                                year: currentYear
-                        };
+                        return this.toCurrentUsage(undefined, currentMonth, currentYear);
                 }
         }
 
@@ -422,140 +491,243 @@ export class UsageTrackingService {
                                                 )
                                         );
 
-                                return {
-                                        textGenerationCount: createdUsage?.textGenerationCount || 0,
-                                        imageGenerationCount: createdUsage?.imageGenerationCount || 0,
-                                        videoGenerationCount: createdUsage?.videoGenerationCount || 0,
-                                        audioGenerationCount: createdUsage?.audioGenerationCount || 0,
-                                        month: currentMonth,
-                                        year: currentYear
-                                };
+                                return this.toCurrentUsage(createdUsage, currentMonth, currentYear);
                         }
 
-                        return {
-                                textGenerationCount: usage.textGenerationCount,
-                                imageGenerationCount: usage.imageGenerationCount,
-                                videoGenerationCount: usage.videoGenerationCount,
-                                audioGenerationCount: usage.audioGenerationCount,
-                                month: usage.month,
-                                year: usage.year
-                        };
+                        return this.toCurrentUsage(usage, usage.month, usage.year);
                 } catch (error) {
                         console.error('Error getting current usage:', error);
-                        return {
-                                textGenerationCount: 0,
-                                imageGenerationCount: 0,
-                                videoGenerationCount: 0,
-                                audioGenerationCount: 0,
-                                month: currentMonth,
-                                year: currentYear
-                        };
+                        return this.toCurrentUsage(undefined, currentMonth, currentYear);
                 }
         }
 
         /**
-         * Check if user can make a request based on their limits and current usage
-         * Includes grace period logic for recently expired subscriptions
+         * Atomically take `credits` of the user's allowance before calling a provider.
+         * Uses the plan limit first, then the grace period for recently expired subscriptions,
+         * then extra credits; throws UsageLimitError when none apply.
+         * Pass the result to commitUsage() on success or releaseUsage() if the provider fails.
          */
-        static async checkUsageLimit(userId: string, usageType: 'text' | 'image' | 'video' | 'audio'): Promise<void> {
+        static async reserveUsage(userId: string, usageType: UsageType, credits = 1): Promise<UsageReservation> {
                 // Get user info and check existence in single query
                 const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
 
                 if (!user) {
                         console.warn(`User ${userId} not found in database - allowing request without tracking`);
-                        return; // Allow the request but skip usage tracking
+                        const now = new Date();
+                        return {
+                                userId,
+                                usageType,
+                                credits,
+                                tracked: false,
+                                month: now.getMonth() + 1,
+                                year: now.getFullYear(),
+                                reservedAt: now,
+                                creditDeductions: []
+                        };
                 }
 
                 const planTier = user.planTier ?? 'free';
 
+                // Also creates this period's usage row and applies the free plan's 12-hour reset
                 const [limits, currentUsage] = await Promise.all([
                         this.getUserLimits(userId, planTier),
                         this.getCurrentMonthUsage(userId, planTier)
                 ]);
 
-                const limitKey = `${usageType}GenerationLimit` as keyof UsageLimits;
-                const usageKey = `${usageType}GenerationCount` as keyof CurrentUsage;
-                
-                const limit = limits[limitKey];
-                const used = currentUsage[usageKey];
+                const reservation: UsageReservation = {
+                        userId,
+                        usageType,
+                        credits,
+                        tracked: true,
+                        month: currentUsage.month,
+                        year: currentUsage.year,
+                        reservedAt: new Date(),
+                        creditDeductions: []
+                };
+
+                // Token and cost budgets are only known after the call, so they're checked against the totals so far
+                let exceeded = this.findExceededLimit(usageType, credits, limits, currentUsage);
+                if (!exceeded) {
+                        // The UPDATE re-checks the limit, so concurrent requests can't both take the last unit
+                        if (await this.incrementCount(reservation, limits[`${usageType}GenerationLimit`])) {
+                                return reservation;
+                        }
+
+                        const latestUsage = await this.getCurrentMonthUsage(userId, planTier);
+                        exceeded = this.findExceededLimit(usageType, credits, limits, latestUsage) ?? {
+                                message: `${USAGE_TYPE_LABELS[usageType]} limit exceeded.`,
+                                remaining: 0
+                        };
+                }
+
+                // Allow usage during grace period but log it
+                if (await this.checkGracePeriod(userId)) {
+                        console.log(`Grace period usage for user ${userId}: ${usageType}`);
+                        await this.incrementCount(reservation, null);
+                        return reservation;
+                }
 
+                const deductions = await CreditService.useCredit(userId, usageType, credits);
+                if (deductions) {
+                        console.log(`Used ${credits} extra credit(s) for ${usageType} generation for user ${userId}`);
+                        reservation.creditDeductions = deductions;
+                        await this.incrementCount(reservation, null);
+                        return reservation;
+                }
+
+                throw new UsageLimitError(exceeded.message, exceeded.remaining);
+        }
+
+        /**
+         * Add the reservation to this period's count; with a limit, only if it still fits
+         */
+        private static async incrementCount(reservation: UsageReservation, limit: number | null): Promise<boolean> {
+                const column = usageTracking[`${reservation.usageType}GenerationCount`];
+                const fitsLimit = limit === null || limit === -1
+                        ? undefined
+                        : sql`${column} + ${reservation.credits} <= ${limit}`;
+
+                const updated = await db
+                        .update(usageTracking)
+                        .set({
+                                ...this.countChanges(reservation.usageType, sql`${column} + ${reservation.credits}`),
+                                updatedAt: new Date(),
+                        })
+                        .where(
+                                and(
+                                        eq(usageTracking.userId, reservation.userId),
+                                        eq(usageTracking.month, reservation.month),
+                                        eq(usageTracking.year, reservation.year),
+                                        fitsLimit
+                                )
+                        )
+                        .returning({ id: usageTracking.id });
+
+                return updated.length > 0;
+        }
+
+        // Count columns to update: the reserved type gets `value`, the others stay as they are
+        private static countChanges(usageType: UsageType, value: SQL) {
+                return {
+                        textGenerationCount: usageType === 'text' ? value : usageTracking.textGenerationCount,
+                        imageGenerationCount: usageType === 'image' ? value : usageTracking.imageGenerationCount,
+                        videoGenerationCount: usageType === 'video' ? value : usageTracking.videoGenerationCount,
+                        audioGenerationCount: usageType === 'audio' ? value : usageTracking.audioGenerationCount,
+                        voiceGenerationCount: usageType === 'voice' ? value : usageTracking.voiceGenerationCount,
+                        musicGenerationCount: usageType === 'music' ? value : usageTracking.musicGenerationCount,
+                        soundEffectGenerationCount: usageType === 'soundEffect' ? value : usageTracking.soundEffectGenerationCount,
+                        transcriptionGenerationCount: usageType === 'transcription' ? value : usageTracking.transcriptionGenerationCount,
+                };
+        }
+
+        /**
+         * The first limit the user has reached: the per-type count, then the token and cost budgets
+         */
+        private static findExceededLimit(
+                usageType: UsageType,
+                credits: number,
+                limits: UsageLimits,
+                currentUsage: CurrentUsage
+        ): { message: string; remaining: number } | null {
                 // null or -1 means unlimited
-                if (limit === null || limit === -1) {
-                        return; // Unlimited usage
+                const isLimited = (limit: number | null): limit is number => limit !== null && limit !== -1;
+
+                const limit = limits[`${usageType}GenerationLimit`];
+                const used = currentUsage[`${usageType}GenerationCount`];
+                if (isLimited(limit) && used + credits > limit) {
+                        return {
+                                message: credits > 1 && used < limit
+                                        ? `${USAGE_TYPE_LABELS[usageType]} limit exceeded. This request needs ${credits} credits and you have ${limit - used} left this month.`
+                                        : `${USAGE_TYPE_LABELS[usageType]} limit exceeded. You have used ${used}/${limit} for this month.`,
+                                remaining: Math.max(0, limit - used)
+                        };
                 }
 
-                if (used >= limit) {
-                        // Check for grace period if user has exceeded limits
-                        const hasGracePeriod = await this.checkGracePeriod(userId);
-                        
-                        if (!hasGracePeriod) {
-                                const extraCredits = await CreditService.getAvailableCredits(userId, usageType);
-                                if (extraCredits > 0) {
-                                        const deducted = await CreditService.useCredit(userId, usageType);
-                                        if (deducted) {
-                                                console.log(`Used extra credit for ${usageType} generation for user ${userId} (${extraCredits - 1} remaining)`);
-                                                return;
-                                        }
-                                }
+                if (isLimited(limits.monthlyTokenLimit) && currentUsage.tokenCount >= limits.monthlyTokenLimit) {
+                        return {
+                                message: `Token budget exceeded. You have used ${currentUsage.tokenCount}/${limits.monthlyTokenLimit} tokens for this month.`,
+                                remaining: 0
+                        };
+                }
 
-                                const remaining = Math.max(0, limit - used);
-                                throw new UsageLimitError(
-                                        `${usageType.charAt(0).toUpperCase() + usageType.slice(1)} generation limit exceeded. You have used ${used}/${limit} for this month.`,
-                                        remaining
-                                );
+                const costCents = currentUsage.costUsd * 100;
+                if (isLimited(limits.monthlyCostLimit) && costCents >= limits.monthlyCostLimit) {
+                        return {
+                                message: `Usage budget exceeded. You have used $${currentUsage.costUsd.toFixed(2)} of $${(limits.monthlyCostLimit / 100).toFixed(2)} for this month.`,
+                                remaining: 0
+                        };
+                }
+
+                return null;
+        }
+
+        /**
+         * Provider prices for a model: OpenRouter's published pricing, else the estimates above
+         */
+        static getModelPricing(model: string | undefined, usageType: UsageType): ModelPricing {
+                if (model) {
+                        // Web search variants (":online") are priced as their base model
+                        const baseModel = removeWebSearchSuffix(model);
+                        const pricing = getModelProvider(model)?.models.find(m => m.name === baseModel)?.pricing;
+                        if (pricing) {
+                                return pricing;
                         }
-                        
-                        // Allow usage during grace period but log it
-                        console.log(`Grace period usage for user ${userId}: ${usageType}`);
                 }
+                return DEFAULT_PRICING[usageType];
         }
 
         /**
-         * Track usage after successful generation
+         * Record a successful generation: ledger entry plus this period's token and cost totals
          */
-        static async trackUsage(userId: string, usageType: 'text' | 'image' | 'video' | 'audio'): Promise<void> {
-                // Check if user exists in database - if not, skip tracking
-                const userExistsInDb = await this.userExists(userId);
-                if (!userExistsInDb) {
-                        console.warn(`User ${userId} not found in database - skipping usage tracking`);
+        static async commitUsage(reservation: UsageReservation, details: UsageDetails = {}): Promise<void> {
+                if (!reservation.tracked) {
                         return;
                 }
 
-                const now = new Date();
-                const currentMonth = now.getMonth() + 1;
-                const currentYear = now.getFullYear();
+                const { userId, usageType, credits } = reservation;
+                const promptTokens = details.promptTokens ?? 0;
+                const completionTokens = details.completionTokens ?? 0;
+                const totalTokens = promptTokens + completionTokens;
+                // Image requests count as one image when the caller doesn't say how many
+                const imageCount = details.images ?? (usageType === 'image' ? 1 : 0);
+                const seconds = details.seconds ?? (usageType === 'video' ? DEFAULT_VIDEO_SECONDS : 0);
+                const costUsd = calculateCost(this.getModelPricing(details.model, usageType), {
+                        ...details,
+                        images: imageCount,
+                        seconds
+                });
 
                 try {
-                        // Use upsert to handle race conditions
-                        await db.insert(usageTracking).values({
+                        await db.insert(usageEvents).values({
                                 userId,
-                                month: currentMonth,
-                                year: currentYear,
-                                textGenerationCount: usageType === 'text' ? 1 : 0,
-                                imageGenerationCount: usageType === 'image' ? 1 : 0,
-                                videoGenerationCount: usageType === 'video' ? 1 : 0,
-                                audioGenerationCount: usageType === 'audio' ? 1 : 0,
-                                lastResetAt: now,
-                        }).onConflictDoUpdate({
-                                target: [usageTracking.userId, usageTracking.month, usageTracking.year],
-                                set: {
-                                        textGenerationCount: usageType === 'text'
-                                                ? sql`${usageTracking.textGenerationCount} + 1`
-                                                : usageTracking.textGenerationCount,
-                                        imageGenerationCount: usageType === 'image'
-                                                ? sql`${usageTracking.imageGenerationCount} + 1`
-                                                : usageTracking.imageGenerationCount,
-                                        videoGenerationCount: usageType === 'video'
-                                                ? sql`${usageTracking.videoGenerationCount} + 1`
-                                                : usageTracking.videoGenerationCount,
-                                        audioGenerationCount: usageType === 'audio'
-                                                ? sql`${usageTracking.audioGenerationCount} + 1`
-                                                : usageTracking.audioGenerationCount,
-                                        updatedAt: now,
-                                }
+                                usageType,
+                                model: details.model ?? null,
+                                chatId: details.chatId ?? null,
+                                promptTokens,
+                                completionTokens,
+                                totalTokens,
+                                imageCount,
+                                mediaSeconds: seconds,
+                                characterCount: details.characters ?? 0,
+                                costUsd,
                         });
 
-                        console.log(`Tracked ${usageType} usage for user ${userId}`);
+                        await db
+                                .update(usageTracking)
+                                .set({
+                                        tokenCount: sql`${usageTracking.tokenCount} + ${totalTokens}`,
+                                        costUsd: sql`${usageTracking.costUsd} + ${costUsd}`,
+                                        updatedAt: new Date(),
+                                })
+                                .where(
+                                        and(
+                                                eq(usageTracking.userId, userId),
+                                                eq(usageTracking.month, reservation.month),
+                                                eq(usageTracking.year, reservation.year)
+                                        )
+                                );
+
+                        console.log(`Tracked ${usageType} usage for user ${userId} (${credits} credit(s), ${totalTokens} tokens, $${costUsd.toFixed(4)})`);
                 } catch (error) {
                         console.error('Error tracking usage:', error);
                         // Don't throw - usage tracking failure shouldn't block the request
@@ -563,14 +735,40 @@ export class UsageTrackingService {
         }
 
         /**
-         * Check and track usage in one call (for middleware)
+         * Give back a reservation after the provider failed, so failed generations don't use allowance
          */
-        static async checkAndTrackUsage(userId: string, usageType: 'text' | 'image' | 'video' | 'audio'): Promise<void> {
-                // First check if user can make the request
-                await this.checkUsageLimit(userId, usageType);
+        static async releaseUsage(reservation: UsageReservation): Promise<void> {
+                if (!reservation.tracked) {
+                        return;
+                }
+
+                const column = usageTracking[`${reservation.usageType}GenerationCount`];
 
-                // If successful, track the usage
-                await this.trackUsage(userId, usageType);
+                try {
+                        // Skipped if the period was reset since, the reservation is already gone then
+                        await db
+                                .update(usageTracking)
+                                .set({
+                                        ...this.countChanges(reservation.usageType, sql`GREATEST(${column} - ${reservation.credits}, 0)`),
+                                        updatedAt: new Date(),
+                                })
+                                .where(
+                                        and(
+                                                eq(usageTracking.userId, reservation.userId),
+                                                eq(usageTracking.month, reservation.month),
+                                                eq(usageTracking.year, reservation.year),
+                                                lte(usageTracking.lastResetAt, reservation.reservedAt)
+                                        )
+                                );
+
+                        if (reservation.creditDeductions.length > 0) {
+                                await CreditService.refundCredits(reservation.creditDeductions);
+                        }
+
+                        console.log(`Released ${reservation.usageType} usage for user ${reservation.userId}`);
+                } catch (error) {
+                        console.error('Error releasing usage:', error);
+                }
         }
 
         /**
@@ -581,6 +779,10 @@ export class UsageTrackingService {
                 image: boolean;
                 video: boolean;
                 audio: boolean;
+                voice: boolean;
+                music: boolean;
+                soundEffect: boolean;
+                transcription: boolean;
         }> {
                 // Get plan tier once to avoid duplicate queries
                 const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
@@ -603,6 +805,18 @@ export class UsageTrackingService {
                                 : false,
                         audio: limits.audioGenerationLimit !== null && limits.audioGenerationLimit !== -1
                                 ? (currentUsage.audioGenerationCount / limits.audioGenerationLimit) > 0.75
+                                : false,
+                        voice: limits.voiceGenerationLimit !== null && limits.voiceGenerationLimit !== -1
+                                ? (currentUsage.voiceGenerationCount / limits.voiceGenerationLimit) > 0.75
+                                : false,
+                        music: limits.musicGenerationLimit !== null && limits.musicGenerationLimit !== -1
+                                ? (currentUsage.musicGenerationCount / limits.musicGenerationLimit) > 0.75
+                                : false,
+                        soundEffect: limits.soundEffectGenerationLimit !== null && limits.soundEffectGenerationLimit !== -1
+                                ? (currentUsage.soundEffectGenerationCount / limits.soundEffectGenerationLimit) > 0.75
+                                : false,
+                        transcription: limits.transcriptionGenerationLimit !== null && limits.transcriptionGenerationLimit !== -1
+                                ? (currentUsage.transcriptionGenerationCount / limits.transcriptionGenerationLimit) > 0.75
                                 : false
                 };
         }
@@ -657,6 +871,49 @@ export class UsageTrackingService {
                                         ? Math.min(100, (currentUsage.audioGenerationCount / limits.audioGenerationLimit) * 100)
                                         : 0
                         },
+                        voice: {
+                                used: currentUsage.voiceGenerationCount,
+                                limit: limits.voiceGenerationLimit,
+                                percentage: limits.voiceGenerationLimit
+                                        ? Math.min(100, (currentUsage.voiceGenerationCount / limits.voiceGenerationLimit) * 100)
+                                        : 0
+                        },
+                        music: {
+                                used: currentUsage.musicGenerationCount,
+                                limit: limits.musicGenerationLimit,
+                                percentage: limits.musicGenerationLimit
+                                        ? Math.min(100, (currentUsage.musicGenerationCount / limits.musicGenerationLimit) * 100)
+                                        : 0
+                        },
+                        soundEffect: {
+                                used: currentUsage.soundEffectGenerationCount,
+                                limit: limits.soundEffectGenerationLimit,
+                                percentage: limits.soundEffectGenerationLimit
+                                        ? Math.min(100, (currentUsage.soundEffectGenerationCount / limits.soundEffectGenerationLimit) * 100)
+                                        : 0
+                        },
+                        transcription: {
+                                used: currentUsage.transcriptionGenerationCount,
+                                limit: limits.transcriptionGenerationLimit,
+                                percentage: limits.transcriptionGenerationLimit
+                                        ? Math.min(100, (currentUsage.transcriptionGenerationCount / limits.transcriptionGenerationLimit) * 100)
+                                        : 0
+                        },
+                        tokens: {
+                                used: currentUsage.tokenCount,
+                                limit: limits.monthlyTokenLimit,
+                                percentage: limits.monthlyTokenLimit
+                                        ? Math.min(100, (currentUsage.tokenCount / limits.monthlyTokenLimit) * 100)
+                                        : 0
+                        },
+                        // Dollars; the plan budget is stored in cents
+                        cost: {
+                                used: currentUsage.costUsd,
+                                limit: limits.monthlyCostLimit !== null ? limits.monthlyCostLimit / 100 : null,
+                                percentage: limits.monthlyCostLimit
+                                        ? Math.min(100, ((currentUsage.costUsd * 100) / limits.monthlyCostLimit) * 100)
+                                        : 0
+                        },
                         month: currentUsage.month,
                         year: currentUsage.year
                 };
@@ -671,38 +928,34 @@ export class UsageTrackingService {
                         const currentUsage = await this.getCurrentMonthUsage(userId);
                         const { month, year } = currentUsage;
 
-                        // Get all chats for this user in the current billing period
-                        const userChats = await db
+                        // Count user messages per model for chats in the current billing period
+                        // (each user message = 1 model interaction; message model covers mid-chat switches)
+                        const modelUsed = sql<string>`COALESCE(${chatMessages.model}, ${chats.model})`;
+                        const usageRows = await db
                                 .select({
-                                        model: chats.model,
-                                        messages: chats.messages,
+                                        model: modelUsed,
+                                        count: sql<number>`count(*)::int`,
                                 })
-                                .from(chats)
+                                .from(chatMessages)
+                                .innerJoin(chats, eq(chatMessages.chatId, chats.id))
                                 .where(
                                         and(
                                                 eq(chats.userId, userId),
+                                                eq(chatMessages.role, 'user'),
                                                 sql`EXTRACT(MONTH FROM ${chats.createdAt}) = ${month}`,
                                                 sql`EXTRACT(YEAR FROM ${chats.createdAt}) = ${year}`
                                         )
-                                );
+                                )
+                                .groupBy(modelUsed);
 
-                        if (userChats.length === 0) {
+                        if (usageRows.length === 0) {
                                 return [];
                         }
 
-                        // Count model usage from user messages (each user message = 1 model interaction)
                         const modelCounts = new Map<string, number>();
-
-                        for (const chat of userChats) {
-                                const messages = chat.messages || [];
-                                for (const message of messages) {
-                                        if (message.role === 'user') {
-                                                // Use message model (for mid-chat switches) or fallback to chat model
-                                                const modelUsed = message.model || chat.model;
-                                                if (modelUsed) {
-                                                        modelCounts.set(modelUsed, (modelCounts.get(modelUsed) || 0) + 1);
-                                                }
-                                        }
+                        for (const row of usageRows) {
+                                if (row.model) {
+                                        modelCounts.set(row.model, row.count);
                                 }
                         }
 
@@ -745,7 +998,8 @@ export class UsageTrackingService {
                         const subscriptionData = await StripeService.getActiveSubscription(userId);
                         
                         // If user has active subscription, no grace period needed
-                        if (subscriptionData?.subscription?.status === 'active') {
+                        const status = subscriptionData?.subscription?.status;
+                        if (status === 'active' || status === 'trialing') {
                                 return false;
                         }
                         
@@ -785,6 +1039,12 @@ export class UsageTrackingService {
                                         imageGenerationCount: 0,
                                         videoGenerationCount: 0,
                                         audioGenerationCount: 0,
+                                        voiceGenerationCount: 0,
+                                        musicGenerationCount: 0,
+                                        soundEffectGenerationCount: 0,
+                                        transcriptionGenerationCount: 0,
+                                        tokenCount: 0,
+                                        costUsd: 0,
                                         lastResetAt: now,
                                         updatedAt: now,
                                 })
@@ -0,0 +1,127 @@
+import type Stripe from 'stripe';
+import { db } from './db/index.js';
+import { webhookEvents } from './db/schema.js';
+import { eq, and, or, lt, inArray, sql, type SQL } from 'drizzle-orm';
+import { StripeService } from './stripe.js';
+import { OpayService, type OpayWebhookPayment } from './opaybd.js';
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type WebhookProvider = WebhookEvent['provider'];
+
+// A delivery still "processing" after this long is assumed to have crashed and may be claimed again
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+export class WebhookEventService {
+        /**
+         * Log a delivery and claim it for processing.
+         * Not claimed when the event was already processed or another delivery is processing it.
+         */
+        static async claim(
+                provider: WebhookProvider,
+                eventId: string,
+                eventType: string,
+                payload: unknown
+        ): Promise<{ claimed: boolean; event: WebhookEvent }> {
+                await db
+                        .insert(webhookEvents)
+                        .values({ provider, eventId, eventType, payload })
+                        .onConflictDoNothing();
+
+                const match = and(eq(webhookEvents.provider, provider), eq(webhookEvents.eventId, eventId));
+
+                // Later deliveries may carry a newer payload (e.g. an Opaybd status change)
+                const claimed = await this.claimWhere(match, { payload });
+                if (claimed) {
+                        return { claimed: true, event: claimed };
+                }
+
+                const [event] = await db.select().from(webhookEvents).where(match).limit(1);
+                return { claimed: false, event };
+        }
+
+        static async complete(id: string): Promise<void> {
+                const now = new Date();
+                await db
+                        .update(webhookEvents)
+                        .set({ status: 'processed', error: null, processedAt: now, updatedAt: now })
+                        .where(eq(webhookEvents.id, id));
+        }
+
+        static async fail(id: string, error: unknown): Promise<void> {
+                await db
+                        .update(webhookEvents)
+                        .set({
+                                status: 'failed',
+                                error: error instanceof Error ? error.message : String(error),
+                                updatedAt: new Date()
+                        })
+                        .where(eq(webhookEvents.id, id));
+        }
+
+        /**
+         * Leave the event open so its next delivery is processed again (e.g. payment still pending)
+         */
+        static async release(id: string): Promise<void> {
+                await db
+                        .update(webhookEvents)
+                        .set({ status: 'received', updatedAt: new Date() })
+                        .where(eq(webhookEvents.id, id));
+        }
+
+        /**
+         * Process a logged event again with its stored payload (admin action for failed events)
+         */
+        static async replay(id: string): Promise<WebhookEvent['status']> {
+                const event = await this.claimWhere(eq(webhookEvents.id, id));
+                if (!event) {
+                        throw new Error('Event was already processed or is being processed');
+                }
+
+                try {
+                        if (event.provider === 'stripe') {
+                                await StripeService.handleWebhookEvent(event.payload as Stripe.Event);
+                                await this.complete(event.id);
+                                return 'processed';
+                        }
+
+                        const result = await OpayService.handleWebhookPayment(event.payload as OpayWebhookPayment);
+                        if (result.status === 'pending') {
+                                await this.release(event.id);
+                                return 'received';
+                        }
+                        await this.complete(event.id);
+                        return 'processed';
+                } catch (error) {
+                        await this.fail(event.id, error);
+                        throw error;
+                }
+        }
+
+        // Move a claimable event (new, failed or stuck) to "processing" and count the attempt
+        private static async claimWhere(condition: SQL | undefined, changes: { payload?: unknown } = {}): Promise<WebhookEvent | undefined> {
+                const now = new Date();
+                const [event] = await db
+                        .update(webhookEvents)
+                        .set({
+                                ...changes,
+                                status: 'processing',
+                                attempts: sql`${webhookEvents.attempts} + 1`,
+                                updatedAt: now
+                        })
+                        .where(
+                                and(
+                                        condition,
+                                        or(
+                                                inArray(webhookEvents.status, ['received', 'failed']),
+                                                and(
+                                                        eq(webhookEvents.status, 'processing'),
+                                                        lt(webhookEvents.updatedAt, new Date(now.getTime() - STALE_PROCESSING_MS))
+                                                )
+                                        )
+                                )
+                        )
+                        .returning();
+
+                return event;
+        }
+}
@@ -0,0 +1,22 @@
+import type { PageServerLoad } from './$types'
+import { AdminAuditService } from '$lib/server/admin-audit'
+
+const ENTRIES_PER_PAGE = 25
+
+export const load: PageServerLoad = async ({ url }) => {
+  const page = parseInt(url.searchParams.get('page') || '1')
+  const offset = (page - 1) * ENTRIES_PER_PAGE
+
+  const { entries, total } = await AdminAuditService.list({
+    limit: ENTRIES_PER_PAGE,
+    offset
+  })
+
+  return {
+    entries,
+    totalEntries: total,
+    currentPage: page,
+    entriesPerPage: ENTRIES_PER_PAGE,
+    totalPages: Math.ceil(total / ENTRIES_PER_PAGE)
+  }
+}
\ No newline at end of file
@@ -1,6 +1,9 @@
-import type { PageServerLoad } from './$types'
-import { db, paymentHistory, users } from '$lib/server/db'
+import type { Actions, PageServerLoad } from './$types'
+import { db, paymentHistory, users, webhookEvents } from '$lib/server/db'
 import { count, desc, eq } from 'drizzle-orm'
+import { fail } from '@sveltejs/kit'
+import { AdminBillingService, AdminActionError } from '$lib/server/admin-billing'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
 
 const PAYMENTS_PER_PAGE = 15
 
@@ -21,12 +24,14 @@ export const load: PageServerLoad = async ({ url }) => {
     .select({
       id: paymentHistory.id,
       amount: paymentHistory.amount,
+      refundedAmount: paymentHistory.refundedAmount,
       currency: paymentHistory.currency,
       status: paymentHistory.status,
       description: paymentHistory.description,
       paymentMethodType: paymentHistory.paymentMethodType,
       last4: paymentHistory.last4,
       brand: paymentHistory.brand,
+      paymentProvider: paymentHistory.paymentProvider,
       paidAt: paymentHistory.paidAt,
       createdAt: paymentHistory.createdAt,
       userId: users.id,
@@ -38,12 +43,76 @@ export const load: PageServerLoad = async ({ url }) => {
     .orderBy(desc(paymentHistory.createdAt)) // Most recent first
     .limit(PAYMENTS_PER_PAGE)
     .offset(offset)
+
+  // Surface failed webhooks so they get replayed; the table may not exist yet
+  let failedWebhooks = 0
+  try {
+    const [{ count: failed }] = await db
+      .select({ count: count() })
+      .from(webhookEvents)
+      .where(eq(webhookEvents.status, 'failed'))
+    failedWebhooks = failed
+  } catch (error) {
+    console.error('Error counting failed webhook events:', error)
+  }
     
   return {
     payments: paginatedPayments,
     totalPayments,
     currentPage: page,
     paymentsPerPage: PAYMENTS_PER_PAGE,
-    totalPages: Math.ceil(totalPayments / PAYMENTS_PER_PAGE)
+    totalPages: Math.ceil(totalPayments / PAYMENTS_PER_PAGE),
+    failedWebhooks,
+    isDemoMode: isDemoModeEnabled()
+  }
+}
+
+export const actions: Actions = {
+  refund: async ({ request, locals }) => {
+    // The admin layout only guards page loads, so check the session here too
+    const session = await locals.auth()
+    if (!session?.user?.isAdmin) {
+      return fail(403, { error: 'Forbidden: Admin access required' })
+    }
+
+    // Check demo mode - block modifications
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const formData = await request.formData()
+    const paymentId = formData.get('paymentId')?.toString()
+    const amount = formData.get('amount')?.toString()?.trim() || ''
+    const reason = formData.get('reason')?.toString() || ''
+    const reference = formData.get('reference')?.toString()
+
+    if (!paymentId) {
+      return fail(400, { error: 'Payment is required' })
+    }
+
+    // Amounts are entered in dollars/taka and stored in cents/paisa
+    if (!/^\d+(\.\d{1,2})?$/.test(amount)) {
+      return fail(400, { error: 'Enter the refund amount, e.g. 12.50' })
+    }
+
+    try {
+      await AdminBillingService.refundPayment({
+        admin: { id: session.user.id, email: session.user.email },
+        paymentId,
+        amount: Math.round(parseFloat(amount) * 100),
+        reason,
+        reference
+      })
+
+      return { success: true, message: 'Refund recorded successfully' }
+    } catch (err) {
+      if (err instanceof AdminActionError) {
+        return fail(400, { error: err.message })
+      }
+      console.error('Error refunding payment:', err)
+      return fail(500, { error: 'Failed to refund payment. Please try again.' })
+    }
   }
 }
\ No newline at end of file
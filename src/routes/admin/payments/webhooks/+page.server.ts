@@ -0,0 +1,99 @@
+import type { Actions, PageServerLoad } from './$types'
+import { db, webhookEvents } from '$lib/server/db'
+import { count, desc, eq } from 'drizzle-orm'
+import { fail } from '@sveltejs/kit'
+import { WebhookEventService } from '$lib/server/webhook-events.js'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+
+const EVENTS_PER_PAGE = 20
+
+const STATUSES = ['received', 'processing', 'processed', 'failed'] as const
+type WebhookStatus = typeof STATUSES[number]
+
+export const load: PageServerLoad = async ({ url }) => {
+  const page = parseInt(url.searchParams.get('page') || '1')
+  const offset = (page - 1) * EVENTS_PER_PAGE
+
+  // Failed events are what admins come here for, so that's the default filter
+  const statusParam = url.searchParams.get('status') || 'failed'
+  const status = STATUSES.includes(statusParam as WebhookStatus) ? statusParam as WebhookStatus : null
+  const filter = status ? eq(webhookEvents.status, status) : undefined
+
+  try {
+    const [{ count: totalEvents }] = await db
+      .select({ count: count() })
+      .from(webhookEvents)
+      .where(filter)
+
+    const events = await db
+      .select({
+        id: webhookEvents.id,
+        provider: webhookEvents.provider,
+        eventId: webhookEvents.eventId,
+        eventType: webhookEvents.eventType,
+        status: webhookEvents.status,
+        error: webhookEvents.error,
+        attempts: webhookEvents.attempts,
+        processedAt: webhookEvents.processedAt,
+        createdAt: webhookEvents.createdAt,
+        updatedAt: webhookEvents.updatedAt
+      })
+      .from(webhookEvents)
+      .where(filter)
+      .orderBy(desc(webhookEvents.createdAt))
+      .limit(EVENTS_PER_PAGE)
+      .offset(offset)
+
+    return {
+      events,
+      status: status ?? 'all',
+      totalEvents,
+      currentPage: page,
+      eventsPerPage: EVENTS_PER_PAGE,
+      totalPages: Math.ceil(totalEvents / EVENTS_PER_PAGE),
+      isDemoMode: isDemoModeEnabled()
+    }
+  } catch (error) {
+    console.error('Error loading webhook events (table may not exist yet):', error)
+    return {
+      events: [],
+      status: status ?? 'all',
+      totalEvents: 0,
+      currentPage: 1,
+      eventsPerPage: EVENTS_PER_PAGE,
+      totalPages: 0,
+      isDemoMode: isDemoModeEnabled()
+    }
+  }
+}
+
+export const actions: Actions = {
+  replay: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const eventId = data.get('eventId')?.toString()
+
+    if (!eventId) {
+      return fail(400, { error: 'Event ID is required' })
+    }
+
+    try {
+      const status = await WebhookEventService.replay(eventId)
+
+      return {
+        success: true,
+        message: status === 'processed'
+          ? 'Event processed successfully'
+          : 'Event replayed, the payment is still pending'
+      }
+    } catch (error) {
+      console.error('Error replaying webhook event:', error)
+      return fail(500, { error: `Replay failed: ${error instanceof Error ? error.message : 'Unknown error'}` })
+    }
+  }
+}
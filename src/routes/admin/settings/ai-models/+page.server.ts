@@ -12,7 +12,10 @@ export const load: PageServerLoad = async () => {
       settings: {
         openrouterApiKey: settings.openrouter_api_key || "",
         replicateApiKey: settings.replicate_api_key || "",
-        elevenlabsApiKey: settings.elevenlabs_api_key || ""
+        elevenlabsApiKey: settings.elevenlabs_api_key || "",
+        braveSearchApiKey: settings.brave_search_api_key || "",
+        embeddingModel: settings.embedding_model || "",
+        promptEnhancementModel: settings.prompt_enhancement_model || ""
       },
       isDemoMode: isDemoModeEnabled()
     }
@@ -23,7 +26,10 @@ export const load: PageServerLoad = async () => {
       settings: {
         openrouterApiKey: "",
         replicateApiKey: "",
-        elevenlabsApiKey: ""
+        elevenlabsApiKey: "",
+        braveSearchApiKey: "",
+        embeddingModel: "",
+        promptEnhancementModel: ""
       },
       isDemoMode: isDemoModeEnabled()
     }
@@ -44,6 +50,9 @@ export const actions: Actions = {
     const openrouterApiKey = data.get('openrouterApiKey')?.toString()
     const replicateApiKey = data.get('replicateApiKey')?.toString()
     const elevenlabsApiKey = data.get('elevenlabsApiKey')?.toString()
+    const braveSearchApiKey = data.get('braveSearchApiKey')?.toString()
+    const embeddingModel = data.get('embeddingModel')?.toString().trim() ?? ''
+    const promptEnhancementModel = data.get('promptEnhancementModel')?.toString().trim() ?? ''
 
     // Validation for OpenRouter API Key
     if (openrouterApiKey && openrouterApiKey.length < 10) {
@@ -66,6 +75,27 @@ export const actions: Actions = {
       })
     }
 
+    // Validation for Brave Search API Key
+    if (braveSearchApiKey && braveSearchApiKey.length < 10) {
+      return fail(400, {
+        error: 'Brave Search API key is too short. Please provide a valid API key.'
+      })
+    }
+
+    // Validation for the embedding model (OpenRouter model ID, e.g. openai/text-embedding-3-small)
+    if (embeddingModel && !/^[\w.-]+\/[\w.:-]+$/.test(embeddingModel)) {
+      return fail(400, {
+        error: 'Embedding model must be an OpenRouter model ID like "openai/text-embedding-3-small".'
+      })
+    }
+
+    // Validation for the prompt enhancement model (OpenRouter model ID, e.g. openai/gpt-4o-mini)
+    if (promptEnhancementModel && !/^[\w.-]+\/[\w.:-]+$/.test(promptEnhancementModel)) {
+      return fail(400, {
+        error: 'Prompt enhancement model must be an OpenRouter model ID like "openai/gpt-4o-mini".'
+      })
+    }
+
     try {
       // Get current decrypted values to compare and prevent double encryption
       const currentSettings = await getAIModelSettings();
@@ -90,6 +120,26 @@ export const actions: Actions = {
       if (shouldSaveValue(elevenlabsApiKey, currentSettings.elevenlabs_api_key)) {
         settingsToSave.push({ key: 'elevenlabs_api_key', value: elevenlabsApiKey!.trim(), category: 'ai_models', description: 'ElevenLabs API key for text-to-speech models (encrypted)' });
       }
+      if (shouldSaveValue(braveSearchApiKey, currentSettings.brave_search_api_key)) {
+        settingsToSave.push({ key: 'brave_search_api_key', value: braveSearchApiKey!.trim(), category: 'ai_models', description: 'Brave Search API key for the Deep Research tool (encrypted)' });
+      }
+      if (embeddingModel && embeddingModel !== currentSettings.embedding_model) {
+        settingsToSave.push({ key: 'embedding_model', value: embeddingModel, category: 'ai_models', description: 'OpenRouter embedding model for project file retrieval' });
+      }
+
+      if (promptEnhancementModel && promptEnhancementModel !== currentSettings.prompt_enhancement_model) {
+        settingsToSave.push({ key: 'prompt_enhancement_model', value: promptEnhancementModel, category: 'ai_models', description: 'OpenRouter text model for prompt enhancement in the image/video studio' });
+      }
+
+      // Not a secret, so it can also be cleared (back to keyword-only retrieval)
+      if (!embeddingModel && currentSettings.embedding_model) {
+        await adminSettingsService.deleteSetting('embedding_model');
+      }
+
+      // Clearing it turns prompt enhancement off
+      if (!promptEnhancementModel && currentSettings.prompt_enhancement_model) {
+        await adminSettingsService.deleteSetting('prompt_enhancement_model');
+      }
 
       // Only save if there are actual changes
       if (settingsToSave.length > 0) {
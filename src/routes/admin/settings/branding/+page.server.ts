@@ -5,6 +5,14 @@ import { getCurrentBrandingFile, uploadBrandingFile, deleteBrandingFile } from '
 import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
 import { settingsStore } from '$lib/server/settings-store'
 
+// Seller details printed on PDF invoices; an empty value clears the setting
+const INVOICE_SETTINGS = [
+  { field: 'invoiceSellerName', key: 'invoice_seller_name', description: 'Business name on invoices', maxLength: 200 },
+  { field: 'invoiceSellerAddress', key: 'invoice_seller_address', description: 'Business address on invoices', maxLength: 500 },
+  { field: 'invoiceSellerEmail', key: 'invoice_seller_email', description: 'Contact email on invoices', maxLength: 200 },
+  { field: 'invoiceSellerTaxId', key: 'invoice_seller_tax_id', description: 'Tax ID / VAT registration number on invoices', maxLength: 100 }
+] as const
+
 export const load: PageServerLoad = async () => {
   try {
     const settings = await getBrandingSettings();
@@ -19,6 +27,10 @@ export const load: PageServerLoad = async () => {
         currentFavicon: faviconFile?.url || null,
         logoWidth: settings.logo_width || "170",
         logoHeight: settings.logo_height || "27",
+        invoiceSellerName: settings.invoice_seller_name || "",
+        invoiceSellerAddress: settings.invoice_seller_address || "",
+        invoiceSellerEmail: settings.invoice_seller_email || "",
+        invoiceSellerTaxId: settings.invoice_seller_tax_id || "",
       },
       isDemoMode: isDemoModeEnabled()
     }
@@ -32,6 +44,10 @@ export const load: PageServerLoad = async () => {
         currentFavicon: null,
         logoWidth: "170",
         logoHeight: "27",
+        invoiceSellerName: "",
+        invoiceSellerAddress: "",
+        invoiceSellerEmail: "",
+        invoiceSellerTaxId: "",
       },
       isDemoMode: isDemoModeEnabled()
     }
@@ -54,6 +70,9 @@ export const actions: Actions = {
     const favicon = data.get('favicon') as File
     const logoWidth = data.get('logoWidth')?.toString()
     const logoHeight = data.get('logoHeight')?.toString()
+    const invoiceDetails = Object.fromEntries(
+      INVOICE_SETTINGS.map(({ field }) => [field, data.get(field)?.toString().trim() ?? ''])
+    ) as Record<(typeof INVOICE_SETTINGS)[number]['field'], string>
 
     // Validation
     const logoWidthNum = logoWidth ? parseInt(logoWidth) : 32
@@ -63,7 +82,8 @@ export const actions: Actions = {
       return fail(400, {
         error: 'Logo width must be between 16 and 512 pixels',
         logoWidth,
-        logoHeight
+        logoHeight,
+        ...invoiceDetails
       })
     }
 
@@ -71,7 +91,28 @@ export const actions: Actions = {
       return fail(400, {
         error: 'Logo height must be between 16 and 512 pixels',
         logoWidth,
-        logoHeight
+        logoHeight,
+        ...invoiceDetails
+      })
+    }
+
+    for (const { field, maxLength } of INVOICE_SETTINGS) {
+      if (invoiceDetails[field].length > maxLength) {
+        return fail(400, {
+          error: `Invoice details must be at most ${maxLength} characters`,
+          logoWidth,
+          logoHeight,
+          ...invoiceDetails
+        })
+      }
+    }
+
+    if (invoiceDetails.invoiceSellerEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(invoiceDetails.invoiceSellerEmail)) {
+      return fail(400, {
+        error: 'Invoice contact email is not a valid email address',
+        logoWidth,
+        logoHeight,
+        ...invoiceDetails
       })
     }
 
@@ -95,7 +136,8 @@ export const actions: Actions = {
           return fail(400, {
             error: uploadError.message || 'Failed to upload dark logo',
             logoWidth,
-            logoHeight
+            logoHeight,
+            ...invoiceDetails
           });
         }
       }
@@ -115,7 +157,8 @@ export const actions: Actions = {
           return fail(400, {
             error: uploadError.message || 'Failed to upload light logo',
             logoWidth,
-            logoHeight
+            logoHeight,
+            ...invoiceDetails
           });
         }
       }
@@ -135,7 +178,8 @@ export const actions: Actions = {
           return fail(400, {
             error: uploadError.message || 'Failed to upload favicon',
             logoWidth,
-            logoHeight
+            logoHeight,
+            ...invoiceDetails
           });
         }
       }
@@ -161,6 +205,14 @@ export const actions: Actions = {
         settingsToSave.push({ key: 'logo_height', value: logoHeight!.trim(), category: 'branding', description: 'Logo height in pixels' });
       }
 
+      for (const { field, key, description } of INVOICE_SETTINGS) {
+        const value = invoiceDetails[field]
+        if (value && value !== currentSettings[key]) {
+          settingsToSave.push({ key, value, category: 'branding', description });
+        } else if (!value && currentSettings[key]) {
+          await adminSettingsService.deleteSetting(key);
+        }
+      }
 
       // Only save if there are actual changes
       if (settingsToSave.length > 0) {
@@ -182,13 +234,18 @@ export const actions: Actions = {
         currentFavicon: faviconUrl || updatedSettings.currentFavicon,
         logoWidth: updatedSettings.logo_width || "170",
         logoHeight: updatedSettings.logo_height || "27",
+        invoiceSellerName: updatedSettings.invoice_seller_name || "",
+        invoiceSellerAddress: updatedSettings.invoice_seller_address || "",
+        invoiceSellerEmail: updatedSettings.invoice_seller_email || "",
+        invoiceSellerTaxId: updatedSettings.invoice_seller_tax_id || "",
       }
     } catch (error) {
       console.error('Error saving branding settings:', error)
       return fail(500, {
         error: 'Failed to save branding settings. Please try again.',
         logoWidth,
-        logoHeight
+        logoHeight,
+        ...invoiceDetails
       })
     }
   }
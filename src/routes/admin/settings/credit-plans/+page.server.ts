@@ -3,6 +3,7 @@ import { db, creditPlans } from '$lib/server/db/index.js'
 import { eq, desc } from 'drizzle-orm'
 import { fail, redirect } from '@sveltejs/kit'
 import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+import type { CreditType } from '$lib/server/credit-service.js'
 
 export const load: PageServerLoad = async () => {
   try {
@@ -49,7 +50,7 @@ export const actions: Actions = {
       })
     }
 
-    if (!['text', 'image', 'video', 'audio'].includes(creditType)) {
+    if (!['text', 'image', 'video', 'audio', 'voice', 'music', 'soundEffect', 'transcription'].includes(creditType)) {
       return fail(400, {
         error: 'Invalid credit type selected',
         name, description, creditType, creditAmount, priceAmount, priceAmountBdt, currency
@@ -84,7 +85,7 @@ export const actions: Actions = {
       await db.insert(creditPlans).values({
         name,
         description,
-        creditType: creditType as 'text' | 'image' | 'video' | 'audio',
+        creditType: creditType as CreditType,
         creditAmount: creditAmountNum,
         priceAmount: priceAmountNum,
         priceAmountBdt: priceAmountBdtNum,
@@ -3,6 +3,7 @@ import { db, creditPlans } from '$lib/server/db/index.js'
 import { eq } from 'drizzle-orm'
 import { fail, redirect, error } from '@sveltejs/kit'
 import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+import type { CreditType } from '$lib/server/credit-service.js'
 
 export const load: PageServerLoad = async ({ params }) => {
   const planId = params.id
@@ -59,7 +60,7 @@ export const actions: Actions = {
       })
     }
 
-    if (!['text', 'image', 'video', 'audio'].includes(creditType)) {
+    if (!['text', 'image', 'video', 'audio', 'voice', 'music', 'soundEffect', 'transcription'].includes(creditType)) {
       return fail(400, {
         error: 'Invalid credit type selected',
         name, description, creditType, creditAmount, priceAmount, priceAmountBdt, currency, isActive
@@ -96,7 +97,7 @@ export const actions: Actions = {
         .set({
           name,
           description,
-          creditType: creditType as 'text' | 'image' | 'video' | 'audio',
+          creditType: creditType as CreditType,
           creditAmount: creditAmountNum,
           priceAmount: priceAmountNum,
           priceAmountBdt: priceAmountBdtNum,
@@ -0,0 +1,120 @@
+import type { Actions, PageServerLoad } from './$types'
+import { db, modelCreditWeights } from '$lib/server/db/index.js'
+import { eq } from 'drizzle-orm'
+import { fail } from '@sveltejs/kit'
+import { getAllModels } from '$lib/ai/index.js'
+import { MODEL_CONFIGS } from '$lib/constants/replicate-model-configs.js'
+import { CreditWeightService } from '$lib/server/credit-weights.js'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+
+const MAX_WEIGHT = 1000
+
+// Image and video models with the options a weight can target
+function getModelOptions() {
+  return getAllModels()
+    .filter(model => model.supportsImageGeneration || model.supportsVideoGeneration)
+    .map(model => ({
+      name: model.name,
+      displayName: model.displayName,
+      type: model.supportsVideoGeneration ? 'video' as const : 'image' as const,
+      qualityOptions: [...(MODEL_CONFIGS[model.name]?.qualityParam?.options ?? [])],
+      hasDuration: !!MODEL_CONFIGS[model.name]?.durationParam
+    }))
+}
+
+export const load: PageServerLoad = async () => {
+  try {
+    const weights = await db
+      .select()
+      .from(modelCreditWeights)
+      .orderBy(modelCreditWeights.model, modelCreditWeights.quality)
+
+    return {
+      weights,
+      models: getModelOptions(),
+      isDemoMode: isDemoModeEnabled()
+    }
+  } catch (error) {
+    console.error('Error loading model credit weights (table may not exist yet):', error)
+    return {
+      weights: [],
+      models: getModelOptions(),
+      isDemoMode: isDemoModeEnabled()
+    }
+  }
+}
+
+export const actions: Actions = {
+  save: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const model = data.get('model')?.toString() ?? ''
+    const quality = data.get('quality')?.toString() ?? ''
+    const weight = data.get('weight')?.toString() ?? ''
+    const perSecond = data.get('perSecond') === 'on'
+
+    const modelOption = getModelOptions().find(option => option.name === model)
+    if (!modelOption) {
+      return fail(400, { error: 'Select an image or video model', model, quality, weight })
+    }
+
+    if (quality && !modelOption.qualityOptions.includes(quality)) {
+      return fail(400, { error: `${modelOption.displayName} has no "${quality}" option`, model, quality, weight })
+    }
+
+    const weightNum = parseInt(weight)
+    if (isNaN(weightNum) || weightNum < 0 || weightNum > MAX_WEIGHT) {
+      return fail(400, { error: `Weight must be a whole number between 0 and ${MAX_WEIGHT}`, model, quality, weight })
+    }
+
+    if (perSecond && !modelOption.hasDuration) {
+      return fail(400, { error: `${modelOption.displayName} has no duration setting`, model, quality, weight })
+    }
+
+    try {
+      await db
+        .insert(modelCreditWeights)
+        .values({ model, quality, weight: weightNum, perSecond })
+        .onConflictDoUpdate({
+          target: [modelCreditWeights.model, modelCreditWeights.quality],
+          set: { weight: weightNum, perSecond, updatedAt: new Date() }
+        })
+      CreditWeightService.clearCache()
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error saving model credit weight:', error)
+      return fail(500, { error: 'Failed to save weight', model, quality, weight })
+    }
+  },
+
+  delete: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const weightId = data.get('weightId')?.toString()
+
+    if (!weightId) {
+      return fail(400, { error: 'Weight ID is required' })
+    }
+
+    try {
+      await db.delete(modelCreditWeights).where(eq(modelCreditWeights.id, weightId))
+      CreditWeightService.clearCache()
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error deleting model credit weight:', error)
+      return fail(500, { error: 'Failed to delete weight' })
+    }
+  }
+}
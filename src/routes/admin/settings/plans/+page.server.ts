@@ -31,6 +31,13 @@ export const load: PageServerLoad = async ({ url }) => {
       imageGenerationLimit: pricingPlans.imageGenerationLimit,
       videoGenerationLimit: pricingPlans.videoGenerationLimit,
       audioGenerationLimit: pricingPlans.audioGenerationLimit,
+      voiceGenerationLimit: pricingPlans.voiceGenerationLimit,
+      musicGenerationLimit: pricingPlans.musicGenerationLimit,
+      soundEffectGenerationLimit: pricingPlans.soundEffectGenerationLimit,
+      transcriptionGenerationLimit: pricingPlans.transcriptionGenerationLimit,
+      monthlyTokenLimit: pricingPlans.monthlyTokenLimit,
+      monthlyCostLimit: pricingPlans.monthlyCostLimit,
+      trialDays: pricingPlans.trialDays,
       features: pricingPlans.features,
       isActive: pricingPlans.isActive,
       createdAt: pricingPlans.createdAt,
@@ -72,6 +79,10 @@ export const actions: Actions = {
         imageGenerationLimit: 25,
         videoGenerationLimit: 10,
         audioGenerationLimit: 10,
+        voiceGenerationLimit: 10,
+        musicGenerationLimit: 10,
+        soundEffectGenerationLimit: 10,
+        transcriptionGenerationLimit: 10,
         features: ['Free plan'],
         isActive: true
       });
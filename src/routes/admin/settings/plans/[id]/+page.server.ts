@@ -1,8 +1,35 @@
 import type { Actions, PageServerLoad } from './$types'
-import { db, pricingPlans } from '$lib/server/db'
+import { db, pricingPlans, customTools } from '$lib/server/db'
 import { eq } from 'drizzle-orm'
 import { fail, redirect, error } from '@sveltejs/kit'
 import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+import { getBuiltInToolList, getToolDisplayName } from '$lib/ai/tools/index.js'
+import { isMcpToolName } from '$lib/ai/tools/mcp.js'
+import { McpToolsService } from '$lib/server/mcp-tools.js'
+
+// All tools an admin can put on a plan's allow-list (built-in + custom + MCP)
+async function getToolOptions(selected: string[] = []) {
+  const builtIn = getBuiltInToolList().map(tool => ({ name: tool.name, displayName: tool.displayName }))
+  // Only servers that are reachable right now can list their tools; keep already-allowed
+  // ones listed anyway so saving the plan while a server is down doesn't drop them
+  const mcp = (await McpToolsService.getAvailableTools()).map(tool => ({ name: tool.name, displayName: tool.displayName }))
+  for (const name of selected.filter(isMcpToolName)) {
+    if (!mcp.some(tool => tool.name === name)) {
+      mcp.push({ name, displayName: getToolDisplayName(name) })
+    }
+  }
+
+  try {
+    const custom = await db
+      .select({ name: customTools.name, displayName: customTools.displayName })
+      .from(customTools)
+      .orderBy(customTools.name)
+    return [...builtIn, ...custom, ...mcp]
+  } catch (error) {
+    console.error('Error loading custom tools (table may not exist yet):', error)
+    return [...builtIn, ...mcp]
+  }
+}
 
 export const load: PageServerLoad = async ({ params }) => {
   const planId = params.id
@@ -24,6 +51,7 @@ export const load: PageServerLoad = async ({ params }) => {
 
     return {
       plan: plan[0],
+      toolOptions: await getToolOptions(plan[0].allowedTools ?? []),
       isDemoMode: isDemoModeEnabled()
     }
   } catch (err) {
@@ -63,8 +91,18 @@ export const actions: Actions = {
     const videoGenerationLimit = data.get('videoGenerationLimit')?.toString()
     const audioGenerationLimit = data.get('audioGenerationLimit')?.toString()
     const voiceGenerationLimit = data.get('voiceGenerationLimit')?.toString()
+    const musicGenerationLimit = data.get('musicGenerationLimit')?.toString()
+    const soundEffectGenerationLimit = data.get('soundEffectGenerationLimit')?.toString()
+    const transcriptionGenerationLimit = data.get('transcriptionGenerationLimit')?.toString()
+    const monthlyTokenLimit = data.get('monthlyTokenLimit')?.toString()
+    const monthlyCostLimit = data.get('monthlyCostLimit')?.toString()
+    const trialDays = data.get('trialDays')?.toString()
     const features = data.get('features')?.toString()
     const isActive = data.get('isActive') === 'on'
+    // Tool allow-list: null means every tool is available on this plan
+    const allowedTools = data.get('restrictTools') === 'on'
+      ? data.getAll('allowedTools').map(name => name.toString())
+      : null
 
     // Validation
     if (!name || !tier || !stripePriceId || !priceAmount || !billingInterval) {
@@ -81,6 +119,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features,
         isActive
       })
@@ -100,6 +144,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features,
         isActive
       })
@@ -119,6 +169,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features,
         isActive
       })
@@ -139,6 +195,38 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
+        features,
+        isActive
+      })
+    }
+
+    const trialDaysNum = trialDays ? parseInt(trialDays) : 0
+    if (isNaN(trialDaysNum) || trialDaysNum < 0 || trialDaysNum > 365) {
+      return fail(400, {
+        error: 'Trial length must be between 0 and 365 days',
+        name,
+        tier,
+        stripePriceId,
+        priceAmount,
+        currency,
+        billingInterval,
+        textGenerationLimit,
+        imageGenerationLimit,
+        videoGenerationLimit,
+        audioGenerationLimit,
+        voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features,
         isActive
       })
@@ -151,6 +239,11 @@ export const actions: Actions = {
       const videoLimit = videoGenerationLimit === '' || videoGenerationLimit === undefined || videoGenerationLimit === null ? null : parseInt(videoGenerationLimit)
       const audioLimit = audioGenerationLimit === '' || audioGenerationLimit === undefined || audioGenerationLimit === null ? null : parseInt(audioGenerationLimit)
       const voiceLimit = voiceGenerationLimit === '' || voiceGenerationLimit === undefined || voiceGenerationLimit === null ? null : parseInt(voiceGenerationLimit)
+      const musicLimit = musicGenerationLimit === '' || musicGenerationLimit === undefined || musicGenerationLimit === null ? null : parseInt(musicGenerationLimit)
+      const soundEffectLimit = soundEffectGenerationLimit === '' || soundEffectGenerationLimit === undefined || soundEffectGenerationLimit === null ? null : parseInt(soundEffectGenerationLimit)
+      const transcriptionLimit = transcriptionGenerationLimit === '' || transcriptionGenerationLimit === undefined || transcriptionGenerationLimit === null ? null : parseInt(transcriptionGenerationLimit)
+      const tokenLimit = monthlyTokenLimit === '' || monthlyTokenLimit === undefined || monthlyTokenLimit === null ? null : parseInt(monthlyTokenLimit)
+      const costLimit = monthlyCostLimit === '' || monthlyCostLimit === undefined || monthlyCostLimit === null ? null : parseInt(monthlyCostLimit)
 
       // Parse features array
       let featuresArray: string[] = []
@@ -177,7 +270,14 @@ export const actions: Actions = {
           videoGenerationLimit: videoLimit !== null && !isNaN(videoLimit) ? videoLimit : null,
           audioGenerationLimit: audioLimit !== null && !isNaN(audioLimit) ? audioLimit : null,
           voiceGenerationLimit: voiceLimit !== null && !isNaN(voiceLimit) ? voiceLimit : null,
+          musicGenerationLimit: musicLimit !== null && !isNaN(musicLimit) ? musicLimit : null,
+          soundEffectGenerationLimit: soundEffectLimit !== null && !isNaN(soundEffectLimit) ? soundEffectLimit : null,
+          transcriptionGenerationLimit: transcriptionLimit !== null && !isNaN(transcriptionLimit) ? transcriptionLimit : null,
+          monthlyTokenLimit: tokenLimit !== null && !isNaN(tokenLimit) ? tokenLimit : null,
+          monthlyCostLimit: costLimit !== null && !isNaN(costLimit) ? costLimit : null,
+          trialDays: trialDaysNum,
           features: featuresArray,
+          allowedTools,
           isActive,
           updatedAt: new Date()
         })
@@ -204,6 +304,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features,
         isActive
       })
@@ -31,6 +31,12 @@ export const actions: Actions = {
     const videoGenerationLimit = data.get('videoGenerationLimit')?.toString()
     const audioGenerationLimit = data.get('audioGenerationLimit')?.toString()
     const voiceGenerationLimit = data.get('voiceGenerationLimit')?.toString()
+    const musicGenerationLimit = data.get('musicGenerationLimit')?.toString()
+    const soundEffectGenerationLimit = data.get('soundEffectGenerationLimit')?.toString()
+    const transcriptionGenerationLimit = data.get('transcriptionGenerationLimit')?.toString()
+    const monthlyTokenLimit = data.get('monthlyTokenLimit')?.toString()
+    const monthlyCostLimit = data.get('monthlyCostLimit')?.toString()
+    const trialDays = data.get('trialDays')?.toString()
     const features = data.get('features')?.toString()
 
     // Validation
@@ -48,6 +54,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features
       })
     }
@@ -66,6 +78,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features
       })
     }
@@ -84,6 +102,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features
       })
     }
@@ -103,6 +127,37 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
+        features
+      })
+    }
+
+    const trialDaysNum = trialDays ? parseInt(trialDays) : 0
+    if (isNaN(trialDaysNum) || trialDaysNum < 0 || trialDaysNum > 365) {
+      return fail(400, {
+        error: 'Trial length must be between 0 and 365 days',
+        name,
+        tier,
+        stripePriceId,
+        priceAmount,
+        currency,
+        billingInterval,
+        textGenerationLimit,
+        imageGenerationLimit,
+        videoGenerationLimit,
+        audioGenerationLimit,
+        voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features
       })
     }
@@ -114,6 +169,11 @@ export const actions: Actions = {
       const videoLimit = videoGenerationLimit === '' || videoGenerationLimit === undefined || videoGenerationLimit === null ? null : parseInt(videoGenerationLimit)
       const audioLimit = audioGenerationLimit === '' || audioGenerationLimit === undefined || audioGenerationLimit === null ? null : parseInt(audioGenerationLimit)
       const voiceLimit = voiceGenerationLimit === '' || voiceGenerationLimit === undefined || voiceGenerationLimit === null ? null : parseInt(voiceGenerationLimit)
+      const musicLimit = musicGenerationLimit === '' || musicGenerationLimit === undefined || musicGenerationLimit === null ? null : parseInt(musicGenerationLimit)
+      const soundEffectLimit = soundEffectGenerationLimit === '' || soundEffectGenerationLimit === undefined || soundEffectGenerationLimit === null ? null : parseInt(soundEffectGenerationLimit)
+      const transcriptionLimit = transcriptionGenerationLimit === '' || transcriptionGenerationLimit === undefined || transcriptionGenerationLimit === null ? null : parseInt(transcriptionGenerationLimit)
+      const tokenLimit = monthlyTokenLimit === '' || monthlyTokenLimit === undefined || monthlyTokenLimit === null ? null : parseInt(monthlyTokenLimit)
+      const costLimit = monthlyCostLimit === '' || monthlyCostLimit === undefined || monthlyCostLimit === null ? null : parseInt(monthlyCostLimit)
 
       // Parse features array
       let featuresArray: string[] = []
@@ -138,6 +198,12 @@ export const actions: Actions = {
         videoGenerationLimit: videoLimit !== null && !isNaN(videoLimit) ? videoLimit : null,
         audioGenerationLimit: audioLimit !== null && !isNaN(audioLimit) ? audioLimit : null,
         voiceGenerationLimit: voiceLimit !== null && !isNaN(voiceLimit) ? voiceLimit : null,
+        musicGenerationLimit: musicLimit !== null && !isNaN(musicLimit) ? musicLimit : null,
+        soundEffectGenerationLimit: soundEffectLimit !== null && !isNaN(soundEffectLimit) ? soundEffectLimit : null,
+        transcriptionGenerationLimit: transcriptionLimit !== null && !isNaN(transcriptionLimit) ? transcriptionLimit : null,
+        monthlyTokenLimit: tokenLimit !== null && !isNaN(tokenLimit) ? tokenLimit : null,
+        monthlyCostLimit: costLimit !== null && !isNaN(costLimit) ? costLimit : null,
+        trialDays: trialDaysNum,
         features: featuresArray,
         isActive: true
       })
@@ -163,6 +229,12 @@ export const actions: Actions = {
         videoGenerationLimit,
         audioGenerationLimit,
         voiceGenerationLimit,
+        musicGenerationLimit,
+        soundEffectGenerationLimit,
+        transcriptionGenerationLimit,
+        monthlyTokenLimit,
+        monthlyCostLimit,
+        trialDays,
         features
       })
     }
@@ -0,0 +1,254 @@
+import type { Actions, PageServerLoad } from './$types'
+import { db, promoCodes, promoCodeRedemptions, pricingPlans, creditPlans, users } from '$lib/server/db/index.js'
+import { eq, desc } from 'drizzle-orm'
+import { fail, redirect } from '@sveltejs/kit'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+import { normalizePromoCode } from '$lib/server/promo-codes.js'
+
+const RECENT_REDEMPTIONS_LIMIT = 50
+
+export const load: PageServerLoad = async () => {
+  try {
+    const [codes, plans, packs, redemptions] = await Promise.all([
+      db.select().from(promoCodes).orderBy(desc(promoCodes.createdAt)),
+      db
+        .select({ id: pricingPlans.id, name: pricingPlans.name, billingInterval: pricingPlans.billingInterval })
+        .from(pricingPlans)
+        .orderBy(pricingPlans.priceAmount),
+      db
+        .select({ id: creditPlans.id, name: creditPlans.name })
+        .from(creditPlans)
+        .orderBy(creditPlans.creditType, creditPlans.priceAmount),
+      db
+        .select({
+          id: promoCodeRedemptions.id,
+          code: promoCodes.code,
+          userId: promoCodeRedemptions.userId,
+          userEmail: users.email,
+          purchaseType: promoCodeRedemptions.purchaseType,
+          paymentProvider: promoCodeRedemptions.paymentProvider,
+          originalAmount: promoCodeRedemptions.originalAmount,
+          discountAmount: promoCodeRedemptions.discountAmount,
+          currency: promoCodeRedemptions.currency,
+          redeemedAt: promoCodeRedemptions.redeemedAt
+        })
+        .from(promoCodeRedemptions)
+        .innerJoin(promoCodes, eq(promoCodeRedemptions.promoCodeId, promoCodes.id))
+        .leftJoin(users, eq(promoCodeRedemptions.userId, users.id))
+        .where(eq(promoCodeRedemptions.status, 'redeemed'))
+        .orderBy(desc(promoCodeRedemptions.redeemedAt))
+        .limit(RECENT_REDEMPTIONS_LIMIT)
+    ])
+
+    return {
+      promoCodes: codes,
+      pricingPlans: plans,
+      creditPlans: packs,
+      redemptions,
+      isDemoMode: isDemoModeEnabled()
+    }
+  } catch (error) {
+    console.error('Error loading promo codes (table may not exist yet):', error)
+    return {
+      promoCodes: [],
+      pricingPlans: [],
+      creditPlans: [],
+      redemptions: [],
+      isDemoMode: isDemoModeEnabled()
+    }
+  }
+}
+
+function parseOptionalInt(value: string | undefined): number | null | undefined {
+  if (!value) return null
+  const parsed = parseInt(value)
+  return isNaN(parsed) ? undefined : parsed
+}
+
+export const actions: Actions = {
+  create: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+
+    const code = normalizePromoCode(data.get('code')?.toString() || '')
+    const description = data.get('description')?.toString() || null
+    const discountType = data.get('discountType')?.toString()
+    const percentOff = data.get('percentOff')?.toString()
+    const amountOff = data.get('amountOff')?.toString()
+    const amountOffBdt = data.get('amountOffBdt')?.toString()
+    const appliesTo = data.get('appliesTo')?.toString() || 'all'
+    const planIds = data.getAll('planIds').map((id) => id.toString()).filter(Boolean)
+    const firstPurchaseOnly = data.get('firstPurchaseOnly') === 'on'
+    const maxRedemptions = data.get('maxRedemptions')?.toString()
+    const expiresAt = data.get('expiresAt')?.toString()
+
+    const values = { code, description, discountType, percentOff, amountOff, amountOffBdt, appliesTo, maxRedemptions, expiresAt }
+
+    if (!code || !discountType) {
+      return fail(400, { error: 'Code and discount type are required', ...values })
+    }
+
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      return fail(400, { error: 'Code must be 3-32 letters, numbers, dashes or underscores', ...values })
+    }
+
+    if (!['percentage', 'fixed'].includes(discountType)) {
+      return fail(400, { error: 'Invalid discount type selected', ...values })
+    }
+
+    if (!['all', 'subscriptions', 'credits'].includes(appliesTo)) {
+      return fail(400, { error: 'Invalid purchase type selected', ...values })
+    }
+
+    const percentOffNum = parseOptionalInt(percentOff)
+    const amountOffNum = parseOptionalInt(amountOff)
+    const amountOffBdtNum = parseOptionalInt(amountOffBdt)
+
+    if (discountType === 'percentage') {
+      if (!percentOffNum || percentOffNum < 1 || percentOffNum > 100) {
+        return fail(400, { error: 'Percent off must be between 1 and 100', ...values })
+      }
+    } else {
+      if (amountOffNum === undefined || amountOffBdtNum === undefined) {
+        return fail(400, { error: 'Discount amounts must be valid numbers', ...values })
+      }
+      if (!amountOffNum && !amountOffBdtNum) {
+        return fail(400, { error: 'Enter a USD and/or BDT amount for fixed discounts', ...values })
+      }
+      if ((amountOffNum ?? 0) < 0 || (amountOffBdtNum ?? 0) < 0) {
+        return fail(400, { error: 'Discount amounts must be positive', ...values })
+      }
+    }
+
+    const maxRedemptionsNum = parseOptionalInt(maxRedemptions)
+    if (maxRedemptionsNum === undefined || (maxRedemptionsNum !== null && maxRedemptionsNum <= 0)) {
+      return fail(400, { error: 'Max redemptions must be a positive number', ...values })
+    }
+
+    // Date inputs give YYYY-MM-DD; the code stays valid through the end of that day (UTC)
+    const expiresAtDate = expiresAt ? new Date(`${expiresAt}T23:59:59.999Z`) : null
+    if (expiresAtDate && isNaN(expiresAtDate.getTime())) {
+      return fail(400, { error: 'Invalid expiry date', ...values })
+    }
+
+    try {
+      const existing = await db
+        .select({ id: promoCodes.id })
+        .from(promoCodes)
+        .where(eq(promoCodes.code, code))
+        .limit(1)
+
+      if (existing.length > 0) {
+        return fail(400, { error: `Promo code ${code} already exists`, ...values })
+      }
+
+      await db.insert(promoCodes).values({
+        code,
+        description,
+        discountType: discountType as 'percentage' | 'fixed',
+        percentOff: discountType === 'percentage' ? percentOffNum : null,
+        amountOff: discountType === 'fixed' ? amountOffNum || null : null,
+        amountOffBdt: discountType === 'fixed' ? amountOffBdtNum || null : null,
+        appliesTo: appliesTo as 'all' | 'subscriptions' | 'credits',
+        planIds: planIds.length > 0 ? planIds : null,
+        firstPurchaseOnly,
+        maxRedemptions: maxRedemptionsNum,
+        expiresAt: expiresAtDate,
+        isActive: true
+      })
+
+      throw redirect(303, '/admin/settings/promo-codes')
+    } catch (error) {
+      if (error instanceof Response || (error && typeof error === 'object' && 'status' in error && error.status === 303)) {
+        throw error
+      }
+
+      console.error('Error creating promo code:', error)
+      return fail(500, { error: 'Failed to create promo code', ...values })
+    }
+  },
+
+  toggleActive: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const promoCodeId = data.get('promoCodeId')?.toString()
+
+    if (!promoCodeId) {
+      return fail(400, { error: 'Promo code ID is required' })
+    }
+
+    try {
+      const existing = await db
+        .select({ isActive: promoCodes.isActive })
+        .from(promoCodes)
+        .where(eq(promoCodes.id, promoCodeId))
+        .limit(1)
+
+      if (existing.length === 0) {
+        return fail(404, { error: 'Promo code not found' })
+      }
+
+      await db
+        .update(promoCodes)
+        .set({
+          isActive: !existing[0].isActive,
+          updatedAt: new Date()
+        })
+        .where(eq(promoCodes.id, promoCodeId))
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error toggling promo code status:', error)
+      return fail(500, { error: 'Failed to toggle promo code status' })
+    }
+  },
+
+  delete: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const promoCodeId = data.get('promoCodeId')?.toString()
+
+    if (!promoCodeId) {
+      return fail(400, { error: 'Promo code ID is required' })
+    }
+
+    try {
+      const existing = await db
+        .select({ redemptionCount: promoCodes.redemptionCount })
+        .from(promoCodes)
+        .where(eq(promoCodes.id, promoCodeId))
+        .limit(1)
+
+      if (existing.length === 0) {
+        return fail(404, { error: 'Promo code not found' })
+      }
+
+      // Deleting would also delete its redemption history
+      if (existing[0].redemptionCount > 0) {
+        return fail(400, { error: 'This code has been redeemed. Deactivate it instead to keep its history.' })
+      }
+
+      await db.delete(promoCodes).where(eq(promoCodes.id, promoCodeId))
+
+      return { success: true, message: 'Promo code deleted' }
+    } catch (error) {
+      console.error('Error deleting promo code:', error)
+      return fail(500, { error: 'Failed to delete promo code' })
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import type { Actions, PageServerLoad } from './$types'
+import { fail } from '@sveltejs/kit'
+import { adminSettingsService } from '$lib/server/admin-settings'
+import { settingsStore, getOpaySettings, parseReminderDays, parseGracePeriodDays } from '$lib/server/settings-store'
+import { ScheduledJobService } from '$lib/server/scheduled-jobs.js'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+
+const RUNS_PER_PAGE = 20
+
+export const load: PageServerLoad = async ({ url }) => {
+  const page = parseInt(url.searchParams.get('page') || '1')
+  const offset = (page - 1) * RUNS_PER_PAGE
+
+  const opaySettings = await getOpaySettings()
+  const settings = {
+    renewalReminderDays: opaySettings.renewalReminderDays.join(', '),
+    gracePeriodDays: opaySettings.gracePeriodDays.toString()
+  }
+
+  try {
+    const [lastRuns, runs] = await Promise.all([
+      ScheduledJobService.getLastRuns(),
+      // One extra row tells whether there is a next page
+      ScheduledJobService.getRecentRuns(RUNS_PER_PAGE + 1, offset)
+    ])
+
+    return {
+      jobs: ScheduledJobService.getJobs().map(job => ({ ...job, lastRun: lastRuns[job.name] ?? null })),
+      runs: runs.slice(0, RUNS_PER_PAGE),
+      hasNextPage: runs.length > RUNS_PER_PAGE,
+      currentPage: page,
+      settings,
+      isDemoMode: isDemoModeEnabled()
+    }
+  } catch (error) {
+    console.error('Error loading scheduled job runs (table may not exist yet):', error)
+    return {
+      jobs: ScheduledJobService.getJobs().map(job => ({ ...job, lastRun: null })),
+      runs: [],
+      hasNextPage: false,
+      currentPage: 1,
+      settings,
+      isDemoMode: isDemoModeEnabled()
+    }
+  }
+}
+
+export const actions: Actions = {
+  run: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const job = data.get('job')?.toString() ?? ''
+
+    if (!ScheduledJobService.isJobName(job)) {
+      return fail(400, { error: 'Unknown job' })
+    }
+
+    try {
+      const run = await ScheduledJobService.runJob(job, 'manual')
+
+      if (!run) {
+        return fail(409, { error: 'This job is already running' })
+      }
+      if (run.status === 'failed') {
+        return fail(500, { error: `Job failed: ${run.error}` })
+      }
+
+      return { success: true, message: run.summary }
+    } catch (error) {
+      console.error('Error running scheduled job:', error)
+      return fail(500, { error: 'Failed to run job' })
+    }
+  },
+
+  settings: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const renewalReminderDays = data.get('renewalReminderDays')?.toString() ?? ''
+    const gracePeriodDays = data.get('gracePeriodDays')?.toString() ?? ''
+
+    const reminderDays = parseReminderDays(renewalReminderDays)
+    if (!reminderDays) {
+      return fail(400, {
+        error: 'Reminder days must be a comma-separated list of whole numbers between 1 and 60',
+        renewalReminderDays,
+        gracePeriodDays
+      })
+    }
+
+    const graceDays = parseGracePeriodDays(gracePeriodDays)
+    if (graceDays === null) {
+      return fail(400, {
+        error: 'Grace period must be a whole number of days between 0 and 60',
+        renewalReminderDays,
+        gracePeriodDays
+      })
+    }
+
+    try {
+      await adminSettingsService.setSettings([
+        { key: 'opay_renewal_reminder_days', value: reminderDays.join(','), category: 'payment', description: 'Days before Opaybd expiry to send renewal reminders' },
+        { key: 'opay_grace_period_days', value: graceDays.toString(), category: 'payment', description: 'Days after Opaybd expiry before downgrading to free' }
+      ])
+      settingsStore.clearCache()
+
+      return { success: true, message: 'Settings saved' }
+    } catch (error) {
+      console.error('Error saving scheduled job settings:', error)
+      return fail(500, { error: 'Failed to save settings', renewalReminderDays, gracePeriodDays })
+    }
+  }
+}
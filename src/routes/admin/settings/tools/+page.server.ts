@@ -0,0 +1,119 @@
+import type { Actions, PageServerLoad } from './$types'
+import { db, customTools } from '$lib/server/db/index.js'
+import { eq, desc } from 'drizzle-orm'
+import { fail, redirect } from '@sveltejs/kit'
+import { CustomToolsService } from '$lib/server/custom-tools.js'
+import { getBuiltInToolList } from '$lib/ai/tools/index.js'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+
+export const load: PageServerLoad = async () => {
+  try {
+    const tools = await db
+      .select({
+        id: customTools.id,
+        name: customTools.name,
+        displayName: customTools.displayName,
+        endpointUrl: customTools.endpointUrl,
+        httpMethod: customTools.httpMethod,
+        timeoutMs: customTools.timeoutMs,
+        maxResponseBytes: customTools.maxResponseBytes,
+        isActive: customTools.isActive
+      })
+      .from(customTools)
+      .orderBy(desc(customTools.createdAt))
+
+    return {
+      customTools: tools,
+      builtInTools: getBuiltInToolList(),
+      isDemoMode: isDemoModeEnabled()
+    }
+  } catch (error) {
+    console.error('Error loading custom tools (table may not exist yet):', error)
+    return {
+      customTools: [],
+      builtInTools: getBuiltInToolList(),
+      isDemoMode: isDemoModeEnabled()
+    }
+  }
+}
+
+export const actions: Actions = {
+  create: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const parsed = await CustomToolsService.parseToolForm(await request.formData())
+
+    if ('error' in parsed) {
+      return fail(400, { error: parsed.error, ...parsed.fields })
+    }
+
+    try {
+      const [existing] = await db
+        .select({ id: customTools.id })
+        .from(customTools)
+        .where(eq(customTools.name, parsed.values.name))
+        .limit(1)
+
+      if (existing) {
+        return fail(400, { error: `A tool named "${parsed.values.name}" already exists`, ...parsed.fields })
+      }
+
+      await db.insert(customTools).values({ ...parsed.values, isActive: true })
+      CustomToolsService.clearCache()
+
+      throw redirect(303, '/admin/settings/tools')
+    } catch (error) {
+      if (error instanceof Response || (error && typeof error === 'object' && 'status' in error && error.status === 303)) {
+        throw error
+      }
+
+      console.error('Error creating custom tool:', error)
+      return fail(500, { error: 'Failed to create tool', ...parsed.fields })
+    }
+  },
+
+  toggleActive: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const toolId = data.get('toolId')?.toString()
+
+    if (!toolId) {
+      return fail(400, { error: 'Tool ID is required' })
+    }
+
+    try {
+      const existing = await db
+        .select({ isActive: customTools.isActive })
+        .from(customTools)
+        .where(eq(customTools.id, toolId))
+        .limit(1)
+
+      if (existing.length === 0) {
+        return fail(404, { error: 'Tool not found' })
+      }
+
+      await db
+        .update(customTools)
+        .set({
+          isActive: !existing[0].isActive,
+          updatedAt: new Date()
+        })
+        .where(eq(customTools.id, toolId))
+      CustomToolsService.clearCache()
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error toggling custom tool status:', error)
+      return fail(500, { error: 'Failed to toggle tool status' })
+    }
+  }
+}
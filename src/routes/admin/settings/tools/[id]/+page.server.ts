@@ -0,0 +1,119 @@
+import type { Actions, PageServerLoad } from './$types'
+import { db, customTools } from '$lib/server/db/index.js'
+import { and, eq, ne } from 'drizzle-orm'
+import { fail, redirect, error } from '@sveltejs/kit'
+import { CustomToolsService } from '$lib/server/custom-tools.js'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+
+export const load: PageServerLoad = async ({ params }) => {
+  const toolId = params.id
+
+  if (!toolId) {
+    throw error(404, 'Tool not found')
+  }
+
+  const tool = await db
+    .select()
+    .from(customTools)
+    .where(eq(customTools.id, toolId))
+    .limit(1)
+
+  if (tool.length === 0) {
+    throw error(404, 'Tool not found')
+  }
+
+  // Never send the stored secret to the browser, only whether one is set
+  const { authHeaderValue, ...rest } = tool[0]
+
+  return {
+    tool: { ...rest, hasAuthHeaderValue: !!authHeaderValue },
+    isDemoMode: isDemoModeEnabled()
+  }
+}
+
+export const actions: Actions = {
+  update: async ({ request, params }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const toolId = params.id
+
+    if (!toolId) {
+      throw error(404, 'Tool not found')
+    }
+
+    const data = await request.formData()
+    const isActive = data.get('isActive') === 'on'
+    const parsed = await CustomToolsService.parseToolForm(data)
+
+    if ('error' in parsed) {
+      return fail(400, { error: parsed.error, ...parsed.fields, isActive })
+    }
+
+    try {
+      const [duplicate] = await db
+        .select({ id: customTools.id })
+        .from(customTools)
+        .where(and(eq(customTools.name, parsed.values.name), ne(customTools.id, toolId)))
+        .limit(1)
+
+      if (duplicate) {
+        return fail(400, { error: `A tool named "${parsed.values.name}" already exists`, ...parsed.fields, isActive })
+      }
+
+      await db
+        .update(customTools)
+        .set({
+          ...parsed.values,
+          isActive,
+          updatedAt: new Date()
+        })
+        .where(eq(customTools.id, toolId))
+      CustomToolsService.clearCache()
+
+      throw redirect(303, '/admin/settings/tools')
+    } catch (error) {
+      if (error instanceof Response || (error && typeof error === 'object' && 'status' in error && error.status === 303)) {
+        throw error
+      }
+
+      console.error('Error updating custom tool:', error)
+      return fail(500, { error: 'Failed to update tool', ...parsed.fields, isActive })
+    }
+  },
+
+  delete: async ({ params }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const toolId = params.id
+
+    if (!toolId) {
+      throw error(404, 'Tool not found')
+    }
+
+    try {
+      await db
+        .delete(customTools)
+        .where(eq(customTools.id, toolId))
+      CustomToolsService.clearCache()
+
+      throw redirect(303, '/admin/settings/tools')
+    } catch (error) {
+      if (error instanceof Response || (error && typeof error === 'object' && 'status' in error && error.status === 303)) {
+        throw error
+      }
+
+      console.error('Error deleting custom tool:', error)
+      return fail(500, {
+        error: 'Failed to delete tool'
+      })
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import type { Actions, PageServerLoad } from './$types'
+import { db, mcpServers } from '$lib/server/db/index.js'
+import { eq, desc } from 'drizzle-orm'
+import { fail, redirect } from '@sveltejs/kit'
+import { McpToolsService } from '$lib/server/mcp-tools.js'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+
+export const load: PageServerLoad = async () => {
+  try {
+    const servers = await db
+      .select({
+        id: mcpServers.id,
+        name: mcpServers.name,
+        displayName: mcpServers.displayName,
+        transport: mcpServers.transport,
+        command: mcpServers.command,
+        url: mcpServers.url,
+        timeoutMs: mcpServers.timeoutMs,
+        isActive: mcpServers.isActive
+      })
+      .from(mcpServers)
+      .orderBy(desc(mcpServers.createdAt))
+
+    return {
+      servers,
+      isDemoMode: isDemoModeEnabled()
+    }
+  } catch (error) {
+    console.error('Error loading MCP servers (table may not exist yet):', error)
+    return {
+      servers: [],
+      isDemoMode: isDemoModeEnabled()
+    }
+  }
+}
+
+export const actions: Actions = {
+  create: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const parsed = McpToolsService.parseServerForm(await request.formData())
+
+    if ('error' in parsed) {
+      return fail(400, { error: parsed.error, ...parsed.fields })
+    }
+
+    try {
+      const [existing] = await db
+        .select({ id: mcpServers.id })
+        .from(mcpServers)
+        .where(eq(mcpServers.name, parsed.values.name))
+        .limit(1)
+
+      if (existing) {
+        return fail(400, { error: `A server named "${parsed.values.name}" already exists`, ...parsed.fields })
+      }
+
+      const [created] = await db
+        .insert(mcpServers)
+        .values({ ...parsed.values, isActive: true })
+        .returning({ id: mcpServers.id })
+      McpToolsService.clearCache()
+
+      // The edit page connects to the server and lists its tools
+      throw redirect(303, `/admin/settings/tools/mcp/${created.id}`)
+    } catch (error) {
+      if (error instanceof Response || (error && typeof error === 'object' && 'status' in error && error.status === 303)) {
+        throw error
+      }
+
+      console.error('Error creating MCP server:', error)
+      return fail(500, { error: 'Failed to add server', ...parsed.fields })
+    }
+  },
+
+  toggleActive: async ({ request }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const data = await request.formData()
+    const serverId = data.get('serverId')?.toString()
+
+    if (!serverId) {
+      return fail(400, { error: 'Server ID is required' })
+    }
+
+    try {
+      const existing = await db
+        .select({ isActive: mcpServers.isActive })
+        .from(mcpServers)
+        .where(eq(mcpServers.id, serverId))
+        .limit(1)
+
+      if (existing.length === 0) {
+        return fail(404, { error: 'Server not found' })
+      }
+
+      await db
+        .update(mcpServers)
+        .set({
+          isActive: !existing[0].isActive,
+          updatedAt: new Date()
+        })
+        .where(eq(mcpServers.id, serverId))
+      McpToolsService.clearCache()
+
+      return { success: true }
+    } catch (error) {
+      console.error('Error toggling MCP server status:', error)
+      return fail(500, { error: 'Failed to toggle server status' })
+    }
+  }
+}
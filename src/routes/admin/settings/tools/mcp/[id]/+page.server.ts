@@ -0,0 +1,121 @@
+import type { Actions, PageServerLoad } from './$types'
+import { db, mcpServers } from '$lib/server/db/index.js'
+import { and, eq, ne } from 'drizzle-orm'
+import { fail, redirect, error } from '@sveltejs/kit'
+import { McpToolsService } from '$lib/server/mcp-tools.js'
+import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+
+export const load: PageServerLoad = async ({ params }) => {
+  const serverId = params.id
+
+  if (!serverId) {
+    throw error(404, 'Server not found')
+  }
+
+  const server = await db
+    .select()
+    .from(mcpServers)
+    .where(eq(mcpServers.id, serverId))
+    .limit(1)
+
+  if (server.length === 0) {
+    throw error(404, 'Server not found')
+  }
+
+  // Never send the stored secrets to the browser, only whether any are set
+  const { secrets, ...rest } = server[0]
+
+  return {
+    server: { ...rest, hasSecrets: !!secrets },
+    // Connects with the saved config, so this doubles as a connection test
+    discovery: await McpToolsService.inspectServer(server[0]),
+    isDemoMode: isDemoModeEnabled()
+  }
+}
+
+export const actions: Actions = {
+  update: async ({ request, params }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const serverId = params.id
+
+    if (!serverId) {
+      throw error(404, 'Server not found')
+    }
+
+    const data = await request.formData()
+    const isActive = data.get('isActive') === 'on'
+    const parsed = McpToolsService.parseServerForm(data)
+
+    if ('error' in parsed) {
+      return fail(400, { error: parsed.error, ...parsed.fields, isActive })
+    }
+
+    try {
+      const [duplicate] = await db
+        .select({ id: mcpServers.id })
+        .from(mcpServers)
+        .where(and(eq(mcpServers.name, parsed.values.name), ne(mcpServers.id, serverId)))
+        .limit(1)
+
+      if (duplicate) {
+        return fail(400, { error: `A server named "${parsed.values.name}" already exists`, ...parsed.fields, isActive })
+      }
+
+      await db
+        .update(mcpServers)
+        .set({
+          ...parsed.values,
+          isActive,
+          updatedAt: new Date()
+        })
+        .where(eq(mcpServers.id, serverId))
+      McpToolsService.clearCache()
+
+      throw redirect(303, '/admin/settings/tools/mcp')
+    } catch (error) {
+      if (error instanceof Response || (error && typeof error === 'object' && 'status' in error && error.status === 303)) {
+        throw error
+      }
+
+      console.error('Error updating MCP server:', error)
+      return fail(500, { error: 'Failed to update server', ...parsed.fields, isActive })
+    }
+  },
+
+  delete: async ({ params }) => {
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const serverId = params.id
+
+    if (!serverId) {
+      throw error(404, 'Server not found')
+    }
+
+    try {
+      await db
+        .delete(mcpServers)
+        .where(eq(mcpServers.id, serverId))
+      McpToolsService.clearCache()
+
+      throw redirect(303, '/admin/settings/tools/mcp')
+    } catch (error) {
+      if (error instanceof Response || (error && typeof error === 'object' && 'status' in error && error.status === 303)) {
+        throw error
+      }
+
+      console.error('Error deleting MCP server:', error)
+      return fail(500, {
+        error: 'Failed to delete server'
+      })
+    }
+  }
+}
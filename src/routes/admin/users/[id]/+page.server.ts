@@ -1,8 +1,22 @@
 import type { PageServerLoad, Actions } from './$types'
-import { db, users, paymentHistory, subscriptions, usageTracking, pricingPlans } from '$lib/server/db'
+import { db, users, paymentHistory, subscriptions, usageTracking, pricingPlans, promoCodes, promoCodeRedemptions } from '$lib/server/db'
 import { eq, desc, and } from 'drizzle-orm'
 import { error, fail } from '@sveltejs/kit'
 import { isDemoModeEnabled, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js'
+import { CreditService, type CreditType } from '$lib/server/credit-service'
+import { AdminAuditService } from '$lib/server/admin-audit'
+import { AdminBillingService, AdminActionError } from '$lib/server/admin-billing'
+
+const CREDIT_TYPES: CreditType[] = ['text', 'image', 'video', 'audio', 'voice', 'music', 'soundEffect', 'transcription']
+
+// Turns errors from AdminBillingService into form errors
+function billingFailure(err: unknown, action: string) {
+  if (err instanceof AdminActionError) {
+    return fail(400, { error: err.message })
+  }
+  console.error(`Error trying to ${action}:`, err)
+  return fail(500, { error: `Failed to ${action}. Please try again.` })
+}
 
 export const load: PageServerLoad = async ({ params, locals }) => {
   const userId = params.id
@@ -29,6 +43,7 @@ export const load: PageServerLoad = async ({ params, locals }) => {
     .select({
       id: paymentHistory.id,
       amount: paymentHistory.amount,
+      refundedAmount: paymentHistory.refundedAmount,
       currency: paymentHistory.currency,
       status: paymentHistory.status,
       description: paymentHistory.description,
@@ -51,6 +66,7 @@ export const load: PageServerLoad = async ({ params, locals }) => {
       currentPeriodStart: subscriptions.currentPeriodStart,
       currentPeriodEnd: subscriptions.currentPeriodEnd,
       cancelAtPeriodEnd: subscriptions.cancelAtPeriodEnd,
+      paymentProvider: subscriptions.paymentProvider,
       createdAt: subscriptions.createdAt,
       updatedAt: subscriptions.updatedAt
     })
@@ -58,6 +74,29 @@ export const load: PageServerLoad = async ({ params, locals }) => {
     .where(eq(subscriptions.userId, userId))
     .orderBy(desc(subscriptions.createdAt))
 
+  // Fetch promo codes the user has redeemed
+  const userPromoRedemptions = await db
+    .select({
+      id: promoCodeRedemptions.id,
+      code: promoCodes.code,
+      purchaseType: promoCodeRedemptions.purchaseType,
+      paymentProvider: promoCodeRedemptions.paymentProvider,
+      originalAmount: promoCodeRedemptions.originalAmount,
+      discountAmount: promoCodeRedemptions.discountAmount,
+      currency: promoCodeRedemptions.currency,
+      redeemedAt: promoCodeRedemptions.redeemedAt
+    })
+    .from(promoCodeRedemptions)
+    .innerJoin(promoCodes, eq(promoCodeRedemptions.promoCodeId, promoCodes.id))
+    .where(and(eq(promoCodeRedemptions.userId, userId), eq(promoCodeRedemptions.status, 'redeemed')))
+    .orderBy(desc(promoCodeRedemptions.redeemedAt))
+
+  // Credit balances and the admin actions taken on this user
+  const [credits, auditLog] = await Promise.all([
+    CreditService.getUserCredits(userId),
+    AdminAuditService.list({ targetUserId: userId, limit: 20 })
+  ])
+
   // Get current month and year for usage tracking
   const now = new Date()
   const currentMonth = now.getMonth() + 1 // JavaScript months are 0-indexed
@@ -116,6 +155,9 @@ export const load: PageServerLoad = async ({ params, locals }) => {
     user: user[0],
     payments: userPayments,
     subscriptions: userSubscriptions,
+    promoRedemptions: userPromoRedemptions,
+    credits,
+    auditEntries: auditLog.entries,
     usage: currentUsage,
     planLimits,
     currentMonth,
@@ -253,5 +295,91 @@ export const actions: Actions = {
       console.error('Error updating user role:', err)
       return fail(500, { error: 'Failed to update user role. Please try again.' })
     }
+  },
+
+  adjustCredits: async ({ request, params, locals }) => {
+    // Verify admin access
+    const session = await locals.auth()
+    if (!session?.user?.isAdmin) {
+      return fail(403, { error: 'Forbidden: Admin access required' })
+    }
+
+    // Check demo mode - block modifications
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const formData = await request.formData()
+    const mode = formData.get('mode')?.toString()
+    const creditType = formData.get('creditType')?.toString() as CreditType
+    const amount = parseInt(formData.get('amount')?.toString() || '')
+    const reason = formData.get('reason')?.toString() || ''
+
+    if (mode !== 'grant' && mode !== 'revoke') {
+      return fail(400, { error: 'Choose whether to grant or revoke credits' })
+    }
+
+    if (!CREDIT_TYPES.includes(creditType)) {
+      return fail(400, { error: 'Invalid credit type' })
+    }
+
+    const adjustment = {
+      admin: { id: session.user.id, email: session.user.email },
+      userId: params.id,
+      creditType,
+      amount,
+      reason
+    }
+
+    try {
+      if (mode === 'grant') {
+        await AdminBillingService.grantCredits(adjustment)
+      } else {
+        await AdminBillingService.revokeCredits(adjustment)
+      }
+
+      return { success: true, message: `${amount} ${creditType} credits ${mode === 'grant' ? 'granted' : 'revoked'} successfully` }
+    } catch (err) {
+      return billingFailure(err, `${mode} credits`)
+    }
+  },
+
+  extendSubscription: async ({ request, locals }) => {
+    // Verify admin access
+    const session = await locals.auth()
+    if (!session?.user?.isAdmin) {
+      return fail(403, { error: 'Forbidden: Admin access required' })
+    }
+
+    // Check demo mode - block modifications
+    if (isDemoModeEnabled()) {
+      return fail(403, {
+        error: DEMO_MODE_MESSAGES.ADMIN_SAVE_DISABLED
+      });
+    }
+
+    const formData = await request.formData()
+    const subscriptionId = formData.get('subscriptionId')?.toString()
+    const days = parseInt(formData.get('days')?.toString() || '')
+    const reason = formData.get('reason')?.toString() || ''
+
+    if (!subscriptionId) {
+      return fail(400, { error: 'Subscription is required' })
+    }
+
+    try {
+      const newEnd = await AdminBillingService.extendSubscription({
+        admin: { id: session.user.id, email: session.user.email },
+        subscriptionId,
+        days,
+        reason
+      })
+
+      return { success: true, message: `Subscription extended until ${newEnd.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}` }
+    } catch (err) {
+      return billingFailure(err, 'extend subscription')
+    }
   }
 }
\ No newline at end of file
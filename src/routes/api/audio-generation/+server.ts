@@ -2,11 +2,14 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { getModelProvider } from '$lib/ai/index.js';
 import type { AudioGenerationParams } from '$lib/ai/types.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
 import { saveAudioAndGetId } from '$lib/ai/utils.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -72,9 +75,20 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			}
 		}
 
-		// Check usage limits for audio generation
+		// Find the provider for this model
+		const provider = getModelProvider(model);
+		if (!provider) {
+			return json({ error: `No provider found for model: ${model}` }, { status: 400 });
+		}
+
+		// Check if the provider supports audio generation
+		if (!provider.generateAudio) {
+			return json({ error: `Model ${model} does not support audio generation` }, { status: 400 });
+		}
+
+		// Reserve usage for audio generation
 		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'audio');
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'audio');
 		} catch (error) {
 			if (error instanceof UsageLimitError) {
 				return json({
@@ -86,17 +100,6 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			throw error;
 		}
 
-		// Find the provider for this model
-		const provider = getModelProvider(model);
-		if (!provider) {
-			return json({ error: `No provider found for model: ${model}` }, { status: 400 });
-		}
-
-		// Check if the provider supports audio generation
-		if (!provider.generateAudio) {
-			return json({ error: `Model ${model} does not support audio generation` }, { status: 400 });
-		}
-
 		// Build params
 		const params: AudioGenerationParams = {
 			model,
@@ -121,7 +124,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		);
 
 		// Track usage for successful audio generation
-		UsageTrackingService.trackUsage(session.user.id, 'audio').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model,
+			characters: text.trim().length
+		}).catch(console.error);
 
 		// Return the audio response with the database ID
 		return json({
@@ -131,6 +137,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 	} catch (error) {
 		console.error('Audio generation API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
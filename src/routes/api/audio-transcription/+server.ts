@@ -2,7 +2,7 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { elevenlabsProvider } from '$lib/ai/providers/elevenlabs.js';
 import { ELEVENLABS_STT_MODELS } from '$lib/constants/elevenlabs.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
 import { saveTranscriptionAndGetId } from '$lib/ai/utils.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
@@ -27,6 +27,9 @@ const SUPPORTED_MIME_TYPES = [
 ];
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -80,9 +83,14 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			}, { status: 400 });
 		}
 
-		// Check usage limits for audio transcription
+		// Check if the provider supports transcription
+		if (!elevenlabsProvider.transcribeAudio) {
+			return json({ error: 'Transcription is not available' }, { status: 500 });
+		}
+
+		// Reserve usage for audio transcription
 		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'audio');
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'transcription');
 		} catch (error) {
 			if (error instanceof UsageLimitError) {
 				return json({
@@ -94,11 +102,6 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			throw error;
 		}
 
-		// Check if the provider supports transcription
-		if (!elevenlabsProvider.transcribeAudio) {
-			return json({ error: 'Transcription is not available' }, { status: 500 });
-		}
-
 		// Convert File to ArrayBuffer (reuse for both transcription and storage)
 		const audioArrayBuffer = await file.arrayBuffer();
 		const audioBlob = new Blob([audioArrayBuffer], { type: file.type });
@@ -125,7 +128,11 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		);
 
 		// Track usage for successful transcription
-		UsageTrackingService.trackUsage(session.user.id, 'audio').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model: modelId,
+			// Word timestamps are the only duration we get back
+			seconds: response.words?.at(-1)?.end
+		}).catch(console.error);
 
 		// Return the transcription response with database ID
 		return json({
@@ -135,6 +142,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 	} catch (error) {
 		console.error('Audio transcription API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
@@ -4,6 +4,7 @@ import { StripeService } from '$lib/server/stripe.js';
 import { db } from '$lib/server/db/index.js';
 import { users, paymentHistory, usageTracking } from '$lib/server/db/schema.js';
 import { eq, desc, and } from 'drizzle-orm';
+import { formatPaymentAmount, isInvoiceable } from '$lib/server/invoices.js';
 
 export const GET: RequestHandler = async ({ locals }) => {
 	try {
@@ -65,9 +66,10 @@ export const GET: RequestHandler = async ({ locals }) => {
 				paymentHistory: payments.map(payment => ({
 					id: payment.id,
 					description: payment.description || 'Subscription payment',
-					amount: `$${(payment.amount / 100).toFixed(2)}`,
+					amount: formatPaymentAmount(payment.amount, payment.currency),
 					date: payment.createdAt.toLocaleDateString(),
 					status: payment.status,
+					invoiceUrl: isInvoiceable(payment.status) ? `/api/invoices/${payment.id}` : null,
 				})),
 				currentUsage: usage ? {
 					textGeneration: usage.textGenerationCount,
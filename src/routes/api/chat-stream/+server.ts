@@ -1,20 +1,24 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { getModelProvider } from '$lib/ai/index.js';
-import type { AIMessage } from '$lib/ai/types.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import type { AIMessage, AIStreamChunk } from '$lib/ai/types.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
 import { GUEST_MESSAGE_LIMIT, isModelAllowedForGuests } from '$lib/constants/guest-limits.js';
 import { isDemoModeRestricted, isModelAllowedForDemo, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 import { removeWebSearchSuffix } from '$lib/constants/web-search.js';
 import { db } from '$lib/server/db/index.js';
-import { projects, projectFiles, users } from '$lib/server/db/schema.js';
+import { projects, users } from '$lib/server/db/schema.js';
 import { eq, and } from 'drizzle-orm';
+import { ProjectRetrievalService } from '$lib/server/project-retrieval.js';
+import { formatRetrievedContext } from '$lib/ai/retrieval/index.js';
+import { ChatMessageService } from '$lib/server/chat-messages.js';
 
 /**
- * Builds a system message containing project custom instructions and file context.
+ * Builds a system message containing project custom instructions and the project file
+ * excerpts most relevant to the latest user message, cited by filename and line range.
  * Returns null if the project has no instructions and no files.
  */
-async function buildProjectSystemMessage(projectId: string, userId: string): Promise<AIMessage | null> {
+async function buildProjectSystemMessage(projectId: string, userId: string, query: string): Promise<AIMessage | null> {
         const [project] = await db
                 .select({
                         customInstructions: projects.customInstructions,
@@ -25,26 +29,28 @@ async function buildProjectSystemMessage(projectId: string, userId: string): Pro
 
         if (!project) return null;
 
-        const files = await db
-                .select({
-                        filename: projectFiles.filename,
-                        mimeType: projectFiles.mimeType,
-                        content: projectFiles.content,
-                })
-                .from(projectFiles)
-                .where(eq(projectFiles.projectId, projectId));
-
         let systemContent = '';
 
         if (project.customInstructions) {
                 systemContent += `## Project Instructions\n${project.customInstructions}\n\n`;
         }
 
-        if (files.length > 0) {
-                systemContent += '## Project Context Files\n';
-                for (const file of files) {
-                        systemContent += `\n---\nFile: ${file.filename} (${file.mimeType})\n---\n${file.content}\n`;
+        try {
+                const { files, chunks } = await ProjectRetrievalService.search(projectId, query);
+
+                if (files.length > 0) {
+                        systemContent += '## Project Files\n';
+                        systemContent += `Files in this project: ${files.map(file => `${file.filename} (${file.mimeType})`).join(', ')}\n\n`;
+
+                        if (chunks.length > 0) {
+                                systemContent += 'Below are the excerpts most relevant to the user\'s latest message, not the full files. ' +
+                                        'When you use them, cite the source in brackets, e.g. [notes.md, lines 12-40]. ' +
+                                        'If the excerpts don\'t cover the question, say so rather than guessing what the rest of a file contains.\n\n';
+                                systemContent += `${formatRetrievedContext(chunks)}\n`;
+                        }
                 }
+        } catch (error) {
+                console.error('[Project Retrieval] Failed to load project file context:', error);
         }
 
         if (!systemContent) return null;
@@ -55,6 +61,14 @@ async function buildProjectSystemMessage(projectId: string, userId: string): Pro
         };
 }
 
+/**
+ * Text of the latest user message (the retrieval query)
+ */
+function getLatestUserText(messages: AIMessage[]): string {
+        const latest = [...messages].reverse().find(message => message.role === 'user');
+        return typeof latest?.content === 'string' ? latest.content : '';
+}
+
 async function buildUserPersonalization(userId: string): Promise<string> {
         try {
                 const [user] = await db
@@ -88,9 +102,13 @@ async function buildUserPersonalization(userId: string): Promise<string> {
 }
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+        // Released if the request fails before the stream finishes
+        let reservation: UsageReservation | undefined;
+
         try {
                 const body = await request.json();
-                const { model, messages, maxTokens, temperature, userId, chatId, selectedTool, maxSteps } = body;
+                const { model, maxTokens, temperature, chatId, selectedTool, maxSteps } = body;
+                let messages: AIMessage[] = body.messages;
 
                 if (!model) {
                         return json({ error: 'Model is required' }, { status: 400 });
@@ -103,6 +121,8 @@ export const POST: RequestHandler = async ({ request, locals }) => {
                 // Get user session to check authentication status
                 const session = await locals.getSession();
                 const isLoggedIn = !!session?.user?.id;
+                // Usage is charged to the signed-in user; a userId in the body is ignored
+                const userId = session?.user?.id;
 
                 // Get base model name (without :online suffix) for validation
                 const baseModel = removeWebSearchSuffix(model);
@@ -138,10 +158,15 @@ export const POST: RequestHandler = async ({ request, locals }) => {
                         }
                 }
 
-                // Check usage limits for text generation (if userId provided)
+                // Clients hold only the newest page of a long chat; answer with the whole saved conversation
+                if (session?.user?.id && typeof chatId === 'string') {
+                        messages = await ChatMessageService.getModelContext(chatId, session.user.id, messages);
+                }
+
+                // Reserve usage for text generation (signed-in users only)
                 if (userId) {
                         try {
-                                await UsageTrackingService.checkUsageLimit(userId, 'text');
+                                reservation = await UsageTrackingService.reserveUsage(userId, 'text');
                         } catch (error) {
                                 if (error instanceof UsageLimitError) {
                                         return json({
@@ -156,7 +181,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
                 // Inject project context if projectId provided
                 if (body.projectId && session?.user?.id) {
-                        const projectSystemMsg = await buildProjectSystemMessage(body.projectId, session.user.id);
+                        const projectSystemMsg = await buildProjectSystemMessage(body.projectId, session.user.id, getLatestUserText(messages));
                         if (projectSystemMsg) {
                                 messages.unshift(projectSystemMsg);
                         }
@@ -177,6 +202,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
                 const provider = getModelProvider(model);
                 if (!provider) {
+                        if (reservation) {
+                                await UsageTrackingService.releaseUsage(reservation);
+                        }
                         return json({ error: `No provider found for model: ${model}` }, { status: 400 });
                 }
 
@@ -239,16 +267,33 @@ export const POST: RequestHandler = async ({ request, locals }) => {
                 const encoder = new TextEncoder();
                 const readable = new ReadableStream({
                         async start(controller) {
+                                let settled = false;
+                                // What the stream has produced so far, charged if it ends early
+                                let produced = false;
+                                let generatedChars = 0;
+                                let usage: AIStreamChunk['usage'];
                                 try {
-                                        for await (const chunk of response as AsyncIterableIterator<any>) {
+                                        for await (const chunk of response as AsyncIterableIterator<AIStreamChunk>) {
+                                                if (chunk.usage) usage = chunk.usage;
+                                                if (chunk.type !== 'error') {
+                                                        generatedChars += chunk.content?.length ?? 0;
+                                                        if (chunk.content || chunk.toolCall || chunk.toolResult) produced = true;
+                                                }
+
                                                 // Send each chunk as a data event
                                                 const data = `data: ${JSON.stringify(chunk)}\n\n`;
                                                 controller.enqueue(encoder.encode(data));
 
                                                 if (chunk.done) {
                                                         // Track usage for successful streaming completion
-                                                        if (userId) {
-                                                                UsageTrackingService.trackUsage(userId, 'text').catch(console.error);
+                                                        settled = true;
+                                                        if (reservation) {
+                                                                UsageTrackingService.commitUsage(reservation, {
+                                                                        model,
+                                                                        chatId,
+                                                                        promptTokens: chunk.usage?.promptTokens,
+                                                                        completionTokens: chunk.usage?.completionTokens
+                                                                }).catch(console.error);
                                                         }
                                                         controller.enqueue(encoder.encode('data: [DONE]\n\n'));
                                                         break;
@@ -258,6 +303,21 @@ export const POST: RequestHandler = async ({ request, locals }) => {
                                         const errorData = `data: ${JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' })}\n\n`;
                                         controller.enqueue(encoder.encode(errorData));
                                 } finally {
+                                        if (reservation && !settled) {
+                                                if (produced) {
+                                                        // Disconnected or failed after output: the provider billed it, so it counts.
+                                                        // Without reported usage, estimate about 4 characters per token
+                                                        UsageTrackingService.commitUsage(reservation, {
+                                                                model,
+                                                                chatId,
+                                                                promptTokens: usage?.promptTokens ?? Math.ceil(messages.reduce((sum, message) => sum + (message.content?.length ?? 0), 0) / 4),
+                                                                completionTokens: usage?.completionTokens ?? Math.ceil(generatedChars / 4)
+                                                        }).catch(console.error);
+                                                } else {
+                                                        // Nothing was generated, so the stream doesn't use allowance
+                                                        UsageTrackingService.releaseUsage(reservation).catch(console.error);
+                                                }
+                                        }
                                         controller.close();
                                 }
                         }
@@ -273,6 +333,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
         } catch (error) {
                 console.error('Chat stream API error:', error);
+                if (reservation) {
+                        await UsageTrackingService.releaseUsage(reservation);
+                }
                 return json(
                         { error: error instanceof Error ? error.message : 'Internal server error' },
                         { status: 500 }
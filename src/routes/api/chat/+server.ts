@@ -2,14 +2,20 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { getModelProvider } from '$lib/ai/index.js';
 import type { AIMessage } from '$lib/ai/types.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
+import { CreditWeightService } from '$lib/server/credit-weights.js';
 import { GUEST_MESSAGE_LIMIT, isModelAllowedForGuests } from '$lib/constants/guest-limits.js';
 import { isDemoModeRestricted, isModelAllowedForDemo, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
+import { ChatMessageService } from '$lib/server/chat-messages.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the request fails before the generation finishes
+	let reservation: UsageReservation | undefined;
+
 	try {
 		const body = await request.json();
-		const { model, messages, maxTokens, temperature, stream, userId, chatId, multimodal, selectedTool, maxSteps } = body;
+		const { model, maxTokens, temperature, stream, chatId, multimodal, selectedTool, maxSteps } = body;
+		let messages: AIMessage[] = body.messages;
 
 		if (!model) {
 			return json({ error: 'Model is required' }, { status: 400 });
@@ -22,6 +28,8 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		// Get user session to check authentication status
 		const session = await locals.getSession();
 		const isLoggedIn = !!session?.user?.id;
+		// Usage is charged to the signed-in user; a userId in the body is ignored
+		const userId = session?.user?.id;
 
 		// Validate guest user restrictions
 		if (!isLoggedIn) {
@@ -54,20 +62,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			}
 		}
 
-		// Check usage limits for text generation (if userId provided)
-		if (userId) {
-			try {
-				await UsageTrackingService.checkUsageLimit(userId, 'text');
-			} catch (error) {
-				if (error instanceof UsageLimitError) {
-					return json({ 
-						error: error.message, 
-						type: 'usage_limit_exceeded',
-						remainingQuota: error.remainingQuota 
-					}, { status: 429 });
-				}
-				throw error; // Re-throw other errors
-			}
+		// Clients hold only the newest page of a long chat; answer with the whole saved conversation
+		if (session?.user?.id && typeof chatId === 'string') {
+			messages = await ChatMessageService.getModelContext(chatId, session.user.id, messages);
 		}
 
 		const provider = getModelProvider(model);
@@ -97,6 +94,27 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			(msg.role === 'user' && msg.type === 'image')
 		);
 
+		const isMultimodalRequest = hasImageContent && !!provider.chatMultimodal;
+		const isVideoRequest = !isMultimodalRequest && !!modelConfig?.supportsVideoGeneration && !!provider.generateVideo;
+
+		// Reserve usage for the generation (signed-in users only); video models count against the video limit
+		if (userId) {
+			try {
+				reservation = isVideoRequest
+					? await UsageTrackingService.reserveUsage(userId, 'video', await CreditWeightService.getCreditCost(model))
+					: await UsageTrackingService.reserveUsage(userId, 'text');
+			} catch (error) {
+				if (error instanceof UsageLimitError) {
+					return json({ 
+						error: error.message, 
+						type: 'usage_limit_exceeded',
+						remainingQuota: error.remainingQuota 
+					}, { status: 429 });
+				}
+				throw error; // Re-throw other errors
+			}
+		}
+
 		// Use multimodal chat for image-enabled requests
 		if (hasImageContent && provider.chatMultimodal) {
 			console.log('🔀 [API /chat] Using multimodal chat path');
@@ -119,13 +137,22 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				});
 
 				// Track usage for successful multimodal request
-				if (userId) {
-					UsageTrackingService.trackUsage(userId, 'text').catch(console.error);
+				if (reservation) {
+					const usage = 'content' in response ? response.usage : undefined;
+					UsageTrackingService.commitUsage(reservation, {
+						model,
+						chatId,
+						promptTokens: usage?.promptTokens,
+						completionTokens: usage?.completionTokens
+					}).catch(console.error);
 				}
 
 				return json(response);
 			} catch (error) {
 				console.error('Multimodal chat error:', error);
+				if (reservation) {
+					await UsageTrackingService.releaseUsage(reservation);
+				}
 				return json(
 					{ error: error instanceof Error ? error.message : 'Multimodal chat failed' },
 					{ status: 500 }
@@ -138,6 +165,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			// Extract the prompt from the last user message
 			const lastUserMessage = messages.filter(msg => msg.role === 'user').pop();
 			if (!lastUserMessage) {
+				if (reservation) {
+					await UsageTrackingService.releaseUsage(reservation);
+				}
 				return json({ error: 'No user message found for video generation' }, { status: 400 });
 			}
 
@@ -160,20 +190,27 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			try {
 				const videoResponse = await provider.generateVideo({
 					model,
-					prompt: lastUserMessage.content,
+					prompt: lastUserMessage.content ?? '',
 					userId,
 					chatId,
 					imageUrl
 				});
 
 				// Track usage for successful video generation
-				if (userId) {
-					UsageTrackingService.trackUsage(userId, 'video').catch(console.error);
+				if (reservation) {
+					UsageTrackingService.commitUsage(reservation, {
+						model,
+						chatId,
+						seconds: videoResponse.duration
+					}).catch(console.error);
 				}
 
 				return json(videoResponse);
 			} catch (error) {
 				console.error('Video generation error:', error);
+				if (reservation) {
+					await UsageTrackingService.releaseUsage(reservation);
+				}
 				return json(
 					{ error: error instanceof Error ? error.message : 'Video generation failed' },
 					{ status: 500 }
@@ -198,6 +235,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			const encoder = new TextEncoder();
 			const readable = new ReadableStream({
 				async start(controller) {
+					let completed = false;
 					try {
 						for await (const chunk of response as AsyncIterableIterator<any>) {
 							const data = `data: ${JSON.stringify(chunk)}\n\n`;
@@ -205,8 +243,14 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 							if (chunk.done) {
 								// Track usage for successful streaming completion
-								if (userId) {
-									UsageTrackingService.trackUsage(userId, 'text').catch(console.error);
+								completed = true;
+								if (reservation) {
+									UsageTrackingService.commitUsage(reservation, {
+										model,
+										chatId,
+										promptTokens: chunk.usage?.promptTokens,
+										completionTokens: chunk.usage?.completionTokens
+									}).catch(console.error);
 								}
 								controller.enqueue(encoder.encode('data: [DONE]\n\n'));
 								break;
@@ -216,6 +260,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 						const errorData = `data: ${JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' })}\n\n`;
 						controller.enqueue(encoder.encode(errorData));
 					} finally {
+						// Streams that fail or end early don't use allowance
+						if (reservation && !completed) {
+							UsageTrackingService.releaseUsage(reservation).catch(console.error);
+						}
 						controller.close();
 					}
 				}
@@ -231,14 +279,23 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		}
 
 		// Track usage for successful text generation (non-streaming)
-		if (userId) {
-			UsageTrackingService.trackUsage(userId, 'text').catch(console.error);
+		if (reservation) {
+			const usage = 'content' in response ? response.usage : undefined;
+			UsageTrackingService.commitUsage(reservation, {
+				model,
+				chatId,
+				promptTokens: usage?.promptTokens,
+				completionTokens: usage?.completionTokens
+			}).catch(console.error);
 		}
 
 		return json(response);
 
 	} catch (error) {
 		console.error('Chat API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
@@ -4,6 +4,8 @@ import { db } from '$lib/server/db/index.js';
 import { chats, projects } from '$lib/server/db/schema.js';
 import { eq, and, desc } from 'drizzle-orm';
 import { isDemoModeRestricted, isModelAllowedForDemo, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
+import { AttachmentService } from '$lib/server/attachments.js';
+import { ChatMessageService, MAX_APPEND_MESSAGES } from '$lib/server/chat-messages.js';
 
 export const GET: RequestHandler = async ({ url, locals }) => {
 	try {
@@ -47,6 +49,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Title, model, and messages are required' }, { status: 400 });
 		}
 
+		if (!Array.isArray(messages) || messages.length > MAX_APPEND_MESSAGES || !messages.every(message => ChatMessageService.isValidMessage(message))) {
+			return json({ error: 'Invalid messages' }, { status: 400 });
+		}
+
 		// Check demo mode restrictions - only allow saving chats with demo-approved models
 		if (isDemoModeRestricted(!!session?.user?.id)) {
 			if (!isModelAllowedForDemo(model)) {
@@ -72,12 +78,26 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				userId: session.user.id,
 				title,
 				model,
-				messages,
 				projectId: projectId || null,
 			})
 			.returning();
 
-		return json({ chat: newChat });
+		// Messages are stored as rows; don't leave an empty chat behind if that fails
+		let saved;
+		try {
+			saved = await ChatMessageService.append(newChat.id, messages, null);
+		} catch (appendError) {
+			await db.delete(chats).where(eq(chats.id, newChat.id));
+			throw appendError;
+		}
+
+		await AttachmentService.linkToChat(newChat.id, session.user.id, saved.messages);
+
+		const lastMessage = saved.messages[saved.messages.length - 1];
+		return json({
+			chat: { ...newChat, currentMessageId: lastMessage?.id ?? null },
+			messages: saved.messages
+		});
 	} catch (error) {
 		console.error('Create chat error:', error);
 		return json({ error: 'Failed to create chat' }, { status: 500 });
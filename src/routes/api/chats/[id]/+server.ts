@@ -4,6 +4,9 @@ import { db } from '$lib/server/db/index.js';
 import { chats } from '$lib/server/db/schema.js';
 import { eq, and, sql } from 'drizzle-orm';
 import { isDemoModeRestricted, isModelAllowedForDemo, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
+import { AttachmentService } from '$lib/server/attachments.js';
+import { ChatMessageService } from '$lib/server/chat-messages.js';
+import type { AIMessage } from '$lib/ai/types.js';
 
 export const GET: RequestHandler = async ({ params, locals }) => {
 	try {
@@ -21,7 +24,19 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 			return json({ error: 'Chat not found' }, { status: 404 });
 		}
 
-		return json({ chat });
+		// Chats saved before the message table existed are moved over on first load
+		if (!chat.currentMessageId && chat.messages.length > 0) {
+			await ChatMessageService.migrateChat(chat.id, chat.messages as AIMessage[]);
+		}
+
+		// Only the latest page of messages; older ones come from /api/chats/[id]/messages
+		const page = await ChatMessageService.getPage(chat.id);
+
+		return json({
+			chat: { ...chat, messages: page.messages },
+			hasMoreMessages: page.hasMore,
+			messagesStartPosition: page.startPosition
+		});
 	} catch (error) {
 		console.error('Get chat error:', error);
 		return json({ error: 'Failed to fetch chat' }, { status: 500 });
@@ -35,7 +50,8 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
 			return json({ error: 'Unauthorized' }, { status: 401 });
 		}
 
-		const { title, model, messages, pinned } = await request.json();
+		// Messages are appended through /api/chats/[id]/messages
+		const { title, model, pinned } = await request.json();
 
 		// Check demo mode restrictions - only allow updates with demo-approved models
 		if (isDemoModeRestricted(!!session?.user?.id)) {
@@ -50,7 +66,6 @@ export const PUT: RequestHandler = async ({ params, request, locals }) => {
 
 		if (title !== undefined) updateData.title = title;
 		if (model !== undefined) updateData.model = model;
-		if (messages !== undefined) updateData.messages = messages;
 		if (pinned !== undefined) updateData.pinned = pinned;
 
 		const [updatedChat] = await db
@@ -92,6 +107,12 @@ export const DELETE: RequestHandler = async ({ params, locals }) => {
 			return json({ error: 'Chat not found' }, { status: 404 });
 		}
 
+		try {
+			await AttachmentService.deleteForChat(deletedChat.id, session.user.id);
+		} catch (attachmentError) {
+			console.error('Delete chat attachments error:', attachmentError);
+		}
+
 		return json({ message: 'Chat deleted successfully' });
 	} catch (error) {
 		console.error('Delete chat error:', error);
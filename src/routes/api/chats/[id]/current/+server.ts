@@ -0,0 +1,42 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types.js';
+import { db } from '$lib/server/db/index.js';
+import { chats } from '$lib/server/db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import { ChatMessageService } from '$lib/server/chat-messages.js';
+
+// Switch the active path to another version of a message (an edit or a retried response)
+export const PUT: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const { messageId } = await request.json();
+
+		if (!messageId || typeof messageId !== 'string') {
+			return json({ error: 'messageId is required' }, { status: 400 });
+		}
+
+		const [chat] = await db
+			.select({ id: chats.id })
+			.from(chats)
+			.where(and(eq(chats.id, params.id), eq(chats.userId, session.user.id)));
+
+		if (!chat) {
+			return json({ error: 'Chat not found' }, { status: 404 });
+		}
+
+		// Messages from the selected version down to the newest reply under it
+		const messages = await ChatMessageService.switchVersion(params.id, messageId);
+		if (!messages) {
+			return json({ error: 'Message not found' }, { status: 404 });
+		}
+
+		return json({ messages });
+	} catch (error) {
+		console.error('Switch message version error:', error);
+		return json({ error: 'Failed to switch version' }, { status: 500 });
+	}
+};
@@ -0,0 +1,86 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types.js';
+import { db } from '$lib/server/db/index.js';
+import { chats } from '$lib/server/db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import { AttachmentService } from '$lib/server/attachments.js';
+import { ChatMessageService, MAX_APPEND_MESSAGES } from '$lib/server/chat-messages.js';
+
+async function findChat(chatId: string, userId: string) {
+	const [chat] = await db
+		.select({ id: chats.id })
+		.from(chats)
+		.where(and(eq(chats.id, chatId), eq(chats.userId, userId)));
+	return chat;
+}
+
+// Page through the chat's messages, newest page first: ?before=<position>&limit=<n>
+export const GET: RequestHandler = async ({ params, url, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		if (!(await findChat(params.id, session.user.id))) {
+			return json({ error: 'Chat not found' }, { status: 404 });
+		}
+
+		const beforeParam = url.searchParams.get('before');
+		const limitParam = url.searchParams.get('limit');
+		const before = beforeParam !== null ? Number(beforeParam) : undefined;
+		const limit = limitParam !== null ? Number(limitParam) : undefined;
+
+		if ((before !== undefined && !Number.isInteger(before)) || (limit !== undefined && !Number.isInteger(limit))) {
+			return json({ error: 'before and limit must be integers' }, { status: 400 });
+		}
+
+		const page = await ChatMessageService.getPage(params.id, { before, limit });
+
+		return json(page);
+	} catch (error) {
+		console.error('Get chat messages error:', error);
+		return json({ error: 'Failed to fetch messages' }, { status: 500 });
+	}
+};
+
+// Append messages. parentId continues from a specific message (edit / regenerate);
+// without it the messages follow the chat's current message.
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const { messages, parentId } = await request.json();
+
+		if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_APPEND_MESSAGES) {
+			return json({ error: `Between 1 and ${MAX_APPEND_MESSAGES} messages are required` }, { status: 400 });
+		}
+
+		if (!messages.every(message => ChatMessageService.isValidMessage(message))) {
+			return json({ error: 'Invalid message' }, { status: 400 });
+		}
+
+		if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+			return json({ error: 'parentId must be a message ID' }, { status: 400 });
+		}
+
+		if (!(await findChat(params.id, session.user.id))) {
+			return json({ error: 'Chat not found' }, { status: 404 });
+		}
+
+		if (parentId && !(await ChatMessageService.getMessage(params.id, parentId))) {
+			return json({ error: 'Parent message not found' }, { status: 404 });
+		}
+
+		const saved = await ChatMessageService.append(params.id, messages, parentId);
+		await AttachmentService.linkToChat(params.id, session.user.id, saved.messages);
+
+		return json({ messages: saved.messages });
+	} catch (error) {
+		console.error('Append chat messages error:', error);
+		return json({ error: 'Failed to save messages' }, { status: 500 });
+	}
+};
@@ -0,0 +1,41 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types.js';
+import { db } from '$lib/server/db/index.js';
+import { chats } from '$lib/server/db/schema.js';
+import { eq, and } from 'drizzle-orm';
+import { ChatMessageService } from '$lib/server/chat-messages.js';
+
+// Save the final tool invocations of an assistant message (content is never rewritten)
+export const PATCH: RequestHandler = async ({ params, request, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const { toolInvocations } = await request.json();
+
+		if (!Array.isArray(toolInvocations)) {
+			return json({ error: 'toolInvocations must be an array' }, { status: 400 });
+		}
+
+		const [chat] = await db
+			.select({ id: chats.id })
+			.from(chats)
+			.where(and(eq(chats.id, params.id), eq(chats.userId, session.user.id)));
+
+		if (!chat) {
+			return json({ error: 'Chat not found' }, { status: 404 });
+		}
+
+		const updated = await ChatMessageService.updateToolInvocations(params.id, params.messageId, toolInvocations);
+		if (!updated) {
+			return json({ error: 'Message not found' }, { status: 404 });
+		}
+
+		return json({ success: true });
+	} catch (error) {
+		console.error('Update chat message error:', error);
+		return json({ error: 'Failed to update message' }, { status: 500 });
+	}
+};
@@ -3,6 +3,7 @@ import type { RequestHandler } from './$types.js';
 import { db } from '$lib/server/db/index.js';
 import { chats } from '$lib/server/db/schema.js';
 import { eq, and } from 'drizzle-orm';
+import { ChatMessageService } from '$lib/server/chat-messages.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
 	try {
@@ -11,15 +12,15 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Unauthorized' }, { status: 401 });
 		}
 
-		const { sourceChatId, branchAtIndex } = await request.json();
+		const { sourceChatId, messageId } = await request.json();
 
 		// Validate required fields
 		if (!sourceChatId || typeof sourceChatId !== 'string') {
 			return json({ error: 'sourceChatId is required' }, { status: 400 });
 		}
 
-		if (typeof branchAtIndex !== 'number' || branchAtIndex < 0) {
-			return json({ error: 'branchAtIndex must be a non-negative number' }, { status: 400 });
+		if (!messageId || typeof messageId !== 'string') {
+			return json({ error: 'messageId is required' }, { status: 400 });
 		}
 
 		// Fetch source chat and verify ownership
@@ -32,17 +33,16 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Chat not found' }, { status: 404 });
 		}
 
-		// Validate branchAtIndex is within bounds
-		if (branchAtIndex >= sourceChat.messages.length) {
-			return json({ error: 'branchAtIndex is out of bounds' }, { status: 400 });
+		const branchMessage = await ChatMessageService.getMessage(sourceChatId, messageId);
+		if (!branchMessage) {
+			return json({ error: 'Message not found in this chat' }, { status: 404 });
 		}
 
-		// Slice messages from 0 to branchAtIndex (inclusive)
-		const branchedMessages = sourceChat.messages.slice(0, branchAtIndex + 1);
+		// Messages from the start of the chat up to and including the branch point
+		const branchedMessages = await ChatMessageService.getPathTo(messageId);
 
 		// Get the model from the last message or use source chat model
-		const lastMessage = branchedMessages[branchedMessages.length - 1];
-		const branchModel = (lastMessage as any)?.model || sourceChat.model;
+		const branchModel = branchMessage.model || sourceChat.model;
 
 		// Create new branched chat (title stays same, icon indicates branch)
 		const [newChat] = await db
@@ -51,13 +51,20 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				userId: session.user.id,
 				title: sourceChat.title,
 				model: branchModel,
-				messages: branchedMessages,
 				isBranch: true,
-				branchAtIndex: branchAtIndex,
+				branchAtIndex: branchMessage.position,
 				branchSourceChatId: sourceChatId
 			})
 			.returning();
 
+		try {
+			// Copies get new IDs in the branch
+			await ChatMessageService.append(newChat.id, branchedMessages.map(({ id: _id, ...message }) => message), null);
+		} catch (appendError) {
+			await db.delete(chats).where(eq(chats.id, newChat.id));
+			throw appendError;
+		}
+
 		return json({ chat: newChat });
 	} catch (error) {
 		console.error('Branch chat error:', error);
@@ -7,6 +7,7 @@ import { CreditService } from '$lib/server/credit-service.js';
 import { getActivePaymentProvider } from '$lib/server/settings-store.js';
 import { StripeService } from '$lib/server/stripe.js';
 import { OpayService } from '$lib/server/opaybd.js';
+import { PromoCodeService, PromoCodeError, getCheckoutPrice } from '$lib/server/promo-codes.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
 	const session = await locals.auth();
@@ -15,7 +16,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 	}
 
 	try {
-		const { creditPlanId } = await request.json();
+		const { creditPlanId, promoCode } = await request.json();
 		if (!creditPlanId) {
 			return json({ error: 'Credit plan ID is required' }, { status: 400 });
 		}
@@ -32,40 +33,71 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 		const provider = await getActivePaymentProvider();
 
-		if (provider === 'opaybd') {
-			const isConfigured = await OpayService.isConfigured();
-			if (!isConfigured) {
-				return json({ error: 'Opaybd is not configured' }, { status: 500 });
+		if (provider === 'opaybd' && !(await OpayService.isConfigured())) {
+			return json({ error: 'Opaybd is not configured' }, { status: 500 });
+		}
+
+		let discount;
+		if (promoCode && typeof promoCode === 'string') {
+			try {
+				discount = await PromoCodeService.apply(promoCode, {
+					userId: session.user.id,
+					purchaseType: 'credits',
+					planId: plan.id,
+					paymentProvider: provider,
+					...getCheckoutPrice(plan, provider),
+				});
+			} catch (err) {
+				if (err instanceof PromoCodeError) {
+					return json({ error: err.message }, { status: 400 });
+				}
+				throw err;
 			}
+		}
 
-			const result = await OpayService.createCreditPayment({
+		// Reserves the code until the payment completes; give it back if no checkout comes of it
+		try {
+			if (provider === 'opaybd') {
+				const result = await OpayService.createCreditPayment({
+					userId: session.user.id,
+					creditPlanId: plan.id,
+					amount: plan.priceAmountBdt || plan.priceAmount,
+					currency: plan.priceAmountBdt ? 'BDT' : plan.currency.toUpperCase(),
+					description: `${plan.creditAmount} ${plan.creditType} credits - ${plan.name}`,
+					discount,
+				});
+
+				return json({
+					provider: 'opaybd',
+					paymentUrl: result.paymentUrl,
+				});
+			}
+
+			const checkoutSession = await StripeService.createCreditCheckoutSession({
 				userId: session.user.id,
 				creditPlanId: plan.id,
-				amount: plan.priceAmountBdt || plan.priceAmount,
-				currency: plan.priceAmountBdt ? 'BDT' : plan.currency.toUpperCase(),
-				description: `${plan.creditAmount} ${plan.creditType} credits - ${plan.name}`,
+				amount: plan.priceAmount,
+				currency: plan.currency,
+				name: plan.name,
+				description: `${plan.creditAmount} ${plan.creditType} credits`,
+				discount: discount && {
+					promoCodeId: discount.promoCode.id,
+					couponId: await PromoCodeService.getStripeCouponId(discount.promoCode),
+					expiresAt: discount.reservedUntil,
+				},
 			});
 
 			return json({
-				provider: 'opaybd',
-				paymentUrl: result.paymentUrl,
+				provider: 'stripe',
+				sessionId: checkoutSession.id,
+				clientSecret: checkoutSession.client_secret,
 			});
+		} catch (err) {
+			if (discount) {
+				await PromoCodeService.releaseReservation(discount.reservationId);
+			}
+			throw err;
 		}
-
-		const checkoutSession = await StripeService.createCreditCheckoutSession({
-			userId: session.user.id,
-			creditPlanId: plan.id,
-			amount: plan.priceAmount,
-			currency: plan.currency,
-			name: plan.name,
-			description: `${plan.creditAmount} ${plan.creditType} credits`,
-		});
-
-		return json({
-			provider: 'stripe',
-			sessionId: checkoutSession.id,
-			clientSecret: checkoutSession.client_secret,
-		});
 	} catch (error: any) {
 		console.error('Credit purchase error:', error);
 		return json({ error: error.message || 'Failed to initiate purchase' }, { status: 500 });
@@ -1,7 +1,7 @@
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { db } from '$lib/server/db/index.js';
-import { users, chats, images, videos, subscriptions, usageTracking, sessions, accounts, authenticators } from '$lib/server/db/schema.js';
+import { users, chats, images, videos, attachments, subscriptions, usageTracking, sessions, accounts, authenticators } from '$lib/server/db/schema.js';
 import { eq } from 'drizzle-orm';
 import bcrypt from 'bcryptjs';
 import { StripeService } from '$lib/server/stripe.js';
@@ -62,7 +62,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			// Continue with deletion even if Stripe operations fail
 		}
 
-		// Step 2: Delete all user files from storage (images and videos)
+		// Step 2: Delete all user files from storage (images, videos and attachments)
 		try {
 			// Get all user images
 			const userImages = await db
@@ -76,6 +76,12 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				.from(videos)
 				.where(eq(videos.userId, session.user.id));
 
+			// Get all user attachments
+			const userAttachments = await db
+				.select()
+				.from(attachments)
+				.where(eq(attachments.userId, session.user.id));
+
 			// Delete image files from storage
 			for (const image of userImages) {
 				try {
@@ -104,7 +110,17 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 				}
 			}
 
-			console.log(`Deleted ${userImages.length} images and ${userVideos.length} videos from storage`);
+			// Delete attachment files from storage
+			for (const attachment of userAttachments) {
+				try {
+					await storageService.delete(attachment.storagePath);
+				} catch (fileError) {
+					console.warn(`Error deleting attachment file ${attachment.storagePath}:`, fileError);
+					// Continue with other files even if one fails
+				}
+			}
+
+			console.log(`Deleted ${userImages.length} images, ${userVideos.length} videos and ${userAttachments.length} attachments from storage`);
 		} catch (storageError) {
 			console.warn('Error during file cleanup:', storageError);
 			// Continue with database deletion even if file cleanup fails
@@ -0,0 +1,97 @@
+import { json, error, isHttpError } from '@sveltejs/kit';
+import type { RequestHandler } from './$types.js';
+import { AttachmentService } from '$lib/server/attachments.js';
+import { storageService } from '$lib/server/storage.js';
+import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
+
+const UUID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
+
+// Download attachment by ID (owner only)
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			throw error(401, 'Authentication required');
+		}
+
+		if (!UUID_PATTERN.test(params.id)) {
+			throw error(400, 'Invalid file ID format');
+		}
+
+		// Other users' attachments are reported as missing rather than forbidden
+		const attachment = await AttachmentService.getForUser(params.id, session.user.id);
+		if (!attachment) {
+			throw error(404, 'File not found');
+		}
+
+		// Redirect to a presigned URL for R2 files
+		if (attachment.storageLocation === 'r2') {
+			const presignedUrl = await storageService.getUrl(attachment.storagePath);
+			return new Response(null, {
+				status: 302,
+				headers: {
+					'Location': presignedUrl,
+					'Cache-Control': 'private, max-age=300'
+				}
+			});
+		}
+
+		let fileData: Buffer;
+		try {
+			fileData = await storageService.download(attachment.storagePath);
+		} catch (storageError) {
+			console.error('Attachment retrieval error:', storageError);
+			throw error(404, 'File not found in storage');
+		}
+
+		// Always download (never render) so uploaded HTML/JS can't run on our origin
+		return new Response(new Uint8Array(fileData), {
+			headers: {
+				'Content-Type': attachment.mimeType,
+				'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+				'X-Content-Type-Options': 'nosniff',
+				'Cache-Control': 'private, max-age=3600',
+				'Content-Length': fileData.length.toString()
+			}
+		});
+	} catch (err) {
+		console.error('Attachment download error:', err);
+		if (isHttpError(err)) {
+			throw err;
+		}
+		throw error(500, 'Failed to retrieve file');
+	}
+};
+
+// Delete attachment by ID (owner only)
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			throw error(401, 'Authentication required');
+		}
+
+		if (isDemoModeRestricted(!!session?.user?.id)) {
+			throw error(403, DEMO_MODE_MESSAGES.GENERAL_RESTRICTION);
+		}
+
+		if (!UUID_PATTERN.test(params.id)) {
+			throw error(400, 'Invalid file ID format');
+		}
+
+		const attachment = await AttachmentService.getForUser(params.id, session.user.id);
+		if (!attachment) {
+			throw error(404, 'File not found');
+		}
+
+		await AttachmentService.delete(attachment);
+
+		return json({ success: true, message: 'File deleted successfully' });
+	} catch (err) {
+		console.error('Attachment deletion error:', err);
+		if (isHttpError(err)) {
+			throw err;
+		}
+		throw error(500, 'Failed to delete file');
+	}
+};
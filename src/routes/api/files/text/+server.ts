@@ -1,12 +1,10 @@
-import { json, error } from '@sveltejs/kit';
+import { json, error, isHttpError } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
-import { writeFile } from 'fs/promises';
-import { join } from 'path';
-import { randomUUID } from 'crypto';
-import { db } from '$lib/server/db/index.js';
-import { images } from '$lib/server/db/schema.js';
+import { AttachmentService, MAX_ATTACHMENT_SIZE } from '$lib/server/attachments.js';
+import { enforceFileUploadRateLimit } from '$lib/server/file-upload-rate-limiting.js';
+import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
-// Upload/save text file
+// Upload/save text file attachment
 export const POST: RequestHandler = async ({ request, locals }) => {
 	try {
 		const session = await locals.auth();
@@ -14,6 +12,17 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			throw error(401, 'Unauthorized');
 		}
 
+		// Check demo mode restrictions
+		if (isDemoModeRestricted(!!session?.user?.id)) {
+			throw error(403, DEMO_MODE_MESSAGES.GENERAL_RESTRICTION);
+		}
+
+		try {
+			enforceFileUploadRateLimit('textFileUpload', session.user.id);
+		} catch (rateLimitError) {
+			throw error(429, (rateLimitError as Error).message);
+		}
+
 		const { content, mimeType, filename, chatId } = await request.json();
 
 		if (!content || !mimeType || !filename) {
@@ -21,80 +30,36 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		}
 
 		// Validate MIME type for text files
-		const allowedTypes = [
-			'text/plain', 
-			'text/markdown', 
-			'text/csv', 
-			'application/json',
-			'text/html',
-			'text/css',
-			'text/javascript',
-			'application/javascript'
-		];
-		if (!allowedTypes.includes(mimeType)) {
+		if (typeof mimeType !== 'string' || !AttachmentService.isAllowedMimeType(mimeType)) {
 			throw error(400, 'Unsupported file type');
 		}
 
 		// Validate content size (max 1MB for text files)
 		const contentBuffer = Buffer.from(content, 'utf-8');
-		if (contentBuffer.length > 1024 * 1024) { // 1MB limit
+		if (contentBuffer.length > MAX_ATTACHMENT_SIZE) {
 			throw error(400, 'File too large (max 1MB for text files)');
 		}
 
-		// Generate unique filename for filesystem
-		const extension = getFileExtension(mimeType, filename);
-		const filename_fs = `${randomUUID()}.${extension}`;
-		
-		// Save text file to filesystem
-		const filePath = join(process.cwd(), 'static', 'uploads', 'files', filename_fs);
-		await writeFile(filePath, contentBuffer);
-
-		// For now, we'll store text files in the images table with a special type
-		// In a full implementation, you might create a separate files table
-		const [fileRecord] = await db
-			.insert(images)
-			.values({
-				filename: filename_fs,
-				userId: session.user.id,
-				chatId: chatId || null,
-				mimeType,
-				fileSize: contentBuffer.length
-			})
-			.returning();
+		const attachment = await AttachmentService.upload({
+			userId: session.user.id,
+			filename: String(filename).trim(),
+			mimeType,
+			buffer: contentBuffer,
+			chatId: typeof chatId === 'string' ? chatId : null
+		});
 
-		return json({ 
-			fileId: fileRecord.id,
-			mimeType: fileRecord.mimeType,
-			size: fileRecord.fileSize,
-			filename: filename
+		return json({
+			fileId: attachment.id,
+			mimeType: attachment.mimeType,
+			size: attachment.fileSize,
+			filename: attachment.filename,
+			url: `/api/files/${attachment.id}`
 		});
 	} catch (err) {
 		console.error('Text file upload error:', err);
-		if (err instanceof Error && 'status' in err) {
+		if (isHttpError(err)) {
 			throw err;
 		}
 		throw error(500, 'Failed to upload text file');
 	}
 };
-
-function getFileExtension(mimeType: string, originalFilename: string): string {
-	// Try to get extension from original filename first
-	const filenameExt = originalFilename.split('.').pop()?.toLowerCase();
-	if (filenameExt) {
-		return filenameExt;
-	}
-
-	// Fallback to MIME type mapping
-	const mimeToExt: Record<string, string> = {
-		'text/plain': 'txt',
-		'text/markdown': 'md',
-		'text/csv': 'csv',
-		'application/json': 'json',
-		'text/html': 'html',
-		'text/css': 'css',
-		'text/javascript': 'js',
-		'application/javascript': 'js'
-	};
-
-	return mimeToExt[mimeType] || 'txt';
-}
\ No newline at end of file
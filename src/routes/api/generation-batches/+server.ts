@@ -0,0 +1,71 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { GenerationBatchService, GenerationBatchError, toPublicBatch } from '$lib/server/generation-batches.js';
+import { parseBatchPrompts, resolveBatchItems, type BatchDefaults } from '$lib/constants/batch-generation.js';
+import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
+
+// The user's recent batches
+export const GET: RequestHandler = async ({ locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		return json({ batches: await GenerationBatchService.list(session.user.id) });
+	} catch (error) {
+		console.error('Failed to list generation batches:', error);
+		return json({ error: 'Failed to load batches' }, { status: 500 });
+	}
+};
+
+// Start a batch from a prompt list or CSV; rows are checked the same way the page previews them
+export const POST: RequestHandler = async ({ request, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	if (isDemoModeRestricted(!!session?.user?.id)) {
+		return json({ error: DEMO_MODE_MESSAGES.GENERAL_RESTRICTION }, { status: 403 });
+	}
+
+	try {
+		const { name, input, defaults } = await request.json();
+		if (typeof input !== 'string' || !input.trim()) {
+			return json({ error: 'Add at least one prompt' }, { status: 400 });
+		}
+		if (!defaults || typeof defaults.model !== 'string') {
+			return json({ error: 'Model is required' }, { status: 400 });
+		}
+
+		const batchDefaults: BatchDefaults = {
+			model: defaults.model,
+			aspectRatio: typeof defaults.aspectRatio === 'string' ? defaults.aspectRatio : undefined,
+			style: typeof defaults.style === 'string' ? defaults.style : undefined,
+			quality: typeof defaults.quality === 'string' ? defaults.quality : undefined,
+			seed: Number.isInteger(defaults.seed) && defaults.seed >= 0 ? defaults.seed : undefined
+		};
+
+		const parsed = parseBatchPrompts(input);
+		const resolved = resolveBatchItems(parsed.rows, batchDefaults);
+		const errors = [...parsed.errors, ...resolved.errors];
+		if (errors.length > 0) {
+			return json({ error: 'Some rows are invalid', errors }, { status: 400 });
+		}
+
+		const batch = await GenerationBatchService.create({
+			userId: session.user.id,
+			name: typeof name === 'string' ? name : '',
+			items: resolved.items
+		});
+
+		return json({ batch: toPublicBatch(batch, []) }, { status: 201 });
+	} catch (error) {
+		if (error instanceof GenerationBatchError) {
+			return json({ error: error.message }, { status: 400 });
+		}
+		console.error('Failed to create generation batch:', error);
+		return json({ error: 'Failed to start batch' }, { status: 500 });
+	}
+};
@@ -0,0 +1,43 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { GenerationBatchService, GenerationBatchError, toPublicBatch } from '$lib/server/generation-batches.js';
+import { toPublicJob } from '$lib/server/generation-jobs.js';
+
+export const GET: RequestHandler = async ({ params, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const status = await GenerationBatchService.getStatus(params.id, session.user.id);
+		if (!status) {
+			return json({ error: 'Batch not found' }, { status: 404 });
+		}
+		return json({
+			batch: toPublicBatch(status.batch, status.jobs),
+			jobs: status.jobs.map(toPublicJob)
+		});
+	} catch (error) {
+		console.error('Failed to get generation batch:', error);
+		return json({ error: 'Failed to load batch' }, { status: 500 });
+	}
+};
+
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		await GenerationBatchService.cancel(params.id, session.user.id);
+		return json({ success: true });
+	} catch (error) {
+		if (error instanceof GenerationBatchError) {
+			return json({ error: error.message }, { status: 409 });
+		}
+		console.error('Failed to cancel generation batch:', error);
+		return json({ error: 'Failed to cancel batch' }, { status: 500 });
+	}
+};
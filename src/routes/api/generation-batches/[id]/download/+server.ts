@@ -0,0 +1,32 @@
+import { error, isHttpError } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { GenerationBatchService } from '$lib/server/generation-batches.js';
+
+// Zip of the batch's images with a manifest of prompt -> image IDs (owner only)
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			throw error(401, 'Authentication required');
+		}
+
+		const archive = await GenerationBatchService.buildArchive(params.id, session.user.id);
+		if (!archive) {
+			throw error(404, 'Batch not found');
+		}
+
+		return new Response(archive.stream, {
+			headers: {
+				'Content-Type': 'application/zip',
+				'Content-Disposition': `attachment; filename="${archive.filename}"`,
+				'Cache-Control': 'private, no-store'
+			}
+		});
+	} catch (err) {
+		if (isHttpError(err)) {
+			throw err;
+		}
+		console.error('Batch download error:', err);
+		throw error(500, 'Failed to build batch download');
+	}
+};
@@ -0,0 +1,24 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { GenerationJobService, toPublicJob } from '$lib/server/generation-jobs.js';
+
+// The user's unfinished generations, so the image/video page can pick them up again after a reload
+export const GET: RequestHandler = async ({ url, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const type = url.searchParams.get('type') || undefined;
+	if (type !== undefined && type !== 'image' && type !== 'video') {
+		return json({ error: 'Invalid job type' }, { status: 400 });
+	}
+
+	try {
+		const jobs = await GenerationJobService.listActive(session.user.id, type);
+		return json({ jobs: jobs.map(toPublicJob) });
+	} catch (error) {
+		console.error('Failed to list generation jobs:', error);
+		return json({ error: 'Failed to load generations' }, { status: 500 });
+	}
+};
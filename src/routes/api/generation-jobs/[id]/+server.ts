@@ -0,0 +1,39 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { GenerationJobService, GenerationJobError, toPublicJob } from '$lib/server/generation-jobs.js';
+
+export const GET: RequestHandler = async ({ params, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const job = await GenerationJobService.getStatus(params.id, session.user.id);
+		if (!job) {
+			return json({ error: 'Generation not found' }, { status: 404 });
+		}
+		return json({ job: toPublicJob(job) });
+	} catch (error) {
+		console.error('Failed to get generation job:', error);
+		return json({ error: 'Failed to load generation' }, { status: 500 });
+	}
+};
+
+export const DELETE: RequestHandler = async ({ params, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const job = await GenerationJobService.cancel(params.id, session.user.id);
+		return json({ job: toPublicJob(job) });
+	} catch (error) {
+		if (error instanceof GenerationJobError) {
+			return json({ error: error.message }, { status: 409 });
+		}
+		console.error('Failed to cancel generation job:', error);
+		return json({ error: 'Failed to cancel generation' }, { status: 500 });
+	}
+};
@@ -0,0 +1,21 @@
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { parseReplicateWebhook } from '$lib/ai/providers/replicate.js';
+import { GenerationJobService } from '$lib/server/generation-jobs.js';
+
+// Replicate calls this as predictions start, log progress and finish
+export const POST: RequestHandler = async ({ request }) => {
+	const prediction = await parseReplicateWebhook(request);
+	if (!prediction) {
+		return error(401, 'Invalid signature');
+	}
+
+	try {
+		await GenerationJobService.handleWebhook(prediction);
+		return json({ received: true });
+	} catch (err) {
+		console.error('Error handling generation webhook:', prediction.id, err);
+		// Replicate retries failed deliveries; the worker also polls in the meantime
+		return error(500, 'Webhook handler failed');
+	}
+};
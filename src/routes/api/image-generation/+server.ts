@@ -2,10 +2,18 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { getModelProvider } from '$lib/ai/index.js';
 import type { ImageGenerationParams, AIImageStreamChunk } from '$lib/ai/types.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
+import { CreditWeightService } from '$lib/server/credit-weights.js';
+import { GenerationJobService, supportsGenerationJobs, toPublicJob } from '$lib/server/generation-jobs.js';
+import { ImageEditService } from '$lib/server/image-edits.js';
+import { MediaLineageService } from '$lib/server/media-lineage.js';
+import { MODEL_CONFIGS } from '$lib/constants/replicate-model-configs.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -19,7 +27,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		}
 
 		const body = await request.json();
-		const { model, prompt, quality, size, style, stream = false, partial_images = 2, chatId, imageUrl, imageUrls, seed, numberOfImages, upscaleFactor, compressionQuality } = body;
+		const { model, prompt, negativePrompt, quality, size, style, stream = false, partial_images = 2, chatId, imageUrl, imageUrls, seed, numberOfImages, upscaleFactor, compressionQuality, mask, outpaint, sourceImageId, background = false } = body;
 
 		if (!model) {
 			return json({ error: 'Model is required' }, { status: 400 });
@@ -69,18 +77,51 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			}
 		}
 
-		// Check usage limits for image generation
-		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'image');
-		} catch (error) {
-			if (error instanceof UsageLimitError) {
-				return json({
-					error: error.message,
-					type: 'usage_limit_exceeded',
-					remainingQuota: error.remainingQuota
-				}, { status: 429 });
+		// Inpainting/outpainting and upscaling edit an input image
+		const paramConfig = MODEL_CONFIGS[model];
+		const hasInputImage = !!imageUrl || (Array.isArray(imageUrls) && imageUrls.length > 0);
+		if (paramConfig?.requiresImageInput && !hasInputImage) {
+			return json({ error: `Model ${model} needs an input image` }, { status: 400 });
+		}
+
+		if (mask !== undefined && mask !== null) {
+			if (typeof mask !== 'string' || !paramConfig?.maskParam) {
+				return json({ error: `Model ${model} does not support masks` }, { status: 400 });
+			}
+			if (!hasInputImage) {
+				return json({ error: 'A mask needs an input image' }, { status: 400 });
+			}
+		}
+
+		if (outpaint !== undefined && outpaint !== null && !paramConfig?.outpaintParam?.options.includes(outpaint)) {
+			return json({ error: `Invalid outpaint option for model ${model}` }, { status: 400 });
+		}
+
+		// Validate negative prompt if provided (blank means none)
+		const MAX_NEGATIVE_PROMPT_LENGTH = 2000;
+		if (negativePrompt !== undefined && negativePrompt !== null) {
+			if (typeof negativePrompt !== 'string' || negativePrompt.length > MAX_NEGATIVE_PROMPT_LENGTH) {
+				return json({ error: `negativePrompt must be a string of at most ${MAX_NEGATIVE_PROMPT_LENGTH} characters` }, { status: 400 });
+			}
+			if (negativePrompt.trim() && !paramConfig?.negativePromptParam) {
+				return json({ error: `Model ${model} does not support negative prompts` }, { status: 400 });
+			}
+		}
+
+		// Edits are linked to their source image and uploaded mask, which must be the user's own
+		const maskImageId = typeof mask === 'string' ? MediaLineageService.imageIdFromUrl(mask) ?? undefined : undefined;
+		if (mask && !maskImageId) {
+			return json({ error: 'The mask must be an uploaded image (/api/images/{id})' }, { status: 400 });
+		}
+		if (sourceImageId !== undefined && sourceImageId !== null && typeof sourceImageId !== 'string') {
+			return json({ error: 'sourceImageId must be a string' }, { status: 400 });
+		}
+		const linkedImageIds = [...new Set([sourceImageId, maskImageId].filter((id): id is string => !!id))];
+		if (linkedImageIds.length > 0) {
+			const owned = await ImageEditService.filterOwned(linkedImageIds, session.user.id);
+			if (owned.length !== linkedImageIds.length) {
+				return json({ error: 'Image not found' }, { status: 404 });
 			}
-			throw error; // Re-throw other errors
 		}
 
 		if (!provider.generateImage) {
@@ -92,9 +133,25 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: `Model ${model} does not support streaming image generation` }, { status: 400 });
 		}
 
+		// Reserve usage for image generation (weighted by model, quality and image count)
+		const credits = await CreditWeightService.getCreditCost(model, { quality, numberOfImages });
+		try {
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'image', credits);
+		} catch (error) {
+			if (error instanceof UsageLimitError) {
+				return json({
+					error: error.message,
+					type: 'usage_limit_exceeded',
+					remainingQuota: error.remainingQuota
+				}, { status: 429 });
+			}
+			throw error; // Re-throw other errors
+		}
+
 		const params: ImageGenerationParams = {
 			model,
 			prompt: prompt?.trim() || '',
+			negativePrompt: negativePrompt?.trim() || undefined,
 			quality,
 			size,
 			style,
@@ -107,9 +164,30 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			seed,
 			numberOfImages,
 			upscaleFactor,
-			compressionQuality
+			compressionQuality,
+			mask: mask || undefined,
+			outpaint: outpaint || undefined,
+			sourceImageId: sourceImageId || undefined,
+			maskImageId
 		};
 
+		// Background requests return straight away and the client polls /api/generation-jobs/[id]
+		if (background && !stream && supportsGenerationJobs(model, 'image')) {
+			const job = await GenerationJobService.create({
+				userId: session.user.id,
+				type: 'image',
+				params,
+				reservation
+			});
+			// The job owns the reservation now and releases it itself if the generation fails
+			reservation = undefined;
+
+			if (job.status === 'failed') {
+				return json({ error: job.error || 'Failed to start image generation' }, { status: 500 });
+			}
+			return json({ job: toPublicJob(job) }, { status: 202 });
+		}
+
 		const response = await provider.generateImage(params);
 
 		// Handle streaming response
@@ -117,6 +195,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			const encoder = new TextEncoder();
 			const readable = new ReadableStream({
 				async start(controller) {
+					let completed = false;
 					try {
 						for await (const chunk of response as AsyncIterableIterator<AIImageStreamChunk>) {
 							const data = `data: ${JSON.stringify(chunk)}\n\n`;
@@ -124,8 +203,13 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 							
 							if (chunk.done) {
 								// Track usage for successful streaming image generation
-								if (session.user?.id) {
-									UsageTrackingService.trackUsage(session.user.id, 'image').catch(console.error);
+								completed = true;
+								if (reservation) {
+									UsageTrackingService.commitUsage(reservation, {
+										model,
+										chatId,
+										images: numberOfImages
+									}).catch(console.error);
 								}
 								break;
 							}
@@ -140,6 +224,11 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 						const errorData = `data: ${JSON.stringify(errorChunk)}\n\n`;
 						controller.enqueue(encoder.encode(errorData));
 						controller.close();
+					} finally {
+						// Streams that fail or end early don't use allowance
+						if (reservation && !completed) {
+							UsageTrackingService.releaseUsage(reservation).catch(console.error);
+						}
 					}
 				}
 			});
@@ -154,13 +243,20 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		}
 
 		// Track usage for successful image generation (non-streaming)
-		UsageTrackingService.trackUsage(session.user.id, 'image').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model,
+			chatId,
+			images: numberOfImages
+		}).catch(console.error);
 
 		// Non-streaming response
 		return json(response);
 
 	} catch (error) {
 		console.error('Image generation API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
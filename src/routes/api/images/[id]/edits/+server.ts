@@ -0,0 +1,59 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ImageEditService, type ImageRecord } from '$lib/server/image-edits.js';
+import { MediaLineageService } from '$lib/server/media-lineage.js';
+
+// Same shape as the images in /api/library, so the lightbox can open them
+async function toHistoryItem(image: ImageRecord) {
+	return {
+		id: image.id,
+		filename: image.filename,
+		mimeType: image.mimeType,
+		fileSize: image.fileSize,
+		storageLocation: image.storageLocation,
+		cloudPath: image.cloudPath,
+		createdAt: image.createdAt,
+		chatId: image.chatId,
+		chatTitle: null,
+		chatModel: null,
+		type: 'image' as const,
+		url: await ImageEditService.getUrl(image),
+		prompt: image.prompt,
+		model: image.model,
+		aspectRatio: image.aspectRatio,
+		seed: image.seed,
+		quality: image.quality,
+		style: image.style,
+		negativePrompt: image.negativePrompt,
+		numberOfImages: image.numberOfImages,
+		referenceImageUrl: image.referenceImageUrl,
+		upscaleFactor: image.upscaleFactor,
+		compressionQuality: image.compressionQuality,
+		sourceImageId: image.sourceImageId,
+		maskImageId: image.maskImageId,
+		outpaint: image.outpaint
+	};
+}
+
+// Images this one was edited from and the edits made from it ('edit' links in its lineage)
+export const GET: RequestHandler = async ({ params, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const history = await MediaLineageService.getEditHistory(session.user.id, params.id);
+		if (!history) {
+			return json({ error: 'Image not found' }, { status: 404 });
+		}
+
+		return json({
+			sources: await Promise.all(history.sources.map(toHistoryItem)),
+			edits: await Promise.all(history.edits.map(toHistoryItem))
+		});
+	} catch (error) {
+		console.error('Failed to load image edit history:', error);
+		return json({ error: 'Failed to load edit history' }, { status: 500 });
+	}
+};
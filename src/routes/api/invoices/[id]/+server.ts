@@ -0,0 +1,43 @@
+import { error, isHttpError } from '@sveltejs/kit';
+import type { RequestHandler } from './$types.js';
+import { InvoiceService, InvoiceError } from '$lib/server/invoices.js';
+
+const UUID_PATTERN = /^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/i;
+
+// Download the PDF invoice for a payment (owner only); issued on first download for older payments
+export const GET: RequestHandler = async ({ params, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			throw error(401, 'Authentication required');
+		}
+
+		if (!UUID_PATTERN.test(params.id)) {
+			throw error(400, 'Invalid payment ID format');
+		}
+
+		const invoice = await InvoiceService.getInvoicePdf(params.id, session.user.id);
+		if (!invoice) {
+			throw error(404, 'Payment not found');
+		}
+
+		return new Response(new Uint8Array(invoice.pdf), {
+			headers: {
+				'Content-Type': 'application/pdf',
+				'Content-Disposition': `attachment; filename="${invoice.filename}"`,
+				'X-Content-Type-Options': 'nosniff',
+				'Cache-Control': 'private, no-store',
+				'Content-Length': invoice.pdf.length.toString()
+			}
+		});
+	} catch (err) {
+		if (isHttpError(err)) {
+			throw err;
+		}
+		if (err instanceof InvoiceError) {
+			throw error(400, err.message);
+		}
+		console.error('Invoice download error:', err);
+		throw error(500, 'Failed to generate invoice');
+	}
+};
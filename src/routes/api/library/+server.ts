@@ -56,10 +56,14 @@ export const GET: RequestHandler = async ({ url, locals }) => {
 					seed: images.seed,
 					quality: images.quality,
 					style: images.style,
+					negativePrompt: images.negativePrompt,
 					numberOfImages: images.numberOfImages,
 					referenceImageUrl: images.referenceImageUrl,
 					upscaleFactor: images.upscaleFactor,
 					compressionQuality: images.compressionQuality,
+					sourceImageId: images.sourceImageId,
+					maskImageId: images.maskImageId,
+					outpaint: images.outpaint,
 				})
 				.from(images)
 				.leftJoin(chats, eq(images.chatId, chats.id))
@@ -139,6 +143,7 @@ export const GET: RequestHandler = async ({ url, locals }) => {
 					seed: videos.seed,
 					quality: videos.quality,
 					style: videos.style,
+					negativePrompt: videos.negativePrompt,
 					imageStartUrl: videos.imageStartUrl,
 					imageEndUrl: videos.imageEndUrl,
 				})
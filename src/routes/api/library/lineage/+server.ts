@@ -0,0 +1,77 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { MediaLineageService } from '$lib/server/media-lineage.js';
+import { storageService } from '$lib/server/storage.js';
+
+interface StoredMedia {
+	id: string;
+	storageLocation: string;
+	cloudPath: string | null;
+}
+
+// Presigned for R2, the API route otherwise (same as /api/library)
+async function getMediaUrl(type: 'image' | 'video', item: StoredMedia): Promise<string> {
+	if (item.storageLocation === 'r2' && item.cloudPath) {
+		return await storageService.getUrl(item.cloudPath);
+	}
+	return type === 'image' ? `/api/images/${item.id}` : `/api/videos/${item.id}`;
+}
+
+// Derivation graph of a library item: what it was made from and what was made from it
+export const GET: RequestHandler = async ({ url, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const type = url.searchParams.get('type');
+	const id = url.searchParams.get('id');
+	if ((type !== 'image' && type !== 'video') || !id) {
+		return json({ error: 'type (image or video) and id are required' }, { status: 400 });
+	}
+
+	try {
+		const graph = await MediaLineageService.getGraph(session.user.id, { type, id });
+		if (!graph) {
+			return json({ error: 'Item not found' }, { status: 404 });
+		}
+
+		const nodes = await Promise.all([
+			...graph.images.map(async (image) => ({
+				type: 'image' as const,
+				id: image.id,
+				depth: image.depth,
+				url: await getMediaUrl('image', image),
+				filename: image.filename,
+				createdAt: image.createdAt,
+				prompt: image.prompt,
+				model: image.model,
+				aspectRatio: image.aspectRatio,
+				seed: image.seed,
+				quality: image.quality,
+				style: image.style,
+				negativePrompt: image.negativePrompt
+			})),
+			...graph.videos.map(async (video) => ({
+				type: 'video' as const,
+				id: video.id,
+				depth: video.depth,
+				url: await getMediaUrl('video', video),
+				filename: video.filename,
+				createdAt: video.createdAt,
+				prompt: video.prompt,
+				model: video.model,
+				aspectRatio: video.aspectRatio,
+				seed: video.seed,
+				quality: video.quality,
+				style: video.style,
+				negativePrompt: video.negativePrompt
+			}))
+		]);
+
+		return json({ nodes, edges: graph.edges });
+	} catch (error) {
+		console.error('Failed to load lineage:', error);
+		return json({ error: 'Failed to load lineage' }, { status: 500 });
+	}
+};
@@ -4,6 +4,7 @@ import { getAllModels } from '$lib/ai/index.js';
 import { waitForEnrichmentCompletion } from '$lib/ai/providers/openrouter.js';
 import { isModelAllowedForGuests } from '$lib/constants/guest-limits.js';
 import { isDemoModeEnabled, isModelAllowedForDemo, isDemoModeRestricted } from '$lib/constants/demo-mode.js';
+import { CreditWeightService } from '$lib/server/credit-weights.js';
 
 export const GET: RequestHandler = async ({ locals, url }) => {
 	try {
@@ -48,6 +49,11 @@ export const GET: RequestHandler = async ({ locals, url }) => {
 		const demoModeEnabled = isDemoModeEnabled();
 		const userDemoRestricted = isDemoModeRestricted(isLoggedIn);
 
+		// Image/video pages show each model's credit cost before generating
+		const creditWeights = typeFilter === 'image' || typeFilter === 'video'
+			? await CreditWeightService.getWeights()
+			: [];
+
 		// Add guest access and demo mode flags to all models
 		const models = filteredModels.map(model => {
 			const guestAllowed = isModelAllowedForGuests(model.name);
@@ -67,6 +73,9 @@ export const GET: RequestHandler = async ({ locals, url }) => {
 
 			return {
 				...model,
+				...(creditWeights.length > 0 && {
+					creditWeights: creditWeights.filter(weight => weight.model === model.name)
+				}),
 				isGuestAllowed: guestAllowed,
 				isDemoAllowed: demoAllowed,
 				isLocked,
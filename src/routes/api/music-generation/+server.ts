@@ -1,11 +1,14 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { generateMusic } from '$lib/ai/providers/elevenlabs.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
 import { saveMusicAndGetId } from '$lib/ai/utils.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -54,9 +57,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: `Invalid music model: ${modelId}. Valid models: music_v1` }, { status: 400 });
 		}
 
-		// Check usage limits for music generation
+		// Reserve usage for music generation
 		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'audio');
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'music');
 		} catch (error) {
 			if (error instanceof UsageLimitError) {
 				return json({
@@ -90,7 +93,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		);
 
 		// Track usage for successful music generation
-		UsageTrackingService.trackUsage(session.user.id, 'audio').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model: response.model,
+			seconds: response.durationMs / 1000
+		}).catch(console.error);
 
 		// Return the music response with the database ID
 		return json({
@@ -100,6 +106,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 	} catch (error) {
 		console.error('Music generation API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
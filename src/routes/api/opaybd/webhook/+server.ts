@@ -1,10 +1,9 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { OpayService } from '$lib/server/opaybd.js';
+import { OpayService, type OpayWebhookPayment, type OpayWebhookStatus } from '$lib/server/opaybd.js';
+import { WebhookEventService } from '$lib/server/webhook-events.js';
 
-type CallbackStatus = 'pending' | 'success' | 'failed' | 'unknown';
-
-function normalizeStatus(rawStatus: unknown): CallbackStatus {
+function normalizeStatus(rawStatus: unknown): OpayWebhookStatus {
 	if (rawStatus === 'pending' || rawStatus === 'success' || rawStatus === 'failed') {
 		return rawStatus;
 	}
@@ -35,55 +34,38 @@ function parseNumber(value: unknown): number {
 	return 0;
 }
 
-async function processWebhookPayment({
-	transactionId,
-	fallbackStatus,
-	paymentMethod,
-	paymentAmount,
-	paymentFee,
-}: {
-	transactionId: string;
-	fallbackStatus: CallbackStatus;
-	paymentMethod: string;
-	paymentAmount: number;
-	paymentFee: number;
-}) {
-	try {
-		const verification = await OpayService.verifyPayment(transactionId);
-
-		if (verification.status === 'COMPLETED') {
-			const processed = await OpayService.handlePaymentSuccess({
-				transactionId,
-				paymentMethod: verification.payment_method || paymentMethod,
-				paymentAmount: parseFloat(verification.amount ?? String(paymentAmount)) || paymentAmount,
-				paymentFee,
-				status: 'success',
-			}, verification);
+async function processWebhookPayment(payment: OpayWebhookPayment) {
+	const { transactionId, fallbackStatus } = payment;
 
+	try {
+		const { claimed, event } = await WebhookEventService.claim('opaybd', transactionId, 'payment', payment);
+		if (!claimed) {
 			return json({
 				success: true,
-				status: 'processed',
+				status: event.status === 'processed' ? 'processed' : 'pending',
 				transactionId,
-				planTier: processed.planTier,
-				alreadyProcessed: processed.alreadyProcessed,
+				duplicate: true,
 			});
 		}
 
-		if (verification.status === 'PENDING') {
+		try {
+			const result = await OpayService.handleWebhookPayment(payment);
+
+			// Pending payments stay open, so the next webhook for the transaction is processed again
+			if (result.status === 'pending') {
+				await WebhookEventService.release(event.id);
+			} else {
+				await WebhookEventService.complete(event.id);
+			}
+
 			return json({
 				success: true,
-				status: 'pending',
-				transactionId,
+				...result,
 			});
+		} catch (error) {
+			await WebhookEventService.fail(event.id, error);
+			throw error;
 		}
-
-		return json({
-			success: true,
-			status: fallbackStatus === 'failed' ? 'failed' : 'pending',
-			transactionId,
-			verificationStatus: verification.status,
-			message: verification.message || null,
-		});
 	} catch (error) {
 		console.error('Error handling Opaybd webhook:', error);
 
@@ -5,6 +5,15 @@ import { projects, projectFiles } from '$lib/server/db/schema.js';
 import { eq, and, count } from 'drizzle-orm';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 import { enforceFileUploadRateLimit } from '$lib/server/file-upload-rate-limiting.js';
+import { ProjectRetrievalService } from '$lib/server/project-retrieval.js';
+import { storageService } from '$lib/server/storage.js';
+import {
+	DOCUMENT_LIMITS,
+	DOCUMENT_MIME_TYPES,
+	DocumentExtractionError,
+	extractDocument,
+	getDocumentFormat
+} from '$lib/server/document-extraction.js';
 
 const ALLOWED_MIME_TYPES = [
 	'text/plain',
@@ -47,6 +56,7 @@ export const GET: RequestHandler = async ({ params, locals }) => {
 				filename: projectFiles.filename,
 				mimeType: projectFiles.mimeType,
 				fileSize: projectFiles.fileSize,
+				metadata: projectFiles.metadata,
 				createdAt: projectFiles.createdAt,
 			})
 			.from(projectFiles)
@@ -70,7 +80,10 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 			return json({ error: DEMO_MODE_MESSAGES.GENERAL_RESTRICTION }, { status: 403 });
 		}
 
-		enforceFileUploadRateLimit('textFileUpload', session.user.id);
+		// PDF / Office documents arrive as multipart uploads; text files as JSON
+		const isDocumentUpload = request.headers.get('content-type')?.startsWith('multipart/form-data') ?? false;
+
+		enforceFileUploadRateLimit(isDocumentUpload ? 'documentUpload' : 'textFileUpload', session.user.id);
 
 		// Verify project ownership
 		const [project] = await db
@@ -92,6 +105,10 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 			return json({ error: `Maximum of ${MAX_FILES_PER_PROJECT} files per project` }, { status: 400 });
 		}
 
+		if (isDocumentUpload) {
+			return await uploadDocument(request, params.id, session.user.id);
+		}
+
 		const { filename, content, mimeType } = await request.json();
 
 		if (!filename || typeof filename !== 'string' || !filename.trim()) {
@@ -122,9 +139,86 @@ export const POST: RequestHandler = async ({ params, request, locals }) => {
 			})
 			.returning();
 
+		await indexProjectFile(newFile);
+
 		return json({ file: newFile });
 	} catch (error) {
 		console.error('Upload project file error:', error);
 		return json({ error: 'Failed to upload file' }, { status: 500 });
 	}
 };
+
+/**
+ * Extract text from an uploaded PDF/DOCX/XLSX/PPTX, keep the original in storage
+ * and save the text as the project file's content
+ */
+async function uploadDocument(request: Request, projectId: string, userId: string) {
+	const formData = await request.formData();
+	const file = formData.get('file');
+
+	if (!(file instanceof File) || !file.name.trim()) {
+		return json({ error: 'File is required' }, { status: 400 });
+	}
+
+	const format = getDocumentFormat(file.name, file.type);
+	if (!format) {
+		return json({ error: 'Only PDF, Word (.docx), Excel (.xlsx) and PowerPoint (.pptx) documents are supported' }, { status: 400 });
+	}
+
+	if (file.size > DOCUMENT_LIMITS.maxFileBytes) {
+		return json({ error: `Documents must be smaller than ${DOCUMENT_LIMITS.maxFileBytes / (1024 * 1024)}MB` }, { status: 400 });
+	}
+
+	const buffer = Buffer.from(await file.arrayBuffer());
+
+	let extracted;
+	try {
+		extracted = await extractDocument(buffer, format);
+	} catch (error) {
+		if (error instanceof DocumentExtractionError) {
+			return json({ error: error.message, code: error.code }, { status: 400 });
+		}
+		throw error;
+	}
+
+	const stored = await storageService.upload(
+		{ buffer, mimeType: DOCUMENT_MIME_TYPES[format], filename: storageService.generateFilename(file.name) },
+		userId,
+		'documents',
+		'uploaded'
+	);
+
+	let newFile;
+	try {
+		[newFile] = await db
+			.insert(projectFiles)
+			.values({
+				projectId,
+				filename: file.name.trim(),
+				mimeType: DOCUMENT_MIME_TYPES[format],
+				fileSize: file.size,
+				content: extracted.text,
+				storageLocation: stored.storageLocation,
+				storagePath: stored.path,
+				metadata: extracted.metadata,
+			})
+			.returning();
+	} catch (error) {
+		// Don't leave an orphaned original behind
+		await storageService.delete(stored.path).catch(() => {});
+		throw error;
+	}
+
+	await indexProjectFile(newFile);
+
+	return json({ file: newFile });
+}
+
+// Index for retrieval now so the first chat doesn't wait; chat-stream indexes lazily if this fails
+async function indexProjectFile(file: { id: string; projectId: string; content: string }) {
+	try {
+		await ProjectRetrievalService.indexFile(file, await ProjectRetrievalService.getEmbeddingBackend());
+	} catch (indexError) {
+		console.error('Index project file error:', indexError);
+	}
+}
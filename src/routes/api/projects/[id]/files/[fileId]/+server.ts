@@ -4,6 +4,7 @@ import { db } from '$lib/server/db/index.js';
 import { projects, projectFiles } from '$lib/server/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
+import { storageService } from '$lib/server/storage.js';
 
 export const DELETE: RequestHandler = async ({ params, locals }) => {
 	try {
@@ -38,6 +39,15 @@ export const DELETE: RequestHandler = async ({ params, locals }) => {
 			return json({ error: 'File not found' }, { status: 404 });
 		}
 
+		// Remove the original of an uploaded document; the row is already gone either way
+		if (deletedFile.storagePath) {
+			try {
+				await storageService.delete(deletedFile.storagePath);
+			} catch (storageError) {
+				console.error('Delete project document from storage error:', storageError);
+			}
+		}
+
 		return json({ message: 'File deleted successfully' });
 	} catch (error) {
 		console.error('Delete project file error:', error);
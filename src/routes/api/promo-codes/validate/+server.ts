@@ -0,0 +1,42 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { PromoCodeService, PromoCodeError } from '$lib/server/promo-codes.js';
+
+// Checks a code before checkout so the pricing and billing pages can show discounted prices
+export const POST: RequestHandler = async ({ request, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const { code, purchaseType } = await request.json();
+		if (!code || typeof code !== 'string') {
+			return json({ error: 'Promo code is required' }, { status: 400 });
+		}
+		if (purchaseType !== 'subscription' && purchaseType !== 'credits') {
+			return json({ error: 'Invalid purchase type' }, { status: 400 });
+		}
+
+		const promoCode = await PromoCodeService.validate(code, {
+			userId: session.user.id,
+			purchaseType,
+		});
+
+		return json({
+			code: promoCode.code,
+			description: promoCode.description,
+			discountType: promoCode.discountType,
+			percentOff: promoCode.percentOff,
+			amountOff: promoCode.amountOff,
+			amountOffBdt: promoCode.amountOffBdt,
+			planIds: promoCode.planIds,
+		});
+	} catch (error) {
+		if (error instanceof PromoCodeError) {
+			return json({ error: error.message }, { status: 400 });
+		}
+		console.error('Promo code validation error:', error);
+		return json({ error: 'Failed to check promo code' }, { status: 500 });
+	}
+};
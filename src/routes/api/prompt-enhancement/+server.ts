@@ -0,0 +1,56 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { PromptEnhancementService, PromptEnhancementError, MAX_ENHANCEMENT_PROMPT_LENGTH } from '$lib/server/prompt-enhancement.js';
+import { UsageLimitError } from '$lib/server/usage-tracking.js';
+import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
+
+// Rewrite an image/video prompt for the selected model ("Enhance prompt" in the studio)
+export const POST: RequestHandler = async ({ request, locals }) => {
+	const session = await locals.auth();
+	if (!session?.user?.id) {
+		return json({ error: 'Authentication required' }, { status: 401 });
+	}
+
+	if (isDemoModeRestricted(!!session?.user?.id)) {
+		return json({ error: DEMO_MODE_MESSAGES.GENERAL_RESTRICTION }, { status: 403 });
+	}
+
+	const body = await request.json().catch(() => null);
+	const { prompt, model, type } = body ?? {};
+
+	if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+		return json({ error: 'Prompt is required and must be a non-empty string' }, { status: 400 });
+	}
+	if (prompt.length > MAX_ENHANCEMENT_PROMPT_LENGTH) {
+		return json({ error: `Prompt must be at most ${MAX_ENHANCEMENT_PROMPT_LENGTH} characters` }, { status: 400 });
+	}
+	if (!model || typeof model !== 'string') {
+		return json({ error: 'Model is required' }, { status: 400 });
+	}
+	if (type !== 'image' && type !== 'video') {
+		return json({ error: 'type must be image or video' }, { status: 400 });
+	}
+
+	try {
+		const enhanced = await PromptEnhancementService.enhance({
+			prompt: prompt.trim(),
+			model,
+			type,
+			userId: session.user.id
+		});
+		return json({ prompt: enhanced });
+	} catch (error) {
+		if (error instanceof UsageLimitError) {
+			return json({
+				error: error.message,
+				type: 'usage_limit_exceeded',
+				remainingQuota: error.remainingQuota
+			}, { status: 429 });
+		}
+		if (error instanceof PromptEnhancementError) {
+			return json({ error: error.message }, { status: 400 });
+		}
+		console.error('Prompt enhancement error:', error);
+		return json({ error: 'Failed to enhance prompt' }, { status: 500 });
+	}
+};
@@ -5,7 +5,7 @@ import { audio } from '$lib/server/db/schema.js';
 import { eq, and } from 'drizzle-orm';
 import { getModelProvider } from '$lib/ai/index.js';
 import type { AudioGenerationParams } from '$lib/ai/types.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
 import { saveAudioAndGetId } from '$lib/ai/utils.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 import { storageService } from '$lib/server/storage.js';
@@ -16,6 +16,9 @@ import { READ_ALOUD_DEFAULTS } from '$lib/constants/elevenlabs.js';
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -96,9 +99,20 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			}
 		}
 
-		// Check usage limits for new audio generation
+		// Find the provider for this model
+		const provider = getModelProvider(READ_ALOUD_DEFAULTS.model);
+		if (!provider) {
+			return json({ error: `No provider found for model: ${READ_ALOUD_DEFAULTS.model}` }, { status: 500 });
+		}
+
+		// Check if the provider supports audio generation
+		if (!provider.generateAudio) {
+			return json({ error: `Model ${READ_ALOUD_DEFAULTS.model} does not support audio generation` }, { status: 500 });
+		}
+
+		// Reserve usage for new audio generation
 		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'audio');
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'audio');
 		} catch (error) {
 			if (error instanceof UsageLimitError) {
 				return json({
@@ -110,17 +124,6 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			throw error;
 		}
 
-		// Find the provider for this model
-		const provider = getModelProvider(READ_ALOUD_DEFAULTS.model);
-		if (!provider) {
-			return json({ error: `No provider found for model: ${READ_ALOUD_DEFAULTS.model}` }, { status: 500 });
-		}
-
-		// Check if the provider supports audio generation
-		if (!provider.generateAudio) {
-			return json({ error: `Model ${READ_ALOUD_DEFAULTS.model} does not support audio generation` }, { status: 500 });
-		}
-
 		// Build params
 		const params: AudioGenerationParams = {
 			model: READ_ALOUD_DEFAULTS.model,
@@ -149,7 +152,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		);
 
 		// Track usage for successful audio generation
-		UsageTrackingService.trackUsage(session.user.id, 'audio').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model: READ_ALOUD_DEFAULTS.model,
+			characters: trimmedText.length
+		}).catch(console.error);
 
 		// Return the audio response
 		return json({
@@ -160,6 +166,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 	} catch (error) {
 		console.error('Read aloud API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
@@ -0,0 +1,37 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types.js';
+import { SearchService, SEARCH_RESULT_TYPES, type SearchResultType } from '$lib/server/search.js';
+
+// Longest query accepted; the search itself only uses the first few terms
+const MAX_QUERY_LENGTH = 200;
+
+export const GET: RequestHandler = async ({ url, locals }) => {
+	try {
+		const session = await locals.auth();
+		if (!session?.user?.id) {
+			return json({ error: 'Unauthorized' }, { status: 401 });
+		}
+
+		const query = (url.searchParams.get('q') || '').trim();
+		if (query.length > MAX_QUERY_LENGTH) {
+			return json({ error: 'Search query is too long' }, { status: 400 });
+		}
+
+		// Optional comma-separated filter, e.g. ?types=chat,message
+		const typesParam = url.searchParams.get('types');
+		const types = typesParam
+			? typesParam.split(',').filter((type): type is SearchResultType => SEARCH_RESULT_TYPES.includes(type as SearchResultType))
+			: undefined;
+
+		const limitParam = url.searchParams.get('limit');
+		const results = await SearchService.search(session.user.id, query, {
+			types,
+			limit: limitParam ? parseInt(limitParam) || undefined : undefined
+		});
+
+		return json({ results });
+	} catch (error) {
+		console.error('Search error:', error);
+		return json({ error: 'Search failed' }, { status: 500 });
+	}
+};
@@ -1,11 +1,14 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { generateSoundEffect } from '$lib/ai/providers/elevenlabs.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
 import { saveSoundEffectAndGetId } from '$lib/ai/utils.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -53,9 +56,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Prompt influence must be a number between 0.0 and 1.0' }, { status: 400 });
 		}
 
-		// Check usage limits for sound effect generation
+		// Reserve usage for sound effect generation
 		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'audio');
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'soundEffect');
 		} catch (error) {
 			if (error instanceof UsageLimitError) {
 				return json({
@@ -87,7 +90,10 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		);
 
 		// Track usage for successful sound effect generation
-		UsageTrackingService.trackUsage(session.user.id, 'audio').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model: 'sound_effects_v1',
+			seconds: response.durationSeconds
+		}).catch(console.error);
 
 		// Return the sound effect response with the database ID
 		return json({
@@ -97,6 +103,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 	} catch (error) {
 		console.error('Sound effect generation API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
@@ -2,6 +2,8 @@ import { json, error, isHttpError } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { PaymentRouter } from '$lib/server/payment-router.js';
 import { isValidPriceId, getPlanByPriceId } from '$lib/server/pricing-plans-seeder.js';
+import { PromoCodeService, PromoCodeError, getCheckoutPrice } from '$lib/server/promo-codes.js';
+import { TrialService, TrialError } from '$lib/server/trials.js';
 
 export const POST: RequestHandler = async ({ request, locals, url }) => {
         try {
@@ -11,7 +13,7 @@ export const POST: RequestHandler = async ({ request, locals, url }) => {
                         throw error(401, 'Unauthorized');
                 }
 
-                const { priceId } = await request.json();
+                const { priceId, promoCode } = await request.json();
 
                 if (!priceId || typeof priceId !== 'string') {
                         throw error(400, 'Price ID is required');
@@ -27,22 +29,56 @@ export const POST: RequestHandler = async ({ request, locals, url }) => {
                         throw error(400, 'Plan not found for price ID');
                 }
 
+                let discount;
+                if (promoCode && typeof promoCode === 'string') {
+                        const provider = await PaymentRouter.getActiveProvider();
+                        try {
+                                discount = await PromoCodeService.apply(promoCode, {
+                                        userId: session.user.id,
+                                        purchaseType: 'subscription',
+                                        planId: plan.id,
+                                        paymentProvider: provider,
+                                        ...getCheckoutPrice(plan, provider),
+                                });
+                        } catch (err) {
+                                if (err instanceof PromoCodeError) {
+                                        throw error(400, err.message);
+                                }
+                                throw err;
+                        }
+                }
+
+                // A promo code is for the first payment, so it replaces the trial rather than stacking with it
+                const trialDays = discount ? 0 : await TrialService.getTrialDays(session.user.id, plan);
+
                 const origin = url.origin;
                 const successUrl = `${origin}/settings/billing?session_id={CHECKOUT_SESSION_ID}`;
                 const cancelUrl = `${origin}/settings/billing?canceled=true`;
 
-                const result = await PaymentRouter.createCheckoutSession({
-                        userId: session.user.id,
-                        priceId,
-                        planId: plan.id,
-                        successUrl,
-                        cancelUrl,
-                });
+                // Reserves the code until the payment completes; give it back if no checkout comes of it
+                let result;
+                try {
+                        result = await PaymentRouter.createCheckoutSession({
+                                userId: session.user.id,
+                                priceId,
+                                planId: plan.id,
+                                successUrl,
+                                cancelUrl,
+                                discount,
+                                trialDays,
+                        });
+                } catch (err) {
+                        if (discount) {
+                                await PromoCodeService.releaseReservation(discount.reservationId);
+                        }
+                        throw err;
+                }
 
                 if (result.provider === 'opaybd') {
                         return json({
                                 provider: 'opaybd',
                                 paymentUrl: result.paymentUrl,
+                                trialStarted: result.trialStarted,
                         });
                 }
 
@@ -56,6 +92,9 @@ export const POST: RequestHandler = async ({ request, locals, url }) => {
                 if (isHttpError(err)) {
                         throw err;
                 }
+                if (err instanceof TrialError) {
+                        throw error(400, err.message);
+                }
                 console.error('Error creating checkout session:', err);
                 throw error(500, 'Failed to create checkout session');
         }
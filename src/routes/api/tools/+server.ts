@@ -0,0 +1,17 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types.js';
+import { CustomToolsService } from '$lib/server/custom-tools.js';
+
+export const GET: RequestHandler = async ({ locals }) => {
+	try {
+		const session = await locals.auth();
+
+		// Guests get the free plan's tools
+		const tools = await CustomToolsService.getAvailableTools(session?.user?.id);
+
+		return json({ tools });
+	} catch (error) {
+		console.error('Tools API error:', error);
+		return json({ error: 'Failed to fetch tools' }, { status: 500 });
+	}
+};
@@ -2,10 +2,16 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { getModelProvider } from '$lib/ai/index.js';
 import type { VideoGenerationParams } from '$lib/ai/types.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
+import { CreditWeightService } from '$lib/server/credit-weights.js';
+import { GenerationJobService, supportsGenerationJobs, toPublicJob } from '$lib/server/generation-jobs.js';
+import { MODEL_CONFIGS } from '$lib/constants/replicate-model-configs.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -19,7 +25,7 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		}
 
 		const body = await request.json();
-		const { model, prompt, duration, resolution, fps, imageUrl, chatId, seed, quality, style, imageEndUrl } = body;
+		const { model, prompt, negativePrompt, duration, resolution, fps, imageUrl, chatId, seed, quality, style, imageEndUrl, background = false } = body;
 
 		if (!model) {
 			return json({ error: 'Model is required' }, { status: 400 });
@@ -29,20 +35,6 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Prompt is required and must be a non-empty string' }, { status: 400 });
 		}
 
-		// Check usage limits for video generation
-		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'video');
-		} catch (error) {
-			if (error instanceof UsageLimitError) {
-				return json({ 
-					error: error.message, 
-					type: 'usage_limit_exceeded',
-					remainingQuota: error.remainingQuota 
-				}, { status: 429 });
-			}
-			throw error; // Re-throw other errors
-		}
-
 		// Validate video parameters if provided
 		if (duration !== undefined && (typeof duration !== 'number' || duration <= 0 || duration > 60)) {
 			return json({ error: 'Duration must be a positive number between 1 and 60 seconds' }, { status: 400 });
@@ -81,9 +73,36 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			return json({ error: 'Image URL is required for image-to-video models' }, { status: 400 });
 		}
 
+		// Validate negative prompt if provided (blank means none)
+		const MAX_NEGATIVE_PROMPT_LENGTH = 2000;
+		if (negativePrompt !== undefined && negativePrompt !== null) {
+			if (typeof negativePrompt !== 'string' || negativePrompt.length > MAX_NEGATIVE_PROMPT_LENGTH) {
+				return json({ error: `negativePrompt must be a string of at most ${MAX_NEGATIVE_PROMPT_LENGTH} characters` }, { status: 400 });
+			}
+			if (negativePrompt.trim() && !MODEL_CONFIGS[model]?.negativePromptParam) {
+				return json({ error: `Model ${model} does not support negative prompts` }, { status: 400 });
+			}
+		}
+
+		// Reserve usage for video generation (weighted by model, quality and duration)
+		const credits = await CreditWeightService.getCreditCost(model, { quality, duration });
+		try {
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'video', credits);
+		} catch (error) {
+			if (error instanceof UsageLimitError) {
+				return json({ 
+					error: error.message, 
+					type: 'usage_limit_exceeded',
+					remainingQuota: error.remainingQuota 
+				}, { status: 429 });
+			}
+			throw error; // Re-throw other errors
+		}
+
 		const params: VideoGenerationParams = {
 			model,
 			prompt: prompt.trim(),
+			negativePrompt: negativePrompt?.trim() || undefined,
 			duration,
 			resolution,
 			fps,
@@ -96,6 +115,23 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			imageEndUrl
 		};
 
+		// Background requests return straight away and the client polls /api/generation-jobs/[id]
+		if (background && supportsGenerationJobs(model, 'video')) {
+			const job = await GenerationJobService.create({
+				userId: session.user.id,
+				type: 'video',
+				params,
+				reservation
+			});
+			// The job owns the reservation now and releases it itself if the generation fails
+			reservation = undefined;
+
+			if (job.status === 'failed') {
+				return json({ error: job.error || 'Failed to start video generation' }, { status: 500 });
+			}
+			return json({ job: toPublicJob(job) }, { status: 202 });
+		}
+
 		console.log('🎯 Video generation API called:', {
 			model,
 			prompt: prompt.trim().substring(0, 100) + '...',
@@ -114,12 +150,19 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		});
 
 		// Track usage for successful video generation
-		UsageTrackingService.trackUsage(session.user.id, 'video').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model,
+			chatId,
+			seconds: response.duration ?? duration
+		}).catch(console.error);
 
 		return json(response);
 
 	} catch (error) {
 		console.error('Video generation API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
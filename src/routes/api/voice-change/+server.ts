@@ -2,7 +2,7 @@ import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types.js';
 import { elevenlabsProvider } from '$lib/ai/providers/elevenlabs.js';
 import { ELEVENLABS_STS_MODELS } from '$lib/constants/elevenlabs.js';
-import { UsageTrackingService, UsageLimitError } from '$lib/server/usage-tracking.js';
+import { UsageTrackingService, UsageLimitError, type UsageReservation } from '$lib/server/usage-tracking.js';
 import { saveVoiceChangeAndGetId } from '$lib/ai/utils.js';
 import { isDemoModeRestricted, DEMO_MODE_MESSAGES } from '$lib/constants/demo-mode.js';
 
@@ -27,6 +27,9 @@ const SUPPORTED_MIME_TYPES = [
 ];
 
 export const POST: RequestHandler = async ({ request, locals }) => {
+	// Released if the generation fails
+	let reservation: UsageReservation | undefined;
+
 	try {
 		// Check authentication
 		const session = await locals.auth();
@@ -115,9 +118,14 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			}
 		}
 
-		// Check usage limits for voice change
+		// Check if the provider supports speech-to-speech
+		if (!elevenlabsProvider.speechToSpeech) {
+			return json({ error: 'Voice change is not available' }, { status: 500 });
+		}
+
+		// Reserve usage for voice change
 		try {
-			await UsageTrackingService.checkUsageLimit(session.user.id, 'audio');
+			reservation = await UsageTrackingService.reserveUsage(session.user.id, 'voice');
 		} catch (error) {
 			if (error instanceof UsageLimitError) {
 				return json({
@@ -129,11 +137,6 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 			throw error;
 		}
 
-		// Check if the provider supports speech-to-speech
-		if (!elevenlabsProvider.speechToSpeech) {
-			return json({ error: 'Voice change is not available' }, { status: 500 });
-		}
-
 		// Convert File to ArrayBuffer (reuse for both processing and storage)
 		const audioArrayBuffer = await file.arrayBuffer();
 		const audioBlob = new Blob([audioArrayBuffer], { type: file.type });
@@ -163,7 +166,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 		);
 
 		// Track usage for successful voice change
-		UsageTrackingService.trackUsage(session.user.id, 'audio').catch(console.error);
+		UsageTrackingService.commitUsage(reservation, {
+			model: effectiveModelId
+		}).catch(console.error);
 
 		// Return the response with database ID
 		return json({
@@ -173,6 +178,9 @@ export const POST: RequestHandler = async ({ request, locals }) => {
 
 	} catch (error) {
 		console.error('Voice change API error:', error);
+		if (reservation) {
+			await UsageTrackingService.releaseUsage(reservation);
+		}
 		return json(
 			{ error: error instanceof Error ? error.message : 'Internal server error' },
 			{ status: 500 }
@@ -28,6 +28,8 @@ export const load: PageLoad = async ({ params, fetch, parent }) => {
 		
 		return {
 			chat: data.chat,
+			hasMoreMessages: data.hasMoreMessages ?? false,
+			messagesStartPosition: data.messagesStartPosition ?? 0,
 			chatId: params.id
 		};
 	} catch (err) {
@@ -1,11 +1,13 @@
 import type { PageServerLoad } from './$types';
 import { isDemoModeEnabled } from '$lib/constants/demo-mode.js';
+import { PromptEnhancementService } from '$lib/server/prompt-enhancement.js';
 
 export const load: PageServerLoad = async ({ locals }) => {
 	const session = await locals.auth();
 
 	return {
 		session,
-		isDemoMode: isDemoModeEnabled()
+		isDemoMode: isDemoModeEnabled(),
+		promptEnhancementEnabled: await PromptEnhancementService.isEnabled()
 	};
 };
@@ -0,0 +1,15 @@
+import { redirect } from '@sveltejs/kit';
+import type { PageServerLoad } from './$types';
+import { isDemoModeEnabled } from '$lib/constants/demo-mode.js';
+
+export const load: PageServerLoad = async ({ locals }) => {
+	const session = await locals.auth();
+	if (!session?.user) {
+		redirect(302, '/login?callbackUrl=/image-video/batch');
+	}
+
+	return {
+		session,
+		isDemoMode: isDemoModeEnabled()
+	};
+};
@@ -0,0 +1,271 @@
+import type { AIModelConfig } from '$lib/ai/types.js';
+import {
+	DEFAULT_IMAGE_MODEL,
+	getModelAspectRatioOptions,
+	getModelQualityOptions,
+	getModelStyleOptions
+} from '$lib/constants/model-capabilities.js';
+import { isBatchModel, parseBatchPrompts, resolveBatchItems, type BatchItem } from '$lib/constants/batch-generation.js';
+import type { GenerationJobInfo } from '../generation-jobs.js';
+
+/**
+ * Batch summary as returned by /api/generation-batches
+ */
+export interface BatchSummary {
+	id: string;
+	name: string;
+	status: 'running' | 'completed' | 'canceled';
+	total: number;
+	createdAt: string;
+	completedAt: string | null;
+	succeeded: number;
+	failed: number;
+	canceled: number;
+	inProgress: number;
+	pending: number;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * BatchState - Batch image generation state for the /image-video/batch page
+ */
+export class BatchState {
+	// Models (text-to-image only)
+	models = $state<AIModelConfig[]>([]);
+
+	// Input
+	name = $state<string>('');
+	input = $state<string>('');
+	selectedModel = $state<string>(DEFAULT_IMAGE_MODEL);
+	selectedAspectRatio = $state<string>('');
+	selectedStyle = $state<string>('');
+	selectedQuality = $state<string>('');
+	seed = $state<string>('');
+
+	isSubmitting = $state<boolean>(false);
+	errorMessage = $state<string | null>(null);
+	submitErrors = $state<string[]>([]);
+
+	// Batches
+	batches = $state<BatchSummary[]>([]);
+	selectedBatch = $state<BatchSummary | null>(null);
+	selectedJobs = $state<GenerationJobInfo[]>([]);
+	isCanceling = $state<boolean>(false);
+
+	private pollTimer: ReturnType<typeof setTimeout> | null = null;
+	private polledBatchId: string | null = null;
+
+	get aspectRatioOptions(): readonly string[] {
+		return getModelAspectRatioOptions(this.selectedModel);
+	}
+
+	get styleOptions(): readonly string[] {
+		return getModelStyleOptions(this.selectedModel);
+	}
+
+	get qualityOptions(): readonly string[] {
+		return getModelQualityOptions(this.selectedModel);
+	}
+
+	get defaults() {
+		const seed = parseInt(this.seed.trim(), 10);
+		return {
+			model: this.selectedModel,
+			aspectRatio: this.selectedAspectRatio || undefined,
+			style: this.selectedStyle || undefined,
+			quality: this.selectedQuality || undefined,
+			seed: Number.isInteger(seed) && seed >= 0 ? seed : undefined
+		};
+	}
+
+	// Derived: rows the server will create, with the same checks it runs
+	get preview(): { items: BatchItem[]; errors: string[] } {
+		const parsed = parseBatchPrompts(this.input);
+		const resolved = resolveBatchItems(parsed.rows, this.defaults);
+		return { items: resolved.items, errors: [...parsed.errors, ...resolved.errors] };
+	}
+
+	// ==================== Model Methods ====================
+
+	async loadModels() {
+		try {
+			const response = await fetch('/api/models?type=image');
+			if (!response.ok) {
+				throw new Error('Failed to load models');
+			}
+
+			const data = await response.json();
+			this.models = (data.models || []).filter((model: AIModelConfig) => isBatchModel(model.name));
+
+			if (this.models.length > 0 && !this.models.find(m => m.name === this.selectedModel)) {
+				this.selectedModel = this.models[0].name;
+			}
+			this.resetOptions();
+		} catch (error) {
+			console.error('Failed to load models:', error);
+			this.errorMessage = 'Failed to load models';
+		}
+	}
+
+	/**
+	 * Reset the default options to the selected model's first choices
+	 */
+	resetOptions() {
+		this.selectedAspectRatio = this.aspectRatioOptions[0] ?? '';
+		this.selectedStyle = this.styleOptions[0] ?? '';
+		this.selectedQuality = this.qualityOptions[0] ?? '';
+	}
+
+	getModelDisplayName(modelName: string): string {
+		return this.models.find(m => m.name === modelName)?.displayName || modelName;
+	}
+
+	// ==================== Input Methods ====================
+
+	/**
+	 * Load prompts from a .csv or .txt file into the input
+	 */
+	async handleFileUpload(event: Event) {
+		const input = event.target as HTMLInputElement;
+		const file = input.files?.[0];
+		if (!file) return;
+
+		if (file.size > 1024 * 1024) {
+			this.errorMessage = 'Prompt files must be less than 1MB';
+		} else {
+			this.input = await file.text();
+			if (!this.name.trim()) {
+				this.name = file.name.replace(/\.(csv|txt)$/i, '');
+			}
+		}
+
+		input.value = '';
+	}
+
+	async submit() {
+		if (this.isSubmitting) return;
+
+		this.isSubmitting = true;
+		this.errorMessage = null;
+		this.submitErrors = [];
+
+		try {
+			const response = await fetch('/api/generation-batches', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					name: this.name,
+					input: this.input,
+					defaults: this.defaults
+				})
+			});
+
+			const data = await response.json();
+			if (!response.ok) {
+				this.submitErrors = data.errors || [];
+				throw new Error(data.error || 'Failed to start batch');
+			}
+
+			this.name = '';
+			this.input = '';
+			await this.loadBatches();
+			await this.selectBatch(data.batch.id);
+		} catch (error) {
+			console.error('Batch submit error:', error);
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to start batch';
+		} finally {
+			this.isSubmitting = false;
+		}
+	}
+
+	// ==================== Batch Methods ====================
+
+	async loadBatches() {
+		try {
+			const response = await fetch('/api/generation-batches');
+			if (!response.ok) {
+				throw new Error('Failed to load batches');
+			}
+			const data = await response.json();
+			this.batches = data.batches || [];
+		} catch (error) {
+			console.error('Failed to load batches:', error);
+			this.errorMessage = 'Failed to load batches';
+		}
+	}
+
+	/**
+	 * Show a batch's progress grid, polling while it runs
+	 */
+	async selectBatch(batchId: string) {
+		this.stopPolling();
+		this.polledBatchId = batchId;
+		this.selectedJobs = [];
+		await this.refreshBatch(batchId);
+	}
+
+	private async refreshBatch(batchId: string) {
+		try {
+			const response = await fetch(`/api/generation-batches/${batchId}`);
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || 'Failed to load batch');
+			}
+			// Another batch was selected while this request was in flight
+			if (this.polledBatchId !== batchId) return;
+
+			this.selectedBatch = data.batch;
+			this.selectedJobs = data.jobs;
+			this.batches = this.batches.map(batch => (batch.id === data.batch.id ? data.batch : batch));
+
+			if (data.batch.status === 'running') {
+				this.pollTimer = setTimeout(() => this.refreshBatch(batchId), POLL_INTERVAL_MS);
+			}
+		} catch (error) {
+			console.error('Failed to load batch:', error);
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to load batch';
+		}
+	}
+
+	stopPolling() {
+		this.polledBatchId = null;
+		if (this.pollTimer) {
+			clearTimeout(this.pollTimer);
+			this.pollTimer = null;
+		}
+	}
+
+	/**
+	 * Stop the selected batch. Images already generated are kept.
+	 */
+	async cancelBatch() {
+		if (!this.selectedBatch || this.isCanceling) return;
+		if (!confirm('Cancel this batch? Prompts that have not finished will be stopped.')) return;
+
+		this.isCanceling = true;
+		try {
+			const response = await fetch(`/api/generation-batches/${this.selectedBatch.id}`, { method: 'DELETE' });
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || 'Failed to cancel batch');
+			}
+			await this.selectBatch(this.selectedBatch.id);
+		} catch (error) {
+			console.error('Failed to cancel batch:', error);
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to cancel batch';
+		} finally {
+			this.isCanceling = false;
+		}
+	}
+
+	downloadBatch() {
+		if (!this.selectedBatch) return;
+
+		const link = document.createElement('a');
+		link.href = `/api/generation-batches/${this.selectedBatch.id}/download`;
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
+	}
+}
@@ -0,0 +1,101 @@
+/**
+ * Client helpers for background generation jobs (see /api/generation-jobs).
+ * Replicate image and video generations run as jobs so a reload doesn't lose them.
+ */
+
+export type GenerationJobStatus = 'pending' | 'queued' | 'running' | 'saving' | 'succeeded' | 'failed' | 'canceled';
+
+export interface GenerationJobInfo {
+	id: string;
+	type: 'image' | 'video';
+	model: string;
+	prompt: string;
+	status: GenerationJobStatus;
+	progress: number;
+	error: string | null;
+	resultIds: string[];
+	batchIndex: number | null;
+	createdAt: string;
+	completedAt: string | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+// Consecutive failed status requests tolerated before giving up (e.g. a brief network drop)
+const MAX_POLL_ERRORS = 5;
+
+export function isJobFinished(job: GenerationJobInfo): boolean {
+	return job.status === 'succeeded' || job.status === 'failed' || job.status === 'canceled';
+}
+
+/**
+ * Heading for the progress dialog
+ */
+export function describeJob(job: GenerationJobInfo): string {
+	switch (job.status) {
+		case 'pending':
+			return 'Waiting...';
+		case 'queued':
+			return `Starting ${job.type} generation...`;
+		case 'saving':
+			return `Saving ${job.type}...`;
+		default:
+			return `Generating ${job.type}...`;
+	}
+}
+
+/**
+ * The user's unfinished jobs of one type, newest first
+ */
+export async function fetchActiveJobs(type: 'image' | 'video'): Promise<GenerationJobInfo[]> {
+	const response = await fetch(`/api/generation-jobs?type=${type}`);
+	if (!response.ok) {
+		return [];
+	}
+	const data = await response.json();
+	return data.jobs || [];
+}
+
+export async function cancelJob(jobId: string): Promise<GenerationJobInfo> {
+	const response = await fetch(`/api/generation-jobs/${jobId}`, { method: 'DELETE' });
+	const data = await response.json();
+	if (!response.ok) {
+		throw new Error(data.error || 'Failed to cancel generation');
+	}
+	return data.job;
+}
+
+/**
+ * Poll a job until it finishes, reporting each update
+ */
+export async function pollJob(
+	jobId: string,
+	onUpdate: (job: GenerationJobInfo) => void
+): Promise<GenerationJobInfo> {
+	let errors = 0;
+
+	while (true) {
+		await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+
+		let job: GenerationJobInfo;
+		try {
+			const response = await fetch(`/api/generation-jobs/${jobId}`);
+			const data = await response.json();
+			if (!response.ok) {
+				throw new Error(data.error || 'Failed to check generation status');
+			}
+			job = data.job;
+			errors = 0;
+		} catch (error) {
+			if (++errors >= MAX_POLL_ERRORS) {
+				throw error;
+			}
+			continue;
+		}
+
+		onUpdate(job);
+		if (isJobFinished(job)) {
+			return job;
+		}
+	}
+}
@@ -8,9 +8,20 @@ import {
 	getModelStyleOptions,
 	getModelNumberOfImagesRange,
 	getModelUpscaleOptions,
-	getModelCompressionRange
+	getModelCompressionRange,
+	getModelOutpaintOptions
 } from '$lib/constants/model-capabilities.js';
 import { MODEL_CONFIGS } from '$lib/constants/replicate-model-configs.js';
+import { getCreditCost } from '$lib/constants/credit-weights.js';
+import {
+	cancelJob,
+	describeJob,
+	fetchActiveJobs,
+	isJobFinished,
+	pollJob,
+	type GenerationJobInfo
+} from './generation-jobs.js';
+import { requestPromptEnhancement } from './prompt-enhancement.js';
 
 /**
  * Image history item interface
@@ -35,10 +46,22 @@ export interface ImageHistoryItem {
 	seed: number | null;
 	quality: string | null;
 	style: string | null;
+	negativePrompt: string | null;
 	numberOfImages: number | null;
 	referenceImageUrl: string | null;
 	upscaleFactor: string | null;
 	compressionQuality: number | null;
+	sourceImageId: string | null; // Image this one was edited from
+	maskImageId: string | null;
+	outpaint: string | null;
+}
+
+/**
+ * Images an image was edited from (nearest first) and its direct edits
+ */
+export interface ImageEditHistory {
+	sources: ImageHistoryItem[];
+	edits: ImageHistoryItem[];
 }
 
 /**
@@ -55,6 +78,8 @@ export class ImageState {
 
 	// Input
 	inputPrompt = $state<string>('');
+	negativePrompt = $state<string>('');
+	isEnhancingPrompt = $state<boolean>(false);
 	selectedAspectRatio = $state<string>(DEFAULT_IMAGE_ASPECT_RATIO);
 	seed = $state<string>('');
 
@@ -77,6 +102,21 @@ export class ImageState {
 	generationDialogOpen = $state<boolean>(false);
 	errorMessage = $state<string | null>(null);
 
+	// Background job being watched (Replicate models; see generation-jobs.ts)
+	activeJobId = $state<string | null>(null);
+	jobProgress = $state<number | null>(null);
+	jobStatusText = $state<string>('');
+	jobModelName = $state<string>('');
+	isCancelingJob = $state<boolean>(false);
+
+	// Region editing (inpaint/outpaint) of a library image
+	editDialogOpen = $state<boolean>(false);
+	editSourceId = $state<string | null>(null);
+	editSourceUrl = $state<string>('');
+	editModel = $state<string>('');
+	editPrompt = $state<string>('');
+	editOutpaint = $state<string>('');
+
 	// History (infinite scroll)
 	history = $state<ImageHistoryItem[]>([]);
 	readonly batchSize = 12;
@@ -96,11 +136,14 @@ export class ImageState {
 	selectedImageSeed = $state<number | null>(null);
 	selectedImageQuality = $state<string | null>(null);
 	selectedImageStyle = $state<string | null>(null);
+	selectedImageNegativePrompt = $state<string | null>(null);
 	selectedImageNumberOfImages = $state<number | null>(null);
 	selectedImageReferenceUrls = $state<string[] | null>(null);
 	selectedImageUpscaleFactor = $state<string | null>(null);
 	selectedImageCompressionQuality = $state<number | null>(null);
+	selectedImageOutpaint = $state<string | null>(null);
 	selectedImageFileSize = $state<number>(0);
+	selectedImageEditHistory = $state<ImageEditHistory | null>(null);
 
 	// Derived: model capabilities
 	get modelCapabilities() {
@@ -136,6 +179,10 @@ export class ImageState {
 		return this.modelCapabilities.supportsStyle;
 	}
 
+	get modelSupportsNegativePrompt() {
+		return this.modelCapabilities.supportsNegativePrompt;
+	}
+
 	get modelSupportsNumberOfImages() {
 		return this.modelCapabilities.supportsNumberOfImages;
 	}
@@ -148,6 +195,10 @@ export class ImageState {
 		return this.modelCapabilities.supportsCompression;
 	}
 
+	get modelRequiresImageInput(): boolean {
+		return !!MODEL_CONFIGS[this.selectedModel]?.requiresImageInput;
+	}
+
 	// Check if model supports multiple image inputs (from MODEL_CONFIGS)
 	get modelSupportsMultipleImageInput(): boolean {
 		const config = MODEL_CONFIGS[this.selectedModel];
@@ -196,11 +247,36 @@ export class ImageState {
 		return model ? model.supportsTextInput === false : false;
 	}
 
+	// Models that can repaint a masked region of an image
+	get editModels(): AIModelConfig[] {
+		return this.models.filter(m => IMAGE_MODEL_CAPABILITIES[m.name]?.supportsMask);
+	}
+
+	// Derived: outpaint options for the edit model (first one means no outpainting)
+	get editOutpaintOptions(): readonly string[] {
+		return getModelOutpaintOptions(this.editModel);
+	}
+
+	// Derived: stable URL of the lightbox image for generation inputs (storage URLs can expire
+	// and can't be traced back to the image for its lineage)
+	get selectedImageApiUrl(): string {
+		return `/api/images/${this.selectedImageId}`;
+	}
+
 	// Get selected model display name
 	get selectedModelName() {
 		return this.models.find(m => m.name === this.selectedModel)?.displayName || this.selectedModel;
 	}
 
+	// Derived: credits the next generation uses, with the options handleGenerate() sends
+	get creditCost(): number {
+		const weights = this.models.find(m => m.name === this.selectedModel)?.creditWeights ?? [];
+		return getCreditCost(weights, this.selectedModel, {
+			quality: this.modelSupportsQuality ? this.selectedQuality : undefined,
+			numberOfImages: this.modelSupportsNumberOfImages ? this.numberOfImages : 1
+		});
+	}
+
 	// ==================== Model Methods ====================
 
 	/**
@@ -261,6 +337,25 @@ export class ImageState {
 
 	// ==================== Generation Methods ====================
 
+	/**
+	 * Rewrite the prompt for the selected model
+	 */
+	async enhancePrompt() {
+		if (!this.inputPrompt.trim() || this.isEnhancingPrompt) return;
+
+		this.isEnhancingPrompt = true;
+		this.errorMessage = null;
+
+		try {
+			this.inputPrompt = await requestPromptEnhancement(this.inputPrompt.trim(), this.selectedModel, 'image');
+		} catch (error) {
+			console.error('Prompt enhancement error:', error);
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to enhance prompt';
+		} finally {
+			this.isEnhancingPrompt = false;
+		}
+	}
+
 	/**
 	 * Generate image from prompt
 	 */
@@ -274,6 +369,11 @@ export class ImageState {
 		} else {
 			// For regular models, prompt is required
 			if (!this.inputPrompt.trim()) return;
+
+			if (this.modelRequiresImageInput && this.imageReferenceFiles.length === 0 && this.uploadedImageUrls.length === 0) {
+				this.errorMessage = 'Please upload an image to edit';
+				return;
+			}
 		}
 
 		this.isGenerating = true;
@@ -322,6 +422,10 @@ export class ImageState {
 				body.style = this.selectedStyle;
 			}
 
+			if (this.modelSupportsNegativePrompt && this.negativePrompt.trim()) {
+				body.negativePrompt = this.negativePrompt.trim();
+			}
+
 			if (this.modelSupportsNumberOfImages && this.numberOfImages > 1) {
 				body.numberOfImages = this.numberOfImages;
 			}
@@ -334,34 +438,118 @@ export class ImageState {
 				body.compressionQuality = this.compressionQuality;
 			}
 
-			const response = await fetch('/api/image-generation', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json'
-				},
-				body: JSON.stringify(body)
-			});
+			if (!(await this.requestImage(body))) {
+				return;
+			}
 
-			const data = await response.json();
+			// Clear input after successful generation
+			this.inputPrompt = '';
+			this.seed = '';
+			this.clearAllImageReferences();
+		} catch (error) {
+			console.error('Image generation error:', error);
+			this.generationDialogOpen = false;
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to generate image';
+		} finally {
+			this.isGenerating = false;
+		}
+	}
 
-			if (!response.ok) {
-				throw new Error(data.error || 'Failed to generate image');
+	/**
+	 * Start an image generation and open the result. Returns false if it was canceled.
+	 */
+	private async requestImage(body: Record<string, unknown>): Promise<boolean> {
+		// Run as a background job where the model supports it
+		body.background = true;
+
+		const response = await fetch('/api/image-generation', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify(body)
+		});
+
+		const data = await response.json();
+
+		if (!response.ok) {
+			throw new Error(data.error || 'Failed to generate image');
+		}
+
+		if (response.status === 202) {
+			const job = await this.trackJob(data.job);
+			if (job.status === 'canceled') {
+				this.generationDialogOpen = false;
+				return false;
 			}
+		}
 
-			// Reload history to show the new image
-			await this.loadHistory();
+		await this.showNewImage();
+		return true;
+	}
 
-			// Close generation dialog and auto-open lightbox with the newly created image
-			this.generationDialogOpen = false;
-			if (this.history.length > 0) {
-				const newItem = this.history[0];
-				this.openLightbox(newItem);
+	/**
+	 * Reload history and open the newest image (the one just generated)
+	 */
+	async showNewImage() {
+		await this.loadHistory();
+
+		// Close generation dialog and auto-open lightbox with the newly created image
+		this.generationDialogOpen = false;
+		if (this.history.length > 0) {
+			const newItem = this.history[0];
+			this.openLightbox(newItem);
+		}
+	}
+
+	/**
+	 * Show progress for a background job until it finishes. Throws if the job fails.
+	 */
+	async trackJob(job: GenerationJobInfo): Promise<GenerationJobInfo> {
+		this.activeJobId = job.id;
+		this.updateJob(job);
+
+		try {
+			const finished = isJobFinished(job) ? job : await pollJob(job.id, (update) => this.updateJob(update));
+			if (finished.status === 'failed') {
+				throw new Error(finished.error || 'Failed to generate image');
 			}
+			return finished;
+		} finally {
+			this.activeJobId = null;
+			this.jobProgress = null;
+			this.jobStatusText = '';
+			this.jobModelName = '';
+			this.isCancelingJob = false;
+		}
+	}
 
-			// Clear input after successful generation
-			this.inputPrompt = '';
-			this.seed = '';
-			this.clearAllImageReferences();
+	private updateJob(job: GenerationJobInfo) {
+		this.jobProgress = job.progress;
+		this.jobStatusText = describeJob(job);
+		this.jobModelName = this.getModelDisplayName(job.model);
+	}
+
+	/**
+	 * Pick up the newest unfinished image job after a reload. Older ones keep running
+	 * and show up in history when they finish.
+	 */
+	async resumeJobs() {
+		if (this.isGenerating) return;
+
+		const [job] = await fetchActiveJobs('image').catch(() => []);
+		if (!job || this.isGenerating) return;
+
+		this.isGenerating = true;
+		this.generationDialogOpen = true;
+		this.errorMessage = null;
+
+		try {
+			const finished = await this.trackJob(job);
+			if (finished.status === 'succeeded') {
+				await this.showNewImage();
+			}
+			this.generationDialogOpen = false;
 		} catch (error) {
 			console.error('Image generation error:', error);
 			this.generationDialogOpen = false;
@@ -371,6 +559,22 @@ export class ImageState {
 		}
 	}
 
+	/**
+	 * Cancel the background job being watched. Its reserved usage is given back.
+	 */
+	async cancelActiveJob() {
+		if (!this.activeJobId || this.isCancelingJob) return;
+
+		this.isCancelingJob = true;
+		try {
+			this.updateJob(await cancelJob(this.activeJobId));
+		} catch (error) {
+			// Usually the job finished first; polling picks up the result
+			console.error('Failed to cancel generation:', error);
+			this.isCancelingJob = false;
+		}
+	}
+
 	/**
 	 * Upload all reference images to storage
 	 */
@@ -382,41 +586,132 @@ export class ImageState {
 		const uploadedUrls: string[] = [];
 
 		for (const file of this.imageReferenceFiles) {
-			// Convert file to base64
-			const base64Data = await new Promise<string>((resolve, reject) => {
-				const reader = new FileReader();
-				reader.onload = () => {
-					const result = reader.result as string;
-					const base64 = result.split(',')[1]; // Remove data URL prefix
-					resolve(base64);
-				};
-				reader.onerror = reject;
-				reader.readAsDataURL(file);
-			});
+			const uploaded = await this.uploadImage(file, file.name);
+			// The API URL (not the storage URL) lets the result be linked to this upload
+			uploadedUrls.push(`/api/images/${uploaded.imageId}`);
+		}
 
-			const response = await fetch('/api/images', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json'
-				},
-				body: JSON.stringify({
-					imageData: base64Data,
-					mimeType: file.type,
-					filename: file.name
-				})
-			});
+		this.uploadedImageUrls = uploadedUrls;
+		return uploadedUrls;
+	}
 
-			const data = await response.json();
+	/**
+	 * Upload an image (reference or mask) to storage
+	 */
+	private async uploadImage(file: Blob, filename: string): Promise<{ imageId: string; imageUrl: string }> {
+		// Convert file to base64
+		const base64Data = await new Promise<string>((resolve, reject) => {
+			const reader = new FileReader();
+			reader.onload = () => {
+				const result = reader.result as string;
+				const base64 = result.split(',')[1]; // Remove data URL prefix
+				resolve(base64);
+			};
+			reader.onerror = reject;
+			reader.readAsDataURL(file);
+		});
 
-			if (!response.ok) {
-				throw new Error(data.error || 'Failed to upload reference image');
-			}
+		const response = await fetch('/api/images', {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json'
+			},
+			body: JSON.stringify({
+				imageData: base64Data,
+				mimeType: file.type,
+				filename
+			})
+		});
 
-			uploadedUrls.push(data.imageUrl);
+		const data = await response.json();
+
+		if (!response.ok) {
+			throw new Error(data.error || 'Failed to upload image');
 		}
 
-		this.uploadedImageUrls = uploadedUrls;
-		return uploadedUrls;
+		return { imageId: data.imageId, imageUrl: data.imageUrl };
+	}
+
+	// ==================== Region Edit Methods ====================
+
+	/**
+	 * Open the mask editor for the currently viewed lightbox image.
+	 * Returns: { success: boolean, reason?: string }
+	 */
+	startEdit(): { success: boolean; reason?: string } {
+		if (!this.selectedImageId) {
+			return { success: false };
+		}
+
+		const models = this.editModels;
+		if (models.length === 0) {
+			return { success: false, reason: 'No inpainting models are available' };
+		}
+
+		this.editSourceId = this.selectedImageId;
+		this.editSourceUrl = this.selectedImageUrl;
+		if (!models.find(m => m.name === this.editModel)) {
+			this.editModel = models[0].name;
+		}
+		this.editPrompt = '';
+		this.resetEditOptions();
+
+		this.closeLightbox();
+		this.editDialogOpen = true;
+		return { success: true };
+	}
+
+	/**
+	 * Reset edit options when the edit model changes
+	 */
+	resetEditOptions() {
+		this.editOutpaint = this.editOutpaintOptions[0] ?? '';
+	}
+
+	/**
+	 * Repaint the masked region (and/or outpaint) of the image being edited.
+	 * The result is saved with a link to its source image.
+	 */
+	async handleEdit(mask: Blob | null) {
+		const sourceId = this.editSourceId;
+		const outpaint = this.editOutpaint !== (this.editOutpaintOptions[0] ?? '') ? this.editOutpaint : '';
+		if (!sourceId || !this.editPrompt.trim() || (!mask && !outpaint) || this.isGenerating) return;
+
+		this.isGenerating = true;
+		this.editDialogOpen = false;
+		this.generationDialogOpen = true;
+		this.errorMessage = null;
+
+		try {
+			const body: Record<string, unknown> = {
+				model: this.editModel,
+				prompt: this.editPrompt.trim(),
+				// The API path works for every storage location and doesn't expire like presigned URLs
+				imageUrl: `/api/images/${sourceId}`,
+				sourceImageId: sourceId
+			};
+
+			if (mask) {
+				const uploaded = await this.uploadImage(mask, 'mask.png');
+				body.mask = `/api/images/${uploaded.imageId}`;
+			}
+
+			if (outpaint) {
+				body.outpaint = outpaint;
+			}
+
+			if (await this.requestImage(body)) {
+				this.editSourceId = null;
+				this.editSourceUrl = '';
+				this.editPrompt = '';
+			}
+		} catch (error) {
+			console.error('Image edit error:', error);
+			this.generationDialogOpen = false;
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to edit image';
+		} finally {
+			this.isGenerating = false;
+		}
 	}
 
 	// ==================== Image Reference Methods ====================
@@ -515,11 +810,11 @@ export class ImageState {
 	 * Returns: { success: boolean, isMultiImage: boolean }
 	 */
 	useAsReference(): { success: boolean; isMultiImage: boolean } {
-		if (!this.selectedImageUrl || !this.modelSupportsImageInput) {
+		if (!this.selectedImageId || !this.modelSupportsImageInput) {
 			return { success: false, isMultiImage: false };
 		}
 
-		const imageUrl = this.selectedImageUrl;
+		const imageUrl = this.selectedImageApiUrl;
 		const isMultiImage = this.modelSupportsMultipleImageInput;
 
 		if (isMultiImage) {
@@ -544,11 +839,11 @@ export class ImageState {
 	 * Returns: { success: boolean }
 	 */
 	upscaleImage(): { success: boolean } {
-		if (!this.selectedImageUrl) {
+		if (!this.selectedImageId) {
 			return { success: false };
 		}
 
-		const imageUrl = this.selectedImageUrl;
+		const imageUrl = this.selectedImageApiUrl;
 
 		// Clear existing references and set the new one
 		this.clearAllImageReferences();
@@ -606,6 +901,9 @@ export class ImageState {
 			this.selectedStyle = this.selectedImageStyle;
 		}
 
+		// Set negative prompt
+		this.negativePrompt = this.selectedImageNegativePrompt || '';
+
 		// Set number of images
 		if (this.selectedImageNumberOfImages !== null) {
 			this.numberOfImages = this.selectedImageNumberOfImages;
@@ -630,6 +928,28 @@ export class ImageState {
 		return { success: true };
 	}
 
+	/**
+	 * Pre-fill the form with stored generation settings (library "Re-run with same settings").
+	 * Settings the model doesn't offer keep the model's defaults.
+	 */
+	prefillSettings(settings: { model: string | null; aspectRatio: string | null; seed: string | null; quality: string | null; style: string | null; negativePrompt: string | null }) {
+		if (settings.model) {
+			this.selectedModel = settings.model;
+			this.resetOptionalParameters();
+		}
+		if (settings.aspectRatio && this.aspectRatioOptions.includes(settings.aspectRatio)) {
+			this.selectedAspectRatio = settings.aspectRatio;
+		}
+		this.seed = settings.seed && /^\d+$/.test(settings.seed) ? settings.seed : '';
+		if (settings.quality && this.qualityOptions.includes(settings.quality)) {
+			this.selectedQuality = settings.quality;
+		}
+		if (settings.style && this.styleOptions.includes(settings.style)) {
+			this.selectedStyle = settings.style;
+		}
+		this.negativePrompt = settings.negativePrompt || '';
+	}
+
 	// ==================== History Methods ====================
 
 	/**
@@ -744,6 +1064,7 @@ export class ImageState {
 		this.selectedImageSeed = item.seed;
 		this.selectedImageQuality = item.quality;
 		this.selectedImageStyle = item.style;
+		this.selectedImageNegativePrompt = item.negativePrompt;
 		this.selectedImageNumberOfImages = item.numberOfImages;
 		// Parse reference URLs - can be a single URL or JSON array
 		if (item.referenceImageUrl) {
@@ -761,8 +1082,32 @@ export class ImageState {
 		}
 		this.selectedImageUpscaleFactor = item.upscaleFactor;
 		this.selectedImageCompressionQuality = item.compressionQuality;
+		this.selectedImageOutpaint = item.outpaint;
 		this.selectedImageFileSize = item.fileSize;
 		this.lightboxOpen = true;
+		this.loadEditHistory(item.id);
+	}
+
+	/**
+	 * Load where the lightbox image was edited from and what was edited from it
+	 */
+	private async loadEditHistory(imageId: string) {
+		this.selectedImageEditHistory = null;
+
+		try {
+			const response = await fetch(`/api/images/${imageId}/edits`);
+			if (!response.ok) {
+				throw new Error('Failed to load edit history');
+			}
+			const data: ImageEditHistory = await response.json();
+
+			// Another image was opened while this request was in flight
+			if (this.selectedImageId === imageId) {
+				this.selectedImageEditHistory = data;
+			}
+		} catch (error) {
+			console.error('Failed to load edit history:', error);
+		}
 	}
 
 	/**
@@ -781,11 +1126,14 @@ export class ImageState {
 		this.selectedImageSeed = null;
 		this.selectedImageQuality = null;
 		this.selectedImageStyle = null;
+		this.selectedImageNegativePrompt = null;
 		this.selectedImageNumberOfImages = null;
 		this.selectedImageReferenceUrls = null;
 		this.selectedImageUpscaleFactor = null;
 		this.selectedImageCompressionQuality = null;
+		this.selectedImageOutpaint = null;
 		this.selectedImageFileSize = 0;
+		this.selectedImageEditHistory = null;
 	}
 
 	/**
@@ -0,0 +1,24 @@
+/**
+ * Client helper for the "Enhance prompt" button (see /api/prompt-enhancement).
+ */
+
+/**
+ * The prompt rewritten for the given model. Throws with the server's message on failure.
+ */
+export async function requestPromptEnhancement(prompt: string, model: string, type: 'image' | 'video'): Promise<string> {
+	const response = await fetch('/api/prompt-enhancement', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json'
+		},
+		body: JSON.stringify({ prompt, model, type })
+	});
+
+	const data = await response.json();
+
+	if (!response.ok) {
+		throw new Error(data.error || 'Failed to enhance prompt');
+	}
+
+	return data.prompt;
+}
@@ -8,6 +8,16 @@ import {
 	getModelStyleOptions,
 	getModelDurationRange
 } from '$lib/constants/model-capabilities.js';
+import { getCreditCost } from '$lib/constants/credit-weights.js';
+import {
+	cancelJob,
+	describeJob,
+	fetchActiveJobs,
+	isJobFinished,
+	pollJob,
+	type GenerationJobInfo
+} from './generation-jobs.js';
+import { requestPromptEnhancement } from './prompt-enhancement.js';
 
 /**
  * Video history item interface
@@ -36,6 +46,7 @@ export interface VideoHistoryItem {
 	seed: number | null;
 	quality: string | null;
 	style: string | null;
+	negativePrompt: string | null;
 	imageStartUrl: string | null;
 	imageEndUrl: string | null;
 }
@@ -53,6 +64,8 @@ export class VideoState {
 
 	// Input
 	inputPrompt = $state<string>('');
+	negativePrompt = $state<string>('');
+	isEnhancingPrompt = $state<boolean>(false);
 	selectedAspectRatio = $state<string>(DEFAULT_VIDEO_ASPECT_RATIO);
 	duration = $state<number>(5);
 	seed = $state<string>('');
@@ -76,6 +89,12 @@ export class VideoState {
 	generationDialogOpen = $state<boolean>(false);
 	errorMessage = $state<string | null>(null);
 
+	// Background job being watched (Replicate models; see generation-jobs.ts)
+	activeJobId = $state<string | null>(null);
+	jobProgress = $state<number | null>(null);
+	jobStatusText = $state<string>('');
+	isCancelingJob = $state<boolean>(false);
+
 	// History (infinite scroll)
 	history = $state<VideoHistoryItem[]>([]);
 	readonly batchSize = 9;
@@ -97,6 +116,7 @@ export class VideoState {
 	selectedVideoSeed = $state<number | null>(null);
 	selectedVideoQuality = $state<string | null>(null);
 	selectedVideoStyle = $state<string | null>(null);
+	selectedVideoNegativePrompt = $state<string | null>(null);
 	selectedVideoImageStartUrl = $state<string | null>(null);
 	selectedVideoImageEndUrl = $state<string | null>(null);
 	selectedVideoFps = $state<number | null>(null);
@@ -148,6 +168,10 @@ export class VideoState {
 		return this.modelCapabilities.supportsStyle;
 	}
 
+	get modelSupportsNegativePrompt() {
+		return this.modelCapabilities.supportsNegativePrompt;
+	}
+
 	get modelSupportsDuration() {
 		return this.modelCapabilities.supportsDuration;
 	}
@@ -195,6 +219,15 @@ export class VideoState {
 		return this.models.find(m => m.name === this.selectedModel)?.displayName || this.selectedModel;
 	}
 
+	// Derived: credits the next generation uses, with the options handleGenerate() sends
+	get creditCost(): number {
+		const weights = this.models.find(m => m.name === this.selectedModel)?.creditWeights ?? [];
+		return getCreditCost(weights, this.selectedModel, {
+			quality: this.modelSupportsQuality ? this.selectedQuality : undefined,
+			duration: this.modelSupportsDuration ? this.duration : undefined
+		});
+	}
+
 	// ==================== Model Methods ====================
 
 	/**
@@ -247,6 +280,25 @@ export class VideoState {
 
 	// ==================== Generation Methods ====================
 
+	/**
+	 * Rewrite the prompt for the selected model
+	 */
+	async enhancePrompt() {
+		if (!this.inputPrompt.trim() || this.isEnhancingPrompt) return;
+
+		this.isEnhancingPrompt = true;
+		this.errorMessage = null;
+
+		try {
+			this.inputPrompt = await requestPromptEnhancement(this.inputPrompt.trim(), this.selectedModel, 'video');
+		} catch (error) {
+			console.error('Prompt enhancement error:', error);
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to enhance prompt';
+		} finally {
+			this.isEnhancingPrompt = false;
+		}
+	}
+
 	/**
 	 * Generate video from prompt
 	 */
@@ -299,6 +351,10 @@ export class VideoState {
 				body.style = this.selectedStyle;
 			}
 
+			if (this.modelSupportsNegativePrompt && this.negativePrompt.trim()) {
+				body.negativePrompt = this.negativePrompt.trim();
+			}
+
 			// Add end image handling
 			if (this.modelSupportsImageEnd && this.endImageFile) {
 				let endImageUrl = this.uploadedEndImageUrl;
@@ -308,6 +364,9 @@ export class VideoState {
 				body.imageEndUrl = endImageUrl;
 			}
 
+			// Run as a background job where the model supports it
+			body.background = true;
+
 			const response = await fetch('/api/video-generation', {
 				method: 'POST',
 				headers: {
@@ -322,16 +381,16 @@ export class VideoState {
 				throw new Error(data.error || 'Failed to generate video');
 			}
 
-			// Reload history to show the new video
-			await this.loadHistory();
-
-			// Close generation dialog and auto-open dialog with the newly created video
-			this.generationDialogOpen = false;
-			if (this.history.length > 0) {
-				const newItem = this.history[0];
-				this.openDialog(newItem);
+			if (response.status === 202) {
+				const job = await this.trackJob(data.job);
+				if (job.status === 'canceled') {
+					this.generationDialogOpen = false;
+					return;
+				}
 			}
 
+			await this.showNewVideo();
+
 			// Clear input after successful generation
 			this.inputPrompt = '';
 			this.seed = '';
@@ -345,6 +404,91 @@ export class VideoState {
 		}
 	}
 
+	/**
+	 * Reload history and open the newest video (the one just generated)
+	 */
+	async showNewVideo() {
+		await this.loadHistory();
+
+		// Close generation dialog and auto-open dialog with the newly created video
+		this.generationDialogOpen = false;
+		if (this.history.length > 0) {
+			const newItem = this.history[0];
+			this.openDialog(newItem);
+		}
+	}
+
+	/**
+	 * Show progress for a background job until it finishes. Throws if the job fails.
+	 */
+	async trackJob(job: GenerationJobInfo): Promise<GenerationJobInfo> {
+		this.activeJobId = job.id;
+		this.updateJob(job);
+
+		try {
+			const finished = isJobFinished(job) ? job : await pollJob(job.id, (update) => this.updateJob(update));
+			if (finished.status === 'failed') {
+				throw new Error(finished.error || 'Failed to generate video');
+			}
+			return finished;
+		} finally {
+			this.activeJobId = null;
+			this.jobProgress = null;
+			this.jobStatusText = '';
+			this.isCancelingJob = false;
+		}
+	}
+
+	private updateJob(job: GenerationJobInfo) {
+		this.jobProgress = job.progress;
+		this.jobStatusText = describeJob(job);
+	}
+
+	/**
+	 * Pick up the newest unfinished video job after a reload. Older ones keep running
+	 * and show up in history when they finish.
+	 */
+	async resumeJobs() {
+		if (this.isGenerating) return;
+
+		const [job] = await fetchActiveJobs('video').catch(() => []);
+		if (!job || this.isGenerating) return;
+
+		this.isGenerating = true;
+		this.generationDialogOpen = true;
+		this.errorMessage = null;
+
+		try {
+			const finished = await this.trackJob(job);
+			if (finished.status === 'succeeded') {
+				await this.showNewVideo();
+			}
+			this.generationDialogOpen = false;
+		} catch (error) {
+			console.error('Video generation error:', error);
+			this.generationDialogOpen = false;
+			this.errorMessage = error instanceof Error ? error.message : 'Failed to generate video';
+		} finally {
+			this.isGenerating = false;
+		}
+	}
+
+	/**
+	 * Cancel the background job being watched. Its reserved usage is given back.
+	 */
+	async cancelActiveJob() {
+		if (!this.activeJobId || this.isCancelingJob) return;
+
+		this.isCancelingJob = true;
+		try {
+			this.updateJob(await cancelJob(this.activeJobId));
+		} catch (error) {
+			// Usually the job finished first; polling picks up the result
+			console.error('Failed to cancel generation:', error);
+			this.isCancelingJob = false;
+		}
+	}
+
 	/**
 	 * Upload start image to storage
 	 */
@@ -385,8 +529,9 @@ export class VideoState {
 			throw new Error(data.error || 'Failed to upload start image');
 		}
 
-		this.uploadedImageUrl = data.imageUrl;
-		return data.imageUrl;
+		// The API URL (not the storage URL) lets the video be linked to this upload
+		this.uploadedImageUrl = `/api/images/${data.imageId}`;
+		return this.uploadedImageUrl;
 	}
 
 	// ==================== Start Image Methods ====================
@@ -562,8 +707,8 @@ export class VideoState {
 			throw new Error(data.error || 'Failed to upload end image');
 		}
 
-		this.uploadedEndImageUrl = data.imageUrl;
-		return data.imageUrl;
+		this.uploadedEndImageUrl = `/api/images/${data.imageId}`;
+		return this.uploadedEndImageUrl;
 	}
 
 	// ==================== History Methods ====================
@@ -682,6 +827,7 @@ export class VideoState {
 		this.selectedVideoSeed = item.seed;
 		this.selectedVideoQuality = item.quality;
 		this.selectedVideoStyle = item.style;
+		this.selectedVideoNegativePrompt = item.negativePrompt;
 		this.selectedVideoImageStartUrl = item.imageStartUrl;
 		this.selectedVideoImageEndUrl = item.imageEndUrl;
 		this.selectedVideoFps = item.fps;
@@ -717,6 +863,7 @@ export class VideoState {
 		this.selectedVideoSeed = null;
 		this.selectedVideoQuality = null;
 		this.selectedVideoStyle = null;
+		this.selectedVideoNegativePrompt = null;
 		this.selectedVideoImageStartUrl = null;
 		this.selectedVideoImageEndUrl = null;
 		this.selectedVideoFps = null;
@@ -769,6 +916,9 @@ export class VideoState {
 			this.selectedStyle = this.selectedVideoStyle;
 		}
 
+		// Set negative prompt
+		this.negativePrompt = this.selectedVideoNegativePrompt || '';
+
 		// Always clear existing references first, then set new ones if present
 		this.clearStartImage();
 		this.clearEndImage();
@@ -785,6 +935,28 @@ export class VideoState {
 		return { success: true };
 	}
 
+	/**
+	 * Pre-fill the form with stored generation settings (library "Re-run with same settings").
+	 * Settings the model doesn't offer keep the model's defaults.
+	 */
+	prefillSettings(settings: { model: string | null; aspectRatio: string | null; seed: string | null; quality: string | null; style: string | null; negativePrompt: string | null }) {
+		if (settings.model) {
+			this.selectedModel = settings.model;
+			this.resetOptionalParameters();
+		}
+		if (settings.aspectRatio && this.aspectRatioOptions.includes(settings.aspectRatio)) {
+			this.selectedAspectRatio = settings.aspectRatio;
+		}
+		this.seed = settings.seed && /^\d+$/.test(settings.seed) ? settings.seed : '';
+		if (settings.quality && this.qualityOptions.includes(settings.quality)) {
+			this.selectedQuality = settings.quality;
+		}
+		if (settings.style && this.styleOptions.includes(settings.style)) {
+			this.selectedStyle = settings.style;
+		}
+		this.negativePrompt = settings.negativePrompt || '';
+	}
+
 	// ==================== Playback Methods ====================
 
 	/**
@@ -4,6 +4,7 @@ import { StripeService } from '$lib/server/stripe.js';
 import { db, users } from '$lib/server/db/index.js';
 import { eq } from 'drizzle-orm';
 import { getActivePaymentProvider } from '$lib/server/settings-store.js';
+import { TrialService } from '$lib/server/trials.js';
 
 export const load: PageServerLoad = async ({ locals }) => {
 	const session = await locals.auth();
@@ -18,11 +19,14 @@ export const load: PageServerLoad = async ({ locals }) => {
 		// Get current user's subscription and user data if logged in
 		let currentSubscription = null;
 		let userData = null;
+		// Visitors see plan trials too; they're eligible until they subscribe
+		let trialEligible = true;
 		if (session?.user?.id) {
 			currentSubscription = await StripeService.getActiveSubscription(session.user.id);
 			// Get user data including planTier
 			const [user] = await db.select().from(users).where(eq(users.id, session.user.id)).limit(1);
 			userData = user || null;
+			trialEligible = !currentSubscription && await TrialService.isEligible(session.user.id);
 		}
 
 		return {
@@ -31,6 +35,7 @@ export const load: PageServerLoad = async ({ locals }) => {
 			user: session?.user || null,
 			userData, // Include full user data with planTier
 			activePaymentProvider,
+			trialEligible,
 		};
 	} catch (error) {
 		console.error('Error loading pricing data:', error);
@@ -40,6 +45,7 @@ export const load: PageServerLoad = async ({ locals }) => {
 			user: session?.user || null,
 			userData: null,
 			activePaymentProvider: 'stripe' as const,
+			trialEligible: false,
 		};
 	}
 };
\ No newline at end of file
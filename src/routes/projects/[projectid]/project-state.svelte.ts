@@ -17,6 +17,12 @@ export interface ProjectFile {
 	filename: string;
 	mimeType: string;
 	fileSize: number;
+	metadata?: {
+		format: 'pdf' | 'docx' | 'xlsx' | 'pptx';
+		pageCount?: number;
+		sheets?: Array<{ name: string; rows: number; columns: number }>;
+		slideCount?: number;
+	} | null;
 	createdAt: string;
 }
 
@@ -43,7 +49,16 @@ const ALLOWED_MIME_TYPES = [
 	'application/x-yaml',
 ];
 
+// PDF and Office documents are uploaded as-is and converted to text on the server
+const DOCUMENT_MIME_TYPES = [
+	'application/pdf',
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
 const MAX_FILE_SIZE = 100 * 1024; // 100KB
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024; // 10MB
 const MAX_FILES = 10;
 
 export class ProjectState {
@@ -145,30 +160,43 @@ export class ProjectState {
 			return;
 		}
 
-		if (file.size > MAX_FILE_SIZE) {
+		const isDocument = DOCUMENT_MIME_TYPES.includes(file.type) || /\.(pdf|docx|xlsx|pptx)$/i.test(file.name);
+
+		if (file.size > (isDocument ? MAX_DOCUMENT_SIZE : MAX_FILE_SIZE)) {
 			toast.error(m['projects.file_too_large']());
 			return;
 		}
 
-		if (!ALLOWED_MIME_TYPES.includes(file.type) && !file.name.match(/\.(txt|md|csv|json|html|css|js|ts|xml|yaml|yml|py|rb|go|rs|java|c|cpp|h|sh|sql|env|toml|ini|cfg)$/i)) {
+		if (!isDocument && !ALLOWED_MIME_TYPES.includes(file.type) && !file.name.match(/\.(txt|md|csv|json|html|css|js|ts|xml|yaml|yml|py|rb|go|rs|java|c|cpp|h|sh|sql|env|toml|ini|cfg)$/i)) {
 			toast.error(m['projects.unsupported_file_type']());
 			return;
 		}
 
 		try {
 			this.isUploadingFile = true;
-			const content = await file.text();
-			const mimeType = file.type || 'text/plain';
 
-			const response = await fetch(`/api/projects/${this.projectId}/files`, {
-				method: "POST",
-				headers: { "Content-Type": "application/json" },
-				body: JSON.stringify({
-					filename: file.name,
-					content,
-					mimeType,
-				}),
-			});
+			let response: Response;
+			if (isDocument) {
+				const formData = new FormData();
+				formData.append("file", file);
+				response = await fetch(`/api/projects/${this.projectId}/files`, {
+					method: "POST",
+					body: formData,
+				});
+			} else {
+				const content = await file.text();
+				const mimeType = file.type || 'text/plain';
+
+				response = await fetch(`/api/projects/${this.projectId}/files`, {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({
+						filename: file.name,
+						content,
+						mimeType,
+					}),
+				});
+			}
 
 			if (response.ok) {
 				const data = await response.json();
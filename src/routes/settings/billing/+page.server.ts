@@ -3,6 +3,7 @@ import { StripeService } from '$lib/server/stripe.js';
 import { db } from '$lib/server/db/index.js';
 import { users, paymentHistory, usageTracking } from '$lib/server/db/schema.js';
 import { eq, desc, and } from 'drizzle-orm';
+import { formatPaymentAmount, isInvoiceable } from '$lib/server/invoices.js';
 import { CreditService } from '$lib/server/credit-service.js';
 import { getActivePaymentProvider } from '$lib/server/settings-store.js';
 
@@ -68,9 +69,10 @@ export const load: PageServerLoad = async ({ parent }) => {
                         paymentHistory: payments.map(payment => ({
                                 id: payment.id,
                                 description: payment.description || 'Subscription payment',
-                                amount: `$${(payment.amount / 100).toFixed(2)}`,
+                                amount: formatPaymentAmount(payment.amount, payment.currency),
                                 date: payment.createdAt.toLocaleDateString(),
                                 status: payment.status,
+                                invoiceUrl: isInvoiceable(payment.status) ? `/api/invoices/${payment.id}` : null,
                         })),
                         currentUsage: usage ? {
                                 textGeneration: usage.textGenerationCount,
@@ -72,6 +72,12 @@ export const load = (async ({ parent }) => {
 				image: { used: 0, limit: null, percentage: 0 },
 				video: { used: 0, limit: null, percentage: 0 },
 				audio: { used: 0, limit: null, percentage: 0 },
+				voice: { used: 0, limit: null, percentage: 0 },
+				music: { used: 0, limit: null, percentage: 0 },
+				soundEffect: { used: 0, limit: null, percentage: 0 },
+				transcription: { used: 0, limit: null, percentage: 0 },
+				tokens: { used: 0, limit: null, percentage: 0 },
+				cost: { used: 0, limit: null, percentage: 0 },
 				month: currentMonth,
 				year: currentYear
 			},